@@ -1,54 +1,168 @@
 "use client";
 
 import React, { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
 import {
-  calculateHaulCycleTime,
-  calculateHaulProductivity,
-  calculateFleetSize,
+  DRIVETRAIN_LABELS,
+  getTruckModel,
+  ratedPayload,
+  TRUCK_MODELS,
+  type RouteSegment,
 } from "@/core";
 import { Button, Card, Input, Label, ErrorText } from "@/components/ui";
+import { RouteSegmentsEditor } from "@/components/calculator/RouteSegmentsEditor";
+import { LoaderPanel } from "@/components/calculator/LoaderPanel";
+import { EnergyPanel } from "@/components/calculator/EnergyPanel";
+import { EnergyPriceEditor } from "@/components/calculator/EnergyPriceEditor";
+import { CurrencyEditor } from "@/components/calculator/CurrencyEditor";
+import { SimulationPanel } from "@/components/calculator/SimulationPanel";
+import { MonteCarloPanel } from "@/components/calculator/MonteCarloPanel";
+import { SensitivityPanel } from "@/components/calculator/SensitivityPanel";
+import { GoalSeekPanel } from "@/components/calculator/GoalSeekPanel";
+import { EscalationEditor } from "@/components/calculator/EscalationEditor";
+import { FinancingComparison } from "@/components/calculator/FinancingComparison";
+import { LabourRosterEditor } from "@/components/calculator/LabourRosterEditor";
+import { EmissionsEditor } from "@/components/calculator/EmissionsEditor";
+import { EmissionsReport } from "@/components/calculator/EmissionsReport";
+import { AutonomyPanel, type AutonomyCases } from "@/components/calculator/AutonomyPanel";
+import { PricingPanel } from "@/components/calculator/PricingPanel";
+import { BreakEvenPanel } from "@/components/calculator/BreakEvenPanel";
+import { ScenarioHistory } from "@/components/calculator/ScenarioHistory";
+import { ScenarioImportPanel } from "@/components/calculator/ScenarioImportPanel";
+import { scenarioRepository } from "@/lib/scenarioRepository";
+import { ApiScenarioRepository } from "@/lib/scenarios/apiRepository";
+import type { ScenarioRepository } from "@/lib/scenarios/repository";
+import type { ScenarioRevision } from "@/lib/scenarios/revisions";
 import {
-  scenarioRepository,
-  type CalculatorScenario,
+  exportScenarios,
+  findConflicts,
+  planImport,
+  readScenarioFile,
+  scenarioFileName,
+  type ConflictResolution,
+  type ImportConflict,
+} from "@/lib/scenarios/scenarioFile";
+import {
+  SCENARIO_SCHEMA_VERSION,
+  type EnergySettings,
+  type LoaderSettings,
   type ProductionPlanRow,
-} from "@/lib/scenarioRepository";
+  type Scenario,
+} from "@/lib/scenarios/schema";
 import {
   calcCostBreakdown,
+  compareFinancing,
   COST_MODEL_DEFAULTS,
+  EMISSION_DEFAULTS,
+  ENERGY_PRICE_DEFAULTS,
+  FINANCING_DEFAULTS,
+  FINANCING_MODE_LABELS,
+  FINANCING_MODES,
   type CostModelInput,
-  type YearlyDriver,
 } from "@/lib/cost/calcCost";
+import { LABOUR_ROSTER_DEFAULTS } from "@/lib/cost/labour";
+import { calcCostKpis, calcReportingKpis } from "@/lib/cost/kpis";
+import {
+  DEFAULT_LINE_CURRENCIES,
+  describeCurrencies,
+  fxRate,
+  lineCurrency,
+  quotedCurrencies,
+  reportIn,
+  resetCurrencies,
+  type CostLine,
+  type CurrencyCode,
+} from "@/lib/cost/fx";
+import { calcQuote, type PricingSettings } from "@/lib/cost/pricing";
+import { calcBreakEven, type CurrentHaulageCost } from "@/lib/cost/breakEven";
+import {
+  costDrivers,
+  evaluateFleet,
+  haulDistancesKm as modelHaulDistancesKm,
+  MODEL_VARIABLES,
+  setModelVariable,
+  type FleetEvaluation,
+  type HaulCycleInputs,
+  type ModelInputs,
+  type ModelVariableId,
+} from "@/lib/analysis/model";
+import {
+  describeDistribution,
+  type Distribution,
+  type MonteCarloResult,
+} from "@/lib/analysis/monteCarlo";
+import {
+  runSensitivity,
+  SENSITIVITY_DEFAULT_VARIATION_PERCENT,
+} from "@/lib/analysis/sensitivity";
+import {
+  AUTONOMOUS_CASE_DEFAULTS,
+  compareAutonomy,
+  MANUAL_CASE_DEFAULTS,
+} from "@/lib/analysis/autonomy";
+import {
+  applyCatalogueEntry,
+  getCatalogueEntry,
+  TRUCK_CATALOGUE,
+} from "@/lib/trucks/catalogue";
 
 function fmt(n: number): string {
   return Math.round(n).toLocaleString();
 }
 
-interface HaulCycleInputs {
-  distanceLoadedKm: number;
-  distanceUnloadedKm: number;
-  speedLoaded: number;
-  speedUnloaded: number;
-  loadingTime: number;
-  unloadingTime: number;
+function fmtKpi(n: number | null, digits: number): string {
+  return n === null
+    ? "–"
+    : n.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
 }
 
-interface CalculationResults {
-  cycleTimeSeconds: number;
-  cycleTimeMinutes: number;
-  cyclesPerHour: number;
-  tonnesPerHour: number;
-  tonnesPerTruckYear: number;
-  effectiveFactor: number;
-  yearlyFleet: Array<{
-    year: number;
-    tonnesPerYear: number;
-    rawTrucks: number;
-    trucksRequired: number;
-  }>;
-}
+type CalculationResults = FleetEvaluation;
 
 type CalculationMode = "dynamic" | "static";
 
+// How travel is described: two flat distances, or a multi-segment route
+type HaulInputMode = "distances" | "route";
+
+const DEFAULT_LOADER: LoaderSettings = {
+  enabled: false,
+  bucketSize: 10,
+  fillFactor: 0.9,
+  materialDensity: 1.8,
+  swingTime: 35,
+  spotTime: 30,
+  loaders: 1,
+};
+
+const DEFAULT_ENERGY: EnergySettings = {
+  enabled: false,
+  drivetrain: "diesel",
+  emptyWeightTonnes: 35,
+  batteryKWh: 400,
+  batteryUsablePercent: 80,
+  chargePowerKW: 600,
+  trolleyMinGrade: 4,
+};
+
+const DEFAULT_ROUTE: RouteSegment[] = [
+  { length: 400, grade: 0, surface: "gravel" },
+  { length: 750, grade: 8, surface: "gravel", speedLimit: 30 },
+  { length: 300, grade: 0, surface: "gravel" },
+];
+
+// Scenarios live on the server (/api/scenarios), shared across machines
+const scenarioStore: ScenarioRepository = new ApiScenarioRepository();
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export default function CalculatorClient() {
   // Mode toggle
   const [mode, setMode] = useState<CalculationMode>("dynamic");
@@ -63,6 +177,22 @@ export default function CalculatorClient() {
     unloadingTime: 90,
   });
 
+  // Haul route (used instead of the two distances in route mode)
+  const [haulInputMode, setHaulInputMode] = useState<HaulInputMode>("distances");
+  const [routeSegments, setRouteSegments] = useState<RouteSegment[]>(DEFAULT_ROUTE);
+
+  // Truck performance model (null = manual speeds)
+  const [truckModelId, setTruckModelId] = useState<string | null>(null);
+
+  // Catalogue truck model (null = custom inputs)
+  const [catalogueModelId, setCatalogueModelId] = useState<string | null>(null);
+
+  // Loader and queueing
+  const [loader, setLoader] = useState<LoaderSettings>(DEFAULT_LOADER);
+
+  // Drivetrain and energy model
+  const [energy, setEnergy] = useState<EnergySettings>(DEFAULT_ENERGY);
+
   // Truck and operational inputs
   const [payloadTonnes, setPayloadTonnes] = useState(40);
   const [availabilityPercent, setAvailabilityPercent] = useState(90);
@@ -84,17 +214,63 @@ export default function CalculatorClient() {
   const [pendingCalculation, setPendingCalculation] = useState(false);
 
   // Scenario management
-  const [scenarios, setScenarios] = useState<CalculatorScenario[]>([]);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
   const [scenarioName, setScenarioName] = useState("");
+  // The saved scenario the form was loaded from, for updating it in place
+  const [loadedScenario, setLoadedScenario] = useState<Scenario | null>(null);
+  // Scenario file being imported, waiting for conflicts to be resolved
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    scenarios: Scenario[];
+    conflicts: ImportConflict[];
+    rejected: number;
+  } | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  // Revision history shown for one saved scenario
+  const [history, setHistory] = useState<{ id: string; revisions: ScenarioRevision[] } | null>(
+    null
+  );
   const [pdfNotes, setPdfNotes] = useState("");
 
   // Cost model inputs
   const [costModel, setCostModel] = useState<CostModelInput>(COST_MODEL_DEFAULTS);
-  const [reportingCurrency, setReportingCurrency] = useState<"EUR" | "SEK">("EUR");
+  const [reportingCurrency, setReportingCurrency] = useState<CurrencyCode>("EUR");
+
+  // Customer pricing (off until switched on)
+  const [pricing, setPricing] = useState<PricingSettings | null>(null);
+
+  // Customer's current haulage cost for break-even (off until switched on)
+  const [currentHaulage, setCurrentHaulage] = useState<CurrentHaulageCost | null>(null);
 
-  // Load scenarios on mount
+  // Monte Carlo result for the current inputs
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResult | null>(null);
+
+  // Tornado sensitivity: ± variation applied to each input
+  const [sensitivityVariation, setSensitivityVariation] = useState(
+    SENSITIVITY_DEFAULT_VARIATION_PERCENT
+  );
+
+  // Manual vs. autonomous case settings
+  const [autonomyCases, setAutonomyCases] = useState<AutonomyCases>({
+    manual: MANUAL_CASE_DEFAULTS,
+    autonomous: AUTONOMOUS_CASE_DEFAULTS,
+  });
+
+  // Load scenarios on mount, moving any left in this browser to the server first
   useEffect(() => {
-    setScenarios(scenarioRepository.getAll());
+    let cancelled = false;
+    scenarioRepository
+      .moveTo(scenarioStore)
+      .then(() => scenarioStore.list())
+      .then((list) => {
+        if (!cancelled) setScenarios(list);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load scenarios.");
+      });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   // Auto-calculate in dynamic mode
@@ -110,6 +286,11 @@ export default function CalculatorClient() {
   }, [
     mode,
     haulCycle,
+    haulInputMode,
+    routeSegments,
+    truckModelId,
+    loader,
+    energy,
     payloadTonnes,
     availabilityPercent,
     efficiencyPercent,
@@ -117,25 +298,172 @@ export default function CalculatorClient() {
     productionPlan,
   ]);
 
+  // Current form as model inputs (shared with the analysis tools)
+  const modelInputs = useMemo<ModelInputs>(
+    () => ({
+      haulCycle,
+      route: haulInputMode === "route" ? routeSegments : undefined,
+      truckModelId: truckModelId ?? undefined,
+      loader: loader.enabled ? loader : undefined,
+      energy: energy.enabled ? energy : undefined,
+      payloadTonnes,
+      availabilityPercent,
+      efficiencyPercent,
+      utilizationPercent,
+      productionPlan,
+      costModel,
+    }),
+    [
+      haulCycle,
+      haulInputMode,
+      routeSegments,
+      truckModelId,
+      loader,
+      energy,
+      payloadTonnes,
+      availabilityPercent,
+      efficiencyPercent,
+      utilizationPercent,
+      productionPlan,
+      costModel,
+    ]
+  );
+
+  // A Monte Carlo run only describes the inputs it was run with
+  useEffect(() => {
+    setMonteCarlo(null);
+  }, [modelInputs]);
+
+  // One-way haul distances in km (route length in route mode)
+  const haulDistancesKm = useMemo(
+    () =>
+      modelHaulDistancesKm({
+        haulCycle,
+        route: haulInputMode === "route" ? routeSegments : undefined,
+      }),
+    [haulInputMode, routeSegments, haulCycle]
+  );
+
   // Compute cost breakdown reactively (works in both dynamic and static modes)
+  const drivers = useMemo(
+    () => (results ? costDrivers(results, haulDistancesKm) : null),
+    [results, haulDistancesKm]
+  );
   const costBreakdown = useMemo(() => {
-    if (!results) return null;
+    if (!drivers) return null;
     try {
-      const effectiveCyclesPerYear =
-        ((365 * 24 * 3600) / results.cycleTimeSeconds) * results.effectiveFactor;
-      const kmPerTruckYear =
-        (haulCycle.distanceLoadedKm + haulCycle.distanceUnloadedKm) *
-        effectiveCyclesPerYear;
-      const drivers: YearlyDriver[] = results.yearlyFleet.map((yf) => ({
-        year: yf.year,
-        fleetSize: yf.trucksRequired,
-        kmPerYear: yf.trucksRequired * kmPerTruckYear,
-      }));
       return calcCostBreakdown(costModel, drivers);
     } catch {
       return null;
     }
-  }, [results, costModel, haulCycle.distanceLoadedKm, haulCycle.distanceUnloadedKm]);
+  }, [drivers, costModel]);
+
+  // Cost per tonne, per tonne-km, per truck and per operating hour
+  const costKpis = useMemo(
+    () => (costBreakdown && drivers ? calcCostKpis(costBreakdown, drivers) : null),
+    [costBreakdown, drivers]
+  );
+
+  // Totals and KPIs in the reporting currency (EUR when it has lost its rate,
+  // or has none for some plan year)
+  const currencies = quotedCurrencies(costModel);
+  const reporting = useMemo(() => {
+    if (!costBreakdown || !drivers) return null;
+    const report = (currency: CurrencyCode) => {
+      const view = reportIn(costBreakdown, costModel, currency);
+      return { view, kpis: calcReportingKpis(view, drivers) };
+    };
+    const quoted = quotedCurrencies(costModel).includes(reportingCurrency);
+    try {
+      return { ...report(quoted ? reportingCurrency : "EUR"), error: null };
+    } catch (e) {
+      return {
+        ...report("EUR"),
+        error: e instanceof Error ? e.message : `Cannot report in ${reportingCurrency}`,
+      };
+    }
+  }, [costBreakdown, drivers, costModel, reportingCurrency]);
+  const reportingCode = reporting?.view.currency ?? "EUR";
+
+  // Slider ranges follow a cost line's currency (1 for the default currency)
+  const lineScale = (line: CostLine) => {
+    const year = productionPlan[0]?.year ?? 0;
+    try {
+      const scale =
+        fxRate(costModel, lineCurrency(costModel, line), year) /
+        fxRate(costModel, DEFAULT_LINE_CURRENCIES[line], year);
+      return Number(scale.toPrecision(2));
+    } catch {
+      return 1;
+    }
+  };
+  const showFleetLedger =
+    costModel.truckLifeHours !== undefined || costModel.truckLifeKm !== undefined;
+  const financingMode = costModel.financingMode ?? "purchase";
+
+  // Same plan under every financing mode
+  const financingOptions = useMemo(() => {
+    if (!drivers) return { result: null, error: null };
+    try {
+      return { result: compareFinancing(costModel, drivers), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Invalid financing terms" };
+    }
+  }, [drivers, costModel]);
+
+  // Customer quote on top of the cost breakdown
+  const quote = useMemo(() => {
+    if (!pricing || !costBreakdown) return { result: null, error: null };
+    try {
+      return { result: calcQuote(costBreakdown, pricing, costModel), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Invalid pricing" };
+    }
+  }, [pricing, costBreakdown, costModel]);
+
+  // Payback and IRR against the customer's current haulage cost
+  const breakEven = useMemo(() => {
+    if (!currentHaulage || !costBreakdown || !drivers) return { result: null, error: null };
+    try {
+      return { result: calcBreakEven(costBreakdown, drivers, currentHaulage), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Invalid haulage cost" };
+    }
+  }, [currentHaulage, costBreakdown, drivers]);
+
+  // Tornado dataset for the current inputs
+  const sensitivity = useMemo(() => {
+    if (!results) return { result: null, error: null };
+    try {
+      return { result: runSensitivity(modelInputs, sensitivityVariation), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Invalid variation" };
+    }
+  }, [results, modelInputs, sensitivityVariation]);
+
+  // Dual-fleet TCO for the current inputs
+  const autonomy = useMemo(() => {
+    if (!results) return { result: null, error: null };
+    try {
+      return {
+        result: compareAutonomy(modelInputs, autonomyCases.manual, autonomyCases.autonomous),
+        error: null,
+      };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Invalid fleet case" };
+    }
+  }, [results, modelInputs, autonomyCases]);
+
+  // Write model inputs (e.g. a goal-seek answer) back into the form
+  function applyModelInputs(next: ModelInputs) {
+    setHaulCycle(next.haulCycle);
+    setPayloadTonnes(next.payloadTonnes);
+    setAvailabilityPercent(next.availabilityPercent);
+    setEfficiencyPercent(next.efficiencyPercent);
+    setUtilizationPercent(next.utilizationPercent);
+    setProductionPlan(next.productionPlan);
+    setCostModel(next.costModel);
+  }
 
   // Update production year Mt value
   function updateProductionYearMt(index: number, mt: number) {
@@ -163,51 +491,43 @@ export default function CalculatorClient() {
     }
   }
 
+  // Select a catalogue truck model and fill haul + cost inputs from it
+  function onSelectCatalogueModel(id: string | null) {
+    setCatalogueModelId(id);
+    if (!id) return;
+
+    const entry = getCatalogueEntry(id);
+    setPayloadTonnes(entry.payloadTonnes);
+    setHaulCycle((prev) => ({
+      ...prev,
+      speedLoaded: entry.maxSpeedLoadedKmh,
+      speedUnloaded: entry.maxSpeedEmptyKmh,
+    }));
+    setTruckModelId(entry.id);
+    setEnergy((prev) => ({ ...prev, emptyWeightTonnes: entry.emptyWeightTonnes }));
+    setCostModel((prev) => {
+      const next = applyCatalogueEntry(prev, entry);
+      return next.emissions
+        ? { ...next, emissions: { ...next.emissions, fuelLitresPerKm: entry.fuelBurnLitresPerKm } }
+        : next;
+    });
+  }
+
+  // The energy model needs diesel and electricity prices
+  function onEnergyChange(next: EnergySettings) {
+    setEnergy(next);
+    if (next.enabled) {
+      setCostModel((prev) =>
+        prev.energyPrices ? prev : { ...prev, energyPrices: ENERGY_PRICE_DEFAULTS }
+      );
+    }
+  }
+
   // Calculate button handler
   function performCalculation() {
     setError(null);
     try {
-      // Convert km back to meters for core functions
-      const cycleTimeResult = calculateHaulCycleTime({
-        distanceLoaded: Math.round(haulCycle.distanceLoadedKm * 1000),
-        distanceUnloaded: Math.round(haulCycle.distanceUnloadedKm * 1000),
-        speedLoaded: haulCycle.speedLoaded,
-        speedUnloaded: haulCycle.speedUnloaded,
-        loadingTime: haulCycle.loadingTime,
-        unloadingTime: haulCycle.unloadingTime,
-      });
-
-      const productivityResult = calculateHaulProductivity({
-        cycleTimeSeconds: cycleTimeResult.cycleTimeSeconds,
-        payloadTonnes: payloadTonnes,
-        availability: availabilityPercent / 100,
-        efficiency: efficiencyPercent / 100,
-        utilization: utilizationPercent / 100,
-      });
-
-      const yearlyFleet = productionPlan.map((plan) => {
-        const fleetResult = calculateFleetSize({
-          totalMineTonnesPerYear: plan.tonnesPerYear,
-          tonnesPerTruckYear: productivityResult.tonnesPerTruckYear,
-        });
-
-        return {
-          year: plan.year,
-          tonnesPerYear: plan.tonnesPerYear,
-          rawTrucks: fleetResult.rawTrucks,
-          trucksRequired: fleetResult.trucksRequired,
-        };
-      });
-
-      setResults({
-        cycleTimeSeconds: cycleTimeResult.cycleTimeSeconds,
-        cycleTimeMinutes: cycleTimeResult.cycleTimeSeconds / 60,
-        cyclesPerHour: productivityResult.theoreticalCyclesPerHour,
-        tonnesPerHour: productivityResult.tonnesPerHour,
-        tonnesPerTruckYear: productivityResult.tonnesPerTruckYear,
-        effectiveFactor: productivityResult.effectiveFactor,
-        yearlyFleet,
-      });
+      setResults(evaluateFleet(modelInputs));
       setPendingCalculation(false);
     } catch (e: unknown) {
       setResults(null);
@@ -224,8 +544,45 @@ export default function CalculatorClient() {
     performCalculation();
   }
 
+  // The form as a scenario; identity and revision come from the caller
+  function scenarioFromForm(
+    results: CalculationResults,
+    identity: Pick<Scenario, "id" | "name" | "createdAt" | "revision">
+  ): Scenario {
+    return {
+      schemaVersion: SCENARIO_SCHEMA_VERSION,
+      ...identity,
+      updatedAt: new Date().toISOString(),
+      distanceLoaded: Math.round(haulCycle.distanceLoadedKm * 1000),
+      distanceUnloaded: Math.round(haulCycle.distanceUnloadedKm * 1000),
+      speedLoaded: haulCycle.speedLoaded,
+      speedUnloaded: haulCycle.speedUnloaded,
+      loadingTime: haulCycle.loadingTime,
+      unloadingTime: haulCycle.unloadingTime,
+      route: haulInputMode === "route" ? routeSegments : undefined,
+      loader: loader.enabled ? loader : undefined,
+      energy: energy.enabled ? energy : undefined,
+      truckModelId: truckModelId ?? undefined,
+      catalogueModelId: catalogueModelId ?? undefined,
+      catalogueVersion: catalogueModelId ? TRUCK_CATALOGUE.version : undefined,
+      payloadTonnes,
+      availability: availabilityPercent / 100,
+      efficiency: efficiencyPercent / 100,
+      utilization: utilizationPercent / 100,
+      productionPlan,
+      costModel,
+      pricing: pricing ?? undefined,
+      currentHaulage: currentHaulage ?? undefined,
+      cycleTimeSeconds: results.cycleTimeSeconds,
+      tonnesPerHour: results.tonnesPerHour,
+      tonnesPerTruckYear: results.tonnesPerTruckYear,
+      effectiveFactor: results.effectiveFactor,
+      costKpis: costKpis?.period,
+    };
+  }
+
   // Save scenario
-  function onSaveScenario() {
+  async function onSaveScenario() {
     if (!scenarioName.trim()) {
       setError("Please enter a scenario name.");
       return;
@@ -237,27 +594,17 @@ export default function CalculatorClient() {
     }
 
     try {
-      scenarioRepository.save({
-        name: scenarioName.trim(),
-        distanceLoaded: Math.round(haulCycle.distanceLoadedKm * 1000),
-        distanceUnloaded: Math.round(haulCycle.distanceUnloadedKm * 1000),
-        speedLoaded: haulCycle.speedLoaded,
-        speedUnloaded: haulCycle.speedUnloaded,
-        loadingTime: haulCycle.loadingTime,
-        unloadingTime: haulCycle.unloadingTime,
-        payloadTonnes,
-        availability: availabilityPercent / 100,
-        efficiency: efficiencyPercent / 100,
-        utilization: utilizationPercent / 100,
-        productionPlan,
-        costModel,
-        cycleTimeSeconds: results.cycleTimeSeconds,
-        tonnesPerHour: results.tonnesPerHour,
-        tonnesPerTruckYear: results.tonnesPerTruckYear,
-        effectiveFactor: results.effectiveFactor,
-      });
-
-      setScenarios(scenarioRepository.getAll());
+      const saved = await scenarioStore.save(
+        scenarioFromForm(results, {
+          id: crypto.randomUUID(),
+          name: scenarioName.trim(),
+          createdAt: new Date().toISOString(),
+          revision: 1,
+        })
+      );
+
+      setScenarios(await scenarioStore.list());
+      setLoadedScenario(saved);
       setScenarioName("");
       setError(null);
     } catch (e) {
@@ -265,8 +612,38 @@ export default function CalculatorClient() {
     }
   }
 
+  // Update the loaded scenario in place (a new revision); a typed name renames it
+  async function onUpdateScenario() {
+    if (!loadedScenario || !results) return;
+
+    try {
+      const saved = await scenarioStore.save(
+        scenarioFromForm(results, {
+          id: loadedScenario.id,
+          name: scenarioName.trim() || loadedScenario.name,
+          createdAt: loadedScenario.createdAt,
+          revision: loadedScenario.revision,
+        })
+      );
+
+      setScenarios(await scenarioStore.list());
+      setLoadedScenario(saved);
+      setScenarioName("");
+      setError(null);
+      if (history?.id === saved.id) await onShowHistory(saved.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update scenario.");
+    }
+  }
+
   // Load scenario
-  function onLoadScenario(scenario: CalculatorScenario) {
+  function onLoadScenario(scenario: Scenario) {
+    applyScenario(scenario);
+    setLoadedScenario(scenario);
+  }
+
+  // Fill the form from a scenario or revision snapshot
+  function applyScenario(scenario: Scenario) {
     setHaulCycle({
       distanceLoadedKm: scenario.distanceLoaded / 1000,
       distanceUnloadedKm: scenario.distanceUnloaded / 1000,
@@ -275,40 +652,194 @@ export default function CalculatorClient() {
       loadingTime: scenario.loadingTime,
       unloadingTime: scenario.unloadingTime,
     });
+    setHaulInputMode(scenario.route ? "route" : "distances");
+    if (scenario.route) {
+      setRouteSegments(scenario.route);
+    }
+    setTruckModelId(scenario.truckModelId ?? null);
+    setCatalogueModelId(scenario.catalogueModelId ?? null);
+    setLoader(scenario.loader ?? DEFAULT_LOADER);
+    setEnergy(scenario.energy ?? DEFAULT_ENERGY);
 
     setPayloadTonnes(scenario.payloadTonnes);
     setAvailabilityPercent(Math.round(scenario.availability * 100));
     setEfficiencyPercent(Math.round(scenario.efficiency * 100));
     setUtilizationPercent(Math.round(scenario.utilization * 100));
-    setProductionPlan(
-      scenario.productionPlan || [{ year: 2026, tonnesPerYear: 5_000_000 }]
-    );
-    setCostModel(scenario.costModel || COST_MODEL_DEFAULTS);
+    setProductionPlan(scenario.productionPlan);
+    setCostModel(scenario.costModel);
+    setPricing(scenario.pricing ?? null);
+    setCurrentHaulage(scenario.currentHaulage ?? null);
 
     setError(null);
   }
 
   // Delete scenario
-  function onDeleteScenario(id: string) {
+  async function onDeleteScenario(id: string) {
     try {
-      scenarioRepository.delete(id);
-      setScenarios(scenarioRepository.getAll());
+      await scenarioStore.remove(id);
+      setScenarios(await scenarioStore.list());
+      if (loadedScenario?.id === id) setLoadedScenario(null);
+      if (history?.id === id) setHistory(null);
     } catch (e) {
       setError("Failed to delete scenario.");
     }
   }
 
+  // Export one or all saved scenarios as a scenario file
+  function onExportScenarios(list: Scenario[]) {
+    const exportedAt = new Date().toISOString();
+    const file = exportScenarios(list, exportedAt);
+    downloadBlob(
+      new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }),
+      scenarioFileName(list, exportedAt)
+    );
+  }
+
+  // Read a scenario file; conflicting ids wait for the user to resolve them
+  async function onImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // choosing the same file again should import again
+    if (!file) return;
+
+    const result = readScenarioFile(await file.text());
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    for (const { index, name, error } of result.rejected) {
+      console.warn(`Skipped scenario ${name ?? `#${index + 1}`} in ${file.name}: ${error}`);
+    }
+
+    const conflicts = findConflicts(result.scenarios, scenarios);
+    const pending = {
+      fileName: file.name,
+      scenarios: result.scenarios,
+      conflicts,
+      rejected: result.rejected.length,
+    };
+    if (conflicts.length > 0) {
+      setPendingImport(pending);
+    } else {
+      await runImport(pending, {});
+    }
+  }
+
+  async function runImport(
+    pending: { scenarios: Scenario[]; rejected: number },
+    resolutions: Record<string, ConflictResolution>
+  ) {
+    setPendingImport(null);
+    const plan = planImport(pending.scenarios, scenarios, resolutions);
+    let failed = 0;
+    for (const scenario of plan.toSave) {
+      try {
+        await scenarioStore.save(scenario);
+      } catch (e) {
+        failed++;
+        console.warn(`Failed to import ${scenario.name}:`, e);
+      }
+    }
+
+    try {
+      setScenarios(await scenarioStore.list());
+    } catch {
+      setError("Failed to load scenarios.");
+    }
+    setImportMessage(
+      [
+        `Imported ${plan.toSave.length - failed} scenario(s)`,
+        plan.skipped.length > 0 && `skipped ${plan.skipped.length}`,
+        pending.rejected > 0 && `${pending.rejected} invalid in the file`,
+        failed > 0 && `${failed} failed to save`,
+      ]
+        .filter(Boolean)
+        .join(", ") + "."
+    );
+  }
+
+  // Revision history: show, view, restore, branch
+  async function onShowHistory(id: string) {
+    try {
+      setHistory({ id, revisions: await scenarioStore.revisions(id) });
+    } catch {
+      setError("Failed to load revisions.");
+    }
+  }
+
+  // Loads the snapshot into the form; updating then saves it over the latest
+  function onViewRevision(revision: ScenarioRevision) {
+    const current = scenarios.find((s) => s.id === revision.scenarioId);
+    applyScenario(revision.snapshot);
+    setLoadedScenario(current ?? null);
+  }
+
+  async function onRestoreRevision(revision: ScenarioRevision) {
+    try {
+      const restored = await scenarioStore.restore(revision.scenarioId, revision.revision);
+      if (!restored) throw new Error("Revision not found.");
+      setScenarios(await scenarioStore.list());
+      onLoadScenario(restored);
+      await onShowHistory(restored.id);
+      setError(null);
+    } catch {
+      setError("Failed to restore revision.");
+    }
+  }
+
+  async function onBranchRevision(revision: ScenarioRevision) {
+    try {
+      const branched = await scenarioStore.branch(
+        revision.scenarioId,
+        revision.revision,
+        scenarioName.trim() || undefined
+      );
+      if (!branched) throw new Error("Revision not found.");
+      setScenarios(await scenarioStore.list());
+      onLoadScenario(branched);
+      setScenarioName("");
+      setHistory(null);
+      setError(null);
+    } catch {
+      setError("Failed to branch scenario.");
+    }
+  }
+
   // Export current results to PDF
   async function onExportPdf() {
     if (!results) return;
     const { generateFleetPdf } = await import("@/lib/pdfExport");
     const blob = generateFleetPdf({
-      distanceLoadedKm: haulCycle.distanceLoadedKm,
-      distanceUnloadedKm: haulCycle.distanceUnloadedKm,
-      speedLoaded: haulCycle.speedLoaded,
-      speedUnloaded: haulCycle.speedUnloaded,
-      loadingTime: haulCycle.loadingTime,
+      distanceLoadedKm: haulDistancesKm.loadedKm,
+      distanceUnloadedKm: haulDistancesKm.unloadedKm,
+      speedLoaded: results.speedLoaded ?? haulCycle.speedLoaded,
+      speedUnloaded: results.speedUnloaded ?? haulCycle.speedUnloaded,
+      loadingTime: results.loading
+        ? results.loading.loadingTimeSeconds + results.loading.spotTimeSeconds
+        : haulCycle.loadingTime,
       unloadingTime: haulCycle.unloadingTime,
+      loader: results.loading
+        ? {
+            loaders: loader.loaders,
+            bucketSize: loader.bucketSize,
+            passes: results.loading.passes,
+          }
+        : undefined,
+      truckModelName: truckModelId ? getTruckModel(truckModelId).name : undefined,
+      catalogueModel: catalogueModelId
+        ? {
+            name: getCatalogueEntry(catalogueModelId).name,
+            version: TRUCK_CATALOGUE.version,
+          }
+        : undefined,
+      route: results.routeSegments?.map((r, i) => ({
+        length: r.length,
+        grade: r.grade,
+        rollingResistance: r.rollingResistance,
+        speedLimit: routeSegments[i]?.speedLimit,
+        surface: routeSegments[i]?.surface ?? "gravel",
+        speedLoaded: r.speedLoaded,
+        speedUnloaded: r.speedUnloaded,
+      })),
       payloadTonnes,
       availabilityPercent,
       efficiencyPercent,
@@ -318,18 +849,151 @@ export default function CalculatorClient() {
       tonnesPerTruckYear: results.tonnesPerTruckYear,
       effectiveFactor: results.effectiveFactor,
       yearlyFleet: results.yearlyFleet,
+      costBreakdown: costBreakdown ?? undefined,
+      costKpis: costKpis?.period,
+      discounting:
+        costBreakdown && (costModel.discountRatePercent ?? 0) > 0
+          ? {
+              ratePercent: costModel.discountRatePercent ?? 0,
+              baseYear: costModel.discountBaseYear ?? costBreakdown.rows[0]?.year ?? 0,
+              convention: costModel.discountConvention ?? "end-of-year",
+            }
+          : undefined,
+      escalation:
+        costBreakdown &&
+        (Object.keys(costModel.escalation ?? {}).length > 0 ||
+          (costModel.inflationPercent ?? 0) !== 0)
+          ? {
+              priceBaseYear: costModel.priceBaseYear ?? costBreakdown.rows[0]?.year ?? 0,
+              inflationPercent: costModel.inflationPercent ?? 0,
+              categories: costModel.escalation ?? {},
+            }
+          : undefined,
+      fleetLedger:
+        costBreakdown && showFleetLedger
+          ? {
+              lifeHours: costModel.truckLifeHours,
+              lifeKm: costModel.truckLifeKm,
+              residualPercent: costModel.truckResidualPercent ?? 0,
+            }
+          : undefined,
+      labour: costModel.labour
+        ? {
+            shiftsPerDay: costModel.labour.shiftsPerDay,
+            reliefCrews: costModel.labour.reliefCrews,
+          }
+        : undefined,
+      currencies: costModel.costCurrencies
+        ? {
+            description: describeCurrencies(costModel),
+            reporting:
+              reporting && reportingCode !== "EUR" && reportingCode !== "SEK"
+                ? {
+                    currency: reportingCode,
+                    totalCost: reporting.view.totals.totalCost,
+                    npv: reporting.view.totals.npv,
+                  }
+                : undefined,
+          }
+        : undefined,
+      energy: results.energy
+        ? {
+            drivetrain: DRIVETRAIN_LABELS[results.energy.drivetrain],
+            litresPerKm: results.energy.litresPerKm,
+            kWhPerKm: results.energy.kWhPerKm,
+            chargingSecondsPerCycle: results.energy.chargingSecondsPerCycle,
+            chargingAvailabilityLossPercent:
+              (1 - results.energy.chargingAvailabilityFactor) * 100,
+          }
+        : undefined,
+      emissions: costModel.emissions
+        ? {
+            ...costModel.emissions,
+            energyModel: energy.enabled,
+            tonnesMoved: productionPlan.reduce((sum, p) => sum + p.tonnesPerYear, 0),
+          }
+        : undefined,
+      financing: financingOptions.result
+        ? { selected: financingMode, options: financingOptions.result }
+        : undefined,
+      breakEven: breakEven.result
+        ? { current: currentHaulage!, result: breakEven.result }
+        : undefined,
+      pricing: quote.result
+        ? { currency: quote.result.customer.currency, internal: quote.result.internal }
+        : undefined,
+      uncertainty: monteCarlo
+        ? {
+            iterations: monteCarlo.iterations,
+            failures: monteCarlo.failures,
+            seed: monteCarlo.seed,
+            inputs: (
+              Object.entries(monteCarlo.distributions) as [ModelVariableId, Distribution][]
+            ).map(([id, d]) => ({
+              label: `${MODEL_VARIABLES[id].label} (${MODEL_VARIABLES[id].unit})`,
+              distribution: describeDistribution(d),
+            })),
+            trucksByYear: monteCarlo.trucksByYear,
+            totalCostEUR: monteCarlo.totalCostEUR,
+          }
+        : undefined,
+      autonomy: autonomy.result
+        ? {
+            cases: (["manual", "autonomous"] as const).map((key) => {
+              const c = autonomyCases[key];
+              return {
+                label: key === "manual" ? "Manual" : "Autonomous",
+                description:
+                  `availability ${c.availabilityPercent}%, efficiency ${c.efficiencyPercent}%, ` +
+                  `utilisation ${c.utilizationPercent}%, ` +
+                  `${c.includeFMS ? "FMS" : "no FMS"}, ` +
+                  `license ${(c.truckLicenseEURPerYear / 1000).toFixed(0)}k EUR/truck/yr`,
+              };
+            }),
+            years: autonomy.result.years,
+            paybackYear: autonomy.result.paybackYear,
+            totalSavingsEUR: autonomy.result.totalSavingsEUR,
+            npvSavingsEUR: autonomy.result.npvSavingsEUR,
+          }
+        : undefined,
+      sensitivity: sensitivity.result
+        ? {
+            variationPercent: sensitivity.result.variationPercent,
+            basePeakTrucks: sensitivity.result.base.peakTrucks,
+            baseTotalCostEUR: sensitivity.result.base.totalCostEUR,
+            bars: sensitivity.result.totalCostEUR.map((bar) => {
+              const trucks = sensitivity.result.peakTrucks.find((b) => b.id === bar.id);
+              return {
+                label: bar.label,
+                unit: bar.unit,
+                lowValue: bar.lowValue,
+                highValue: bar.highValue,
+                trucksLow: trucks?.low ?? null,
+                trucksHigh: trucks?.high ?? null,
+                costLow: bar.low,
+                costHigh: bar.high,
+              };
+            }),
+          }
+        : undefined,
       scenarioName: scenarioName.trim() || undefined,
       notes: pdfNotes.trim() || undefined,
       generatedDate: new Date().toISOString(),
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "fleet-sizing-report.pdf";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, "fleet-sizing-report.pdf");
+  }
+
+  // Customer quote: prices and milestones only, no cost or margin
+  async function onExportQuotePdf() {
+    if (!quote.result) return;
+    const { generateQuotePdf } = await import("@/lib/pdfExport");
+    const blob = generateQuotePdf({
+      quote: quote.result.customer,
+      scenarioName: scenarioName.trim() || undefined,
+      notes: pdfNotes.trim() || undefined,
+      generatedDate: new Date().toISOString(),
+    });
+    downloadBlob(blob, "customer-quote.pdf");
   }
 
   return (
@@ -446,147 +1110,234 @@ export default function CalculatorClient() {
             {/* Haul Cycle Parameters */}
             <Card>
               <div className="border-b border-[#30363d] px-6 py-4">
-                <h2 className="text-2xl font-bold text-[#e6edf3]">
-                  Haul Cycle Parameters
-                </h2>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-bold text-[#e6edf3]">
+                    Haul Cycle Parameters
+                  </h2>
+                  {/* Distances / Route Toggle */}
+                  <div className="flex gap-1 rounded-md bg-[#161b22] border border-[#30363d] p-1">
+                    <button
+                      onClick={() => setHaulInputMode("distances")}
+                      className={[
+                        "rounded-md px-4 py-1.5 text-sm font-semibold transition-all",
+                        haulInputMode === "distances"
+                          ? "bg-brand-500 text-white"
+                          : "text-[#8b949e] hover:text-[#e6edf3]",
+                      ].join(" ")}
+                    >
+                      Distances
+                    </button>
+                    <button
+                      onClick={() => setHaulInputMode("route")}
+                      className={[
+                        "rounded-md px-4 py-1.5 text-sm font-semibold transition-all",
+                        haulInputMode === "route"
+                          ? "bg-brand-500 text-white"
+                          : "text-[#8b949e] hover:text-[#e6edf3]",
+                      ].join(" ")}
+                    >
+                      Route
+                    </button>
+                  </div>
+                </div>
+                {haulInputMode === "route" && (
+                  <p className="mt-1 text-sm text-[#8b949e]">
+                    {truckModelId
+                      ? "Segments from loader to dump; speeds from the truck model curves"
+                      : "Segments from loader to dump; speeds below are level-road base speeds"}
+                  </p>
+                )}
               </div>
               <div className="p-6">
-                <div className="grid gap-6 md:grid-cols-2">
-                  {/* Distance Loaded */}
-                  <div>
-                    <div className="mb-2 flex items-baseline justify-between">
-                      <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
-                        Distance Loaded
-                      </span>
-                      <span className="text-lg font-bold text-[#e6edf3]">
-                        {haulCycle.distanceLoadedKm.toFixed(2)} km
-                      </span>
-                    </div>
-                    <input
-                      type="range"
-                      min="0.5"
-                      max="5"
-                      step="0.05"
-                      value={haulCycle.distanceLoadedKm}
-                      onChange={(e) =>
-                        setHaulCycle({
-                          ...haulCycle,
-                          distanceLoadedKm: Number(e.target.value),
-                        })
-                      }
-                      aria-label="distanceLoaded"
-                      className="slider w-full"
+                {haulInputMode === "route" && (
+                  <div className="mb-6">
+                    <RouteSegmentsEditor
+                      segments={routeSegments}
+                      results={results?.routeSegments}
+                      onChange={setRouteSegments}
                     />
                   </div>
-
-                  {/* Distance Unloaded */}
-                  <div>
-                    <div className="mb-2 flex items-baseline justify-between">
-                      <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
-                        Distance Unloaded
-                      </span>
-                      <span className="text-lg font-bold text-[#e6edf3]">
-                        {haulCycle.distanceUnloadedKm.toFixed(2)} km
-                      </span>
+                )}
+                <div className="grid gap-6 md:grid-cols-2">
+                  {haulInputMode === "distances" && (
+                    <>
+                    {/* Distance Loaded */}
+                    <div>
+                      <div className="mb-2 flex items-baseline justify-between">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                          Distance Loaded
+                        </span>
+                        <span className="text-lg font-bold text-[#e6edf3]">
+                          {haulCycle.distanceLoadedKm.toFixed(2)} km
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="5"
+                        step="0.05"
+                        value={haulCycle.distanceLoadedKm}
+                        onChange={(e) =>
+                          setHaulCycle({
+                            ...haulCycle,
+                            distanceLoadedKm: Number(e.target.value),
+                          })
+                        }
+                        aria-label="distanceLoaded"
+                        className="slider w-full"
+                      />
                     </div>
-                    <input
-                      type="range"
-                      min="0.5"
-                      max="5"
-                      step="0.05"
-                      value={haulCycle.distanceUnloadedKm}
-                      onChange={(e) =>
-                        setHaulCycle({
-                          ...haulCycle,
-                          distanceUnloadedKm: Number(e.target.value),
-                        })
-                      }
-                      aria-label="distanceUnloaded"
-                      className="slider w-full"
-                    />
-                  </div>
 
-                  {/* Speed Loaded */}
-                  <div>
-                    <div className="mb-2 flex items-baseline justify-between">
-                      <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
-                        Speed Loaded
-                      </span>
-                      <span className="text-lg font-bold text-[#e6edf3]">
-                        {haulCycle.speedLoaded} km/h
-                      </span>
+                    {/* Distance Unloaded */}
+                    <div>
+                      <div className="mb-2 flex items-baseline justify-between">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                          Distance Unloaded
+                        </span>
+                        <span className="text-lg font-bold text-[#e6edf3]">
+                          {haulCycle.distanceUnloadedKm.toFixed(2)} km
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="5"
+                        step="0.05"
+                        value={haulCycle.distanceUnloadedKm}
+                        onChange={(e) =>
+                          setHaulCycle({
+                            ...haulCycle,
+                            distanceUnloadedKm: Number(e.target.value),
+                          })
+                        }
+                        aria-label="distanceUnloaded"
+                        className="slider w-full"
+                      />
                     </div>
-                    <input
-                      type="range"
-                      min="10"
-                      max="50"
-                      step="1"
-                      value={haulCycle.speedLoaded}
-                      onChange={(e) =>
-                        setHaulCycle({
-                          ...haulCycle,
-                          speedLoaded: Number(e.target.value),
-                        })
-                      }
-                      aria-label="speedLoaded"
-                      className="slider w-full"
-                    />
-                  </div>
+                    </>
+                  )}
 
-                  {/* Speed Unloaded */}
-                  <div>
+                  {/* Truck Performance Model */}
+                  <div className="md:col-span-2">
                     <div className="mb-2 flex items-baseline justify-between">
                       <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
-                        Speed Unloaded
-                      </span>
-                      <span className="text-lg font-bold text-[#e6edf3]">
-                        {haulCycle.speedUnloaded} km/h
+                        Truck Performance
                       </span>
+                      {truckModelId && results?.speedLoaded !== undefined && (
+                        <span className="text-sm font-semibold text-[#8b949e]">
+                          {results.speedLoaded.toFixed(1)} / {results.speedUnloaded?.toFixed(1)} km/h
+                          loaded / empty
+                        </span>
+                      )}
                     </div>
-                    <input
-                      type="range"
-                      min="10"
-                      max="50"
-                      step="1"
-                      value={haulCycle.speedUnloaded}
-                      onChange={(e) =>
-                        setHaulCycle({
-                          ...haulCycle,
-                          speedUnloaded: Number(e.target.value),
-                        })
-                      }
-                      aria-label="speedUnloaded"
-                      className="slider w-full"
-                    />
+                    <select
+                      value={truckModelId ?? ""}
+                      onChange={(e) => {
+                        const id = e.target.value || null;
+                        setTruckModelId(id);
+                        if (id) {
+                          setPayloadTonnes(ratedPayload(getTruckModel(id)));
+                        }
+                      }}
+                      aria-label="truck-model"
+                      className="w-full rounded-md border border-[#30363d] bg-[#0d1117] px-4 py-2.5 text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60"
+                    >
+                      <option value="">Manual speeds</option>
+                      {TRUCK_MODELS.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name} – rimpull/retarder curves
+                        </option>
+                      ))}
+                    </select>
                   </div>
 
-                  {/* Loading Time */}
-                  <div>
-                    <div className="mb-2 flex items-baseline justify-between">
-                      <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
-                        Loading Time
-                      </span>
-                      <span className="text-lg font-bold text-[#e6edf3]">
-                        {haulCycle.loadingTime} sec
-                      </span>
+                  {!truckModelId && (
+                    <>
+                      {/* Speed Loaded */}
+                      <div>
+                        <div className="mb-2 flex items-baseline justify-between">
+                          <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                            Speed Loaded
+                          </span>
+                          <span className="text-lg font-bold text-[#e6edf3]">
+                            {haulCycle.speedLoaded} km/h
+                          </span>
+                        </div>
+                        <input
+                          type="range"
+                          min="10"
+                          max="50"
+                          step="1"
+                          value={haulCycle.speedLoaded}
+                          onChange={(e) =>
+                            setHaulCycle({
+                              ...haulCycle,
+                              speedLoaded: Number(e.target.value),
+                            })
+                          }
+                          aria-label="speedLoaded"
+                          className="slider w-full"
+                        />
+                      </div>
+
+                      {/* Speed Unloaded */}
+                      <div>
+                        <div className="mb-2 flex items-baseline justify-between">
+                          <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                            Speed Unloaded
+                          </span>
+                          <span className="text-lg font-bold text-[#e6edf3]">
+                            {haulCycle.speedUnloaded} km/h
+                          </span>
+                        </div>
+                        <input
+                          type="range"
+                          min="10"
+                          max="50"
+                          step="1"
+                          value={haulCycle.speedUnloaded}
+                          onChange={(e) =>
+                            setHaulCycle({
+                              ...haulCycle,
+                              speedUnloaded: Number(e.target.value),
+                            })
+                          }
+                          aria-label="speedUnloaded"
+                          className="slider w-full"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {/* Loading Time (derived from the loader when enabled) */}
+                  {!loader.enabled && (
+                    <div>
+                      <div className="mb-2 flex items-baseline justify-between">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                          Loading Time
+                        </span>
+                        <span className="text-lg font-bold text-[#e6edf3]">
+                          {haulCycle.loadingTime} sec
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min="30"
+                        max="300"
+                        step="10"
+                        value={haulCycle.loadingTime}
+                        onChange={(e) =>
+                          setHaulCycle({
+                            ...haulCycle,
+                            loadingTime: Number(e.target.value),
+                          })
+                        }
+                        data-testid="input-loadingTime"
+                        aria-label="loadingTime"
+                        className="slider w-full"
+                      />
                     </div>
-                    <input
-                      type="range"
-                      min="30"
-                      max="300"
-                      step="10"
-                      value={haulCycle.loadingTime}
-                      onChange={(e) =>
-                        setHaulCycle({
-                          ...haulCycle,
-                          loadingTime: Number(e.target.value),
-                        })
-                      }
-                      data-testid="input-loadingTime"
-                      aria-label="loadingTime"
-                      className="slider w-full"
-                    />
-                  </div>
+                  )}
 
                   {/* Unloading Time */}
                   <div>
@@ -619,6 +1370,16 @@ export default function CalculatorClient() {
               </div>
             </Card>
 
+            {/* Loader */}
+            <LoaderPanel
+              loader={loader}
+              summary={results?.loading}
+              onChange={setLoader}
+            />
+
+            {/* Energy */}
+            <EnergyPanel energy={energy} summary={results?.energy} onChange={onEnergyChange} />
+
             {/* Truck & Operational Factors */}
             <Card>
               <div className="border-b border-[#30363d] px-6 py-4">
@@ -628,6 +1389,31 @@ export default function CalculatorClient() {
               </div>
               <div className="p-6">
                 <div className="grid gap-6 md:grid-cols-2">
+                  {/* Catalogue Truck Model */}
+                  <div className="md:col-span-2">
+                    <div className="mb-2 flex items-baseline justify-between">
+                      <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                        Truck Model
+                      </span>
+                      <span className="text-xs text-[#484f58]">
+                        Catalogue {TRUCK_CATALOGUE.version}
+                      </span>
+                    </div>
+                    <select
+                      value={catalogueModelId ?? ""}
+                      onChange={(e) => onSelectCatalogueModel(e.target.value || null)}
+                      aria-label="catalogue-model"
+                      className="w-full rounded-md border border-[#30363d] bg-[#0d1117] px-4 py-2.5 text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60"
+                    >
+                      <option value="">Custom</option>
+                      {TRUCK_CATALOGUE.models.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name} – {m.payloadTonnes} t, {(m.truckPriceEUR / 1000).toFixed(0)}k EUR
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   {/* Payload */}
                   <div>
                     <div className="mb-2 flex items-baseline justify-between">
@@ -776,14 +1562,14 @@ export default function CalculatorClient() {
                         Truck Price
                       </span>
                       <span className="text-lg font-bold text-[#e6edf3]">
-                        {(costModel.truckPriceEUR / 1000).toFixed(0)}k EUR
+                        {(costModel.truckPriceEUR / 1000).toFixed(0)}k {lineCurrency(costModel, "truckPrice")}
                       </span>
                     </div>
                     <input
                       type="range"
-                      min="50000"
-                      max="1500000"
-                      step="25000"
+                      min={50000 * lineScale("truckPrice")}
+                      max={1500000 * lineScale("truckPrice")}
+                      step={25000 * lineScale("truckPrice")}
                       value={costModel.truckPriceEUR}
                       onChange={(e) =>
                         setCostModel((prev) => ({
@@ -802,14 +1588,14 @@ export default function CalculatorClient() {
                         License / Truck / Year
                       </span>
                       <span className="text-lg font-bold text-[#e6edf3]">
-                        {(costModel.truckLicenseEURPerYear / 1000).toFixed(0)}k EUR
+                        {(costModel.truckLicenseEURPerYear / 1000).toFixed(0)}k {lineCurrency(costModel, "truckLicense")}
                       </span>
                     </div>
                     <input
                       type="range"
-                      min="5000"
-                      max="200000"
-                      step="5000"
+                      min={5000 * lineScale("truckLicense")}
+                      max={200000 * lineScale("truckLicense")}
+                      step={5000 * lineScale("truckLicense")}
                       value={costModel.truckLicenseEURPerYear}
                       onChange={(e) =>
                         setCostModel((prev) => ({
@@ -828,14 +1614,14 @@ export default function CalculatorClient() {
                         Service Cost
                       </span>
                       <span className="text-lg font-bold text-[#e6edf3]">
-                        {costModel.serviceSEKPerKm.toFixed(1)} SEK/km
+                        {costModel.serviceSEKPerKm.toFixed(1)} {lineCurrency(costModel, "service")}/km
                       </span>
                     </div>
                     <input
                       type="range"
-                      min="0"
-                      max="15"
-                      step="0.5"
+                      min={0}
+                      max={15 * lineScale("service")}
+                      step={0.5 * lineScale("service")}
                       value={costModel.serviceSEKPerKm}
                       onChange={(e) =>
                         setCostModel((prev) => ({
@@ -847,31 +1633,33 @@ export default function CalculatorClient() {
                     />
                   </div>
 
-                  {/* Fuel Cost */}
-                  <div>
-                    <div className="mb-2 flex items-baseline justify-between">
-                      <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
-                        Fuel Cost
-                      </span>
-                      <span className="text-lg font-bold text-[#e6edf3]">
-                        {costModel.fuelSEKPerKm.toFixed(1)} SEK/km
-                      </span>
+                  {/* Fuel Cost (flat rate, replaced by the energy model) */}
+                  {!energy.enabled && (
+                    <div>
+                      <div className="mb-2 flex items-baseline justify-between">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                          Fuel Cost
+                        </span>
+                        <span className="text-lg font-bold text-[#e6edf3]">
+                          {costModel.fuelSEKPerKm.toFixed(1)} {lineCurrency(costModel, "fuel")}/km
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min={0}
+                        max={25 * lineScale("fuel")}
+                        step={0.5 * lineScale("fuel")}
+                        value={costModel.fuelSEKPerKm}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            fuelSEKPerKm: Number(e.target.value),
+                          }))
+                        }
+                        className="slider w-full"
+                      />
                     </div>
-                    <input
-                      type="range"
-                      min="0"
-                      max="25"
-                      step="0.5"
-                      value={costModel.fuelSEKPerKm}
-                      onChange={(e) =>
-                        setCostModel((prev) => ({
-                          ...prev,
-                          fuelSEKPerKm: Number(e.target.value),
-                        }))
-                      }
-                      className="slider w-full"
-                    />
-                  </div>
+                  )}
 
                   {/* Deployment One-Time */}
                   <div>
@@ -880,14 +1668,14 @@ export default function CalculatorClient() {
                         Deployment (one-time)
                       </span>
                       <span className="text-lg font-bold text-[#e6edf3]">
-                        {(costModel.deploymentOneTimeEUR / 1000).toFixed(0)}k EUR
+                        {(costModel.deploymentOneTimeEUR / 1000).toFixed(0)}k {lineCurrency(costModel, "deployment")}
                       </span>
                     </div>
                     <input
                       type="range"
-                      min="0"
-                      max="1000000"
-                      step="25000"
+                      min={0}
+                      max={1000000 * lineScale("deployment")}
+                      step={25000 * lineScale("deployment")}
                       value={costModel.deploymentOneTimeEUR}
                       onChange={(e) =>
                         setCostModel((prev) => ({
@@ -940,14 +1728,14 @@ export default function CalculatorClient() {
                             Annual License
                           </span>
                           <span className="text-lg font-bold text-[#e6edf3]">
-                            {(costModel.fmsAnnualLicenseEUR / 1000).toFixed(0)}k EUR
+                            {(costModel.fmsAnnualLicenseEUR / 1000).toFixed(0)}k {lineCurrency(costModel, "fms")}
                           </span>
                         </div>
                         <input
                           type="range"
-                          min="10000"
-                          max="500000"
-                          step="10000"
+                          min={10000 * lineScale("fms")}
+                          max={500000 * lineScale("fms")}
+                          step={10000 * lineScale("fms")}
                           value={costModel.fmsAnnualLicenseEUR}
                           onChange={(e) =>
                             setCostModel((prev) => ({
@@ -966,14 +1754,14 @@ export default function CalculatorClient() {
                             Deploy (one-time)
                           </span>
                           <span className="text-lg font-bold text-[#e6edf3]">
-                            {(costModel.fmsDeploymentOneTimeEUR / 1000).toFixed(0)}k EUR
+                            {(costModel.fmsDeploymentOneTimeEUR / 1000).toFixed(0)}k {lineCurrency(costModel, "fms")}
                           </span>
                         </div>
                         <input
                           type="range"
-                          min="0"
-                          max="1000000"
-                          step="25000"
+                          min={0}
+                          max={1000000 * lineScale("fms")}
+                          step={25000 * lineScale("fms")}
                           value={costModel.fmsDeploymentOneTimeEUR}
                           onChange={(e) =>
                             setCostModel((prev) => ({
@@ -992,14 +1780,14 @@ export default function CalculatorClient() {
                             HW (one-time)
                           </span>
                           <span className="text-lg font-bold text-[#e6edf3]">
-                            {(costModel.fmsHwOneTimeEUR / 1000).toFixed(0)}k EUR
+                            {(costModel.fmsHwOneTimeEUR / 1000).toFixed(0)}k {lineCurrency(costModel, "fms")}
                           </span>
                         </div>
                         <input
                           type="range"
-                          min="0"
-                          max="500000"
-                          step="25000"
+                          min={0}
+                          max={500000 * lineScale("fms")}
+                          step={25000 * lineScale("fms")}
                           value={costModel.fmsHwOneTimeEUR}
                           onChange={(e) =>
                             setCostModel((prev) => ({
@@ -1013,6 +1801,444 @@ export default function CalculatorClient() {
                     </div>
                   </div>
                 )}
+
+                {/* Discounting */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                    Discounting (NPV)
+                  </div>
+                  <div className="grid gap-6 md:grid-cols-3">
+                    <div>
+                      <div className="mb-2 flex items-baseline justify-between">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                          Discount Rate
+                        </span>
+                        <span className="text-lg font-bold text-[#e6edf3]">
+                          {(costModel.discountRatePercent ?? 0).toFixed(1)}%
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="20"
+                        step="0.5"
+                        value={costModel.discountRatePercent ?? 0}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            discountRatePercent: Number(e.target.value),
+                          }))
+                        }
+                        aria-label="discount-rate"
+                        className="slider w-full"
+                      />
+                    </div>
+                    <div>
+                      <Label>Base Year</Label>
+                      <Input
+                        type="number"
+                        aria-label="discount-base-year"
+                        placeholder={String(productionPlan[0]?.year ?? "")}
+                        value={costModel.discountBaseYear ?? ""}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            discountBaseYear:
+                              e.target.value === "" ? undefined : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Convention</Label>
+                      <div className="mt-1 flex gap-1 rounded-md bg-[#161b22] border border-[#30363d] p-1">
+                        {(["end-of-year", "mid-year"] as const).map((convention) => (
+                          <button
+                            key={convention}
+                            onClick={() =>
+                              setCostModel((prev) => ({
+                                ...prev,
+                                discountConvention: convention,
+                              }))
+                            }
+                            className={[
+                              "flex-1 rounded-md px-3 py-1.5 text-sm font-semibold transition-all",
+                              (costModel.discountConvention ?? "end-of-year") === convention
+                                ? "bg-brand-500 text-white"
+                                : "text-[#8b949e] hover:text-[#e6edf3]",
+                            ].join(" ")}
+                          >
+                            {convention === "end-of-year" ? "End of Year" : "Mid-Year"}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Escalation */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                    Escalation &amp; Inflation
+                  </div>
+                  <div className="mb-4 grid gap-6 md:grid-cols-2">
+                    <div>
+                      <Label>Price Base Year</Label>
+                      <Input
+                        type="number"
+                        aria-label="price-base-year"
+                        placeholder={String(productionPlan[0]?.year ?? "")}
+                        value={costModel.priceBaseYear ?? ""}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            priceBaseYear:
+                              e.target.value === "" ? undefined : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>General Inflation (%/yr, for real totals)</Label>
+                      <Input
+                        type="number"
+                        step="0.5"
+                        aria-label="inflation-rate"
+                        placeholder="0"
+                        value={costModel.inflationPercent ?? ""}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            inflationPercent:
+                              e.target.value === "" ? undefined : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  <EscalationEditor
+                    escalation={costModel.escalation ?? {}}
+                    years={productionPlan.map((p) => p.year)}
+                    onChange={(escalation) =>
+                      setCostModel((prev) => ({ ...prev, escalation }))
+                    }
+                  />
+                </div>
+
+                {/* Energy prices */}
+                {energy.enabled && costModel.energyPrices && (
+                  <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                    <div className="mb-4 text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                      Energy Prices
+                    </div>
+                    <EnergyPriceEditor
+                      prices={costModel.energyPrices}
+                      years={productionPlan.map((p) => p.year)}
+                      currency={lineCurrency(costModel, "fuel")}
+                      onChange={(energyPrices) =>
+                        setCostModel((prev) => ({ ...prev, energyPrices }))
+                      }
+                    />
+                  </div>
+                )}
+
+                {/* Truck life & residual value */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                    Truck Life &amp; Residual Value
+                  </div>
+                  <div className="grid gap-6 md:grid-cols-3">
+                    <div>
+                      <Label>Design Life (hours)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1000"
+                        aria-label="truck-life-hours"
+                        placeholder="Off"
+                        value={costModel.truckLifeHours ?? ""}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            truckLifeHours:
+                              e.target.value === "" ? undefined : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Design Life (km)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="10000"
+                        aria-label="truck-life-km"
+                        placeholder="Off"
+                        value={costModel.truckLifeKm ?? ""}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            truckLifeKm:
+                              e.target.value === "" ? undefined : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Residual at End of Life (%)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="5"
+                        aria-label="truck-residual-percent"
+                        placeholder="0"
+                        value={costModel.truckResidualPercent ?? ""}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            truckResidualPercent:
+                              e.target.value === "" ? undefined : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  <p className="mt-3 text-xs text-[#8b949e]">
+                    Set a design life to replace worn-out trucks and credit resale value when
+                    the fleet shrinks or the plan ends.
+                  </p>
+                </div>
+
+                {/* Financing */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                    Truck Financing
+                  </div>
+                  <div className="mb-4 flex gap-1 rounded-md bg-[#161b22] border border-[#30363d] p-1">
+                    {FINANCING_MODES.map((financingMode) => (
+                      <button
+                        key={financingMode}
+                        onClick={() => setCostModel((prev) => ({ ...prev, financingMode }))}
+                        className={[
+                          "flex-1 rounded-md px-3 py-1.5 text-sm font-semibold transition-all",
+                          (costModel.financingMode ?? "purchase") === financingMode
+                            ? "bg-brand-500 text-white"
+                            : "text-[#8b949e] hover:text-[#e6edf3]",
+                        ].join(" ")}
+                      >
+                        {FINANCING_MODE_LABELS[financingMode]}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid gap-6 md:grid-cols-2">
+                    <div>
+                      <Label>Lease ({lineCurrency(costModel, "truckPrice")} / truck / month)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="500"
+                        aria-label="lease-rate"
+                        value={
+                          costModel.leaseEURPerTruckMonth ??
+                          FINANCING_DEFAULTS.leaseEURPerTruckMonth
+                        }
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            leaseEURPerTruckMonth: Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Loan Interest (%/yr)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        aria-label="loan-interest"
+                        value={
+                          costModel.loanInterestPercent ?? FINANCING_DEFAULTS.loanInterestPercent
+                        }
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            loanInterestPercent: Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Loan Term (years)</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        aria-label="loan-term"
+                        value={costModel.loanTermYears ?? FINANCING_DEFAULTS.loanTermYears}
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            loanTermYears: Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Down Payment (%)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="5"
+                        aria-label="loan-down-payment"
+                        value={
+                          costModel.loanDownPaymentPercent ??
+                          FINANCING_DEFAULTS.loanDownPaymentPercent
+                        }
+                        onChange={(e) =>
+                          setCostModel((prev) => ({
+                            ...prev,
+                            loanDownPaymentPercent: Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Labour roster */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 flex items-center justify-between">
+                    <div>
+                      <div className="text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                        Labour &amp; Shift Roster
+                      </div>
+                      <div className="mt-0.5 text-xs text-[#8b949e]">
+                        Operators, maintenance and supervision from the fleet size
+                      </div>
+                    </div>
+                    <button
+                      aria-label="include-labour"
+                      onClick={() =>
+                        setCostModel((prev) => ({
+                          ...prev,
+                          labour: prev.labour ? undefined : LABOUR_ROSTER_DEFAULTS,
+                        }))
+                      }
+                      className={[
+                        "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+                        costModel.labour ? "bg-brand-500" : "bg-[#30363d]",
+                      ].join(" ")}
+                    >
+                      <span
+                        className={[
+                          "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+                          costModel.labour ? "translate-x-6" : "translate-x-1",
+                        ].join(" ")}
+                      />
+                    </button>
+                  </div>
+                  {costModel.labour && (
+                    <LabourRosterEditor
+                      roster={costModel.labour}
+                      currencies={["SEK", ...currencies.filter((c) => c !== "SEK")]}
+                      onChange={(labour) => setCostModel((prev) => ({ ...prev, labour }))}
+                    />
+                  )}
+                </div>
+
+                {/* Emissions & carbon price */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 flex items-center justify-between">
+                    <div>
+                      <div className="text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                        Emissions &amp; Carbon Price
+                      </div>
+                      <div className="mt-0.5 text-xs text-[#8b949e]">
+                        CO2e from fuel and electricity, priced per tonne
+                      </div>
+                    </div>
+                    <button
+                      aria-label="include-emissions"
+                      onClick={() =>
+                        setCostModel((prev) => ({
+                          ...prev,
+                          emissions: prev.emissions
+                            ? undefined
+                            : {
+                                ...EMISSION_DEFAULTS,
+                                fuelLitresPerKm: catalogueModelId
+                                  ? getCatalogueEntry(catalogueModelId).fuelBurnLitresPerKm
+                                  : EMISSION_DEFAULTS.fuelLitresPerKm,
+                              },
+                        }))
+                      }
+                      className={[
+                        "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+                        costModel.emissions ? "bg-brand-500" : "bg-[#30363d]",
+                      ].join(" ")}
+                    >
+                      <span
+                        className={[
+                          "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+                          costModel.emissions ? "translate-x-6" : "translate-x-1",
+                        ].join(" ")}
+                      />
+                    </button>
+                  </div>
+                  {costModel.emissions && (
+                    <EmissionsEditor
+                      emissions={costModel.emissions}
+                      years={productionPlan.map((p) => p.year)}
+                      energyModel={energy.enabled}
+                      onChange={(emissions) => setCostModel((prev) => ({ ...prev, emissions }))}
+                    />
+                  )}
+                </div>
+
+                {/* Currencies & FX */}
+                <div className="mt-6 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+                  <div className="mb-4 flex items-center justify-between">
+                    <div>
+                      <div className="text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                        Currencies &amp; FX
+                      </div>
+                      <div className="mt-0.5 text-xs text-[#8b949e]">
+                        Currency per cost line and FX rates per year
+                      </div>
+                    </div>
+                    <button
+                      aria-label="multi-currency"
+                      onClick={() =>
+                        setCostModel((prev) =>
+                          prev.costCurrencies
+                            ? resetCurrencies(prev, productionPlan[0]?.year ?? 0)
+                            : { ...prev, costCurrencies: { ...DEFAULT_LINE_CURRENCIES } }
+                        )
+                      }
+                      className={[
+                        "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+                        costModel.costCurrencies ? "bg-brand-500" : "bg-[#30363d]",
+                      ].join(" ")}
+                    >
+                      <span
+                        className={[
+                          "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+                          costModel.costCurrencies ? "translate-x-6" : "translate-x-1",
+                        ].join(" ")}
+                      />
+                    </button>
+                  </div>
+                  {costModel.costCurrencies && (
+                    <CurrencyEditor
+                      model={costModel}
+                      years={productionPlan.map((p) => p.year)}
+                      onChange={setCostModel}
+                    />
+                  )}
+                </div>
               </div>
             </Card>
 
@@ -1119,6 +2345,15 @@ export default function CalculatorClient() {
                                     trucks
                                   </span>
                                 </div>
+                                {year.matchFactor !== undefined && (
+                                  <div
+                                    className="mt-1 text-xs text-[#8b949e]"
+                                    data-testid={`queue-${year.year}`}
+                                  >
+                                    MF {year.matchFactor.toFixed(2)} · queue{" "}
+                                    {(year.queueTimeSeconds ?? 0).toFixed(0)}s
+                                  </div>
+                                )}
                               </td>
                             </tr>
                           ))}
@@ -1192,6 +2427,56 @@ export default function CalculatorClient() {
               </div>
             </Card>
 
+            {/* Discrete-event validation of the first plan year */}
+            {results && (
+              <SimulationPanel
+                base={{
+                  trucks: Math.max(1, results.yearlyFleet[0]?.trucksRequired ?? 1),
+                  loaders: loader.enabled ? loader.loaders : 1,
+                  haulTimeSeconds: results.loadedTravelTime,
+                  returnTimeSeconds: results.unloadedTravelTime,
+                  serviceTimeSeconds: results.serviceTimeSeconds,
+                  dumpTimeSeconds: results.dumpTimeSeconds,
+                  payloadTonnes,
+                }}
+              />
+            )}
+
+            {results && (
+              <SensitivityPanel
+                result={sensitivity.result}
+                error={sensitivity.error}
+                variationPercent={sensitivityVariation}
+                onVariationChange={setSensitivityVariation}
+              />
+            )}
+
+            {results && (
+              <GoalSeekPanel
+                inputs={modelInputs}
+                onApply={(id, value) =>
+                  applyModelInputs(setModelVariable(modelInputs, id, value))
+                }
+              />
+            )}
+
+            {results && (
+              <MonteCarloPanel
+                inputs={modelInputs}
+                result={monteCarlo}
+                onResult={setMonteCarlo}
+              />
+            )}
+
+            {results && (
+              <AutonomyPanel
+                cases={autonomyCases}
+                result={autonomy.result}
+                error={autonomy.error}
+                onCasesChange={setAutonomyCases}
+              />
+            )}
+
             {/* Scenario Management */}
             <Card>
               <div className="border-b border-[#30363d] px-6 py-4">
@@ -1216,7 +2501,57 @@ export default function CalculatorClient() {
                   >
                     Save Current Scenario
                   </Button>
+                  {loadedScenario && (
+                    <>
+                      <Button
+                        aria-label="update-scenario"
+                        onClick={onUpdateScenario}
+                        className="w-full border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+                        disabled={!results}
+                      >
+                        Update &ldquo;{scenarioName.trim() || loadedScenario.name}&rdquo;
+                      </Button>
+                      <p className="text-xs text-[#8b949e]">
+                        Loaded {loadedScenario.name} at revision {loadedScenario.revision}
+                        {loadedScenario.updatedBy && `, last saved by ${loadedScenario.updatedBy}`}
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                {/* Import / Export */}
+                <div className="mb-4 flex gap-2">
+                  <label className="flex-1 cursor-pointer rounded-md border border-[#30363d] bg-[#1c2333] px-3 py-1.5 text-center text-sm font-semibold text-[#58a6ff] hover:bg-[#243040]">
+                    Import File
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      aria-label="import-scenarios-file"
+                      onChange={onImportFile}
+                      className="hidden"
+                    />
+                  </label>
+                  <button
+                    aria-label="export-all-scenarios"
+                    onClick={() => onExportScenarios(scenarios)}
+                    disabled={scenarios.length === 0}
+                    className="flex-1 rounded-md border border-[#30363d] bg-[#1c2333] px-3 py-1.5 text-sm font-semibold text-[#58a6ff] hover:bg-[#243040] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Export All
+                  </button>
                 </div>
+                {importMessage && (
+                  <p className="mb-4 text-xs text-[#8b949e]">{importMessage}</p>
+                )}
+                {pendingImport && (
+                  <ScenarioImportPanel
+                    fileName={pendingImport.fileName}
+                    total={pendingImport.scenarios.length}
+                    conflicts={pendingImport.conflicts}
+                    onConfirm={(resolutions) => runImport(pendingImport, resolutions)}
+                    onCancel={() => setPendingImport(null)}
+                  />
+                )}
 
                 {/* Scenario List */}
                 {scenarios.length === 0 && (
@@ -1225,40 +2560,82 @@ export default function CalculatorClient() {
 
                 {scenarios.length > 0 && (
                   <div className="space-y-2">
-                    <div className="text-sm font-bold text-[#c9d1d9]">
-                      Saved Scenarios
+                    <div className="flex items-center justify-between">
+                      <div className="text-sm font-bold text-[#c9d1d9]">
+                        Saved Scenarios
+                      </div>
+                      {scenarios.length >= 2 && (
+                        <Link
+                          href="/compare"
+                          aria-label="compare-scenarios"
+                          className="text-xs font-semibold text-[#58a6ff] hover:underline"
+                        >
+                          Compare
+                        </Link>
+                      )}
                     </div>
                     <div className="max-h-80 space-y-2 overflow-y-auto">
                       {scenarios.map((scenario) => (
                         <div
                           key={scenario.id}
-                          className="flex items-start gap-3 rounded-md border border-[#30363d] bg-[#0d1117] p-3"
+                          className="rounded-md border border-[#30363d] bg-[#0d1117] p-3"
                         >
-                          <div className="flex-1">
-                            <div className="font-bold text-[#e6edf3]">
-                              {scenario.name}
+                          <div className="flex items-start gap-3">
+                            <div className="flex-1">
+                              <div className="font-bold text-[#e6edf3]">
+                                {scenario.name}
+                              </div>
+                              <div className="mt-1 text-xs text-[#8b949e]">
+                                {new Date(scenario.createdAt).toLocaleDateString()}{" "}
+                                • {scenario.productionPlan?.length || 0} years{" "}
+                                • r{scenario.revision}
+                              </div>
                             </div>
-                            <div className="mt-1 text-xs text-[#8b949e]">
-                              {new Date(scenario.createdAt).toLocaleDateString()}{" "}
-                              • {scenario.productionPlan?.length || 0} years
+                            <div className="flex gap-1">
+                              <button
+                                aria-label={`load-scenario-${scenario.id}`}
+                                onClick={() => onLoadScenario(scenario)}
+                                className="rounded-md bg-[#1c2333] border border-[#30363d] px-3 py-1.5 text-sm font-bold text-[#58a6ff] hover:bg-[#243040]"
+                              >
+                                Load
+                              </button>
+                              <button
+                                aria-label={`history-scenario-${scenario.id}`}
+                                onClick={() =>
+                                  history?.id === scenario.id
+                                    ? setHistory(null)
+                                    : onShowHistory(scenario.id)
+                                }
+                                className="rounded-md px-2 py-1.5 text-sm font-semibold text-[#8b949e] hover:bg-[#243040] hover:text-[#e6edf3]"
+                              >
+                                History
+                              </button>
+                              <button
+                                aria-label={`export-scenario-${scenario.id}`}
+                                onClick={() => onExportScenarios([scenario])}
+                                className="rounded-md px-2 py-1.5 text-sm font-semibold text-[#8b949e] hover:bg-[#243040] hover:text-[#e6edf3]"
+                              >
+                                Export
+                              </button>
+                              <button
+                                aria-label={`delete-scenario-${scenario.id}`}
+                                onClick={() => onDeleteScenario(scenario.id)}
+                                className="rounded-md px-2 py-1.5 text-sm font-semibold text-[#8b949e] hover:bg-red-950/30 hover:text-red-400"
+                              >
+                                ×
+                              </button>
                             </div>
                           </div>
-                          <div className="flex gap-1">
-                            <button
-                              aria-label={`load-scenario-${scenario.id}`}
-                              onClick={() => onLoadScenario(scenario)}
-                              className="rounded-md bg-[#1c2333] border border-[#30363d] px-3 py-1.5 text-sm font-bold text-[#58a6ff] hover:bg-[#243040]"
-                            >
-                              Load
-                            </button>
-                            <button
-                              aria-label={`delete-scenario-${scenario.id}`}
-                              onClick={() => onDeleteScenario(scenario.id)}
-                              className="rounded-md px-2 py-1.5 text-sm font-semibold text-[#8b949e] hover:bg-red-950/30 hover:text-red-400"
-                            >
-                              ×
-                            </button>
-                          </div>
+                          {history?.id === scenario.id && (
+                            <ScenarioHistory
+                              scenarioId={scenario.id}
+                              revisions={history.revisions}
+                              currentRevision={scenario.revision}
+                              onView={onViewRevision}
+                              onRestore={onRestoreRevision}
+                              onBranch={onBranchRevision}
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
@@ -1278,37 +2655,38 @@ export default function CalculatorClient() {
                   Cost Breakdown
                 </h2>
                 <p className="mt-1 text-sm text-[#8b949e]">
-                  CAPEX &amp; OPEX per year
+                  CAPEX &amp; OPEX per year, nominal unless marked real
                 </p>
               </div>
               {/* Currency Toggle */}
-              <div className="flex gap-1 rounded-md bg-[#161b22] border border-[#30363d] p-1">
-                <button
-                  onClick={() => setReportingCurrency("EUR")}
-                  className={[
-                    "rounded-md px-4 py-1.5 text-sm font-semibold transition-all",
-                    reportingCurrency === "EUR"
-                      ? "bg-brand-500 text-white"
-                      : "text-[#8b949e] hover:text-[#e6edf3]",
-                  ].join(" ")}
-                >
-                  EUR
-                </button>
-                <button
-                  onClick={() => setReportingCurrency("SEK")}
-                  className={[
-                    "rounded-md px-4 py-1.5 text-sm font-semibold transition-all",
-                    reportingCurrency === "SEK"
-                      ? "bg-brand-500 text-white"
-                      : "text-[#8b949e] hover:text-[#e6edf3]",
-                  ].join(" ")}
-                >
-                  SEK
-                </button>
+              <div className="flex flex-col items-end gap-2">
+                <div className="flex gap-1 rounded-md bg-[#161b22] border border-[#30363d] p-1">
+                  {currencies.map((c) => (
+                    <button
+                      key={c}
+                      onClick={() => setReportingCurrency(c)}
+                      className={[
+                        "rounded-md px-4 py-1.5 text-sm font-semibold transition-all",
+                        reportingCode === c
+                          ? "bg-brand-500 text-white"
+                          : "text-[#8b949e] hover:text-[#e6edf3]",
+                      ].join(" ")}
+                    >
+                      {c}
+                    </button>
+                  ))}
+                </div>
+                {reporting?.error && (
+                  <ErrorText>
+                    <span data-testid="reporting-error">
+                      {reporting.error}; showing EUR
+                    </span>
+                  </ErrorText>
+                )}
               </div>
             </div>
             <div className="overflow-x-auto p-6">
-              <table className="w-full min-w-[900px]">
+              <table className="w-full min-w-[1200px]">
                 <thead>
                   <tr className="border-b border-[#30363d]">
                     <th className="pb-3 pr-3 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
@@ -1328,6 +2706,24 @@ export default function CalculatorClient() {
                       CAPEX One-time{" "}
                       <span className="text-[#484f58]">(EUR)</span>
                     </th>
+                    {financingMode !== "purchase" && (
+                      <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                        {financingMode === "lease" ? "Lease" : "Loan"}{" "}
+                        <span className="text-[#484f58]">(EUR)</span>
+                      </th>
+                    )}
+                    {showFleetLedger && (
+                      <>
+                        <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                          Replacement{" "}
+                          <span className="text-[#484f58]">(EUR)</span>
+                        </th>
+                        <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#3fb950]">
+                          Residual{" "}
+                          <span className="text-[#484f58]">(EUR)</span>
+                        </th>
+                      </>
+                    )}
                     <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
                       OPEX License{" "}
                       <span className="text-[#484f58]">(EUR)</span>
@@ -1336,50 +2732,146 @@ export default function CalculatorClient() {
                       OPEX Variable{" "}
                       <span className="text-[#484f58]">(SEK)</span>
                     </th>
-                    <th className="pb-3 pl-3 text-right text-xs font-bold uppercase tracking-wider text-[#e6edf3]">
+                    {costModel.labour && (
+                      <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                        Labour{" "}
+                        <span className="text-[#484f58]">({reportingCode})</span>
+                      </th>
+                    )}
+                    {costModel.emissions && (
+                      <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                        Carbon{" "}
+                        <span className="text-[#484f58]">(EUR)</span>
+                      </th>
+                    )}
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#e6edf3]">
                       Total{" "}
                       <span className="text-[#58a6ff]">
-                        ({reportingCurrency})
+                        ({reportingCode})
                       </span>
                     </th>
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      Real{" "}
+                      <span className="text-[#484f58]">({reportingCode})</span>
+                    </th>
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      Discounted{" "}
+                      <span className="text-[#484f58]">({reportingCode})</span>
+                    </th>
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      Cumulative PV{" "}
+                      <span className="text-[#484f58]">({reportingCode})</span>
+                    </th>
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#3fb950]">
+                      Cost / t{" "}
+                      <span className="text-[#484f58]">({reportingCode})</span>
+                    </th>
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      Cost / t·km{" "}
+                      <span className="text-[#484f58]">({reportingCode})</span>
+                    </th>
+                    <th className="pb-3 px-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      CAPEX / Truck{" "}
+                      <span className="text-[#484f58]">(EUR)</span>
+                    </th>
+                    <th className="pb-3 pl-3 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      OPEX / Op. Hour{" "}
+                      <span className="text-[#484f58]">({reportingCode})</span>
+                    </th>
                   </tr>
                 </thead>
                 <tbody>
-                  {costBreakdown.rows.map((row) => (
-                    <tr
-                      key={row.year}
-                      className="border-b border-[#30363d] transition-colors hover:bg-[#1c2333]"
-                    >
-                      <td className="py-3 pr-3 text-sm font-bold text-[#e6edf3]">
-                        {row.year}
-                      </td>
-                      <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
-                        {row.fleetSize}
-                      </td>
-                      <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
-                        {fmt(row.kmPerYear)}
-                      </td>
-                      <td className="py-3 px-3 text-right text-sm font-semibold text-[#58a6ff]">
-                        {fmt(row.capexTrucks)}
-                      </td>
-                      <td className="py-3 px-3 text-right text-sm font-semibold text-[#58a6ff]">
-                        {fmt(row.capexDeployment + row.capexFms)}
-                      </td>
-                      <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
-                        {fmt(row.opexTotalEUR)}
-                      </td>
-                      <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
-                        {fmt(row.opexTotalSEK)}
-                      </td>
-                      <td className="py-3 pl-3 text-right text-sm font-bold text-[#e6edf3]">
-                        {fmt(
-                          reportingCurrency === "EUR"
-                            ? row.totalCostEUR
-                            : row.totalCostSEK,
+                  {costBreakdown.rows.map((row, i) => {
+                    const kpi = costKpis?.rows[i];
+                    const rep = reporting?.view.rows[i];
+                    const repKpi = reporting?.kpis.rows[i];
+                    return (
+                      <tr
+                        key={row.year}
+                        className="border-b border-[#30363d] transition-colors hover:bg-[#1c2333]"
+                      >
+                        <td className="py-3 pr-3 text-sm font-bold text-[#e6edf3]">
+                          {row.year}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {row.fleetSize}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmt(row.kmPerYear)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm font-semibold text-[#58a6ff]">
+                          {fmt(row.capexTrucks)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm font-semibold text-[#58a6ff]">
+                          {fmt(row.capexDeployment + row.capexFms)}
+                        </td>
+                        {financingMode !== "purchase" && (
+                          <td className="py-3 px-3 text-right text-sm font-semibold text-[#58a6ff]">
+                            {fmt(row.truckFinancingEUR)}
+                          </td>
                         )}
-                      </td>
-                    </tr>
-                  ))}
+                        {showFleetLedger && (
+                          <>
+                            <td className="py-3 px-3 text-right text-sm font-semibold text-[#58a6ff]">
+                              {fmt(row.capexReplacement)}
+                            </td>
+                            <td className="py-3 px-3 text-right text-sm font-semibold text-[#3fb950]">
+                              {row.residualCreditEUR > 0 ? `−${fmt(row.residualCreditEUR)}` : fmt(0)}
+                            </td>
+                          </>
+                        )}
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmt(row.opexTotalEUR - row.opexLabourEUR - row.opexCarbonEUR)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmt(row.opexTotalSEK - row.opexLabourSEK)}
+                        </td>
+                        {costModel.labour && (
+                          <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                            {fmt(rep?.labour ?? 0)}
+                          </td>
+                        )}
+                        {costModel.emissions && (
+                          <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                            {fmt(row.opexCarbonEUR)}
+                          </td>
+                        )}
+                        <td className="py-3 px-3 text-right text-sm font-bold text-[#e6edf3]">
+                          {fmt(rep?.totalCost ?? 0)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmt(rep?.realCost ?? 0)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmt(rep?.discountedCost ?? 0)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmt(rep?.cumulativeDiscounted ?? 0)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm font-semibold text-[#3fb950]">
+                          {fmtKpi(
+                            repKpi?.costPerTonne ?? null,
+                            2,
+                          )}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmtKpi(
+                            repKpi?.costPerTonneKm ?? null,
+                            3,
+                          )}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm text-[#c9d1d9]">
+                          {fmtKpi(kpi?.capexPerTruckEUR ?? null, 0)}
+                        </td>
+                        <td className="py-3 pl-3 text-right text-sm text-[#c9d1d9]">
+                          {fmtKpi(
+                            repKpi?.opexPerHour ?? null,
+                            0,
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
                 <tfoot>
                   <tr className="border-t-2 border-[#30363d] bg-[#1c2333]">
@@ -1395,17 +2887,85 @@ export default function CalculatorClient() {
                     <td className="py-3 px-3 text-right text-sm font-bold text-[#58a6ff]">
                       {fmt(costBreakdown.periodTotals.capexOneTimeEUR)}
                     </td>
+                    {financingMode !== "purchase" && (
+                      <td className="py-3 px-3 text-right text-sm font-bold text-[#58a6ff]">
+                        {fmt(costBreakdown.periodTotals.truckFinancingEUR)}
+                      </td>
+                    )}
+                    {showFleetLedger && (
+                      <>
+                        <td className="py-3 px-3 text-right text-sm font-bold text-[#58a6ff]">
+                          {fmt(costBreakdown.periodTotals.capexReplacementEUR)}
+                        </td>
+                        <td className="py-3 px-3 text-right text-sm font-bold text-[#3fb950]">
+                          {costBreakdown.periodTotals.residualCreditEUR > 0
+                            ? `−${fmt(costBreakdown.periodTotals.residualCreditEUR)}`
+                            : fmt(0)}
+                        </td>
+                      </>
+                    )}
+                    <td className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]">
+                      {fmt(
+                        costBreakdown.periodTotals.opexTotalEUR -
+                          costBreakdown.periodTotals.opexLabourEUR -
+                          costBreakdown.periodTotals.opexCarbonEUR,
+                      )}
+                    </td>
+                    <td className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]">
+                      {fmt(
+                        costBreakdown.periodTotals.opexTotalSEK -
+                          costBreakdown.periodTotals.opexLabourSEK,
+                      )}
+                    </td>
+                    {costModel.labour && (
+                      <td className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]">
+                        {fmt(reporting?.view.totals.labour ?? 0)}
+                      </td>
+                    )}
+                    {costModel.emissions && (
+                      <td className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]">
+                        {fmt(costBreakdown.periodTotals.opexCarbonEUR)}
+                      </td>
+                    )}
+                    <td className="py-3 px-3 text-right text-sm font-bold text-[#e6edf3]">
+                      {fmt(reporting?.view.totals.totalCost ?? 0)}
+                    </td>
+                    <td
+                      className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]"
+                      data-testid="real-total"
+                    >
+                      {fmt(reporting?.view.totals.realTotalCost ?? 0)}
+                    </td>
+                    <td
+                      className="py-3 px-3 text-right text-sm font-bold text-[#58a6ff]"
+                      colSpan={2}
+                      data-testid="npv"
+                    >
+                      NPV{" "}
+                      {fmt(reporting?.view.totals.npv ?? 0)}
+                    </td>
+                    <td
+                      className="py-3 px-3 text-right text-sm font-bold text-[#3fb950]"
+                      data-testid="cost-per-tonne"
+                    >
+                      {fmtKpi(
+                        reporting?.kpis.period.costPerTonne ?? null,
+                        2,
+                      )}
+                    </td>
                     <td className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]">
-                      {fmt(costBreakdown.periodTotals.opexTotalEUR)}
+                      {fmtKpi(
+                        reporting?.kpis.period.costPerTonneKm ?? null,
+                        3,
+                      )}
                     </td>
                     <td className="py-3 px-3 text-right text-sm font-bold text-[#c9d1d9]">
-                      {fmt(costBreakdown.periodTotals.opexTotalSEK)}
+                      {fmtKpi(costKpis?.period.capexPerTruckEUR ?? null, 0)}
                     </td>
-                    <td className="py-3 pl-3 text-right text-sm font-bold text-[#e6edf3]">
-                      {fmt(
-                        reportingCurrency === "EUR"
-                          ? costBreakdown.periodTotals.totalCostEUR
-                          : costBreakdown.periodTotals.totalCostSEK,
+                    <td className="py-3 pl-3 text-right text-sm font-bold text-[#c9d1d9]">
+                      {fmtKpi(
+                        reporting?.kpis.period.opexPerHour ?? null,
+                        0,
                       )}
                     </td>
                   </tr>
@@ -1414,6 +2974,44 @@ export default function CalculatorClient() {
             </div>
           </Card>
         )}
+
+        {costBreakdown && costModel.emissions && (
+          <EmissionsReport
+            costs={costBreakdown}
+            tonnesMoved={productionPlan.reduce((sum, p) => sum + p.tonnesPerYear, 0)}
+          />
+        )}
+
+        {(financingOptions.result || financingOptions.error) && (
+          <FinancingComparison
+            options={financingOptions.result}
+            error={financingOptions.error}
+            selected={financingMode}
+            onSelect={(mode) =>
+              setCostModel((prev) => ({ ...prev, financingMode: mode }))
+            }
+          />
+        )}
+
+        {costBreakdown && (
+          <PricingPanel
+            pricing={pricing}
+            quote={quote.result}
+            error={quote.error}
+            currencies={currencies}
+            onChange={setPricing}
+            onExportQuote={onExportQuotePdf}
+          />
+        )}
+
+        {costBreakdown && (
+          <BreakEvenPanel
+            current={currentHaulage}
+            result={breakEven.result}
+            error={breakEven.error}
+            onChange={setCurrentHaulage}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getScenarioStore } from "@/lib/scenarios/fileRepository";
+import { invalidScenario, notFound, requireUser } from "@/lib/scenarios/http";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Body { revision, name? }: a new scenario starting from that revision
+export async function POST(req: Request, { params }: Context) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  if (!Number.isInteger(json?.revision)) return invalidScenario("revision must be an integer");
+  if (json.name !== undefined && typeof json.name !== "string") {
+    return invalidScenario("name must be a string");
+  }
+
+  const scenario = await getScenarioStore().branch(id, json.revision, json.name, user.displayName);
+  if (!scenario) return notFound("Scenario revision not found.");
+  return NextResponse.json({ ok: true, scenario }, { status: 201 });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getScenarioStore } from "@/lib/scenarios/fileRepository";
+import { invalidScenario, notFound, requireUser } from "@/lib/scenarios/http";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Body { revision }: copies that revision forward as the newest
+export async function POST(req: Request, { params }: Context) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  if (!Number.isInteger(json?.revision)) return invalidScenario("revision must be an integer");
+
+  const scenario = await getScenarioStore().restore(id, json.revision, user.displayName);
+  if (!scenario) return notFound("Scenario revision not found.");
+  return NextResponse.json({ ok: true, scenario });
+}
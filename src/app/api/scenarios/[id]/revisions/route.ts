@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getScenarioStore } from "@/lib/scenarios/fileRepository";
+import { notFound, requireUser } from "@/lib/scenarios/http";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Every revision with its snapshot, oldest first
+export async function GET(_req: Request, { params }: Context) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const store = getScenarioStore();
+  if (!(await store.get(id))) return notFound();
+  const revisions = await store.revisions(id);
+  return NextResponse.json({ ok: true, revisions });
+}
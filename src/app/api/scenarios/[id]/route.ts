@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getScenarioStore } from "@/lib/scenarios/fileRepository";
+import { conflict, invalidScenario, notFound, requireUser } from "@/lib/scenarios/http";
+import { RevisionConflictError } from "@/lib/scenarios/revisions";
+import { parseScenario } from "@/lib/scenarios/schema";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Context) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const scenario = await getScenarioStore().get(id);
+  if (!scenario) return notFound();
+  return NextResponse.json({ ok: true, scenario });
+}
+
+// Create, or update in place at the revision the client loaded (see revisions.ts)
+export async function PUT(req: Request, { params }: Context) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await req.json().catch(() => null);
+  const parsed = parseScenario(json, { repair: false });
+  if (!parsed.ok) return invalidScenario(parsed.error);
+  if (parsed.scenario.id !== id) return invalidScenario("id does not match the URL");
+
+  const store = getScenarioStore();
+  const existed = (await store.get(id)) !== null;
+  try {
+    const scenario = await store.save(parsed.scenario, user.displayName);
+    return NextResponse.json({ ok: true, scenario }, { status: existed ? 200 : 201 });
+  } catch (e) {
+    if (e instanceof RevisionConflictError) return conflict(e.message);
+    throw e;
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Context) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const store = getScenarioStore();
+  if (!(await store.get(id))) return notFound();
+  await store.remove(id);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getScenarioStore } from "@/lib/scenarios/fileRepository";
+import { invalidScenario, requireUser } from "@/lib/scenarios/http";
+import { parseScenario } from "@/lib/scenarios/schema";
+
+export async function GET() {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const scenarios = await getScenarioStore().list();
+  return NextResponse.json({ ok: true, scenarios });
+}
+
+// Create: the server assigns id and createdAt; the store numbers the revision
+export async function POST(req: Request) {
+  const user = await requireUser();
+  if (user instanceof NextResponse) return user;
+
+  const json = await req.json().catch(() => null);
+  if (!json || typeof json !== "object") return invalidScenario("not an object");
+  const now = new Date().toISOString();
+  const parsed = parseScenario(
+    { ...json, id: crypto.randomUUID(), createdAt: now, revision: 1, updatedAt: now },
+    { repair: false }
+  );
+  if (!parsed.ok) return invalidScenario(parsed.error);
+
+  const scenario = await getScenarioStore().save(parsed.scenario, user.displayName);
+  return NextResponse.json({ ok: true, scenario }, { status: 201 });
+}
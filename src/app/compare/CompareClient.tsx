@@ -0,0 +1,414 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button, Card, ErrorText } from "@/components/ui";
+import {
+  COMPARISON_COLOURS,
+  ComparisonChart,
+} from "@/components/calculator/ComparisonChart";
+import { ApiScenarioRepository } from "@/lib/scenarios/apiRepository";
+import {
+  compareScenarios,
+  MAX_COMPARED,
+  MIN_COMPARED,
+  type ComparedValue,
+} from "@/lib/scenarios/comparison";
+import type { ScenarioRepository } from "@/lib/scenarios/repository";
+import type { Scenario } from "@/lib/scenarios/schema";
+
+const scenarioStore: ScenarioRepository = new ApiScenarioRepository();
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+const thLeft =
+  "pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+const fmtMEUR = (n: number) => `${(n / 1_000_000).toFixed(2)} MEUR`;
+const fmtNumber = (n: number, digits = 0) =>
+  n.toLocaleString("en-US", { maximumFractionDigits: digits });
+
+/** Value with its delta against the baseline; higher is not always better, so no colour */
+function DeltaCell({
+  value,
+  format,
+}: {
+  value: ComparedValue | null;
+  format: (n: number) => string;
+}) {
+  if (!value) {
+    return <td className="py-2 px-2 text-right text-sm text-[#8b949e]">–</td>;
+  }
+  return (
+    <td className="py-2 px-2 text-right text-sm">
+      <div className="text-[#e6edf3]">{format(value.value)}</div>
+      {value.delta !== null && (
+        <div className="text-xs text-[#8b949e]">
+          {value.delta >= 0 ? "+" : "−"}
+          {format(Math.abs(value.delta))}
+          {value.deltaPercent !== null &&
+            ` (${value.deltaPercent >= 0 ? "+" : "−"}${Math.abs(value.deltaPercent).toFixed(1)}%)`}
+        </div>
+      )}
+    </td>
+  );
+}
+
+/**
+ * Two to four saved scenarios side by side (see compareScenarios): the
+ * inputs that differ, yearly fleet and cost with deltas against the
+ * baseline, overlaid charts and a PDF of the same.
+ */
+export default function CompareClient({ initialIds }: { initialIds: string[] }) {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  // Selection order is column order; the first is the baseline
+  const [selectedIds, setSelectedIds] = useState<string[]>(initialIds.slice(0, MAX_COMPARED));
+  const [error, setError] = useState<string | null>(null);
+  const [showAllInputs, setShowAllInputs] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    scenarioStore
+      .list()
+      .then((list) => {
+        if (cancelled) return;
+        setScenarios(list);
+        setSelectedIds((ids) => ids.filter((id) => list.some((s) => s.id === id)));
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load scenarios.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selected = useMemo(
+    () =>
+      selectedIds
+        .map((id) => scenarios.find((s) => s.id === id))
+        .filter((s): s is Scenario => s !== undefined),
+    [selectedIds, scenarios]
+  );
+
+  const comparison = useMemo(
+    () =>
+      selected.length >= MIN_COMPARED && selected.length <= MAX_COMPARED
+        ? compareScenarios(selected)
+        : null,
+    [selected]
+  );
+
+  function toggle(id: string) {
+    setSelectedIds((ids) =>
+      ids.includes(id)
+        ? ids.filter((i) => i !== id)
+        : ids.length < MAX_COMPARED
+          ? [...ids, id]
+          : ids
+    );
+  }
+
+  function makeBaseline(id: string) {
+    setSelectedIds((ids) => [id, ...ids.filter((i) => i !== id)]);
+  }
+
+  async function onExportPdf() {
+    if (!comparison) return;
+    const { generateComparisonPdf } = await import("@/lib/pdfExport");
+    const blob = generateComparisonPdf({
+      comparison,
+      generatedDate: new Date().toISOString(),
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "scenario-comparison.pdf";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  const names = selected.map((s) => s.name);
+  const yearTables: Array<{
+    title: string;
+    key: "trucks" | "capexEUR" | "totalCostEUR";
+    format: (n: number) => string;
+  }> = [
+    { title: "Trucks Required", key: "trucks", format: (n) => fmtNumber(n) },
+    { title: "CAPEX", key: "capexEUR", format: fmtMEUR },
+    { title: "Total Cost", key: "totalCostEUR", format: fmtMEUR },
+  ];
+
+  return (
+    <div className="min-h-screen bg-[#0d1117] text-[#e6edf3]">
+      <div className="mx-auto max-w-[1600px] px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex items-center justify-between border-b border-[#30363d] pb-6">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-[#e6edf3]">
+              Compare Scenarios
+            </h1>
+            <p className="mt-1 text-sm text-[#8b949e]">
+              Pick {MIN_COMPARED} to {MAX_COMPARED} saved scenarios; deltas are against the
+              baseline
+            </p>
+          </div>
+          <Button
+            aria-label="export-comparison-pdf"
+            onClick={onExportPdf}
+            disabled={!comparison}
+            className="border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040] px-4 py-2 text-sm"
+          >
+            Export PDF
+          </Button>
+        </div>
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        {/* Selection */}
+        <Card>
+          <div className="border-b border-[#30363d] px-6 py-4">
+            <h2 className="text-xl font-bold text-[#e6edf3]">Scenarios</h2>
+          </div>
+          <div className="p-6">
+            {scenarios.length === 0 && (
+              <p className="text-sm text-[#8b949e]">No saved scenarios yet.</p>
+            )}
+            <div className="grid grid-cols-1 gap-2 md:grid-cols-2 xl:grid-cols-4">
+              {scenarios.map((scenario) => {
+                const position = selectedIds.indexOf(scenario.id);
+                const isSelected = position >= 0;
+                return (
+                  <div
+                    key={scenario.id}
+                    className={[
+                      "flex items-center gap-3 rounded-md border bg-[#0d1117] p-3",
+                      isSelected ? "border-brand-500" : "border-[#30363d]",
+                    ].join(" ")}
+                  >
+                    <input
+                      type="checkbox"
+                      aria-label={`compare-select-${scenario.id}`}
+                      checked={isSelected}
+                      disabled={!isSelected && selectedIds.length >= MAX_COMPARED}
+                      onChange={() => toggle(scenario.id)}
+                    />
+                    <div className="flex-1">
+                      <div className="font-bold text-[#e6edf3]">
+                        {isSelected && (
+                          <span style={{ color: COMPARISON_COLOURS[position] }}>■ </span>
+                        )}
+                        {scenario.name}
+                      </div>
+                      <div className="text-xs text-[#8b949e]">
+                        r{scenario.revision} • {scenario.productionPlan.length} years
+                      </div>
+                    </div>
+                    {position === 0 ? (
+                      <span className="text-xs font-semibold text-[#8b949e]">Baseline</span>
+                    ) : (
+                      isSelected && (
+                        <button
+                          aria-label={`compare-baseline-${scenario.id}`}
+                          onClick={() => makeBaseline(scenario.id)}
+                          className="rounded-md px-2 py-1 text-xs font-semibold text-[#58a6ff] hover:bg-[#243040]"
+                        >
+                          Make baseline
+                        </button>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </Card>
+
+        {comparison && (
+          <>
+            {comparison.scenarios
+              .filter((c) => c.error)
+              .map((c) => (
+                <ErrorText key={c.scenario.id}>
+                  {c.scenario.name} could not be evaluated: {c.error}
+                </ErrorText>
+              ))}
+
+            {/* Totals */}
+            <Card>
+              <div className="border-b border-[#30363d] px-6 py-4">
+                <h2 className="text-xl font-bold text-[#e6edf3]">Summary</h2>
+              </div>
+              <div className="overflow-x-auto p-6">
+                <table className="w-full" data-testid="comparison-totals">
+                  <thead>
+                    <tr className="border-b border-[#30363d]">
+                      <th className={thLeft}>Metric</th>
+                      {names.map((name, i) => (
+                        <th key={i} className={th}>
+                          {name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.totals.map((t) => (
+                      <tr key={t.label} className="border-b border-[#30363d]">
+                        <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">
+                          {t.label}
+                        </td>
+                        {t.values.map((v, i) => (
+                          <DeltaCell
+                            key={i}
+                            value={v}
+                            format={
+                              t.unit === "EUR"
+                                ? fmtMEUR
+                                : (n) =>
+                                    `${fmtNumber(n, t.unit === "trucks" ? 0 : 2)} ${t.unit}`
+                            }
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            {/* Inputs */}
+            <Card>
+              <div className="border-b border-[#30363d] px-6 py-4 flex items-center justify-between">
+                <h2 className="text-xl font-bold text-[#e6edf3]">Inputs</h2>
+                <div
+                  onClick={() => setShowAllInputs(!showAllInputs)}
+                  aria-label="show-all-inputs-toggle"
+                  className={[
+                    "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+                    showAllInputs ? "bg-brand-500" : "bg-[#30363d]",
+                  ].join(" ")}
+                >
+                  <span
+                    className={[
+                      "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+                      showAllInputs ? "translate-x-6" : "translate-x-1",
+                    ].join(" ")}
+                  />
+                </div>
+              </div>
+              <div className="overflow-x-auto p-6">
+                <p className="mb-3 text-xs text-[#8b949e]">
+                  {showAllInputs ? "All inputs; differences highlighted" : "Only inputs that differ"}
+                </p>
+                <table className="w-full" data-testid="comparison-inputs">
+                  <thead>
+                    <tr className="border-b border-[#30363d]">
+                      <th className={thLeft}>Input</th>
+                      {names.map((name, i) => (
+                        <th key={i} className={th}>
+                          {name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.inputs
+                      .filter((row) => showAllInputs || row.differs)
+                      .map((row) => (
+                        <tr key={row.label} className="border-b border-[#30363d]">
+                          <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">
+                            {row.label}
+                          </td>
+                          {row.values.map((v, i) => (
+                            <td
+                              key={i}
+                              className={[
+                                "py-2 px-2 text-right text-sm",
+                                i > 0 && v !== row.values[0]
+                                  ? "font-semibold text-[#d29922]"
+                                  : "text-[#c9d1d9]",
+                              ].join(" ")}
+                            >
+                              {v}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    {!showAllInputs && comparison.inputs.every((row) => !row.differs) && (
+                      <tr>
+                        <td colSpan={names.length + 1} className="py-2 text-sm text-[#8b949e]">
+                          The inputs are the same.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            {/* Charts */}
+            <Card>
+              <div className="border-b border-[#30363d] px-6 py-4">
+                <h2 className="text-xl font-bold text-[#e6edf3]">Per Year</h2>
+              </div>
+              <div className="grid grid-cols-1 gap-6 p-6 lg:grid-cols-2">
+                <ComparisonChart
+                  title="Trucks Required"
+                  years={comparison.years.map((y) => y.year)}
+                  series={names.map((name, i) => ({
+                    name,
+                    values: comparison.years.map((y) => y.trucks[i]?.value ?? null),
+                  }))}
+                  format={(n) => n.toFixed(0)}
+                  testId="comparison-fleet-chart"
+                />
+                <ComparisonChart
+                  title="Total Cost"
+                  years={comparison.years.map((y) => y.year)}
+                  series={names.map((name, i) => ({
+                    name,
+                    values: comparison.years.map((y) => y.totalCostEUR[i]?.value ?? null),
+                  }))}
+                  format={(n) => `${(n / 1_000_000).toFixed(1)}M`}
+                  testId="comparison-cost-chart"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 gap-6 px-6 pb-6 xl:grid-cols-3">
+                {yearTables.map(({ title, key, format }) => (
+                  <div key={key} className="overflow-x-auto">
+                    <div className="mb-2 text-sm font-bold text-[#c9d1d9]">{title}</div>
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-[#30363d]">
+                          <th className={thLeft}>Year</th>
+                          {names.map((name, i) => (
+                            <th key={i} className={th}>
+                              {name}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.years.map((y) => (
+                          <tr key={y.year} className="border-b border-[#30363d]">
+                            <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">
+                              {y.year}
+                            </td>
+                            {y[key].map((v, i) => (
+                              <DeltaCell key={i} value={v} format={format} />
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
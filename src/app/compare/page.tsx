@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { getSessionUser } from "@/lib/auth/session";
+import { redirect } from "next/navigation";
+import LogoutButton from "../logout-button";
+import CompareClient from "./CompareClient";
+
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ ids?: string }>;
+}) {
+  const user = await getSessionUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  // ?ids=a,b,c preselects scenarios, the first as baseline
+  const { ids } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-slate-950">
+      <header className="sticky top-0 border-b border-white/10 bg-slate-950/70 backdrop-blur">
+        <div className="mx-auto flex max-w-5xl items-center justify-between px-6 py-4">
+          <div className="flex items-baseline gap-3">
+            <div className="h-2.5 w-2.5 rounded-full bg-brand-500 shadow-[0_0_0_6px_rgba(47,107,255,0.18)]" />
+            <div className="font-semibold tracking-tight">
+              Mining Pre-Sales Kalkylator
+            </div>
+            <Link href="/" className="text-sm text-slate-400 hover:text-slate-200">
+              ← Tillbaka till kalkylatorn
+            </Link>
+          </div>
+          <LogoutButton />
+        </div>
+      </header>
+
+      <CompareClient initialIds={ids ? ids.split(",").filter(Boolean) : []} />
+    </main>
+  );
+}
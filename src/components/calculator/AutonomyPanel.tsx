@@ -0,0 +1,202 @@
+import React from "react";
+import { Card } from "@/components/ui";
+import type { AutonomyComparison, FleetCase } from "@/lib/analysis/autonomy";
+
+export interface AutonomyCases {
+  manual: FleetCase;
+  autonomous: FleetCase;
+}
+
+const CASES: Array<{ key: keyof AutonomyCases; title: string }> = [
+  { key: "manual", title: "Manual" },
+  { key: "autonomous", title: "Autonomous" },
+];
+
+const PERCENT_FIELDS = [
+  { field: "availabilityPercent", label: "Availability", aria: "availability" },
+  { field: "efficiencyPercent", label: "Efficiency", aria: "efficiency" },
+  { field: "utilizationPercent", label: "Utilisation", aria: "utilisation" },
+] as const;
+
+const fieldClass =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-3 py-1.5 text-right text-sm text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+function fmtMEUR(n: number): string {
+  return `${(n / 1_000_000).toFixed(2)} MEUR`;
+}
+
+function Metric({
+  label,
+  value,
+  testId,
+}: {
+  label: string;
+  value: string;
+  testId?: string;
+}) {
+  return (
+    <div>
+      <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+        {label}
+      </div>
+      <div className="mt-1 text-xl font-bold text-[#e6edf3]" data-testid={testId}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Manual vs. autonomous TCO: both cases through the full model (see
+ * compareAutonomy), with yearly savings and the payback year.
+ */
+export function AutonomyPanel({
+  cases,
+  result,
+  error,
+  onCasesChange,
+}: {
+  cases: AutonomyCases;
+  result: AutonomyComparison | null;
+  error: string | null;
+  onCasesChange: (cases: AutonomyCases) => void;
+}) {
+  function update(key: keyof AutonomyCases, patch: Partial<FleetCase>) {
+    onCasesChange({ ...cases, [key]: { ...cases[key], ...patch } });
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4">
+        <h2 className="text-xl font-bold text-[#e6edf3]">Manual vs. Autonomous</h2>
+        <p className="mt-1 text-sm text-[#8b949e]">
+          Same haul and plan, conventional crew vs. autonomous fleet
+        </p>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          {CASES.map(({ key, title }) => (
+            <div key={key} className="rounded-md border border-[#30363d] bg-[#0d1117] p-4 space-y-3">
+              <div className="text-xs font-bold uppercase tracking-wider text-[#58a6ff]">
+                {title}
+              </div>
+              {PERCENT_FIELDS.map(({ field, label, aria }) => (
+                <label
+                  key={field}
+                  className="flex items-center justify-between gap-3 text-xs font-semibold uppercase tracking-wider text-[#8b949e]"
+                >
+                  {label} %
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="1"
+                    aria-label={`${key}-${aria}`}
+                    value={cases[key][field]}
+                    onChange={(e) => update(key, { [field]: Number(e.target.value) })}
+                    className={`w-20 ${fieldClass}`}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center justify-between gap-3 text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                License EUR/yr
+                <input
+                  type="number"
+                  min="0"
+                  step="5000"
+                  aria-label={`${key}-license`}
+                  value={cases[key].truckLicenseEURPerYear}
+                  onChange={(e) => update(key, { truckLicenseEURPerYear: Number(e.target.value) })}
+                  className={`w-28 ${fieldClass}`}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-3 text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+                FMS
+                <input
+                  type="checkbox"
+                  aria-label={`${key}-fms`}
+                  checked={cases[key].includeFMS}
+                  onChange={(e) => update(key, { includeFMS: e.target.checked })}
+                />
+              </label>
+              <div className="text-xs text-[#8b949e]">
+                Roster: {cases[key].labour.roles.map((r) => r.name).join(", ")}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {result && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <Metric
+                label="Total Savings"
+                value={fmtMEUR(result.totalSavingsEUR)}
+                testId="autonomy-savings"
+              />
+              <Metric label="NPV Savings" value={fmtMEUR(result.npvSavingsEUR)} />
+              <Metric
+                label="Payback Year"
+                value={result.paybackYear === null ? "None" : String(result.paybackYear)}
+                testId="autonomy-payback"
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[#30363d]">
+                    <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      Year
+                    </th>
+                    <th className={th}>Trucks M / A</th>
+                    <th className={th}>Manual</th>
+                    <th className={th}>Autonomous</th>
+                    <th className={th}>Savings</th>
+                    <th className={th}>Cumulative</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.years.map((y) => (
+                    <tr key={y.year} className="border-b border-[#30363d]">
+                      <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">{y.year}</td>
+                      <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                        {y.manualTrucks} / {y.autonomousTrucks}
+                      </td>
+                      <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                        {fmtMEUR(y.manualCostEUR)}
+                      </td>
+                      <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                        {fmtMEUR(y.autonomousCostEUR)}
+                      </td>
+                      <td
+                        className={[
+                          "py-2 px-2 text-right text-sm font-semibold",
+                          y.savingsEUR >= 0 ? "text-[#3fb950]" : "text-red-400",
+                        ].join(" ")}
+                      >
+                        {fmtMEUR(y.savingsEUR)}
+                      </td>
+                      <td
+                        className={[
+                          "py-2 px-2 text-right text-sm font-bold",
+                          y.cumulativeSavingsEUR >= 0 ? "text-[#3fb950]" : "text-red-400",
+                        ].join(" ")}
+                      >
+                        {fmtMEUR(y.cumulativeSavingsEUR)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
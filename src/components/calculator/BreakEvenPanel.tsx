@@ -0,0 +1,310 @@
+import React from "react";
+import { Card } from "@/components/ui";
+import {
+  CURRENT_HAULAGE_DEFAULTS,
+  type BreakEvenResult,
+  type CurrentCostBasis,
+  type CurrentHaulageCost,
+} from "@/lib/cost/breakEven";
+
+const CURRENT_COLOUR = "#f0883e";
+const OUR_COLOUR = "#58a6ff";
+
+const BASES: Array<{ basis: CurrentCostBasis; label: string }> = [
+  { basis: "perTonne", label: "Per Tonne" },
+  { basis: "fixedPlusVariable", label: "Fixed + Variable" },
+];
+
+const fieldClass =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-3 py-1.5 text-right text-sm text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+function fmtMEUR(n: number): string {
+  return `${(n / 1_000_000).toFixed(2)} MEUR`;
+}
+
+function Metric({ label, value, testId }: { label: string; value: string; testId?: string }) {
+  return (
+    <div>
+      <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">{label}</div>
+      <div className="mt-1 text-xl font-bold text-[#e6edf3]" data-testid={testId}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Cumulative cost lines, the customer's current haulage (orange) against
+ * ours (blue), with the crossover marked.
+ */
+function CrossoverChart({ result }: { result: BreakEvenResult }) {
+  const W = 600;
+  const H = 220;
+  const left = 56;
+  const right = 12;
+  const top = 12;
+  const bottom = 28;
+  const years = result.years;
+  const firstYear = years[0].year;
+  const lastYear = years[years.length - 1].year;
+  const span = Math.max(1, lastYear - firstYear);
+  const maxValue = Math.max(
+    1e-9,
+    ...years.flatMap((y) => [y.cumulativeCurrentEUR, y.cumulativeOurEUR])
+  );
+
+  const x = (year: number) => left + ((year - firstYear) / span) * (W - left - right);
+  const y = (value: number) => top + (1 - value / maxValue) * (H - top - bottom);
+  const path = (key: "cumulativeCurrentEUR" | "cumulativeOurEUR") =>
+    years.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.year)},${y(p[key])}`).join(" ");
+
+  // The crossover sits on the straight segments between year-end points
+  const crossover = (() => {
+    if (result.crossoverYear === null) return null;
+    const i = years.findIndex((p) => p.year >= result.crossoverYear!);
+    const b = years[i];
+    const a = years[Math.max(0, i - 1)];
+    const t = b.year === a.year ? 1 : (result.crossoverYear - a.year) / (b.year - a.year);
+    return {
+      x: x(result.crossoverYear),
+      y: y(a.cumulativeOurEUR + t * (b.cumulativeOurEUR - a.cumulativeOurEUR)),
+    };
+  })();
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" data-testid="crossover-chart">
+      {[0, 0.5, 1].map((f) => (
+        <g key={f}>
+          <line
+            x1={left}
+            x2={W - right}
+            y1={y(maxValue * f)}
+            y2={y(maxValue * f)}
+            stroke="#30363d"
+          />
+          <text x={left - 6} y={y(maxValue * f) + 4} textAnchor="end" fontSize={10} fill="#8b949e">
+            {(maxValue * f / 1_000_000).toFixed(0)}M
+          </text>
+        </g>
+      ))}
+      {years.map((p) => (
+        <text key={p.year} x={x(p.year)} y={H - 10} textAnchor="middle" fontSize={10} fill="#8b949e">
+          {p.year}
+        </text>
+      ))}
+      <path d={path("cumulativeCurrentEUR")} fill="none" stroke={CURRENT_COLOUR} strokeWidth={2} />
+      <path d={path("cumulativeOurEUR")} fill="none" stroke={OUR_COLOUR} strokeWidth={2} />
+      {crossover && (
+        <g>
+          <line
+            x1={crossover.x}
+            x2={crossover.x}
+            y1={top}
+            y2={H - bottom}
+            stroke="#3fb950"
+            strokeDasharray="4 3"
+          />
+          <circle cx={crossover.x} cy={crossover.y} r={4} fill="#3fb950">
+            <title>{`Break-even ${result.crossoverYear!.toFixed(1)}`}</title>
+          </circle>
+        </g>
+      )}
+    </svg>
+  );
+}
+
+/**
+ * Break-even against the customer's current haulage cost (see
+ * calcBreakEven): payback year, IRR and cumulative savings.
+ */
+export function BreakEvenPanel({
+  current,
+  result,
+  error,
+  onChange,
+}: {
+  current: CurrentHaulageCost | null;
+  result: BreakEvenResult | null;
+  error: string | null;
+  onChange: (current: CurrentHaulageCost | null) => void;
+}) {
+  function set<K extends keyof CurrentHaulageCost>(key: K, value: CurrentHaulageCost[K]) {
+    if (current) onChange({ ...current, [key]: value });
+  }
+
+  const amountFields: Array<{
+    key: "costPerTonneEUR" | "fixedEURPerYear" | "variableEURPerTonne";
+    label: string;
+    aria: string;
+    step: number;
+  }> =
+    current?.basis === "fixedPlusVariable"
+      ? [
+          { key: "fixedEURPerYear", label: "Fixed EUR/yr", aria: "current-fixed", step: 100_000 },
+          { key: "variableEURPerTonne", label: "EUR/t", aria: "current-variable", step: 0.05 },
+        ]
+      : [{ key: "costPerTonneEUR", label: "EUR/t", aria: "current-cost-per-tonne", step: 0.05 }];
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-[#e6edf3]">Break-even vs. Current Haulage</h2>
+          <p className="mt-1 text-sm text-[#8b949e]">
+            When the plan pays for itself against what haulage costs the customer today
+          </p>
+        </div>
+        <div
+          onClick={() => onChange(current ? null : CURRENT_HAULAGE_DEFAULTS)}
+          aria-label="break-even-toggle"
+          className={[
+            "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+            current ? "bg-brand-500" : "bg-[#30363d]",
+          ].join(" ")}
+        >
+          <span
+            className={[
+              "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+              current ? "translate-x-6" : "translate-x-1",
+            ].join(" ")}
+          />
+        </div>
+      </div>
+
+      {current && (
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-4 gap-4 items-end">
+            <div className="flex gap-1 rounded-md bg-[#0d1117] border border-[#30363d] p-1">
+              {BASES.map(({ basis, label }) => (
+                <button
+                  key={basis}
+                  onClick={() => set("basis", basis)}
+                  className={[
+                    "flex-1 rounded-md px-3 py-1 text-xs font-semibold transition-all",
+                    current.basis === basis
+                      ? "bg-brand-500 text-white"
+                      : "text-[#8b949e] hover:text-[#e6edf3]",
+                  ].join(" ")}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {amountFields.map(({ key, label, aria, step }) => (
+              <label
+                key={key}
+                className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]"
+              >
+                {label}
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  aria-label={aria}
+                  value={current[key]}
+                  onChange={(e) => set(key, Number(e.target.value))}
+                  className={`mt-1 ${fieldClass}`}
+                />
+              </label>
+            ))}
+            <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+              Escalation %/yr
+              <input
+                type="number"
+                step="0.5"
+                aria-label="current-escalation"
+                value={current.escalationPercent}
+                onChange={(e) => set("escalationPercent", Number(e.target.value))}
+                className={`mt-1 ${fieldClass}`}
+              />
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          {result && result.years.length > 0 && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <Metric
+                  label="Payback Year"
+                  value={result.paybackYear === null ? "None" : String(result.paybackYear)}
+                  testId="break-even-payback"
+                />
+                <Metric
+                  label="IRR"
+                  value={result.irrPercent === null ? "–" : `${result.irrPercent.toFixed(1)}%`}
+                  testId="break-even-irr"
+                />
+                <Metric
+                  label="Cumulative Savings"
+                  value={fmtMEUR(result.totalSavingsEUR)}
+                  testId="break-even-savings"
+                />
+              </div>
+
+              <div>
+                <CrossoverChart result={result} />
+                <div className="mt-2 flex gap-4 text-xs text-[#8b949e]">
+                  <span>
+                    <span style={{ color: CURRENT_COLOUR }}>■</span> Current haulage (cumulative)
+                  </span>
+                  <span>
+                    <span style={{ color: OUR_COLOUR }}>■</span> Our solution (cumulative)
+                  </span>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-[#30363d]">
+                      <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                        Year
+                      </th>
+                      <th className={th}>Current</th>
+                      <th className={th}>Ours</th>
+                      <th className={th}>Savings</th>
+                      <th className={th}>Cumulative</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.years.map((y) => (
+                      <tr key={y.year} className="border-b border-[#30363d]">
+                        <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">{y.year}</td>
+                        <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                          {fmtMEUR(y.currentCostEUR)}
+                        </td>
+                        <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                          {fmtMEUR(y.ourCostEUR)}
+                        </td>
+                        <td
+                          className={[
+                            "py-2 px-2 text-right text-sm font-semibold",
+                            y.savingsEUR >= 0 ? "text-[#3fb950]" : "text-red-400",
+                          ].join(" ")}
+                        >
+                          {fmtMEUR(y.savingsEUR)}
+                        </td>
+                        <td
+                          className={[
+                            "py-2 px-2 text-right text-sm font-bold",
+                            y.cumulativeSavingsEUR >= 0 ? "text-[#3fb950]" : "text-red-400",
+                          ].join(" ")}
+                        >
+                          {fmtMEUR(y.cumulativeSavingsEUR)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import React from "react";
+
+// One colour per compared scenario, baseline first
+export const COMPARISON_COLOURS = ["#58a6ff", "#f0883e", "#3fb950", "#d2a8ff"];
+
+export interface ComparisonSeries {
+  name: string;
+  values: Array<number | null>; // per year; null where the scenario has no such year
+}
+
+/**
+ * Yearly values of each scenario overlaid as lines, one colour per scenario.
+ */
+export function ComparisonChart({
+  title,
+  years,
+  series,
+  format,
+  testId,
+}: {
+  title: string;
+  years: number[];
+  series: ComparisonSeries[];
+  format: (value: number) => string; // axis labels
+  testId?: string;
+}) {
+  const W = 600;
+  const H = 220;
+  const left = 56;
+  const right = 12;
+  const top = 12;
+  const bottom = 28;
+  const firstYear = years[0];
+  const span = Math.max(1, years[years.length - 1] - firstYear);
+  const maxValue = Math.max(
+    1e-9,
+    ...series.flatMap((s) => s.values.filter((v): v is number => v !== null))
+  );
+
+  const x = (year: number) => left + ((year - firstYear) / span) * (W - left - right);
+  const y = (value: number) => top + (1 - value / maxValue) * (H - top - bottom);
+
+  // Gaps (years a scenario lacks) break the line
+  const path = (values: Array<number | null>) =>
+    values
+      .map((v, i) =>
+        v === null ? "" : `${i === 0 || values[i - 1] === null ? "M" : "L"}${x(years[i])},${y(v)}`
+      )
+      .join(" ");
+
+  return (
+    <div>
+      <div className="mb-2 text-sm font-bold text-[#c9d1d9]">{title}</div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full" data-testid={testId}>
+        {[0, 0.5, 1].map((f) => (
+          <g key={f}>
+            <line
+              x1={left}
+              x2={W - right}
+              y1={y(maxValue * f)}
+              y2={y(maxValue * f)}
+              stroke="#30363d"
+            />
+            <text x={left - 6} y={y(maxValue * f) + 4} textAnchor="end" fontSize={10} fill="#8b949e">
+              {format(maxValue * f)}
+            </text>
+          </g>
+        ))}
+        {years.map((year) => (
+          <text key={year} x={x(year)} y={H - 10} textAnchor="middle" fontSize={10} fill="#8b949e">
+            {year}
+          </text>
+        ))}
+        {series.map((s, i) => (
+          <g key={i}>
+            <path
+              d={path(s.values)}
+              fill="none"
+              stroke={COMPARISON_COLOURS[i]}
+              strokeWidth={2}
+            />
+            {s.values.map(
+              (v, j) =>
+                v !== null && (
+                  <circle key={j} cx={x(years[j])} cy={y(v)} r={3} fill={COMPARISON_COLOURS[i]}>
+                    <title>{`${s.name} ${years[j]}: ${format(v)}`}</title>
+                  </circle>
+                )
+            )}
+          </g>
+        ))}
+      </svg>
+      <div className="mt-2 flex flex-wrap gap-4 text-xs text-[#8b949e]">
+        {series.map((s, i) => (
+          <span key={i}>
+            <span style={{ color: COMPARISON_COLOURS[i] }}>■</span> {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui";
+import type { CostModelInput } from "@/lib/cost/calcCost";
+import {
+  COMMON_CURRENCIES,
+  COST_LINES,
+  COST_LINE_LABELS,
+  isCurrencyCode,
+  lineCurrency,
+  quotedCurrencies,
+  setLineCurrency,
+  type CurrencyCode,
+} from "@/lib/cost/fx";
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+/**
+ * Currency per cost line and FX rates (units per EUR): a base rate per
+ * currency and optional rates per plan year, which carry forward to later
+ * years (see fxRate). Changing a line's currency converts its amounts at the
+ * first plan year's rates.
+ */
+export function CurrencyEditor({
+  model,
+  years,
+  onChange,
+}: {
+  model: CostModelInput;
+  years: number[];
+  onChange: (model: CostModelInput) => void;
+}) {
+  const [newCurrency, setNewCurrency] = useState("");
+  const quoted = quotedCurrencies(model);
+  const rated = quoted.filter((c) => c !== "EUR");
+  const inUse = new Set<CurrencyCode>([
+    ...COST_LINES.map((line) => lineCurrency(model, line)),
+    ...(model.labour?.roles.map((r) => r.currency) ?? []),
+  ]);
+  const code = newCurrency.trim().toUpperCase();
+  const canAdd = isCurrencyCode(code) && !quoted.includes(code);
+
+  function setBaseRate(currency: CurrencyCode, rate: number) {
+    if (currency === "SEK" && model.fxRates?.SEK === undefined) {
+      onChange({ ...model, fxSEKPerEUR: rate });
+    } else {
+      onChange({ ...model, fxRates: { ...model.fxRates, [currency]: rate } });
+    }
+  }
+
+  function setYearRate(currency: CurrencyCode, year: number, value: string) {
+    const table = { ...model.fxByYear?.[year] };
+    if (value === "") delete table[currency];
+    else table[currency] = Number(value);
+    const next = { ...model.fxByYear, [year]: table };
+    if (Object.keys(table).length === 0) delete next[year];
+    onChange({ ...model, fxByYear: next });
+  }
+
+  function removeCurrency(currency: CurrencyCode) {
+    const fxRates = { ...model.fxRates };
+    delete fxRates[currency];
+    const fxByYear = Object.fromEntries(
+      Object.entries(model.fxByYear ?? {})
+        .map(([year, table]) => {
+          const rest = { ...table };
+          delete rest[currency];
+          return [year, rest] as const;
+        })
+        .filter(([, table]) => Object.keys(table).length > 0),
+    );
+    onChange({ ...model, fxRates, fxByYear });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        {COST_LINES.map((line) => (
+          <label
+            key={line}
+            className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]"
+          >
+            {COST_LINE_LABELS[line]}
+            <select
+              aria-label={`currency-${line}`}
+              value={lineCurrency(model, line)}
+              onChange={(e) =>
+                onChange(setLineCurrency(model, line, e.target.value, years[0] ?? 0))
+              }
+              className={`mt-1 ${cellInput}`}
+            >
+              {quoted.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-[#30363d]">
+              <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                Per EUR
+              </th>
+              <th className={th}>Base</th>
+              {years.map((year) => (
+                <th key={year} className={th}>
+                  {year}
+                </th>
+              ))}
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rated.map((currency) => (
+              <tr key={currency} className="border-b border-[#30363d]">
+                <td className="py-2 pr-2 text-sm font-bold text-[#c9d1d9]">{currency}</td>
+                <td className="py-2 px-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    aria-label={`fx-rate-${currency}`}
+                    value={
+                      model.fxRates?.[currency] ??
+                      (currency === "SEK" ? model.fxSEKPerEUR : "")
+                    }
+                    onChange={(e) => setBaseRate(currency, Number(e.target.value))}
+                    className={cellInput}
+                  />
+                </td>
+                {years.map((year) => (
+                  <td key={year} className="py-2 px-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      aria-label={`fx-rate-${currency}-${year}`}
+                      placeholder="–"
+                      value={model.fxByYear?.[year]?.[currency] ?? ""}
+                      onChange={(e) => setYearRate(currency, year, e.target.value)}
+                      className={cellInput}
+                    />
+                  </td>
+                ))}
+                <td className="py-2 pl-2 text-right">
+                  {currency !== "SEK" && (
+                    <button
+                      onClick={() => removeCurrency(currency)}
+                      disabled={inUse.has(currency)}
+                      aria-label={`fx-remove-${currency}`}
+                      title={inUse.has(currency) ? "In use by a cost line or role" : undefined}
+                      className="text-sm text-[#8b949e] hover:text-[#e6edf3] disabled:opacity-40"
+                    >
+                      ×
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+          Currency
+          <input
+            list="fx-common-currencies"
+            aria-label="fx-new-currency"
+            placeholder="AUD"
+            maxLength={3}
+            value={newCurrency}
+            onChange={(e) => setNewCurrency(e.target.value)}
+            className={`mt-1 w-24 ${cellInput}`}
+          />
+          <datalist id="fx-common-currencies">
+            {COMMON_CURRENCIES.filter((c) => !quoted.includes(c)).map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+        </label>
+        <Button
+          disabled={!canAdd}
+          className="border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+          onClick={() => {
+            onChange({ ...model, fxRates: { ...model.fxRates, [code]: 1 } });
+            setNewCurrency("");
+          }}
+        >
+          Add Rate
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import React from "react";
+import type { EmissionSettings } from "@/lib/cost/calcCost";
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+const FACTOR_FIELDS = [
+  { field: "dieselKgCO2ePerLitre", label: "Diesel (kg CO2e/L)", aria: "emission-diesel", step: "0.05" },
+  {
+    field: "electricityKgCO2ePerKWh",
+    label: "Electricity (kg CO2e/kWh)",
+    aria: "emission-electricity",
+    step: "0.01",
+  },
+  { field: "fuelLitresPerKm", label: "Fuel Use (L/km)", aria: "emission-fuel-use", step: "0.05" },
+] as const;
+
+/**
+ * Emission factors and the carbon price: a base price and optional prices per
+ * plan year, which carry forward to later years (see priceAt).
+ *
+ * Fuel use per km only applies without the energy model, which supplies its
+ * own litres and kWh.
+ */
+export function EmissionsEditor({
+  emissions,
+  years,
+  energyModel,
+  onChange,
+}: {
+  emissions: EmissionSettings;
+  years: number[];
+  energyModel: boolean;
+  onChange: (emissions: EmissionSettings) => void;
+}) {
+  const byYear = emissions.carbonPriceByYear ?? {};
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        {FACTOR_FIELDS.filter((f) => !(energyModel && f.field === "fuelLitresPerKm")).map(
+          ({ field, label, aria, step }) => (
+            <label
+              key={field}
+              className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]"
+            >
+              {label}
+              <input
+                type="number"
+                min="0"
+                step={step}
+                aria-label={aria}
+                value={emissions[field]}
+                onChange={(e) => onChange({ ...emissions, [field]: Number(e.target.value) })}
+                className={`mt-1 ${cellInput}`}
+              />
+            </label>
+          )
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-[#30363d]">
+              <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                Carbon Price
+              </th>
+              <th className={th}>Base</th>
+              {years.map((year) => (
+                <th key={year} className={th}>
+                  {year}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-[#30363d]">
+              <td className="py-2 pr-2 text-sm font-bold text-[#c9d1d9]">EUR / t CO2e</td>
+              <td className="py-2 px-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="5"
+                  aria-label="carbon-price"
+                  value={emissions.carbonPriceEURPerTonne}
+                  onChange={(e) =>
+                    onChange({ ...emissions, carbonPriceEURPerTonne: Number(e.target.value) })
+                  }
+                  className={cellInput}
+                />
+              </td>
+              {years.map((year) => (
+                <td key={year} className="py-2 px-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="5"
+                    aria-label={`carbon-price-${year}`}
+                    placeholder="–"
+                    value={byYear[year] ?? ""}
+                    onChange={(e) => {
+                      const next = { ...byYear };
+                      if (e.target.value === "") delete next[year];
+                      else next[year] = Number(e.target.value);
+                      onChange({ ...emissions, carbonPriceByYear: next });
+                    }}
+                    className={cellInput}
+                  />
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
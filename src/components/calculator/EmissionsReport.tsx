@@ -0,0 +1,102 @@
+import React from "react";
+import { Card } from "@/components/ui";
+import type { CostBreakdownResult } from "@/lib/cost/calcCost";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+function fmt(n: number, digits = 0): string {
+  return n.toLocaleString("en-US", {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+}
+
+function Metric({
+  label,
+  value,
+  testId,
+}: {
+  label: string;
+  value: string;
+  testId?: string;
+}) {
+  return (
+    <div>
+      <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">{label}</div>
+      <div className="mt-1 text-xl font-bold text-[#e6edf3]" data-testid={testId}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * CO2e per year and per tonne moved, with the carbon cost included in the
+ * cost breakdown (see calcCostBreakdown, emissions).
+ */
+export function EmissionsReport({
+  costs,
+  tonnesMoved,
+}: {
+  costs: CostBreakdownResult;
+  tonnesMoved: number;
+}) {
+  const { co2eTonnes, opexCarbonEUR } = costs.periodTotals;
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4">
+        <h2 className="text-2xl font-bold text-[#e6edf3]">Emissions</h2>
+        <p className="mt-1 text-sm text-[#8b949e]">
+          Fleet CO2e from fuel and electricity, and its carbon cost
+        </p>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <Metric label="Total CO2e" value={`${fmt(co2eTonnes)} t`} testId="co2e-total" />
+          <Metric
+            label="Intensity"
+            value={`${fmt(tonnesMoved > 0 ? (co2eTonnes * 1000) / tonnesMoved : 0, 3)} kg/t`}
+            testId="co2e-intensity"
+          />
+          <Metric label="Carbon Cost" value={`${fmt(opexCarbonEUR)} EUR`} />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-[#30363d]">
+                <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                  Year
+                </th>
+                <th className={th}>CO2e (t)</th>
+                <th className={th}>kg CO2e / t moved</th>
+                <th className={th}>Carbon Price (EUR/t)</th>
+                <th className={th}>Carbon Cost (EUR)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {costs.rows.map((row) => (
+                <tr key={row.year} className="border-b border-[#30363d]">
+                  <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">{row.year}</td>
+                  <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                    {fmt(row.co2eTonnes, 1)}
+                  </td>
+                  <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                    {fmt(row.co2eKgPerTonneMoved, 3)}
+                  </td>
+                  <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                    {fmt(row.carbonPriceEURPerTonne, 1)}
+                  </td>
+                  <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                    {fmt(row.opexCarbonEUR)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import React from "react";
+import { Card } from "@/components/ui";
+import { DRIVETRAIN_LABELS, type CycleEnergyResult, type Drivetrain } from "@/core";
+import type { EnergySettings } from "@/lib/scenarios/schema";
+
+const fieldClass =
+  "mt-1 w-full rounded-md border border-[#30363d] bg-[#0d1117] px-3 py-1.5 text-right text-sm text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+function NumberField({
+  label,
+  value,
+  min,
+  max,
+  step,
+  ariaLabel,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max?: number;
+  step: number;
+  ariaLabel: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        aria-label={ariaLabel}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={fieldClass}
+      />
+    </label>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">{label}</div>
+      <div className="mt-1 text-xl font-bold text-[#e6edf3]">{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Drivetrain and energy inputs. When enabled, fuel and electricity per cycle
+ * come from the route grades and truck weights (see calculateCycleEnergy),
+ * and battery charging reduces availability.
+ */
+export function EnergyPanel({
+  energy,
+  summary,
+  onChange,
+}: {
+  energy: EnergySettings;
+  summary?: CycleEnergyResult & { chargingAvailabilityFactor: number };
+  onChange: (energy: EnergySettings) => void;
+}) {
+  function set<K extends keyof EnergySettings>(key: K, value: EnergySettings[K]) {
+    onChange({ ...energy, [key]: value });
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-[#e6edf3]">Energy</h2>
+          <p className="mt-1 text-sm text-[#8b949e]">
+            Fuel and electricity from grades, payload and empty weight
+          </p>
+        </div>
+        <div
+          onClick={() => set("enabled", !energy.enabled)}
+          aria-label="energy-toggle"
+          className={[
+            "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+            energy.enabled ? "bg-brand-500" : "bg-[#30363d]",
+          ].join(" ")}
+        >
+          <span
+            className={[
+              "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+              energy.enabled ? "translate-x-6" : "translate-x-1",
+            ].join(" ")}
+          />
+        </div>
+      </div>
+      {energy.enabled && (
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(DRIVETRAIN_LABELS) as Drivetrain[]).map((d) => (
+              <button
+                key={d}
+                onClick={() => set("drivetrain", d)}
+                aria-label={`drivetrain-${d}`}
+                className={[
+                  "rounded-md border px-3 py-1.5 text-sm font-semibold",
+                  energy.drivetrain === d
+                    ? "border-brand-500 bg-[#1c2333] text-[#58a6ff]"
+                    : "border-[#30363d] text-[#8b949e] hover:bg-[#243040]",
+                ].join(" ")}
+              >
+                {DRIVETRAIN_LABELS[d]}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <NumberField
+              label="Empty Weight (t)"
+              value={energy.emptyWeightTonnes}
+              min={1}
+              step={1}
+              ariaLabel="energy-empty-weight"
+              onChange={(v) => set("emptyWeightTonnes", v)}
+            />
+            {energy.drivetrain === "trolley" && (
+              <NumberField
+                label="Line From Grade (%)"
+                value={energy.trolleyMinGrade}
+                min={0}
+                max={30}
+                step={0.5}
+                ariaLabel="energy-trolley-grade"
+                onChange={(v) => set("trolleyMinGrade", v)}
+              />
+            )}
+            {energy.drivetrain === "battery" && (
+              <>
+                <NumberField
+                  label="Battery (kWh)"
+                  value={energy.batteryKWh}
+                  min={1}
+                  step={10}
+                  ariaLabel="energy-battery-kwh"
+                  onChange={(v) => set("batteryKWh", v)}
+                />
+                <NumberField
+                  label="Usable Window (%)"
+                  value={energy.batteryUsablePercent}
+                  min={1}
+                  max={100}
+                  step={5}
+                  ariaLabel="energy-battery-usable"
+                  onChange={(v) => set("batteryUsablePercent", v)}
+                />
+                <NumberField
+                  label="Charge Power (kW)"
+                  value={energy.chargePowerKW}
+                  min={1}
+                  step={50}
+                  ariaLabel="energy-charge-power"
+                  onChange={(v) => set("chargePowerKW", v)}
+                />
+              </>
+            )}
+          </div>
+
+          {summary && (
+            <div className="grid grid-cols-3 gap-4 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+              <Metric label="Diesel" value={`${summary.litresPerKm.toFixed(2)} L/km`} />
+              <Metric label="Electricity" value={`${summary.kWhPerKm.toFixed(2)} kWh/km`} />
+              {summary.drivetrain === "battery" ? (
+                <Metric
+                  label="Charging"
+                  value={`${summary.chargingSecondsPerCycle.toFixed(0)}s/cycle · ${(
+                    (1 - summary.chargingAvailabilityFactor) *
+                    100
+                  ).toFixed(1)}% avail.`}
+                />
+              ) : summary.drivetrain === "trolley" ? (
+                <Metric label="On Line" value={`${summary.wiredSharePercent.toFixed(0)}% of km`} />
+              ) : (
+                <Metric label="Per Cycle" value={`${summary.litres.toFixed(1)} L`} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import React from "react";
+import type { EnergyPrices } from "@/lib/cost/calcCost";
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+const ROWS = [
+  {
+    key: "diesel",
+    label: "Diesel",
+    unit: "L",
+    base: "dieselSEKPerLitre",
+    byYear: "dieselByYear",
+    step: "0.5",
+  },
+  {
+    key: "electricity",
+    label: "Electricity",
+    unit: "kWh",
+    base: "electricitySEKPerKWh",
+    byYear: "electricityByYear",
+    step: "0.05",
+  },
+] as const;
+
+/**
+ * Diesel and electricity prices: a base price (escalated with the fuel
+ * category) and optional prices per plan year, which carry forward to later
+ * years (see priceAt). Prices are in the fuel line's currency.
+ */
+export function EnergyPriceEditor({
+  prices,
+  years,
+  currency = "SEK",
+  onChange,
+}: {
+  prices: EnergyPrices;
+  years: number[];
+  currency?: string;
+  onChange: (prices: EnergyPrices) => void;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-[#30363d]">
+            <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+              Energy
+            </th>
+            <th className={th}>Base</th>
+            {years.map((year) => (
+              <th key={year} className={th}>
+                {year}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map((row) => {
+            const table = prices[row.byYear] ?? {};
+            return (
+              <tr key={row.key} className="border-b border-[#30363d]">
+                <td className="py-2 pr-2 text-sm font-bold text-[#c9d1d9]">{`${row.label} (${currency}/${row.unit})`}</td>
+                <td className="py-2 px-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step={row.step}
+                    aria-label={`energy-price-${row.key}`}
+                    value={prices[row.base]}
+                    onChange={(e) => onChange({ ...prices, [row.base]: Number(e.target.value) })}
+                    className={cellInput}
+                  />
+                </td>
+                {years.map((year) => (
+                  <td key={year} className="py-2 px-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step={row.step}
+                      aria-label={`energy-price-${row.key}-${year}`}
+                      placeholder="–"
+                      value={table[year] ?? ""}
+                      onChange={(e) => {
+                        const next = { ...table };
+                        if (e.target.value === "") delete next[year];
+                        else next[year] = Number(e.target.value);
+                        onChange({ ...prices, [row.byYear]: next });
+                      }}
+                      className={cellInput}
+                    />
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
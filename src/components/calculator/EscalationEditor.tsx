@@ -0,0 +1,125 @@
+import React from "react";
+import {
+  ESCALATION_CATEGORIES,
+  ESCALATION_CATEGORY_LABELS,
+  type Escalation,
+  type EscalationCategory,
+} from "@/lib/cost/calcCost";
+
+type EscalationMode = "flat" | Escalation["type"];
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+/**
+ * Per-category price escalation: flat, a compound % per year, or an index
+ * value per plan year (relative to the price base year, see calcCostBreakdown).
+ */
+export function EscalationEditor({
+  escalation,
+  years,
+  onChange,
+}: {
+  escalation: Partial<Record<EscalationCategory, Escalation>>;
+  years: number[];
+  onChange: (escalation: Partial<Record<EscalationCategory, Escalation>>) => void;
+}) {
+  function update(category: EscalationCategory, next: Escalation | undefined) {
+    const copy = { ...escalation };
+    if (next) copy[category] = next;
+    else delete copy[category];
+    onChange(copy);
+  }
+
+  function setMode(category: EscalationCategory, mode: EscalationMode) {
+    if (mode === "flat") update(category, undefined);
+    else if (mode === "rate") update(category, { type: "rate", ratePercent: 2 });
+    else {
+      const index = Object.fromEntries(years.map((year) => [year, 100]));
+      update(category, { type: "index", index });
+    }
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-[#30363d]">
+            <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+              Category
+            </th>
+            <th className={th}>Mode</th>
+            <th className={th}>% / yr</th>
+            {years.map((year) => (
+              <th key={year} className={th}>
+                {year}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {ESCALATION_CATEGORIES.map((category) => {
+            const e = escalation[category];
+            return (
+              <tr key={category} className="border-b border-[#30363d]">
+                <td className="py-2 pr-2 text-sm font-bold text-[#c9d1d9]">
+                  {ESCALATION_CATEGORY_LABELS[category]}
+                </td>
+                <td className="py-2 px-2">
+                  <select
+                    aria-label={`escalation-${category}-mode`}
+                    value={e?.type ?? "flat"}
+                    onChange={(ev) => setMode(category, ev.target.value as EscalationMode)}
+                    className={cellInput}
+                  >
+                    <option value="flat">Flat</option>
+                    <option value="rate">% / yr</option>
+                    <option value="index">Index</option>
+                  </select>
+                </td>
+                <td className="py-2 px-2">
+                  {e?.type === "rate" && (
+                    <input
+                      type="number"
+                      step="0.5"
+                      aria-label={`escalation-${category}-rate`}
+                      value={e.ratePercent}
+                      onChange={(ev) =>
+                        update(category, { type: "rate", ratePercent: Number(ev.target.value) })
+                      }
+                      className={cellInput}
+                    />
+                  )}
+                </td>
+                {years.map((year) => (
+                  <td key={year} className="py-2 px-2">
+                    {e?.type === "index" && (
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        aria-label={`escalation-${category}-index-${year}`}
+                        placeholder="–"
+                        value={e.index[year] ?? ""}
+                        onChange={(ev) => {
+                          const index = { ...e.index };
+                          if (ev.target.value === "") delete index[year];
+                          else index[year] = Number(ev.target.value);
+                          update(category, { type: "index", index });
+                        }}
+                        className={cellInput}
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React from "react";
+import { Card } from "@/components/ui";
+import {
+  FINANCING_MODE_LABELS,
+  type FinancingMode,
+  type FinancingOption,
+} from "@/lib/cost/calcCost";
+
+function fmtMEUR(n: number): string {
+  return `${(n / 1_000_000).toFixed(2)} MEUR`;
+}
+
+/**
+ * Side-by-side total cost and NPV of the plan under each financing mode
+ * (see compareFinancing). The cheapest NPV is marked.
+ */
+export function FinancingComparison({
+  options,
+  error,
+  selected,
+  onSelect,
+}: {
+  options: FinancingOption[] | null;
+  error: string | null;
+  selected: FinancingMode;
+  onSelect: (mode: FinancingMode) => void;
+}) {
+  const bestNpv = Math.min(...(options ?? []).map((o) => o.npvEUR));
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4">
+        <h2 className="text-2xl font-bold text-[#e6edf3]">Financing Options</h2>
+        <p className="mt-1 text-sm text-[#8b949e]">
+          Same plan, bought outright, leased or financed
+        </p>
+      </div>
+      {error && <p className="p-6 text-sm text-red-400">{error}</p>}
+      {options && (
+        <div className="grid gap-4 p-6 md:grid-cols-3">
+          {options.map((o) => (
+            <div
+              key={o.mode}
+              data-testid={`financing-${o.mode}`}
+              className={[
+                "rounded-md border bg-[#0d1117] p-4 space-y-3",
+                o.mode === selected ? "border-brand-500" : "border-[#30363d]",
+              ].join(" ")}
+            >
+              <div className="flex items-baseline justify-between">
+                <span className="text-sm font-bold text-[#e6edf3]">
+                  {FINANCING_MODE_LABELS[o.mode]}
+                </span>
+                {o.npvEUR === bestNpv && (
+                  <span className="text-xs font-semibold uppercase tracking-wider text-[#3fb950]">
+                    Lowest NPV
+                  </span>
+                )}
+              </div>
+              <dl className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <dt className="text-[#8b949e]">Truck payments</dt>
+                  <dd className="text-[#c9d1d9]">{fmtMEUR(o.truckPaymentsEUR)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-[#8b949e]">Total cost</dt>
+                  <dd className="font-semibold text-[#e6edf3]">{fmtMEUR(o.totalCostEUR)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-[#8b949e]">NPV</dt>
+                  <dd className="font-bold text-[#58a6ff]">{fmtMEUR(o.npvEUR)}</dd>
+                </div>
+              </dl>
+              <button
+                onClick={() => onSelect(o.mode)}
+                disabled={o.mode === selected}
+                className="w-full rounded-md border border-[#30363d] bg-[#1c2333] px-3 py-1.5 text-sm font-bold text-[#58a6ff] hover:bg-[#243040] disabled:cursor-default disabled:opacity-50"
+              >
+                {o.mode === selected ? "In Use" : "Use This Option"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useState } from "react";
+import { Button, Card, ErrorText } from "@/components/ui";
+import {
+  MODEL_VARIABLES,
+  type ModelInputs,
+  type ModelVariable,
+  type ModelVariableId,
+} from "@/lib/analysis/model";
+import {
+  goalSeek,
+  type GoalOutput,
+  type GoalSeekResult,
+} from "@/lib/analysis/goalSeek";
+
+// Output options: "trucks-<year>", "tph" or "cost"
+function parseOutput(key: string): GoalOutput {
+  if (key === "tph") return { type: "tonnesPerHour" };
+  if (key === "cost") return { type: "totalCostEUR" };
+  return { type: "trucksRequired", year: Number(key.replace("trucks-", "")) };
+}
+
+function defaultBounds(variable: ModelVariable, value: number): [number, number] {
+  return [
+    Math.max(variable.min, value * 0.5),
+    Math.min(variable.max ?? Infinity, Math.max(value * 1.5, variable.min + 1)),
+  ];
+}
+
+function fmtValue(n: number): string {
+  return Number(n.toPrecision(6)).toLocaleString();
+}
+
+const fieldClass =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-3 py-1.5 text-sm text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+/**
+ * Work backwards from a target: solve one input for a fleet, throughput or
+ * cost target (see goalSeek) and optionally write it into the form.
+ */
+export function GoalSeekPanel({
+  inputs,
+  onApply,
+}: {
+  inputs: ModelInputs;
+  onApply: (variable: ModelVariableId, value: number) => void;
+}) {
+  const applicable = (Object.keys(MODEL_VARIABLES) as ModelVariableId[]).filter((id) => {
+    const v: ModelVariable = MODEL_VARIABLES[id];
+    return !v.applies || v.applies(inputs);
+  });
+
+  const [variableId, setVariableId] = useState<ModelVariableId>("availabilityPercent");
+  const [outputKey, setOutputKey] = useState(
+    `trucks-${inputs.productionPlan[0]?.year ?? ""}`
+  );
+  const [target, setTarget] = useState(10);
+  const [bounds, setBounds] = useState<[number, number]>(() =>
+    defaultBounds(MODEL_VARIABLES.availabilityPercent, inputs.availabilityPercent)
+  );
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const variable: ModelVariable = MODEL_VARIABLES[variableId];
+
+  function onSelectVariable(id: ModelVariableId) {
+    setVariableId(id);
+    setBounds(defaultBounds(MODEL_VARIABLES[id], MODEL_VARIABLES[id].get(inputs)));
+    setResult(null);
+  }
+
+  function onSolve() {
+    setError(null);
+    try {
+      setResult(
+        goalSeek(inputs, {
+          variable: variableId,
+          output: parseOutput(outputKey),
+          target,
+          lower: bounds[0],
+          upper: bounds[1],
+        })
+      );
+    } catch (e: unknown) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : "Goal seek failed");
+    }
+  }
+
+  const output = parseOutput(outputKey);
+  const targetHint =
+    output.type === "tonnesPerHour"
+      ? "at least (t/h)"
+      : output.type === "totalCostEUR"
+        ? "at most (EUR)"
+        : "at most (trucks)";
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4">
+        <h2 className="text-xl font-bold text-[#e6edf3]">Goal Seek</h2>
+        <p className="mt-1 text-sm text-[#8b949e]">
+          Solve one input for a target fleet, throughput or cost
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+            Output
+            <select
+              aria-label="goal-output"
+              value={outputKey}
+              onChange={(e) => {
+                setOutputKey(e.target.value);
+                setResult(null);
+              }}
+              className={`mt-1 ${fieldClass}`}
+            >
+              {inputs.productionPlan.map((p) => (
+                <option key={p.year} value={`trucks-${p.year}`}>
+                  Trucks {p.year}
+                </option>
+              ))}
+              <option value="tph">Tonnes / Hour</option>
+              <option value="cost">Total Cost (EUR)</option>
+            </select>
+          </label>
+          <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+            Target {targetHint}
+            <input
+              type="number"
+              aria-label="goal-target"
+              value={target}
+              onChange={(e) => setTarget(Number(e.target.value))}
+              className={`mt-1 ${fieldClass}`}
+            />
+          </label>
+          <label className="col-span-2 text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+            By changing
+            <select
+              aria-label="goal-variable"
+              value={variableId}
+              onChange={(e) => onSelectVariable(e.target.value as ModelVariableId)}
+              className={`mt-1 ${fieldClass}`}
+            >
+              {applicable.map((id) => (
+                <option key={id} value={id}>
+                  {MODEL_VARIABLES[id].label} ({MODEL_VARIABLES[id].unit})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+            Lower Bound
+            <input
+              type="number"
+              aria-label="goal-lower"
+              value={bounds[0]}
+              onChange={(e) => setBounds([Number(e.target.value), bounds[1]])}
+              className={`mt-1 ${fieldClass}`}
+            />
+          </label>
+          <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+            Upper Bound
+            <input
+              type="number"
+              aria-label="goal-upper"
+              value={bounds[1]}
+              onChange={(e) => setBounds([bounds[0], Number(e.target.value)])}
+              className={`mt-1 ${fieldClass}`}
+            />
+          </label>
+        </div>
+
+        <Button
+          aria-label="goal-solve"
+          onClick={onSolve}
+          className="w-full border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+        >
+          Solve
+        </Button>
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        {result && (
+          <div className="rounded-md border border-[#30363d] bg-[#0d1117] p-4 space-y-3">
+            <div className="flex items-baseline justify-between">
+              <span className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                {variable.label}
+              </span>
+              <span className="text-xl font-bold text-[#58a6ff]" data-testid="goal-result">
+                {fmtValue(result.appliedValue)} {variable.unit}
+              </span>
+            </div>
+            <p className="text-xs text-[#8b949e]">
+              Current {fmtValue(variable.get(inputs))} {variable.unit} · solved{" "}
+              {fmtValue(result.value)} · output at applied value {fmtValue(result.achieved)}
+            </p>
+            <Button
+              aria-label="goal-apply"
+              onClick={() => onApply(result.variable, result.appliedValue)}
+              className="w-full"
+            >
+              Apply to Form
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import React from "react";
+import { Button } from "@/components/ui";
+import type {
+  LabourCurrency,
+  LabourRole,
+  LabourRoster,
+  StaffingBasis,
+} from "@/lib/cost/labour";
+
+const BASIS_LABELS: Record<StaffingBasis, string> = {
+  perTruck: "Per truck",
+  perNTrucks: "1 per N trucks",
+  fixed: "Per crew",
+};
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+/**
+ * Shift roster: shifts per day, relief crews and the staffed roles with
+ * their salary and overhead (see calcLabourCost).
+ */
+export function LabourRosterEditor({
+  roster,
+  currencies = ["SEK", "EUR"],
+  onChange,
+}: {
+  roster: LabourRoster;
+  currencies?: LabourCurrency[]; // those with an FX rate
+  onChange: (roster: LabourRoster) => void;
+}) {
+  function updateRole(index: number, patch: Partial<LabourRole>) {
+    onChange({
+      ...roster,
+      roles: roster.roles.map((r, i) => (i === index ? { ...r, ...patch } : r)),
+    });
+  }
+
+  function addRole() {
+    onChange({
+      ...roster,
+      roles: [
+        ...roster.roles,
+        {
+          name: "New role",
+          basis: "fixed",
+          ratio: 1,
+          salary: 600_000,
+          overheadPercent: 45,
+          currency: "SEK",
+        },
+      ],
+    });
+  }
+
+  function removeRole(index: number) {
+    onChange({ ...roster, roles: roster.roles.filter((_, i) => i !== index) });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+          Shifts per Day
+          <input
+            type="number"
+            min="1"
+            max="4"
+            step="1"
+            aria-label="roster-shifts"
+            value={roster.shiftsPerDay}
+            onChange={(e) => onChange({ ...roster, shiftsPerDay: Number(e.target.value) })}
+            className={`mt-1 ${cellInput}`}
+          />
+        </label>
+        <label className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+          Relief Crews
+          <input
+            type="number"
+            min="0"
+            step="1"
+            aria-label="roster-relief-crews"
+            value={roster.reliefCrews}
+            onChange={(e) => onChange({ ...roster, reliefCrews: Number(e.target.value) })}
+            className={`mt-1 ${cellInput}`}
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[640px]">
+          <thead>
+            <tr className="border-b border-[#30363d]">
+              <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                Role
+              </th>
+              <th className={th}>Staffing</th>
+              <th className={th}>Ratio</th>
+              <th className={th}>Salary / yr</th>
+              <th className={th}>Currency</th>
+              <th className={th}>Overhead %</th>
+              <th className="pb-2 pl-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {roster.roles.map((role, index) => (
+              <tr key={index} className="border-b border-[#30363d]">
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    aria-label={`role-${index}-name`}
+                    value={role.name}
+                    onChange={(e) => updateRole(index, { name: e.target.value })}
+                    className={`${cellInput} text-left`}
+                  />
+                </td>
+                <td className="py-2 px-2">
+                  <select
+                    aria-label={`role-${index}-basis`}
+                    value={role.basis}
+                    onChange={(e) => updateRole(index, { basis: e.target.value as StaffingBasis })}
+                    className={cellInput}
+                  >
+                    {(Object.keys(BASIS_LABELS) as StaffingBasis[]).map((basis) => (
+                      <option key={basis} value={basis}>
+                        {BASIS_LABELS[basis]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 px-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    aria-label={`role-${index}-ratio`}
+                    value={role.ratio}
+                    onChange={(e) => updateRole(index, { ratio: Number(e.target.value) })}
+                    className={cellInput}
+                  />
+                </td>
+                <td className="py-2 px-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="10000"
+                    aria-label={`role-${index}-salary`}
+                    value={role.salary}
+                    onChange={(e) => updateRole(index, { salary: Number(e.target.value) })}
+                    className={cellInput}
+                  />
+                </td>
+                <td className="py-2 px-2">
+                  <select
+                    aria-label={`role-${index}-currency`}
+                    value={role.currency}
+                    onChange={(e) =>
+                      updateRole(index, { currency: e.target.value })
+                    }
+                    className={cellInput}
+                  >
+                    {currencies.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2 px-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="5"
+                    aria-label={`role-${index}-overhead`}
+                    value={role.overheadPercent}
+                    onChange={(e) =>
+                      updateRole(index, { overheadPercent: Number(e.target.value) })
+                    }
+                    className={cellInput}
+                  />
+                </td>
+                <td className="py-2 pl-2 text-right">
+                  <button
+                    onClick={() => removeRole(index)}
+                    className="rounded-md px-2 py-1 text-sm font-semibold text-[#8b949e] hover:bg-red-950/30 hover:text-red-400"
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Button
+        onClick={addRole}
+        className="border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+      >
+        Add Role
+      </Button>
+    </div>
+  );
+}
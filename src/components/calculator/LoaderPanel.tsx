@@ -0,0 +1,185 @@
+import React from "react";
+import { Card } from "@/components/ui";
+import type { LoaderSettings } from "@/lib/scenarios/schema";
+
+function SliderField({
+  label,
+  display,
+  min,
+  max,
+  step,
+  value,
+  onChange,
+  ariaLabel,
+}: {
+  label: string;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  onChange: (value: number) => void;
+  ariaLabel: string;
+}) {
+  return (
+    <div>
+      <div className="mb-2 flex items-baseline justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+          {label}
+        </span>
+        <span className="text-lg font-bold text-[#e6edf3]">{display}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        aria-label={ariaLabel}
+        className="slider w-full"
+      />
+    </div>
+  );
+}
+
+/**
+ * Loader inputs. When enabled, loading time is derived from the bucket and
+ * trucks queue at the loader (see calculateLoaderMatch).
+ */
+export function LoaderPanel({
+  loader,
+  summary,
+  onChange,
+}: {
+  loader: LoaderSettings;
+  summary?: { passes: number; loadingTimeSeconds: number; spotTimeSeconds: number };
+  onChange: (loader: LoaderSettings) => void;
+}) {
+  function set<K extends keyof LoaderSettings>(key: K, value: LoaderSettings[K]) {
+    onChange({ ...loader, [key]: value });
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-[#e6edf3]">Loader</h2>
+          <p className="mt-1 text-sm text-[#8b949e]">
+            Bucket-based loading time and queueing at the shovel
+          </p>
+        </div>
+        <div
+          onClick={() => set("enabled", !loader.enabled)}
+          aria-label="loader-toggle"
+          className={[
+            "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+            loader.enabled ? "bg-brand-500" : "bg-[#30363d]",
+          ].join(" ")}
+        >
+          <span
+            className={[
+              "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+              loader.enabled ? "translate-x-6" : "translate-x-1",
+            ].join(" ")}
+          />
+        </div>
+      </div>
+      {loader.enabled && (
+        <div className="p-6">
+          <div className="grid gap-6 md:grid-cols-2">
+            <SliderField
+              label="Bucket Size"
+              display={`${loader.bucketSize.toFixed(1)} m³`}
+              min={2}
+              max={40}
+              step={0.5}
+              value={loader.bucketSize}
+              onChange={(v) => set("bucketSize", v)}
+              ariaLabel="loader-bucket"
+            />
+            <SliderField
+              label="Fill Factor"
+              display={`${Math.round(loader.fillFactor * 100)}%`}
+              min={0.5}
+              max={1.2}
+              step={0.05}
+              value={loader.fillFactor}
+              onChange={(v) => set("fillFactor", v)}
+              ariaLabel="loader-fill"
+            />
+            <SliderField
+              label="Material Density"
+              display={`${loader.materialDensity.toFixed(1)} t/m³`}
+              min={1}
+              max={3}
+              step={0.1}
+              value={loader.materialDensity}
+              onChange={(v) => set("materialDensity", v)}
+              ariaLabel="loader-density"
+            />
+            <SliderField
+              label="Swing Time / Pass"
+              display={`${loader.swingTime} sec`}
+              min={15}
+              max={90}
+              step={1}
+              value={loader.swingTime}
+              onChange={(v) => set("swingTime", v)}
+              ariaLabel="loader-swing"
+            />
+            <SliderField
+              label="Spot Time"
+              display={`${loader.spotTime} sec`}
+              min={0}
+              max={120}
+              step={5}
+              value={loader.spotTime}
+              onChange={(v) => set("spotTime", v)}
+              ariaLabel="loader-spot"
+            />
+            <SliderField
+              label="Loaders"
+              display={`${loader.loaders}`}
+              min={1}
+              max={10}
+              step={1}
+              value={loader.loaders}
+              onChange={(v) => set("loaders", v)}
+              ariaLabel="loader-count"
+            />
+          </div>
+
+          {summary && (
+            <div className="mt-6 grid grid-cols-3 gap-4 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+              <div>
+                <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                  Passes
+                </div>
+                <div className="mt-1 text-xl font-bold text-[#e6edf3]">
+                  {summary.passes}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                  Loading
+                </div>
+                <div className="mt-1 text-xl font-bold text-[#e6edf3]">
+                  {summary.loadingTimeSeconds.toFixed(0)}s
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                  Spotting
+                </div>
+                <div className="mt-1 text-xl font-bold text-[#e6edf3]">
+                  {summary.spotTimeSeconds.toFixed(0)}s
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
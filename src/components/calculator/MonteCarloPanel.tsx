@@ -0,0 +1,288 @@
+import React, { useState } from "react";
+import { Button, Card, ErrorText } from "@/components/ui";
+import {
+  MODEL_VARIABLES,
+  type ModelInputs,
+  type ModelVariable,
+  type ModelVariableId,
+} from "@/lib/analysis/model";
+import {
+  defaultDistribution,
+  MONTE_CARLO_DEFAULTS,
+  runMonteCarlo,
+  type Distribution,
+  type DistributionType,
+  type MonteCarloResult,
+  type UncertainInputs,
+} from "@/lib/analysis/monteCarlo";
+
+// Inputs offered for uncertainty, in display order (those the inputs use)
+const UNCERTAIN_VARIABLES: ModelVariableId[] = [
+  "speedLoaded",
+  "speedUnloaded",
+  "payloadTonnes",
+  "availabilityPercent",
+  "efficiencyPercent",
+  "utilizationPercent",
+  "fuelSEKPerKm",
+];
+
+// Keep the range when switching type (normal: ±3σ ≈ min..max)
+function convertDistribution(d: Distribution, type: DistributionType): Distribution {
+  const [min, centre, max] =
+    d.type === "normal"
+      ? [d.mean - 3 * d.sd, d.mean, d.mean + 3 * d.sd]
+      : d.type === "triangular"
+        ? [d.min, d.mode, d.max]
+        : [d.min, (d.min + d.max) / 2, d.max];
+
+  switch (type) {
+    case "triangular":
+      return { type, min, mode: centre, max };
+    case "normal":
+      return { type, mean: centre, sd: (max - min) / 6 };
+    case "uniform":
+      return { type, min, max };
+  }
+}
+
+// Parameters of any distribution type: "min", "mode", "max", "mean", "sd"
+type DistributionParam = Distribution extends infer D
+  ? D extends Distribution
+    ? Exclude<keyof D, "type">
+    : never
+  : never;
+
+interface DistributionField {
+  key: DistributionParam;
+  label: string;
+  value: number;
+  set: (value: number) => Distribution;
+}
+
+// Editable parameters per distribution type
+function distributionFields(d: Distribution): DistributionField[] {
+  switch (d.type) {
+    case "triangular":
+      return [
+        { key: "min", label: "Min", value: d.min, set: (min) => ({ ...d, min }) },
+        { key: "mode", label: "Mode", value: d.mode, set: (mode) => ({ ...d, mode }) },
+        { key: "max", label: "Max", value: d.max, set: (max) => ({ ...d, max }) },
+      ];
+    case "normal":
+      return [
+        { key: "mean", label: "Mean", value: d.mean, set: (mean) => ({ ...d, mean }) },
+        { key: "sd", label: "SD", value: d.sd, set: (sd) => ({ ...d, sd }) },
+      ];
+    case "uniform":
+      return [
+        { key: "min", label: "Min", value: d.min, set: (min) => ({ ...d, min }) },
+        { key: "max", label: "Max", value: d.max, set: (max) => ({ ...d, max }) },
+      ];
+  }
+}
+
+function fmtNumber(n: number, digits = 0): string {
+  return n.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+const numberClass =
+  "w-20 rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1 text-sm text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+/**
+ * Distributions for key inputs and P10/P50/P90 of trucks and total cost
+ * (see runMonteCarlo).
+ */
+export function MonteCarloPanel({
+  inputs,
+  result,
+  onResult,
+}: {
+  inputs: ModelInputs;
+  result: MonteCarloResult | null;
+  onResult: (result: MonteCarloResult | null) => void;
+}) {
+  const [distributions, setDistributions] = useState<UncertainInputs>({});
+  const [iterations, setIterations] = useState(MONTE_CARLO_DEFAULTS.iterations);
+  const [seed, setSeed] = useState(MONTE_CARLO_DEFAULTS.seed);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const offered = UNCERTAIN_VARIABLES.filter((id) => {
+    const v: ModelVariable = MODEL_VARIABLES[id];
+    return v.applies?.(inputs) ?? true;
+  });
+
+  function toggle(id: ModelVariableId, on: boolean) {
+    const next = { ...distributions };
+    if (on) next[id] = defaultDistribution(MODEL_VARIABLES[id].get(inputs));
+    else delete next[id];
+    setDistributions(next);
+  }
+
+  function update(id: ModelVariableId, d: Distribution) {
+    setDistributions({ ...distributions, [id]: d });
+  }
+
+  function onRun() {
+    setError(null);
+    setRunning(true);
+    // Let the button repaint before the (synchronous) run
+    setTimeout(() => {
+      try {
+        // Distributions set before a truck model or the energy model took over are left out
+        const used: UncertainInputs = Object.fromEntries(
+          offered.flatMap((id) => (distributions[id] ? [[id, distributions[id]]] : []))
+        );
+        onResult(runMonteCarlo(inputs, used, { iterations, seed }));
+      } catch (e: unknown) {
+        onResult(null);
+        setError(e instanceof Error ? e.message : "Monte Carlo run failed");
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4">
+        <h2 className="text-xl font-bold text-[#e6edf3]">Uncertainty (Monte Carlo)</h2>
+        <p className="mt-1 text-sm text-[#8b949e]">
+          Sample uncertain inputs and report P10 / P50 / P90
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="space-y-2">
+          {offered.map((id, i) => {
+            const variable = MODEL_VARIABLES[id];
+            const d = distributions[id];
+            return (
+              <div key={id} className="flex flex-wrap items-center gap-2">
+                <label className="flex w-40 items-center gap-2 text-sm text-[#c9d1d9]">
+                  <input
+                    type="checkbox"
+                    aria-label={`mc-${i}-enabled`}
+                    checked={d !== undefined}
+                    onChange={(e) => toggle(id, e.target.checked)}
+                  />
+                  {variable.label}
+                  <span className="text-xs text-[#484f58]">{variable.unit}</span>
+                </label>
+                {d && (
+                  <>
+                    <select
+                      aria-label={`mc-${i}-type`}
+                      value={d.type}
+                      onChange={(e) =>
+                        update(id, convertDistribution(d, e.target.value as DistributionType))
+                      }
+                      className="rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1 text-sm text-[#e6edf3]"
+                    >
+                      <option value="triangular">Triangular</option>
+                      <option value="normal">Normal</option>
+                      <option value="uniform">Uniform</option>
+                    </select>
+                    {distributionFields(d).map(({ key, label, value, set }) => (
+                      <label key={key} className="flex items-center gap-1 text-xs text-[#8b949e]">
+                        {label}
+                        <input
+                          type="number"
+                          aria-label={`mc-${i}-${key}`}
+                          value={value}
+                          onChange={(e) => update(id, set(Number(e.target.value)))}
+                          className={numberClass}
+                        />
+                      </label>
+                    ))}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-[#8b949e]">
+            Iterations
+            <input
+              type="number"
+              aria-label="mc-iterations"
+              min={10}
+              max={5000}
+              value={iterations}
+              onChange={(e) =>
+                setIterations(Math.min(5000, Math.max(10, Math.round(Number(e.target.value)))))
+              }
+              className={numberClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-[#8b949e]">
+            Seed
+            <input
+              type="number"
+              aria-label="mc-seed"
+              value={seed}
+              onChange={(e) => setSeed(Math.round(Number(e.target.value)))}
+              className={numberClass}
+            />
+          </label>
+        </div>
+
+        <Button
+          aria-label="run-monte-carlo"
+          onClick={onRun}
+          disabled={running || Object.keys(distributions).length === 0}
+          className="w-full border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+        >
+          {running ? "Running…" : "Run Monte Carlo"}
+        </Button>
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        {result && (
+          <div className="overflow-x-auto rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+            <table className="w-full text-sm" data-testid="monte-carlo-table">
+              <thead>
+                <tr className="border-b border-[#30363d] text-xs uppercase tracking-wider text-[#8b949e]">
+                  <th className="pb-2 text-left">Output</th>
+                  <th className="pb-2 text-right">P10</th>
+                  <th className="pb-2 text-right">P50</th>
+                  <th className="pb-2 text-right">P90</th>
+                </tr>
+              </thead>
+              <tbody className="text-[#c9d1d9]">
+                {result.trucksByYear.map((row) => (
+                  <tr key={row.year} className="border-b border-[#30363d]">
+                    <td className="py-1.5">Trucks {row.year}</td>
+                    <td className="py-1.5 text-right">{fmtNumber(row.p10, 1)}</td>
+                    <td className="py-1.5 text-right font-bold text-[#58a6ff]">
+                      {fmtNumber(row.p50, 1)}
+                    </td>
+                    <td className="py-1.5 text-right">{fmtNumber(row.p90, 1)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-1.5">Total Cost (MEUR)</td>
+                  <td className="py-1.5 text-right">
+                    {(result.totalCostEUR.p10 / 1e6).toFixed(2)}
+                  </td>
+                  <td className="py-1.5 text-right font-bold text-[#58a6ff]">
+                    {(result.totalCostEUR.p50 / 1e6).toFixed(2)}
+                  </td>
+                  <td className="py-1.5 text-right">
+                    {(result.totalCostEUR.p90 / 1e6).toFixed(2)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-[#484f58]">
+              {result.iterations} iterations, seed {result.seed}
+              {result.failures > 0 && ` · ${result.failures} infeasible samples skipped`}
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
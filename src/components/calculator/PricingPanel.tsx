@@ -0,0 +1,457 @@
+import React from "react";
+import { Button, Card } from "@/components/ui";
+import {
+  PRICE_CATEGORIES,
+  PRICE_CATEGORY_LABELS,
+  PRICING_DEFAULTS,
+  type PricingSettings,
+  type QuoteResult,
+} from "@/lib/cost/pricing";
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+const thLeft =
+  "pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+const subtleButton = "border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]";
+
+function fmt(n: number): string {
+  return Math.round(n).toLocaleString("en-US");
+}
+
+function NumberCell({
+  value,
+  ariaLabel,
+  step,
+  min,
+  onChange,
+}: {
+  value: number;
+  ariaLabel: string;
+  step: number;
+  min?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <input
+      type="number"
+      min={min}
+      step={step}
+      aria-label={ariaLabel}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={cellInput}
+    />
+  );
+}
+
+/**
+ * Selling prices on top of the internal cost (see calcQuote): margin per
+ * category, contingency, volume discount tiers and payment milestones. The
+ * internal figures are shown here only; the customer quote export gets the
+ * price schedule alone.
+ */
+export function PricingPanel({
+  pricing,
+  quote,
+  error,
+  currencies,
+  onChange,
+  onExportQuote,
+}: {
+  pricing: PricingSettings | null;
+  quote: QuoteResult | null;
+  error: string | null;
+  currencies: string[];
+  onChange: (pricing: PricingSettings | null) => void;
+  onExportQuote: () => void;
+}) {
+  function set<K extends keyof PricingSettings>(key: K, value: PricingSettings[K]) {
+    if (pricing) onChange({ ...pricing, [key]: value });
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-[#e6edf3]">Customer Pricing</h2>
+          <p className="mt-1 text-sm text-[#8b949e]">
+            Selling prices, discounts and payment milestones for the proposal
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {pricing && (
+            <Button
+              aria-label="export-quote-pdf"
+              onClick={onExportQuote}
+              disabled={!quote}
+              className={`${subtleButton} px-4 py-2 text-sm`}
+            >
+              Customer Quote PDF
+            </Button>
+          )}
+          <div
+            onClick={() => onChange(pricing ? null : structuredClone(PRICING_DEFAULTS))}
+            aria-label="pricing-toggle"
+            className={[
+              "relative inline-flex h-6 w-11 items-center rounded-full cursor-pointer transition-colors duration-200",
+              pricing ? "bg-brand-500" : "bg-[#30363d]",
+            ].join(" ")}
+          >
+            <span
+              className={[
+                "inline-block h-4 w-4 rounded-full bg-white shadow transition-transform duration-200",
+                pricing ? "translate-x-6" : "translate-x-1",
+              ].join(" ")}
+            />
+          </div>
+        </div>
+      </div>
+
+      {pricing && (
+        <div className="p-6 space-y-6">
+          {/* Margins and contingency */}
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-[#30363d]">
+                  <th className={thLeft}>Margin (%)</th>
+                  {PRICE_CATEGORIES.map((c) => (
+                    <th key={c} className={th}>
+                      {PRICE_CATEGORY_LABELS[c]}
+                    </th>
+                  ))}
+                  <th className={th}>Contingency (%)</th>
+                  <th className={th}>Currency</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-[#30363d]">
+                  <td className="py-2 pr-2 text-sm font-bold text-[#c9d1d9]">On cost</td>
+                  {PRICE_CATEGORIES.map((c) => (
+                    <td key={c} className="py-2 px-2">
+                      <NumberCell
+                        value={pricing.marginPercent[c]}
+                        ariaLabel={`margin-${c}`}
+                        step={1}
+                        onChange={(v) => set("marginPercent", { ...pricing.marginPercent, [c]: v })}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2 px-2">
+                    <NumberCell
+                      value={pricing.contingencyPercent}
+                      ariaLabel="contingency"
+                      step={1}
+                      min={0}
+                      onChange={(v) => set("contingencyPercent", v)}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <select
+                      aria-label="quote-currency"
+                      value={pricing.currency}
+                      onChange={(e) => set("currency", e.target.value)}
+                      className={cellInput}
+                    >
+                      {currencies.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Volume discount tiers */}
+            <div className="space-y-2">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[#30363d]">
+                    <th className={thLeft}>Volume Discount</th>
+                    <th className={th}>From Trucks</th>
+                    <th className={th}>Discount (%)</th>
+                    <th className="pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {pricing.volumeDiscounts.map((tier, i) => (
+                    <tr key={i} className="border-b border-[#30363d]">
+                      <td className="py-2 pr-2 text-sm text-[#8b949e]">Tier {i + 1}</td>
+                      <td className="py-2 px-2">
+                        <NumberCell
+                          value={tier.minTrucks}
+                          ariaLabel={`discount-${i}-trucks`}
+                          step={1}
+                          min={0}
+                          onChange={(v) =>
+                            set(
+                              "volumeDiscounts",
+                              pricing.volumeDiscounts.map((t, j) =>
+                                j === i ? { ...t, minTrucks: v } : t
+                              )
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="py-2 px-2">
+                        <NumberCell
+                          value={tier.discountPercent}
+                          ariaLabel={`discount-${i}-percent`}
+                          step={0.5}
+                          min={0}
+                          onChange={(v) =>
+                            set(
+                              "volumeDiscounts",
+                              pricing.volumeDiscounts.map((t, j) =>
+                                j === i ? { ...t, discountPercent: v } : t
+                              )
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="py-2 pl-2 text-right">
+                        <button
+                          aria-label={`discount-${i}-delete`}
+                          onClick={() =>
+                            set(
+                              "volumeDiscounts",
+                              pricing.volumeDiscounts.filter((_, j) => j !== i)
+                            )
+                          }
+                          className="text-sm text-[#8b949e] hover:text-[#e6edf3]"
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <Button
+                onClick={() =>
+                  set("volumeDiscounts", [
+                    ...pricing.volumeDiscounts,
+                    { minTrucks: 0, discountPercent: 0 },
+                  ])
+                }
+                className={subtleButton}
+              >
+                Add Tier
+              </Button>
+            </div>
+
+            {/* Payment milestones */}
+            <div className="space-y-2">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-[#30363d]">
+                    <th className={thLeft}>Milestone</th>
+                    <th className={th}>% of One-time</th>
+                    <th className={th}>Months from Deployment</th>
+                    <th className="pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {pricing.milestones.map((m, i) => (
+                    <tr key={i} className="border-b border-[#30363d]">
+                      <td className="py-2 pr-2">
+                        <input
+                          aria-label={`milestone-${i}-name`}
+                          value={m.name}
+                          onChange={(e) =>
+                            set(
+                              "milestones",
+                              pricing.milestones.map((x, j) =>
+                                j === i ? { ...x, name: e.target.value } : x
+                              )
+                            )
+                          }
+                          className={`${cellInput} text-left`}
+                        />
+                      </td>
+                      <td className="py-2 px-2">
+                        <NumberCell
+                          value={m.percent}
+                          ariaLabel={`milestone-${i}-percent`}
+                          step={5}
+                          min={0}
+                          onChange={(v) =>
+                            set(
+                              "milestones",
+                              pricing.milestones.map((x, j) => (j === i ? { ...x, percent: v } : x))
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="py-2 px-2">
+                        <NumberCell
+                          value={m.monthsFromDeployment}
+                          ariaLabel={`milestone-${i}-months`}
+                          step={1}
+                          onChange={(v) =>
+                            set(
+                              "milestones",
+                              pricing.milestones.map((x, j) =>
+                                j === i ? { ...x, monthsFromDeployment: v } : x
+                              )
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="py-2 pl-2 text-right">
+                        <button
+                          aria-label={`milestone-${i}-delete`}
+                          onClick={() =>
+                            set(
+                              "milestones",
+                              pricing.milestones.filter((_, j) => j !== i)
+                            )
+                          }
+                          className="text-sm text-[#8b949e] hover:text-[#e6edf3]"
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <Button
+                onClick={() =>
+                  set("milestones", [
+                    ...pricing.milestones,
+                    { name: "Milestone", percent: 0, monthsFromDeployment: 0 },
+                  ])
+                }
+                className={subtleButton}
+              >
+                Add Milestone
+              </Button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          {quote && (
+            <>
+              {/* Internal only */}
+              <div
+                className="grid grid-cols-4 gap-4 rounded-md border border-[#d29922] bg-[#0d1117] p-4"
+                data-testid="quote-internal"
+              >
+                <div className="col-span-4 text-xs font-bold uppercase tracking-wider text-[#d29922]">
+                  Internal – not in the customer quote
+                </div>
+                {[
+                  ["Cost", fmt(quote.internal.totals.cost)],
+                  ["Contingency", fmt(quote.internal.totals.contingency)],
+                  ["Margin", fmt(quote.internal.totals.margin)],
+                  [
+                    "Margin %",
+                    quote.internal.totals.marginPercent === null
+                      ? "–"
+                      : `${quote.internal.totals.marginPercent.toFixed(1)}%`,
+                  ],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                      {label}
+                    </div>
+                    <div className="mt-1 text-xl font-bold text-[#e6edf3]">{value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Customer price schedule */}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-[#30363d]">
+                      <th className={thLeft}>Year</th>
+                      <th className={th}>Fleet</th>
+                      {PRICE_CATEGORIES.map((c) => (
+                        <th key={c} className={th}>
+                          {PRICE_CATEGORY_LABELS[c]}
+                        </th>
+                      ))}
+                      <th className={th}>Discount</th>
+                      <th className={th}>Price ({quote.customer.currency})</th>
+                      <th className={th}>Invoiced</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {quote.customer.rows.map((row) => (
+                      <tr key={row.year} className="border-b border-[#30363d]">
+                        <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]">{row.year}</td>
+                        <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                          {row.fleetSize}
+                        </td>
+                        {PRICE_CATEGORIES.map((c) => (
+                          <td key={c} className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                            {fmt(row.lines[c])}
+                          </td>
+                        ))}
+                        <td className="py-2 px-2 text-right text-sm text-[#3fb950]">
+                          {row.discount > 0 ? `−${fmt(row.discount)}` : fmt(0)}
+                        </td>
+                        <td className="py-2 px-2 text-right text-sm font-bold text-[#e6edf3]">
+                          {fmt(row.price)}
+                        </td>
+                        <td className="py-2 px-2 text-right text-sm text-[#c9d1d9]">
+                          {fmt(row.invoiced)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t-2 border-[#30363d] bg-[#1c2333]">
+                      <td className="py-2 pr-2 text-sm font-bold text-[#e6edf3]" colSpan={2}>
+                        Total
+                      </td>
+                      {PRICE_CATEGORIES.map((c) => (
+                        <td key={c} className="py-2 px-2 text-right text-sm font-bold text-[#c9d1d9]">
+                          {fmt(quote.customer.totals.lines[c])}
+                        </td>
+                      ))}
+                      <td className="py-2 px-2 text-right text-sm font-bold text-[#3fb950]">
+                        {quote.customer.volumeDiscountPercent}%
+                      </td>
+                      <td
+                        className="py-2 px-2 text-right text-sm font-bold text-[#58a6ff]"
+                        data-testid="quote-total"
+                      >
+                        {fmt(quote.customer.totals.price)}
+                      </td>
+                      <td className="py-2 px-2" />
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+
+              {quote.customer.milestones.length > 0 && (
+                <div className="text-sm text-[#8b949e]">
+                  Milestones:{" "}
+                  {quote.customer.milestones
+                    .map(
+                      (m) =>
+                        `${m.name} ${m.percent}% (${m.year}) ${fmt(m.amount)} ${quote.customer.currency}`
+                    )
+                    .join(" · ")}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
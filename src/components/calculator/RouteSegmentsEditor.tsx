@@ -0,0 +1,174 @@
+import React from "react";
+import {
+  SURFACE_ROLLING_RESISTANCE,
+  type RouteSegment,
+  type RouteSegmentResult,
+  type SurfaceType,
+} from "@/core";
+import { Button } from "@/components/ui";
+
+const SURFACES = Object.keys(SURFACE_ROLLING_RESISTANCE) as SurfaceType[];
+
+const cellInput =
+  "w-full rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1.5 text-right text-sm text-[#e6edf3] placeholder:text-[#484f58] focus:outline-none focus:ring-2 focus:ring-brand-500/60";
+
+const th =
+  "pb-2 px-2 text-right text-xs font-bold uppercase tracking-wider text-[#8b949e]";
+
+/**
+ * Editable table of haul route segments (loader → dump).
+ * Computed speeds/times are shown next to each row when available.
+ */
+export function RouteSegmentsEditor({
+  segments,
+  results,
+  onChange,
+}: {
+  segments: RouteSegment[];
+  results?: RouteSegmentResult[];
+  onChange: (segments: RouteSegment[]) => void;
+}) {
+  function update(index: number, patch: Partial<RouteSegment>) {
+    onChange(segments.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  }
+
+  function optionalNumber(value: string): number | undefined {
+    return value === "" ? undefined : Number(value);
+  }
+
+  function addSegment() {
+    onChange([...segments, { length: 500, grade: 0, surface: "gravel" }]);
+  }
+
+  function removeSegment(index: number) {
+    if (segments.length > 1) {
+      onChange(segments.filter((_, i) => i !== index));
+    }
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[720px]">
+          <thead>
+            <tr className="border-b border-[#30363d]">
+              <th className="pb-2 pr-2 text-left text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+                #
+              </th>
+              <th className={th}>Length (m)</th>
+              <th className={th}>Grade (%)</th>
+              <th className={th}>RR (%)</th>
+              <th className={th}>Limit (km/h)</th>
+              <th className={th}>Surface</th>
+              <th className={`${th} text-[#58a6ff]`}>Loaded / Empty</th>
+              <th className="pb-2 pl-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {segments.map((segment, index) => {
+              const r = results?.[index];
+              const surface = segment.surface ?? "gravel";
+              return (
+                <tr key={index} className="border-b border-[#30363d]">
+                  <td className="py-2 pr-2 text-sm font-bold text-[#c9d1d9]">
+                    {index + 1}
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="10"
+                      value={segment.length}
+                      onChange={(e) => update(index, { length: Number(e.target.value) })}
+                      aria-label={`route-length-${index}`}
+                      className={cellInput}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="number"
+                      min="-30"
+                      max="30"
+                      step="0.5"
+                      value={segment.grade}
+                      onChange={(e) => update(index, { grade: Number(e.target.value) })}
+                      aria-label={`route-grade-${index}`}
+                      className={cellInput}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="30"
+                      step="0.5"
+                      value={segment.rollingResistance ?? ""}
+                      placeholder={String(SURFACE_ROLLING_RESISTANCE[surface])}
+                      onChange={(e) =>
+                        update(index, { rollingResistance: optionalNumber(e.target.value) })
+                      }
+                      aria-label={`route-rr-${index}`}
+                      className={cellInput}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={segment.speedLimit ?? ""}
+                      placeholder="—"
+                      onChange={(e) =>
+                        update(index, { speedLimit: optionalNumber(e.target.value) })
+                      }
+                      aria-label={`route-limit-${index}`}
+                      className={cellInput}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <select
+                      value={surface}
+                      onChange={(e) =>
+                        update(index, { surface: e.target.value as SurfaceType })
+                      }
+                      aria-label={`route-surface-${index}`}
+                      className={cellInput}
+                    >
+                      {SURFACES.map((s) => (
+                        <option key={s} value={s}>
+                          {s}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 px-2 text-right text-xs text-[#8b949e]">
+                    {r
+                      ? `${r.speedLoaded.toFixed(1)} / ${r.speedUnloaded.toFixed(1)} km/h`
+                      : "—"}
+                  </td>
+                  <td className="py-2 pl-2 text-right">
+                    {segments.length > 1 && (
+                      <button
+                        onClick={() => removeSegment(index)}
+                        aria-label={`route-remove-${index}`}
+                        className="rounded-md px-2 py-1.5 text-sm font-semibold text-[#8b949e] hover:bg-red-950/30 hover:text-red-400"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <Button
+        onClick={addSegment}
+        className="mt-4 border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+      >
+        Add Segment
+      </Button>
+    </div>
+  );
+}
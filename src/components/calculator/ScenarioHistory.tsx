@@ -0,0 +1,104 @@
+import React from "react";
+import type { ScenarioRevision } from "@/lib/scenarios/revisions";
+
+// Scenario fields as the form names them
+const FIELD_LABELS: Record<string, string> = {
+  name: "name",
+  distanceLoaded: "loaded distance",
+  distanceUnloaded: "unloaded distance",
+  speedLoaded: "loaded speed",
+  speedUnloaded: "unloaded speed",
+  loadingTime: "loading time",
+  unloadingTime: "unloading time",
+  route: "haul route",
+  truckModelId: "truck model",
+  catalogueModelId: "catalogue model",
+  catalogueVersion: "catalogue version",
+  loader: "loader",
+  energy: "energy",
+  payloadTonnes: "payload",
+  availability: "availability",
+  efficiency: "efficiency",
+  utilization: "utilization",
+  productionPlan: "production plan",
+  costModel: "cost model",
+  pricing: "pricing",
+  currentHaulage: "current haulage",
+};
+
+function describe(revision: ScenarioRevision): string {
+  if (revision.restoredFrom !== undefined) return `Restored r${revision.restoredFrom}`;
+  if (revision.changedFields.length === 0) {
+    const from = revision.snapshot.branchedFrom;
+    return from ? `Branched from r${from.revision}` : "Created";
+  }
+  return `Changed ${revision.changedFields.map((f) => FIELD_LABELS[f] ?? f).join(", ")}`;
+}
+
+const actionClass =
+  "rounded-md px-2 py-1 text-xs font-semibold text-[#58a6ff] hover:bg-[#243040]";
+
+/**
+ * Revision history of one scenario, newest first. View loads a revision into
+ * the form without saving; Restore makes it current as a new revision;
+ * Branch saves it as a new scenario.
+ */
+export function ScenarioHistory({
+  scenarioId,
+  revisions,
+  currentRevision,
+  onView,
+  onRestore,
+  onBranch,
+}: {
+  scenarioId: string;
+  revisions: ScenarioRevision[];
+  currentRevision: number;
+  onView: (revision: ScenarioRevision) => void;
+  onRestore: (revision: ScenarioRevision) => void;
+  onBranch: (revision: ScenarioRevision) => void;
+}) {
+  if (revisions.length === 0) {
+    return <p className="mt-2 text-xs text-[#8b949e]">No revisions recorded.</p>;
+  }
+
+  return (
+    <ol className="mt-2 space-y-1 border-t border-[#30363d] pt-2">
+      {[...revisions].reverse().map((r) => (
+        <li key={r.revision} className="flex items-start gap-2 text-xs">
+          <span className="w-8 font-bold text-[#e6edf3]">r{r.revision}</span>
+          <div className="flex-1">
+            <div className="text-[#c9d1d9]">{describe(r)}</div>
+            <div className="text-[#8b949e]">
+              {new Date(r.savedAt).toLocaleString()}
+              {r.savedBy && ` • ${r.savedBy}`}
+            </div>
+          </div>
+          <button
+            aria-label={`view-revision-${scenarioId}-${r.revision}`}
+            onClick={() => onView(r)}
+            className={actionClass}
+          >
+            View
+          </button>
+          {r.revision !== currentRevision && (
+            <button
+              aria-label={`restore-revision-${scenarioId}-${r.revision}`}
+              onClick={() => onRestore(r)}
+              className={actionClass}
+            >
+              Restore
+            </button>
+          )}
+          <button
+            aria-label={`branch-revision-${scenarioId}-${r.revision}`}
+            onClick={() => onBranch(r)}
+            className={actionClass}
+          >
+            Branch
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
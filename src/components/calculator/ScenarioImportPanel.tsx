@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import type { ConflictResolution, ImportConflict } from "@/lib/scenarios/scenarioFile";
+
+const RESOLUTIONS: Array<{ resolution: ConflictResolution; label: string }> = [
+  { resolution: "rename", label: "Import as copy" },
+  { resolution: "overwrite", label: "Overwrite" },
+  { resolution: "skip", label: "Skip" },
+];
+
+/**
+ * Scenarios in an import file whose id already exists: choose per scenario
+ * to import a renamed copy, overwrite (as a new revision) or skip.
+ */
+export function ScenarioImportPanel({
+  fileName,
+  total,
+  conflicts,
+  onConfirm,
+  onCancel,
+}: {
+  fileName: string;
+  total: number; // valid scenarios in the file
+  conflicts: ImportConflict[];
+  onConfirm: (resolutions: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}) {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() =>
+    Object.fromEntries(conflicts.map((c) => [c.incoming.id, "rename"]))
+  );
+
+  function setAll(resolution: ConflictResolution) {
+    setResolutions(Object.fromEntries(conflicts.map((c) => [c.incoming.id, resolution])));
+  }
+
+  return (
+    <div className="mb-4 space-y-3 rounded-md border border-[#d29922] bg-[#0d1117] p-3">
+      <div>
+        <div className="text-sm font-bold text-[#e6edf3]">Import {fileName}</div>
+        <p className="mt-1 text-xs text-[#8b949e]">
+          {conflicts.length} of {total} scenarios already exist
+        </p>
+      </div>
+
+      <div className="flex gap-1">
+        {RESOLUTIONS.map(({ resolution, label }) => (
+          <button
+            key={resolution}
+            onClick={() => setAll(resolution)}
+            className="rounded-md px-2 py-1 text-xs font-semibold text-[#58a6ff] hover:bg-[#243040]"
+          >
+            All: {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {conflicts.map(({ incoming, existing }) => (
+          <div key={incoming.id} className="flex items-center gap-2 text-xs">
+            <div className="flex-1">
+              <div className="font-bold text-[#e6edf3]">{incoming.name}</div>
+              <div className="text-[#8b949e]">
+                Saved as {existing.name}, revision {existing.revision}
+              </div>
+            </div>
+            <select
+              aria-label={`import-resolution-${incoming.id}`}
+              value={resolutions[incoming.id]}
+              onChange={(e) =>
+                setResolutions({
+                  ...resolutions,
+                  [incoming.id]: e.target.value as ConflictResolution,
+                })
+              }
+              className="rounded-md border border-[#30363d] bg-[#0d1117] px-2 py-1 text-xs text-[#e6edf3] focus:outline-none focus:ring-2 focus:ring-brand-500/60"
+            >
+              {RESOLUTIONS.map(({ resolution, label }) => (
+                <option key={resolution} value={resolution}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          aria-label="cancel-import"
+          onClick={onCancel}
+          className="rounded-md px-3 py-1.5 text-sm font-semibold text-[#8b949e] hover:bg-[#243040] hover:text-[#e6edf3]"
+        >
+          Cancel
+        </button>
+        <button
+          aria-label="confirm-import"
+          onClick={() => onConfirm(resolutions)}
+          className="rounded-md bg-[#1c2333] border border-[#30363d] px-3 py-1.5 text-sm font-bold text-[#58a6ff] hover:bg-[#243040]"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
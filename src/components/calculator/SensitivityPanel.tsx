@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { Card } from "@/components/ui";
+import type {
+  SensitivityMetric,
+  SensitivityResult,
+  TornadoBar,
+} from "@/lib/analysis/sensitivity";
+
+const MAX_BARS = 10;
+const LOW_COLOUR = "#f0883e";
+const HIGH_COLOUR = "#58a6ff";
+
+const METRICS: Record<SensitivityMetric, { label: string; format: (n: number) => string }> = {
+  peakTrucks: { label: "Peak Trucks", format: (n) => n.toFixed(0) },
+  totalCostEUR: { label: "Total Cost", format: (n) => `${(n / 1_000_000).toFixed(2)} MEUR` },
+};
+
+function fmtInput(n: number): string {
+  return Number(n.toPrecision(4)).toLocaleString();
+}
+
+/**
+ * Horizontal tornado chart: one row per input, bars from the base output to
+ * the output at −X% (orange) and +X% (blue).
+ */
+function TornadoChart({
+  bars,
+  base,
+  format,
+}: {
+  bars: TornadoBar[];
+  base: number;
+  format: (n: number) => string;
+}) {
+  const W = 600;
+  const labelW = 170;
+  const rowH = 26;
+  const top = 24;
+  const H = top + bars.length * rowH + 8;
+  const chartW = W - labelW - 10;
+  const centre = labelW + chartW / 2;
+
+  const maxDelta = Math.max(
+    1e-9,
+    ...bars.flatMap((b) => [b.low, b.high].map((v) => (v === null ? 0 : Math.abs(v - base))))
+  );
+  const scale = (chartW / 2 - 4) / maxDelta;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" data-testid="tornado-chart">
+      <text x={centre} y={14} textAnchor="middle" fontSize={11} fill="#8b949e">
+        Base {format(base)}
+      </text>
+      <line x1={centre} x2={centre} y1={top - 4} y2={H - 4} stroke="#484f58" />
+      {bars.map((b, i) => {
+        const y = top + i * rowH;
+        return (
+          <g key={b.id}>
+            <text x={labelW - 8} y={y + rowH / 2 + 4} textAnchor="end" fontSize={11} fill="#c9d1d9">
+              {b.label}
+            </text>
+            {[
+              { value: b.low, colour: LOW_COLOUR, input: b.lowValue },
+              { value: b.high, colour: HIGH_COLOUR, input: b.highValue },
+            ].map(({ value, colour, input }, side) => {
+              if (value === null) return null;
+              const delta = (value - base) * scale;
+              return (
+                <rect
+                  key={side}
+                  x={delta < 0 ? centre + delta : centre}
+                  y={y + 4 + side * ((rowH - 8) / 2)}
+                  width={Math.max(1, Math.abs(delta))}
+                  height={(rowH - 8) / 2}
+                  fill={colour}
+                >
+                  <title>
+                    {`${b.label} ${fmtInput(input)} ${b.unit} → ${format(value)}`}
+                  </title>
+                </rect>
+              );
+            })}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * Tornado sensitivity of peak trucks or total cost to every input (see
+ * runSensitivity).
+ */
+export function SensitivityPanel({
+  result,
+  error,
+  variationPercent,
+  onVariationChange,
+}: {
+  result: SensitivityResult | null;
+  error: string | null;
+  variationPercent: number;
+  onVariationChange: (percent: number) => void;
+}) {
+  const [metric, setMetric] = useState<SensitivityMetric>("totalCostEUR");
+  const { format } = METRICS[metric];
+  const bars = result ? result[metric].slice(0, MAX_BARS) : [];
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-[#e6edf3]">Sensitivity</h2>
+          <p className="mt-1 text-sm text-[#8b949e]">
+            Each input varied by ±{variationPercent}%, others at base
+          </p>
+        </div>
+        <div className="flex gap-1 rounded-md bg-[#0d1117] border border-[#30363d] p-1">
+          {(Object.keys(METRICS) as SensitivityMetric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={[
+                "rounded-md px-3 py-1 text-xs font-semibold transition-all",
+                metric === m ? "bg-brand-500 text-white" : "text-[#8b949e] hover:text-[#e6edf3]",
+              ].join(" ")}
+            >
+              {METRICS[m].label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-6 space-y-4">
+        <div>
+          <div className="mb-2 flex items-baseline justify-between">
+            <span className="text-xs font-semibold uppercase tracking-wider text-[#8b949e]">
+              Variation
+            </span>
+            <span className="text-lg font-bold text-[#e6edf3]">±{variationPercent}%</span>
+          </div>
+          <input
+            type="range"
+            min={5}
+            max={50}
+            step={5}
+            value={variationPercent}
+            onChange={(e) => onVariationChange(Number(e.target.value))}
+            aria-label="sensitivity-variation"
+            className="slider w-full"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {result && (
+          <>
+            <TornadoChart bars={bars} base={result.base[metric]} format={format} />
+            <div className="flex gap-4 text-xs text-[#8b949e]">
+              <span className="flex items-center gap-1">
+                <span className="inline-block h-2 w-3" style={{ background: LOW_COLOUR }} />
+                Input −{variationPercent}%
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block h-2 w-3" style={{ background: HIGH_COLOUR }} />
+                Input +{variationPercent}%
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+import React, { useState } from "react";
+import { Button, Card, Input, Label, ErrorText } from "@/components/ui";
+import type { FleetSimulationInput, FleetSimulationResult } from "@/core";
+import { runSimulation } from "@/lib/simulation/runSimulation";
+
+type SimulationBase = Pick<
+  FleetSimulationInput,
+  | "trucks"
+  | "loaders"
+  | "haulTimeSeconds"
+  | "returnTimeSeconds"
+  | "serviceTimeSeconds"
+  | "dumpTimeSeconds"
+  | "payloadTonnes"
+>;
+
+function Metric({
+  label,
+  value,
+  testId,
+}: {
+  label: string;
+  value: string;
+  testId?: string;
+}) {
+  return (
+    <div>
+      <div className="text-xs font-bold uppercase tracking-wider text-[#8b949e]">
+        {label}
+      </div>
+      <div className="mt-1 text-xl font-bold text-[#e6edf3]" data-testid={testId}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Discrete-event check of the deterministic result: runs the fleet over a
+ * shift with variance, breakdowns and queues (see runFleetSimulation).
+ */
+export function SimulationPanel({ base }: { base: SimulationBase }) {
+  const [trucks, setTrucks] = useState<number | null>(null);
+  const [seed, setSeed] = useState(1);
+  const [replications, setReplications] = useState(20);
+  const [variabilityPercent, setVariabilityPercent] = useState(15);
+  const [breakdowns, setBreakdowns] = useState(false);
+  const [mtbfHours, setMtbfHours] = useState(60);
+  const [mttrHours, setMttrHours] = useState(4);
+
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<FleetSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the calculated fleet until the user overrides it
+  const truckCount = trucks ?? base.trucks;
+
+  async function onRun() {
+    setError(null);
+    setRunning(true);
+    try {
+      const cv = variabilityPercent / 100;
+      setResult(
+        await runSimulation({
+          ...base,
+          trucks: truckCount,
+          seed,
+          replications,
+          travelTimeCv: cv,
+          serviceTimeCv: cv,
+          ...(breakdowns ? { mtbfHours, mttrHours } : {}),
+        })
+      );
+    } catch (e: unknown) {
+      setResult(null);
+      setError(e instanceof Error ? e.message : "Simulation failed");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  return (
+    <Card>
+      <div className="border-b border-[#30363d] px-6 py-4">
+        <h2 className="text-xl font-bold text-[#e6edf3]">Fleet Simulation</h2>
+        <p className="mt-1 text-sm text-[#8b949e]">
+          12 h shift with variance, breakdowns and queueing
+        </p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Trucks</Label>
+            <Input
+              aria-label="sim-trucks"
+              type="number"
+              min={1}
+              value={truckCount}
+              onChange={(e) => setTrucks(Math.max(1, Number(e.target.value)))}
+            />
+          </div>
+          <div>
+            <Label>Seed</Label>
+            <Input
+              aria-label="sim-seed"
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(Math.round(Number(e.target.value)))}
+            />
+          </div>
+          <div>
+            <Label>Replications</Label>
+            <Input
+              aria-label="sim-replications"
+              type="number"
+              min={1}
+              max={200}
+              value={replications}
+              onChange={(e) =>
+                setReplications(Math.min(200, Math.max(1, Number(e.target.value))))
+              }
+            />
+          </div>
+          <div>
+            <Label>Time Variability (CV %)</Label>
+            <Input
+              aria-label="sim-cv"
+              type="number"
+              min={0}
+              max={100}
+              value={variabilityPercent}
+              onChange={(e) =>
+                setVariabilityPercent(Math.min(100, Math.max(0, Number(e.target.value))))
+              }
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-[#c9d1d9]">
+          <input
+            type="checkbox"
+            aria-label="sim-breakdowns"
+            checked={breakdowns}
+            onChange={(e) => setBreakdowns(e.target.checked)}
+          />
+          Truck breakdowns
+        </label>
+        {breakdowns && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>MTBF (h)</Label>
+              <Input
+                aria-label="sim-mtbf"
+                type="number"
+                min={1}
+                value={mtbfHours}
+                onChange={(e) => setMtbfHours(Math.max(1, Number(e.target.value)))}
+              />
+            </div>
+            <div>
+              <Label>MTTR (h)</Label>
+              <Input
+                aria-label="sim-mttr"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={mttrHours}
+                onChange={(e) => setMttrHours(Math.max(0.1, Number(e.target.value)))}
+              />
+            </div>
+          </div>
+        )}
+
+        <Button
+          aria-label="run-simulation"
+          onClick={onRun}
+          disabled={running}
+          className="w-full border border-[#30363d] bg-[#1c2333] text-[#58a6ff] hover:bg-[#243040]"
+        >
+          {running ? "Simulating…" : "Run Simulation"}
+        </Button>
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        {result && (
+          <div className="grid grid-cols-2 gap-4 rounded-md border border-[#30363d] bg-[#0d1117] p-4">
+            <Metric
+              label="Simulated t/h"
+              value={result.tonnesPerHour.toFixed(1)}
+              testId="sim-tonnes-per-hour"
+            />
+            <Metric
+              label="Analytic t/h"
+              value={`${result.analytic.tonnesPerHour.toFixed(1)} (${
+                result.deltaPercent >= 0 ? "+" : ""
+              }${result.deltaPercent.toFixed(1)}%)`}
+            />
+            <Metric
+              label="Loader Queue"
+              value={`${result.meanLoaderQueueSeconds.toFixed(0)}s (max ${result.maxLoaderQueueSeconds.toFixed(0)}s)`}
+            />
+            <Metric
+              label="Dump Queue"
+              value={`${result.meanDumpQueueSeconds.toFixed(0)}s`}
+            />
+            <Metric
+              label="Loader Utilisation"
+              value={`${Math.round(result.loaderUtilisation * 100)}%`}
+            />
+            <Metric
+              label="Truck Utilisation"
+              value={`${Math.round(result.truckUtilisation * 100)}%`}
+            />
+            <Metric
+              label="Cycle Time"
+              value={`${result.meanCycleTimeSeconds.toFixed(0)}s`}
+            />
+            <Metric
+              label="Cycles / Shift"
+              value={result.cyclesCompleted.toFixed(1)}
+            />
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { z } from "zod";
+import {
+  HaulRouteSchema,
+  REFERENCE_ROLLING_RESISTANCE,
+  SURFACE_ROLLING_RESISTANCE,
+} from "./haulRoute";
+
+/**
+ * Gravitational acceleration (m/s²). Weight in tonnes × G = force in kN.
+ */
+const G = 9.81;
+
+/**
+ * Usable energy in one litre of diesel (kWh, lower heating value)
+ */
+export const DIESEL_KWH_PER_LITRE = 10;
+
+export const DrivetrainSchema = z.enum(["diesel", "battery", "trolley"]);
+
+export type Drivetrain = z.infer<typeof DrivetrainSchema>;
+
+export const DRIVETRAIN_LABELS: Record<Drivetrain, string> = {
+  diesel: "Diesel",
+  battery: "Battery-Electric",
+  trolley: "Trolley Assist",
+};
+
+/**
+ * Battery pack and charging of a battery-electric truck
+ */
+export const BatterySchema = z.object({
+  capacityKWh: z.number().gt(0),                          // nameplate
+  usablePercent: z.number().gt(0).max(100).default(80),   // state-of-charge window
+  chargePowerKW: z.number().gt(0),
+  chargeOverheadSeconds: z.number().min(0).default(300),  // drive to charger, connect, return
+});
+
+export type Battery = z.input<typeof BatterySchema>;
+
+/**
+ * Input schema
+ *
+ * Travel is described either by the two flat distances (level road at the
+ * reference rolling resistance), or by a multi-segment `route` (see
+ * haulRoute): driven loaded in order and empty in reverse.
+ *
+ * Trolley trucks run on the line on loaded uphill segments at or above
+ * `trolleyMinGrade` and on diesel everywhere else.
+ */
+export const CycleEnergyInputSchema = z
+  .object({
+    drivetrain: DrivetrainSchema.default("diesel"),
+
+    distanceLoaded: z.number().min(0).optional(),          // meters
+    distanceUnloaded: z.number().min(0).optional(),        // meters
+    route: HaulRouteSchema.optional(),                     // ordered segments, loader → dump
+
+    emptyWeight: z.number().gt(0),                         // tonnes
+    payload: z.number().min(0),                            // tonnes
+
+    dieselEfficiency: z.number().gt(0).max(1).default(0.4),    // fuel → wheel
+    electricEfficiency: z.number().gt(0).max(1).default(0.85), // battery or line → wheel
+    regenEfficiency: z.number().min(0).max(1).default(0.5),    // wheel → battery when braking
+
+    trolleyMinGrade: z.number().min(0).default(4),         // percent
+
+    battery: BatterySchema.optional(),
+  })
+  .refine(
+    (x) =>
+      x.route !== undefined ||
+      (x.distanceLoaded !== undefined && x.distanceUnloaded !== undefined),
+    { message: "Either a route or both distances must be provided" }
+  )
+  .refine((x) => x.drivetrain !== "battery" || x.battery !== undefined, {
+    message: "A battery truck needs a battery",
+  });
+
+export type CycleEnergyInput = z.input<typeof CycleEnergyInputSchema>;
+
+/**
+ * Output (per haul cycle unless noted)
+ */
+export type CycleEnergyResult = {
+  drivetrain: Drivetrain;
+  tractionKWh: number;                  // energy at the wheels, uphill and rolling
+  brakingKWh: number;                   // energy braked away downhill
+  regenKWh: number;                     // braking energy returned to the battery
+  litres: number;                       // diesel
+  kWh: number;                          // electricity (battery or line)
+  roundTripKm: number;
+  litresPerKm: number;
+  kWhPerKm: number;
+  wiredSharePercent: number;            // trolley: share of distance on the line
+  chargingSecondsPerCycle: number;      // battery: charging time amortised per cycle
+  cyclesPerCharge?: number;             // battery
+};
+
+type Leg = { length: number; resistance: number; mass: number; loaded: boolean; grade: number };
+
+/**
+ * Calculate diesel and electricity use over one haul cycle
+ *
+ * Per leg (a segment driven loaded or empty):
+ *   wheelEnergy (kWh) = mass × G × totalResistance / 100 × length / 3600
+ *   mass              = emptyWeight + payload (loaded) or emptyWeight (empty)
+ *   totalResistance   = ±grade + rollingResistance
+ *
+ * Positive wheel energy is traction, negative is braking.
+ *   diesel:   litres = traction / dieselEfficiency / DIESEL_KWH_PER_LITRE
+ *   battery:  kWh    = traction / electricEfficiency − braking × regenEfficiency
+ *   trolley:  wired legs as kWh = traction / electricEfficiency, the rest as diesel
+ *
+ * Battery charging (a charge uses the usable window of the pack):
+ *   usableKWh               = capacityKWh × usablePercent / 100
+ *   cyclesPerCharge         = usableKWh / kWh
+ *   chargingSecondsPerCycle = kWh / chargePowerKW × 3600
+ *                           + chargeOverheadSeconds / cyclesPerCharge
+ *
+ * @param input - Route or distances, weights, drivetrain and efficiencies
+ * @returns Energy per cycle and per km, and the battery charging time
+ */
+export function calculateCycleEnergy(input: CycleEnergyInput): CycleEnergyResult {
+  const x = CycleEnergyInputSchema.parse(input);
+
+  const loadedMass = x.emptyWeight + x.payload;
+  const legs: Leg[] = [];
+
+  if (x.route) {
+    for (const s of x.route) {
+      const rollingResistance = s.rollingResistance ?? SURFACE_ROLLING_RESISTANCE[s.surface];
+      legs.push(
+        {
+          length: s.length,
+          resistance: s.grade + rollingResistance,
+          mass: loadedMass,
+          loaded: true,
+          grade: s.grade,
+        },
+        {
+          length: s.length,
+          resistance: -s.grade + rollingResistance,
+          mass: x.emptyWeight,
+          loaded: false,
+          grade: -s.grade,
+        }
+      );
+    }
+  } else {
+    legs.push(
+      {
+        length: x.distanceLoaded!,
+        resistance: REFERENCE_ROLLING_RESISTANCE,
+        mass: loadedMass,
+        loaded: true,
+        grade: 0,
+      },
+      {
+        length: x.distanceUnloaded!,
+        resistance: REFERENCE_ROLLING_RESISTANCE,
+        mass: x.emptyWeight,
+        loaded: false,
+        grade: 0,
+      }
+    );
+  }
+
+  let tractionKWh = 0;
+  let brakingKWh = 0;
+  let litres = 0;
+  let kWh = 0;
+  let wiredMeters = 0;
+
+  for (const leg of legs) {
+    // kN × m = kJ; / 3600 = kWh
+    const wheelKWh = (leg.mass * G * (leg.resistance / 100) * leg.length) / 3600;
+    const traction = Math.max(0, wheelKWh);
+    const braking = Math.max(0, -wheelKWh);
+    tractionKWh += traction;
+    brakingKWh += braking;
+
+    const wired =
+      x.drivetrain === "trolley" && leg.loaded && leg.grade >= x.trolleyMinGrade;
+    if (wired) wiredMeters += leg.length;
+
+    if (x.drivetrain === "battery") {
+      kWh += traction / x.electricEfficiency - braking * x.regenEfficiency;
+    } else if (wired) {
+      kWh += traction / x.electricEfficiency;
+    } else {
+      litres += traction / x.dieselEfficiency / DIESEL_KWH_PER_LITRE;
+    }
+  }
+
+  // Regen can at most cancel the cycle's own demand
+  kWh = Math.max(0, kWh);
+  const regenKWh = x.drivetrain === "battery" ? brakingKWh * x.regenEfficiency : 0;
+
+  const totalMeters = legs.reduce((sum, leg) => sum + leg.length, 0);
+  const roundTripKm = totalMeters / 1000;
+
+  let chargingSecondsPerCycle = 0;
+  let cyclesPerCharge: number | undefined;
+  if (x.drivetrain === "battery" && x.battery && kWh > 0) {
+    const usableKWh = (x.battery.capacityKWh * x.battery.usablePercent) / 100;
+    if (kWh > usableKWh) {
+      throw new Error("Usable battery capacity is less than the energy of one haul cycle");
+    }
+    cyclesPerCharge = usableKWh / kWh;
+    chargingSecondsPerCycle =
+      (kWh / x.battery.chargePowerKW) * 3600 +
+      x.battery.chargeOverheadSeconds / cyclesPerCharge;
+  }
+
+  return {
+    drivetrain: x.drivetrain,
+    tractionKWh,
+    brakingKWh,
+    regenKWh,
+    litres,
+    kWh,
+    roundTripKm,
+    litresPerKm: roundTripKm > 0 ? litres / roundTripKm : 0,
+    kWhPerKm: roundTripKm > 0 ? kWh / roundTripKm : 0,
+    wiredSharePercent: totalMeters > 0 ? (wiredMeters / totalMeters) * 100 : 0,
+    chargingSecondsPerCycle,
+    cyclesPerCharge,
+  };
+}
@@ -0,0 +1,339 @@
+import { z } from "zod";
+import {
+  createRandom,
+  sampleExponential,
+  sampleLognormal,
+  type Random,
+} from "./random";
+
+/**
+ * Input schema for the discrete-event fleet simulation
+ *
+ * Runs N trucks over one shift on the same haul, loader and dump times the
+ * deterministic chain uses, but with random variation, breakdowns and
+ * first-come-first-served queues at the loaders and dumps. A fixed seed
+ * always gives the same result.
+ */
+export const FleetSimulationInputSchema = z.object({
+  // Fleet and equipment
+  trucks: z.number().int().min(1),
+  loaders: z.number().int().min(1).optional().default(1),
+  dumps: z.number().int().min(1).optional().default(1),
+
+  // Mean times per cycle (seconds)
+  haulTimeSeconds: z.number().min(0),      // loaded travel
+  returnTimeSeconds: z.number().min(0),    // empty travel
+  serviceTimeSeconds: z.number().gt(0),    // spot + load at the loader
+  dumpTimeSeconds: z.number().gt(0),       // unloading
+
+  payloadTonnes: z.number().gt(0),
+
+  // Shift length in hours
+  shiftHours: z.number().gt(0).max(24).optional().default(12),
+
+  // Coefficient of variation of travel and loader/dump times (0 = deterministic)
+  travelTimeCv: z.number().min(0).max(2).optional().default(0.1),
+  serviceTimeCv: z.number().min(0).max(2).optional().default(0.15),
+
+  // Breakdowns (exponential); omit mtbfHours to disable
+  mtbfHours: z.number().gt(0).optional(),
+  mttrHours: z.number().gt(0).optional().default(4),
+
+  // Random seed and number of independent shifts to average
+  seed: z.number().int().optional().default(1),
+  replications: z.number().int().min(1).max(1000).optional().default(1),
+});
+
+export type FleetSimulationInput = z.input<typeof FleetSimulationInputSchema>;
+
+/**
+ * Output of the fleet simulation (averaged over replications)
+ */
+export type FleetSimulationResult = {
+  // Production
+  tonnesDelivered: number;
+  tonnesPerHour: number;
+  cyclesCompleted: number;
+  meanCycleTimeSeconds: number;  // loader arrival to loader arrival, incl. queues and repairs
+
+  // Queues (mean wait per visit, seconds)
+  meanLoaderQueueSeconds: number;
+  maxLoaderQueueSeconds: number;
+  meanDumpQueueSeconds: number;
+
+  // Utilisation (0..1)
+  loaderUtilisation: number;
+  truckUtilisation: number;    // travelling, loading or dumping – not queuing or broken
+  truckAvailability: number;   // not broken down
+
+  // Deterministic queue-free equivalent with the same availability
+  analytic: {
+    cycleTimeSeconds: number;
+    tonnesPerHour: number;
+  };
+
+  // (simulated − analytic) / analytic × 100
+  deltaPercent: number;
+};
+
+type SimInput = z.infer<typeof FleetSimulationInputSchema>;
+
+type EventType = "arriveLoader" | "loadDone" | "arriveDump" | "dumpDone" | "repaired";
+
+type SimEvent = {
+  time: number;
+  seq: number;
+  type: EventType;
+  truck: number;
+};
+
+/**
+ * Binary min-heap of events ordered by time, then insertion order so that
+ * simultaneous events are processed deterministically.
+ */
+class EventQueue {
+  private heap: SimEvent[] = [];
+  private seq = 0;
+
+  push(time: number, type: EventType, truck: number) {
+    this.heap.push({ time, seq: this.seq++, type, truck });
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(this.heap[i], this.heap[parent])) break;
+      [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+      i = parent;
+    }
+  }
+
+  pop(): SimEvent | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < this.heap.length && this.before(this.heap[l], this.heap[m])) m = l;
+        if (r < this.heap.length && this.before(this.heap[r], this.heap[m])) m = r;
+        if (m === i) break;
+        [this.heap[i], this.heap[m]] = [this.heap[m], this.heap[i]];
+        i = m;
+      }
+    }
+    return top;
+  }
+
+  private before(a: SimEvent, b: SimEvent) {
+    return a.time < b.time || (a.time === b.time && a.seq < b.seq);
+  }
+}
+
+type ShiftStats = {
+  tonnesDelivered: number;
+  cyclesCompleted: number;
+  cycleTimeTotal: number;
+  cycleTimeCount: number;
+  loaderWaits: number[];
+  dumpWaits: number[];
+  loaderBusy: number;
+  truckQueueTime: number;
+  truckDownTime: number;
+};
+
+/**
+ * Simulate one shift
+ *
+ * Each truck loops: queue at loader → load → haul → queue at dump → dump →
+ * return. All trucks start queued at the loaders at shift start. Breakdowns
+ * are drawn on operating time and take effect when an empty truck leaves the
+ * dump; the truck is repaired before it returns. Only work finished before
+ * the end of the shift counts.
+ */
+function simulateShift(x: SimInput, rng: Random): ShiftStats {
+  const shiftEnd = x.shiftHours * 3600;
+  const events = new EventQueue();
+
+  const travel = (mean: number) => sampleLognormal(rng, mean, x.travelTimeCv);
+  const service = (mean: number) => sampleLognormal(rng, mean, x.serviceTimeCv);
+  const nextFailure = () =>
+    x.mtbfHours !== undefined ? sampleExponential(rng, x.mtbfHours * 3600) : Infinity;
+
+  // Per-truck state
+  const queuedSince = new Array<number>(x.trucks).fill(0);
+  const cycleStart = new Array<number>(x.trucks).fill(-1);
+  const operatingUntilFailure = Array.from({ length: x.trucks }, nextFailure);
+  const lastDepart = new Array<number>(x.trucks).fill(0);
+
+  // Shared FIFO queues with free-server counters
+  const loaderQueue: number[] = [];
+  const dumpQueue: number[] = [];
+  let freeLoaders = x.loaders;
+  let freeDumps = x.dumps;
+
+  const stats: ShiftStats = {
+    tonnesDelivered: 0,
+    cyclesCompleted: 0,
+    cycleTimeTotal: 0,
+    cycleTimeCount: 0,
+    loaderWaits: [],
+    dumpWaits: [],
+    loaderBusy: 0,
+    truckQueueTime: 0,
+    truckDownTime: 0,
+  };
+
+  // Clip an interval to the shift when accumulating time-based statistics
+  const inShift = (from: number, to: number) => Math.max(0, Math.min(to, shiftEnd) - from);
+
+  function startLoading(truck: number, now: number) {
+    freeLoaders--;
+    const wait = now - queuedSince[truck];
+    stats.loaderWaits.push(wait);
+    stats.truckQueueTime += inShift(queuedSince[truck], now);
+    const duration = service(x.serviceTimeSeconds);
+    stats.loaderBusy += inShift(now, now + duration);
+    events.push(now + duration, "loadDone", truck);
+  }
+
+  function startDumping(truck: number, now: number) {
+    freeDumps--;
+    const wait = now - queuedSince[truck];
+    stats.dumpWaits.push(wait);
+    stats.truckQueueTime += inShift(queuedSince[truck], now);
+    events.push(now + service(x.dumpTimeSeconds), "dumpDone", truck);
+  }
+
+  for (let t = 0; t < x.trucks; t++) {
+    events.push(0, "arriveLoader", t);
+  }
+
+  for (let e = events.pop(); e && e.time < shiftEnd; e = events.pop()) {
+    const { time: now, truck } = e;
+
+    switch (e.type) {
+      case "arriveLoader":
+        // Cycle time runs from one loader arrival to the next
+        if (cycleStart[truck] >= 0) {
+          stats.cycleTimeTotal += now - cycleStart[truck];
+          stats.cycleTimeCount++;
+        }
+        cycleStart[truck] = now;
+        queuedSince[truck] = now;
+        if (freeLoaders > 0) startLoading(truck, now);
+        else loaderQueue.push(truck);
+        break;
+
+      case "loadDone":
+        freeLoaders++;
+        if (loaderQueue.length > 0) startLoading(loaderQueue.shift()!, now);
+        events.push(now + travel(x.haulTimeSeconds), "arriveDump", truck);
+        break;
+
+      case "arriveDump":
+        queuedSince[truck] = now;
+        if (freeDumps > 0) startDumping(truck, now);
+        else dumpQueue.push(truck);
+        break;
+
+      case "dumpDone": {
+        freeDumps++;
+        if (dumpQueue.length > 0) startDumping(dumpQueue.shift()!, now);
+
+        stats.tonnesDelivered += x.payloadTonnes;
+        stats.cyclesCompleted++;
+
+        // Operating time since last departure counts towards the next failure
+        operatingUntilFailure[truck] -= now - lastDepart[truck];
+        lastDepart[truck] = now;
+
+        if (operatingUntilFailure[truck] <= 0) {
+          const repair = sampleExponential(rng, x.mttrHours * 3600);
+          stats.truckDownTime += inShift(now, now + repair);
+          operatingUntilFailure[truck] = nextFailure();
+          events.push(now + repair, "repaired", truck);
+        } else {
+          events.push(now + travel(x.returnTimeSeconds), "arriveLoader", truck);
+        }
+        break;
+      }
+
+      case "repaired":
+        lastDepart[truck] = now;
+        events.push(now + travel(x.returnTimeSeconds), "arriveLoader", truck);
+        break;
+    }
+  }
+
+  // Trucks still queuing at shift end
+  for (const truck of [...loaderQueue, ...dumpQueue]) {
+    stats.truckQueueTime += inShift(queuedSince[truck], shiftEnd);
+  }
+
+  return stats;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+/**
+ * Run the discrete-event fleet simulation
+ *
+ * Replication r uses seed + r, so results are reproducible for a fixed seed.
+ *
+ * Analytic comparison (no queues, no variance):
+ *   cycleTime     = haul + return + service + dump
+ *   availability  = mtbf / (mtbf + mttr)              (1 without breakdowns)
+ *   tonnesPerHour = trucks × payload × 3600 / cycleTime × availability
+ *
+ * @param input - Fleet, times, variability, breakdowns and seed
+ * @returns Simulated production, queues and utilisation vs. the analytic result
+ */
+export function runFleetSimulation(input: FleetSimulationInput): FleetSimulationResult {
+  const x = FleetSimulationInputSchema.parse(input);
+  const shiftSeconds = x.shiftHours * 3600;
+
+  const runs: ShiftStats[] = [];
+  for (let r = 0; r < x.replications; r++) {
+    runs.push(simulateShift(x, createRandom(x.seed + r)));
+  }
+
+  const allLoaderWaits = runs.flatMap((s) => s.loaderWaits);
+  const tonnesDelivered = mean(runs.map((s) => s.tonnesDelivered));
+  const cyclesCompleted = mean(runs.map((s) => s.cyclesCompleted));
+  const truckSeconds = x.trucks * shiftSeconds;
+
+  const truckQueueTime = mean(runs.map((s) => s.truckQueueTime));
+  const truckDownTime = mean(runs.map((s) => s.truckDownTime));
+  const tonnesPerHour = tonnesDelivered / x.shiftHours;
+
+  const analyticCycle =
+    x.haulTimeSeconds + x.returnTimeSeconds + x.serviceTimeSeconds + x.dumpTimeSeconds;
+  const availability =
+    x.mtbfHours !== undefined ? x.mtbfHours / (x.mtbfHours + x.mttrHours) : 1;
+  const analyticTph = (x.trucks * x.payloadTonnes * 3600 * availability) / analyticCycle;
+
+  return {
+    tonnesDelivered,
+    tonnesPerHour,
+    cyclesCompleted,
+    meanCycleTimeSeconds:
+      runs.reduce((s, r) => s + r.cycleTimeTotal, 0) /
+      Math.max(1, runs.reduce((s, r) => s + r.cycleTimeCount, 0)),
+    meanLoaderQueueSeconds: mean(allLoaderWaits),
+    // reduce, not Math.max(...): long runs collect more waits than the call stack holds
+    maxLoaderQueueSeconds: allLoaderWaits.reduce((m, w) => Math.max(m, w), 0),
+    meanDumpQueueSeconds: mean(runs.flatMap((s) => s.dumpWaits)),
+    loaderUtilisation: mean(runs.map((s) => s.loaderBusy)) / (x.loaders * shiftSeconds),
+    truckUtilisation: (truckSeconds - truckQueueTime - truckDownTime) / truckSeconds,
+    truckAvailability: (truckSeconds - truckDownTime) / truckSeconds,
+    analytic: {
+      cycleTimeSeconds: analyticCycle,
+      tonnesPerHour: analyticTph,
+    },
+    deltaPercent: ((tonnesPerHour - analyticTph) / analyticTph) * 100,
+  };
+}
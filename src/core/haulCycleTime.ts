@@ -1,26 +1,70 @@
 import { z } from "zod";
+import {
+  HaulRouteSchema,
+  REFERENCE_ROLLING_RESISTANCE,
+  calculateRouteTravel,
+  type RouteSegmentResult,
+} from "./haulRoute";
+import { achievableSpeed, getTruckModel } from "./truckPerformance";
 
 /**
  * Input schema
+ *
+ * Travel is described either by the two flat distances, or by a multi-segment
+ * `route` (see haulRoute). When a route is given the distances are ignored and
+ * the speeds are the base speeds on a level road.
+ *
+ * Speeds come either from the manual `speedLoaded` / `speedUnloaded` inputs or,
+ * when `truckModelId` is set, from that model's rimpull and retarder curves
+ * (see truckPerformance). Flat distances are then treated as level road at the
+ * reference rolling resistance.
  */
-export const HaulCycleTimeInputSchema = z.object({
-  distanceLoaded: z.number().int().min(0),      // meters
-  distanceUnloaded: z.number().int().min(0),    // meters
+export const HaulCycleTimeInputSchema = z
+  .object({
+    distanceLoaded: z.number().int().min(0).optional(),   // meters
+    distanceUnloaded: z.number().int().min(0).optional(), // meters
 
-  speedLoaded: z.number().gt(0),                // km/h
-  speedUnloaded: z.number().gt(0),              // km/h
+    route: HaulRouteSchema.optional(),                    // ordered segments, loader → dump
 
-  loadingTime: z.number().gt(0),                // seconds
-  unloadingTime: z.number().gt(0),              // seconds
-});
+    truckModelId: z.string().min(1).optional(),           // replaces manual speeds
 
-export type HaulCycleTimeInput = z.infer<typeof HaulCycleTimeInputSchema>;
+    speedLoaded: z.number().gt(0).optional(),             // km/h
+    speedUnloaded: z.number().gt(0).optional(),           // km/h
+
+    loadingTime: z.number().gt(0),                        // seconds
+    unloadingTime: z.number().gt(0),                      // seconds
+  })
+  .refine(
+    (x) =>
+      x.route !== undefined ||
+      (x.distanceLoaded !== undefined && x.distanceUnloaded !== undefined),
+    { message: "Either a route or both distances must be provided" }
+  )
+  .refine(
+    (x) =>
+      x.truckModelId !== undefined ||
+      (x.speedLoaded !== undefined && x.speedUnloaded !== undefined),
+    { message: "Either a truck model or both speeds must be provided" }
+  );
+
+export type HaulCycleTimeInput = z.input<typeof HaulCycleTimeInputSchema>;
 
 /**
  * Output
  */
 export type HaulCycleTimeResult = {
   cycleTimeSeconds: number;
+
+  // Travel time breakdown (seconds)
+  loadedTravelTime: number;
+  unloadedTravelTime: number;
+
+  // Speeds used on flat distances (km/h)
+  speedLoaded?: number;
+  speedUnloaded?: number;
+
+  // Per-segment breakdown (only when a route was given)
+  segments?: RouteSegmentResult[];
 };
 
 /**
@@ -31,16 +75,44 @@ export function calculateHaulCycleTime(
 ): HaulCycleTimeResult {
   const x = HaulCycleTimeInputSchema.parse(input);
 
-  // Convert speeds from km/h → m/s
-  const speedLoadedMs = (x.speedLoaded * 1000) / 3600;
-  const speedUnloadedMs = (x.speedUnloaded * 1000) / 3600;
+  const truckModel = x.truckModelId ? getTruckModel(x.truckModelId) : undefined;
+
+  let loadedTravelTime: number;
+  let unloadedTravelTime: number;
+  let speedLoaded: number | undefined;
+  let speedUnloaded: number | undefined;
+  let segments: RouteSegmentResult[] | undefined;
+
+  if (x.route) {
+    // Multi-segment route: per-segment grade- and speed-limited travel
+    const travel = calculateRouteTravel(
+      x.route,
+      truckModel
+        ? (totalResistance, loaded) => achievableSpeed(truckModel, totalResistance, loaded)
+        : { speedLoaded: x.speedLoaded!, speedUnloaded: x.speedUnloaded! }
+    );
+    loadedTravelTime = travel.loadedTravelTime;
+    unloadedTravelTime = travel.unloadedTravelTime;
+    segments = travel.segments;
+  } else {
+    speedLoaded = truckModel
+      ? achievableSpeed(truckModel, REFERENCE_ROLLING_RESISTANCE, true)
+      : x.speedLoaded!;
+    speedUnloaded = truckModel
+      ? achievableSpeed(truckModel, REFERENCE_ROLLING_RESISTANCE, false)
+      : x.speedUnloaded!;
+
+    // Convert speeds from km/h → m/s
+    const speedLoadedMs = (speedLoaded * 1000) / 3600;
+    const speedUnloadedMs = (speedUnloaded * 1000) / 3600;
 
-  // Travel times in seconds
-  const loadedTravelTime =
-    speedLoadedMs > 0 ? x.distanceLoaded / speedLoadedMs : 0;
+    // Travel times in seconds
+    loadedTravelTime =
+      speedLoadedMs > 0 ? (x.distanceLoaded ?? 0) / speedLoadedMs : 0;
 
-  const unloadedTravelTime =
-    speedUnloadedMs > 0 ? x.distanceUnloaded / speedUnloadedMs : 0;
+    unloadedTravelTime =
+      speedUnloadedMs > 0 ? (x.distanceUnloaded ?? 0) / speedUnloadedMs : 0;
+  }
 
   const cycleTimeSeconds =
     loadedTravelTime +
@@ -50,5 +122,10 @@ export function calculateHaulCycleTime(
 
   return {
     cycleTimeSeconds,
+    loadedTravelTime,
+    unloadedTravelTime,
+    speedLoaded,
+    speedUnloaded,
+    segments,
   };
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { getTruckModel, ratedPayload } from "./truckPerformance";
 
 /**
  * Input schema for haul productivity calculations
@@ -7,13 +8,19 @@ import { z } from "zod";
  * - Cycle time (from HaulCycleTime module)
  * - Payload capacity
  * - Operational efficiency factors
+ *
+ * Payload is either given directly or taken from a truck model's rated
+ * payload (grossVehicleWeight − emptyWeight). An explicit payload wins.
  */
 export const HaulProductivityInputSchema = z.object({
   // Cycle time in seconds (must be positive)
   cycleTimeSeconds: z.number().gt(0),
 
   // Payload per cycle in tonnes (must be positive)
-  payloadTonnes: z.number().gt(0),
+  payloadTonnes: z.number().gt(0).optional(),
+
+  // Truck model reference (see truckPerformance) – supplies the payload
+  truckModelId: z.string().min(1).optional(),
 
   // Operational factors (all multiplicative, range 0..1)
   // Availability: fraction of time truck is available (not in maintenance)
@@ -24,6 +31,8 @@ export const HaulProductivityInputSchema = z.object({
 
   // Utilization: fraction of efficient time truck is actually used
   utilization: z.number().min(0).max(1).optional().default(0.90),
+}).refine((x) => x.payloadTonnes !== undefined || x.truckModelId !== undefined, {
+  message: "Either payloadTonnes or truckModelId must be provided",
 });
 
 export type HaulProductivityInput = z.input<typeof HaulProductivityInputSchema>;
@@ -69,6 +78,8 @@ export function calculateHaulProductivity(
   input: HaulProductivityInput
 ): HaulProductivityResult {
   const validated = HaulProductivityInputSchema.parse(input);
+  const payloadTonnes =
+    validated.payloadTonnes ?? ratedPayload(getTruckModel(validated.truckModelId!));
 
   // Constants
   const SECONDS_PER_HOUR = 3600;
@@ -89,8 +100,8 @@ export function calculateHaulProductivity(
   const effectiveCyclesPerYear = theoreticalCyclesPerYear * effectiveFactor;
 
   // Step 4: Calculate tonnage metrics
-  const tonnesPerTruckYear = validated.payloadTonnes * effectiveCyclesPerYear;
-  const tonnesPerHour = validated.payloadTonnes * theoreticalCyclesPerHour * effectiveFactor;
+  const tonnesPerTruckYear = payloadTonnes * effectiveCyclesPerYear;
+  const tonnesPerHour = payloadTonnes * theoreticalCyclesPerHour * effectiveFactor;
 
   return {
     theoreticalCyclesPerHour,
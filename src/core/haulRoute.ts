@@ -0,0 +1,171 @@
+import { z } from "zod";
+
+/**
+ * Haul road surface types with their typical rolling resistance (percent).
+ * Used when a segment does not specify its own rolling resistance.
+ */
+export const SURFACE_ROLLING_RESISTANCE = {
+  paved: 1.5,
+  gravel: 2,
+  dirt: 4,
+  soft: 8,
+} as const;
+
+export type SurfaceType = keyof typeof SURFACE_ROLLING_RESISTANCE;
+
+/**
+ * Rolling resistance (percent) at which the manual base speeds are assumed
+ * to be achieved: a level, well-maintained gravel haul road.
+ */
+export const REFERENCE_ROLLING_RESISTANCE = SURFACE_ROLLING_RESISTANCE.gravel;
+
+/**
+ * One segment of a haul route.
+ *
+ * Segments are ordered from the loading point to the dump. The loaded truck
+ * drives them in order; the empty truck drives them in reverse, so the grade
+ * is negated on the return trip.
+ */
+export const RouteSegmentSchema = z.object({
+  length: z.number().min(0),                              // meters
+  grade: z.number().min(-30).max(30),                     // percent, positive = uphill when loaded
+  rollingResistance: z.number().min(0).max(30).optional(), // percent (defaults from surface)
+  speedLimit: z.number().gt(0).optional(),                // km/h
+  surface: z.enum(["paved", "gravel", "dirt", "soft"]).optional().default("gravel"),
+});
+
+export type RouteSegment = z.input<typeof RouteSegmentSchema>;
+
+export const HaulRouteSchema = z.array(RouteSegmentSchema).min(1);
+
+/**
+ * Base speeds on a level road at the reference rolling resistance (km/h)
+ */
+export type RouteBaseSpeeds = {
+  speedLoaded: number;
+  speedUnloaded: number;
+};
+
+/**
+ * Speed (km/h) for a given total resistance and load state, before the
+ * segment speed limit is applied. Used to plug in a truck performance model.
+ */
+export type RouteSpeedFunction = (totalResistance: number, loaded: boolean) => number;
+
+/**
+ * Per-segment travel result
+ */
+export type RouteSegmentResult = {
+  index: number;
+  length: number;                       // meters
+  grade: number;                        // percent (loaded direction)
+  rollingResistance: number;            // percent
+  totalResistanceLoaded: number;        // percent (grade + rolling resistance)
+  totalResistanceUnloaded: number;      // percent (−grade + rolling resistance)
+  speedLoaded: number;                  // km/h
+  speedUnloaded: number;                // km/h
+  travelTimeLoaded: number;             // seconds
+  travelTimeUnloaded: number;           // seconds
+};
+
+export type RouteTravelResult = {
+  segments: RouteSegmentResult[];
+  totalLength: number;                  // meters (one way)
+  loadedTravelTime: number;             // seconds
+  unloadedTravelTime: number;           // seconds
+};
+
+/**
+ * Resolve the rolling resistance of a segment (explicit value or surface default)
+ */
+export function segmentRollingResistance(segment: RouteSegment): number {
+  const s = RouteSegmentSchema.parse(segment);
+  return s.rollingResistance ?? SURFACE_ROLLING_RESISTANCE[s.surface];
+}
+
+/**
+ * Speed on a segment for a given total resistance, without a truck model.
+ *
+ * The base speed is what the truck does on a level road at the reference
+ * rolling resistance. Above that resistance the truck is treated as power
+ * limited (speed × resistance = constant); below it (downhill or smoother
+ * road) it is held at the base speed. The segment speed limit caps both.
+ */
+export function gradeLimitedSpeed(
+  baseSpeed: number,
+  totalResistance: number,
+  speedLimit?: number
+): number {
+  const powerLimited =
+    totalResistance > REFERENCE_ROLLING_RESISTANCE
+      ? (baseSpeed * REFERENCE_ROLLING_RESISTANCE) / totalResistance
+      : baseSpeed;
+
+  return speedLimit !== undefined ? Math.min(powerLimited, speedLimit) : powerLimited;
+}
+
+/**
+ * Calculate loaded and empty travel times over a multi-segment route
+ *
+ * For each segment:
+ *   totalResistanceLoaded   = grade + rollingResistance
+ *   totalResistanceUnloaded = −grade + rollingResistance
+ *   speed                   = gradeLimitedSpeed(baseSpeed, totalResistance, speedLimit)
+ *   travelTime              = length / speed
+ *
+ * When a speed function is passed instead of base speeds (e.g. derived from
+ * truck rimpull/retarder curves), it replaces the power-limited base speed and
+ * the segment speed limit is still applied on top.
+ *
+ * @param route - Ordered segments from loader to dump
+ * @param speeds - Base speeds loaded and empty (km/h), or a speed function
+ * @returns Per-segment and total travel times
+ */
+export function calculateRouteTravel(
+  route: RouteSegment[],
+  speeds: RouteBaseSpeeds | RouteSpeedFunction
+): RouteTravelResult {
+  const segments = HaulRouteSchema.parse(route);
+
+  const speedOf = (totalResistance: number, loaded: boolean, speedLimit?: number) => {
+    if (typeof speeds === "function") {
+      const speed = speeds(totalResistance, loaded);
+      return speedLimit !== undefined ? Math.min(speed, speedLimit) : speed;
+    }
+    const baseSpeed = loaded ? speeds.speedLoaded : speeds.speedUnloaded;
+    return gradeLimitedSpeed(baseSpeed, totalResistance, speedLimit);
+  };
+
+  const results: RouteSegmentResult[] = segments.map((s, index) => {
+    const rollingResistance = s.rollingResistance ?? SURFACE_ROLLING_RESISTANCE[s.surface];
+    const totalResistanceLoaded = s.grade + rollingResistance;
+    const totalResistanceUnloaded = -s.grade + rollingResistance;
+
+    const speedLoaded = speedOf(totalResistanceLoaded, true, s.speedLimit);
+    const speedUnloaded = speedOf(totalResistanceUnloaded, false, s.speedLimit);
+
+    // km/h → m/s
+    const travelTimeLoaded = s.length / ((speedLoaded * 1000) / 3600);
+    const travelTimeUnloaded = s.length / ((speedUnloaded * 1000) / 3600);
+
+    return {
+      index,
+      length: s.length,
+      grade: s.grade,
+      rollingResistance,
+      totalResistanceLoaded,
+      totalResistanceUnloaded,
+      speedLoaded,
+      speedUnloaded,
+      travelTimeLoaded,
+      travelTimeUnloaded,
+    };
+  });
+
+  return {
+    segments: results,
+    totalLength: results.reduce((sum, s) => sum + s.length, 0),
+    loadedTravelTime: results.reduce((sum, s) => sum + s.travelTimeLoaded, 0),
+    unloadedTravelTime: results.reduce((sum, s) => sum + s.travelTimeUnloaded, 0),
+  };
+}
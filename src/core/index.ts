@@ -2,6 +2,12 @@ export * from "./scenario";
 export * from "./calculate";
 export * from "./mineplan";
 export * from "./truckSizing";
+export * from "./haulRoute";
+export * from "./truckPerformance";
 export * from "./haulCycleTime";
 export * from "./haulProductivity";
-export * from "./fleetSizing";
\ No newline at end of file
+export * from "./fleetSizing";
+export * from "./loaderMatching";
+export * from "./random";
+export * from "./fleetSimulation";
+export * from "./energyModel";
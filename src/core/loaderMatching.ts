@@ -0,0 +1,286 @@
+import { z } from "zod";
+import { calculateHaulProductivity } from "./haulProductivity";
+import { calculateFleetSize } from "./fleetSizing";
+
+/**
+ * Input schema for loading time calculation
+ *
+ * Derives how long a loader needs to fill one truck from bucket size,
+ * fill factor, material density and swing (pass) time.
+ */
+export const LoaderInputSchema = z.object({
+  // Bucket capacity in m³ (must be positive)
+  bucketSize: z.number().gt(0),
+
+  // Fraction of heaped bucket capacity actually filled
+  fillFactor: z.number().gt(0).max(1.5).optional().default(0.9),
+
+  // Loose material density in tonnes per m³
+  materialDensity: z.number().gt(0).optional().default(1.8),
+
+  // Loader cycle time per pass (dig, swing, dump, return) in seconds
+  swingTime: z.number().gt(0),
+
+  // Time for a truck to position under the loader, in seconds
+  spotTime: z.number().min(0).optional().default(30),
+
+  // Truck payload to fill, in tonnes
+  payloadTonnes: z.number().gt(0),
+});
+
+export type LoaderInput = z.input<typeof LoaderInputSchema>;
+
+/**
+ * Output of loading time calculation
+ */
+export type LoadingTimeResult = {
+  // Tonnes moved per bucket pass
+  tonnesPerPass: number;
+
+  // Passes needed to fill the truck
+  passes: number;
+
+  // Time spent loading (passes × swingTime), seconds
+  loadingTimeSeconds: number;
+
+  // Time spent spotting under the loader, seconds
+  spotTimeSeconds: number;
+
+  // Total loader time per truck (spot + load), seconds
+  serviceTimeSeconds: number;
+};
+
+/**
+ * Calculate loading time for one truck
+ *
+ * Formula:
+ *   tonnesPerPass = bucketSize × fillFactor × materialDensity
+ *   passes        = ceil(payloadTonnes / tonnesPerPass)
+ *   loadingTime   = passes × swingTime
+ *   serviceTime   = spotTime + loadingTime
+ *
+ * @param input - Loader and truck parameters
+ * @returns Pass count and loading/service times
+ */
+export function calculateLoadingTime(input: LoaderInput): LoadingTimeResult {
+  const validated = LoaderInputSchema.parse(input);
+
+  const tonnesPerPass =
+    validated.bucketSize * validated.fillFactor * validated.materialDensity;
+  const passes = Math.ceil(validated.payloadTonnes / tonnesPerPass);
+  const loadingTimeSeconds = passes * validated.swingTime;
+
+  return {
+    tonnesPerPass,
+    passes,
+    loadingTimeSeconds,
+    spotTimeSeconds: validated.spotTime,
+    serviceTimeSeconds: validated.spotTime + loadingTimeSeconds,
+  };
+}
+
+/**
+ * Input schema for loader–truck matching
+ */
+export const LoaderMatchInputSchema = z.object({
+  // Loader time per truck (spot + load) in seconds
+  serviceTimeSeconds: z.number().gt(0),
+
+  // Rest of the truck cycle (haul, dump, return) in seconds
+  travelTimeSeconds: z.number().gt(0),
+
+  // Trucks in the fleet
+  trucks: z.number().int().min(1),
+
+  // Loaders the trucks are spread over
+  loaders: z.number().int().min(1).optional().default(1),
+});
+
+export type LoaderMatchInput = z.input<typeof LoaderMatchInputSchema>;
+
+/**
+ * Output of loader–truck matching
+ */
+export type LoaderMatchResult = {
+  // Match factor (trucks × service time) / (loaders × queue-free truck cycle)
+  // < 1: loader waits for trucks; > 1: trucks queue at the loader
+  matchFactor: number;
+
+  // Fraction of time each loader is busy (0..1)
+  loaderUtilisation: number;
+
+  // Expected wait per truck cycle at the loader, seconds
+  queueTimeSeconds: number;
+
+  // Truck cycle time including queueing, seconds
+  cycleTimeSeconds: number;
+};
+
+/**
+ * Finite-source single-server queue (machine repairman model) for `n` trucks
+ * on one loader. Returns the probability that the loader is idle.
+ *
+ *   ρ  = serviceTime / travelTime
+ *   P0 = 1 / Σ_{k=0..n} n! / (n−k)! × ρ^k
+ */
+function idleProbability(n: number, rho: number): number {
+  let term = 1;
+  let sum = 1;
+  for (let k = 1; k <= n; k++) {
+    term *= (n - k + 1) * rho;
+    sum += term;
+  }
+  return 1 / sum;
+}
+
+/**
+ * Calculate loader–truck match factor and queue-adjusted cycle time
+ *
+ * Trucks are spread as evenly as possible over the loaders. For each loader
+ * with n trucks the finite-source queue gives:
+ *   throughput = (1 − P0) / serviceTime       (trucks loaded per second)
+ *
+ * Fleet-wide:
+ *   cycleTime  = trucks / Σ throughput
+ *   queueTime  = cycleTime − travelTime − serviceTime
+ *   matchFactor = trucks × serviceTime / (loaders × (travelTime + serviceTime))
+ *
+ * @param input - Service and travel times, truck and loader counts
+ * @returns Match factor, loader utilisation, queue and cycle times
+ */
+export function calculateLoaderMatch(input: LoaderMatchInput): LoaderMatchResult {
+  const validated = LoaderMatchInputSchema.parse(input);
+  const { serviceTimeSeconds: S, travelTimeSeconds: T, trucks, loaders } = validated;
+
+  const rho = S / T;
+
+  // Distribute trucks: `extra` loaders get one more truck than the rest
+  const base = Math.floor(trucks / loaders);
+  const extra = trucks % loaders;
+
+  let throughput = 0;
+  let busyLoaders = 0;
+  for (const [count, n] of [
+    [loaders - extra, base],
+    [extra, base + 1],
+  ]) {
+    if (count === 0 || n === 0) continue;
+    const busy = 1 - idleProbability(n, rho);
+    busyLoaders += count * busy;
+    throughput += (count * busy) / S;
+  }
+
+  const cycleTimeSeconds = trucks / throughput;
+  const queueTimeSeconds = Math.max(0, cycleTimeSeconds - T - S);
+
+  return {
+    matchFactor: (trucks * S) / (loaders * (T + S)),
+    loaderUtilisation: busyLoaders / loaders,
+    queueTimeSeconds,
+    cycleTimeSeconds,
+  };
+}
+
+/**
+ * Input schema for queue-aware fleet sizing
+ */
+export const QueueAdjustedFleetInputSchema = z.object({
+  totalMineTonnesPerYear: z.number().min(0),
+  serviceTimeSeconds: z.number().gt(0),
+  travelTimeSeconds: z.number().gt(0),
+  loaders: z.number().int().min(1).optional().default(1),
+  payloadTonnes: z.number().gt(0),
+  availability: z.number().min(0).max(1).optional().default(0.90),
+  efficiency: z.number().min(0).max(1).optional().default(0.60),
+  utilization: z.number().min(0).max(1).optional().default(0.90),
+});
+
+export type QueueAdjustedFleetInput = z.input<typeof QueueAdjustedFleetInputSchema>;
+
+export type QueueAdjustedFleetResult = {
+  rawTrucks: number;
+  trucksRequired: number;
+  tonnesPerTruckYear: number;
+  loaderCapacityTonnesPerYear: number;
+  match: LoaderMatchResult;
+};
+
+/**
+ * Size the fleet with queueing at the loader taken into account
+ *
+ * Adding trucks lengthens every truck's cycle once the loader becomes the
+ * bottleneck, so the fleet is found by iteration: starting from the
+ * queue-free size, increase the truck count until calculateFleetSize (with
+ * its 0.20 rounding rule) on the queue-adjusted productivity asks for no
+ * more trucks than are already in the fleet.
+ *
+ * Throws if the target exceeds what the loaders can load at all:
+ *   loaderCapacity = loaders × payload × (secondsPerYear / serviceTime) × effectiveFactor
+ *
+ * @param input - Production target, loader/travel times and truck factors
+ * @returns Truck count with the matching queue result
+ */
+export function calculateQueueAdjustedFleetSize(
+  input: QueueAdjustedFleetInput
+): QueueAdjustedFleetResult {
+  const x = QueueAdjustedFleetInputSchema.parse(input);
+
+  const SECONDS_PER_YEAR = 365 * 24 * 3600;
+  const effectiveFactor = x.availability * x.efficiency * x.utilization;
+  const loaderCapacityTonnesPerYear =
+    x.loaders * x.payloadTonnes * (SECONDS_PER_YEAR / x.serviceTimeSeconds) * effectiveFactor;
+
+  if (x.totalMineTonnesPerYear > loaderCapacityTonnesPerYear) {
+    throw new Error(
+      `Production target exceeds loader capacity (${Math.round(
+        loaderCapacityTonnesPerYear
+      ).toLocaleString()} t/year) – add loaders`
+    );
+  }
+
+  const productivityFor = (cycleTimeSeconds: number) =>
+    calculateHaulProductivity({
+      cycleTimeSeconds,
+      payloadTonnes: x.payloadTonnes,
+      availability: x.availability,
+      efficiency: x.efficiency,
+      utilization: x.utilization,
+    }).tonnesPerTruckYear;
+
+  // Queue-free starting point
+  let trucks = Math.max(
+    1,
+    calculateFleetSize({
+      totalMineTonnesPerYear: x.totalMineTonnesPerYear,
+      tonnesPerTruckYear: productivityFor(x.serviceTimeSeconds + x.travelTimeSeconds),
+    }).trucksRequired
+  );
+
+  const MAX_ITERATIONS = 1000;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const match = calculateLoaderMatch({
+      serviceTimeSeconds: x.serviceTimeSeconds,
+      travelTimeSeconds: x.travelTimeSeconds,
+      trucks,
+      loaders: x.loaders,
+    });
+    const tonnesPerTruckYear = productivityFor(match.cycleTimeSeconds);
+    const fleet = calculateFleetSize({
+      totalMineTonnesPerYear: x.totalMineTonnesPerYear,
+      tonnesPerTruckYear,
+    });
+
+    if (fleet.trucksRequired <= trucks) {
+      return {
+        rawTrucks: fleet.rawTrucks,
+        trucksRequired: x.totalMineTonnesPerYear > 0 ? trucks : 0,
+        tonnesPerTruckYear,
+        loaderCapacityTonnesPerYear,
+        match,
+      };
+    }
+    trucks++;
+  }
+
+  throw new Error("Queue-adjusted fleet size did not converge");
+}
@@ -0,0 +1,86 @@
+/**
+ * Seeded pseudo-random numbers for reproducible simulation runs.
+ *
+ * Uses mulberry32: a small, fast 32-bit generator that is plenty for
+ * simulation and sampling (not for cryptography). The same seed always
+ * produces the same sequence, on every platform.
+ */
+export type Random = {
+  // Uniform in [0, 1)
+  next(): number;
+};
+
+/**
+ * Create a seeded random number generator
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return {
+    next() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+/**
+ * Standard normal sample (Box–Muller)
+ */
+export function sampleStandardNormal(rng: Random): number {
+  // 1 − u keeps the argument of log in (0, 1]
+  const u1 = 1 - rng.next();
+  const u2 = rng.next();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Exponential sample with given mean
+ */
+export function sampleExponential(rng: Random, mean: number): number {
+  return -mean * Math.log(1 - rng.next());
+}
+
+/**
+ * Lognormal sample with given mean and coefficient of variation.
+ * Always positive; cv = 0 returns the mean exactly.
+ */
+export function sampleLognormal(rng: Random, mean: number, cv: number): number {
+  if (cv <= 0) return mean;
+  const sigma2 = Math.log(1 + cv * cv);
+  const mu = Math.log(mean) - sigma2 / 2;
+  return Math.exp(mu + Math.sqrt(sigma2) * sampleStandardNormal(rng));
+}
+
+/**
+ * Uniform sample in [min, max)
+ */
+export function sampleUniform(rng: Random, min: number, max: number): number {
+  return min + (max - min) * rng.next();
+}
+
+/**
+ * Normal sample with given mean and standard deviation
+ */
+export function sampleNormal(rng: Random, mean: number, sd: number): number {
+  return mean + sd * sampleStandardNormal(rng);
+}
+
+/**
+ * Triangular sample on [min, max] with peak at mode (inverse CDF)
+ */
+export function sampleTriangular(
+  rng: Random,
+  min: number,
+  mode: number,
+  max: number
+): number {
+  if (max <= min) return min;
+  const u = rng.next();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
@@ -13,13 +13,3 @@ export type ScenarioResult = {
   totalHoursPerDay: number;
   dailyCost: number;
 };
-
-export type Scenario = {
-  id: string;
-  name: string;
-  input: ScenarioInput;
-  result: ScenarioResult;
-  createdAt: string;
-  updatedAt: string;
-  version: number;
-};
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { z } from "zod";
+
+/**
+ * Gravitational acceleration (m/s²). Weight in tonnes × G = force in kN.
+ */
+const G = 9.81;
+
+/**
+ * One point on a rimpull or retarder curve
+ */
+export const CurvePointSchema = z.object({
+  speed: z.number().min(0),   // km/h
+  force: z.number().min(0),   // kN
+});
+
+export type CurvePoint = z.infer<typeof CurvePointSchema>;
+
+/**
+ * Truck performance model
+ *
+ * Curves are listed by increasing speed. The rimpull curve gives the maximum
+ * tractive force available at each speed; the retarder curve gives the
+ * continuous braking force the truck can hold at each speed downhill.
+ */
+export const TruckModelSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+
+    emptyWeight: z.number().gt(0),          // tonnes
+    grossVehicleWeight: z.number().gt(0),   // tonnes (empty + rated payload)
+    maxSpeed: z.number().gt(0),             // km/h
+
+    rimpull: z.array(CurvePointSchema).min(2),
+    retarder: z.array(CurvePointSchema).min(2),
+  })
+  .refine((m) => m.grossVehicleWeight > m.emptyWeight, {
+    message: "grossVehicleWeight must exceed emptyWeight",
+  });
+
+export type TruckModel = z.infer<typeof TruckModelSchema>;
+
+/**
+ * Built-in truck performance models
+ */
+export const TRUCK_MODELS: TruckModel[] = [
+  {
+    id: "haul-40t",
+    name: "40 t class",
+    emptyWeight: 35,
+    grossVehicleWeight: 75,
+    maxSpeed: 45,
+    rimpull: [
+      { speed: 0, force: 300 },
+      { speed: 5, force: 260 },
+      { speed: 10, force: 150 },
+      { speed: 15, force: 100 },
+      { speed: 20, force: 75 },
+      { speed: 30, force: 50 },
+      { speed: 45, force: 33 },
+    ],
+    retarder: [
+      { speed: 5, force: 200 },
+      { speed: 10, force: 150 },
+      { speed: 20, force: 90 },
+      { speed: 30, force: 60 },
+      { speed: 45, force: 40 },
+    ],
+  },
+  {
+    id: "haul-65t",
+    name: "65 t class",
+    emptyWeight: 52,
+    grossVehicleWeight: 117,
+    maxSpeed: 50,
+    rimpull: [
+      { speed: 0, force: 470 },
+      { speed: 5, force: 400 },
+      { speed: 10, force: 235 },
+      { speed: 15, force: 157 },
+      { speed: 20, force: 118 },
+      { speed: 30, force: 78 },
+      { speed: 50, force: 47 },
+    ],
+    retarder: [
+      { speed: 5, force: 310 },
+      { speed: 10, force: 235 },
+      { speed: 20, force: 140 },
+      { speed: 30, force: 94 },
+      { speed: 50, force: 56 },
+    ],
+  },
+  {
+    id: "haul-100t",
+    name: "100 t class",
+    emptyWeight: 75,
+    grossVehicleWeight: 175,
+    maxSpeed: 55,
+    rimpull: [
+      { speed: 0, force: 700 },
+      { speed: 5, force: 600 },
+      { speed: 10, force: 350 },
+      { speed: 15, force: 235 },
+      { speed: 20, force: 175 },
+      { speed: 30, force: 117 },
+      { speed: 55, force: 64 },
+    ],
+    retarder: [
+      { speed: 5, force: 470 },
+      { speed: 10, force: 350 },
+      { speed: 20, force: 210 },
+      { speed: 30, force: 140 },
+      { speed: 55, force: 76 },
+    ],
+  },
+];
+
+/**
+ * Look up a built-in truck model by id
+ */
+export function getTruckModel(id: string): TruckModel {
+  const model = TRUCK_MODELS.find((m) => m.id === id);
+  if (!model) {
+    throw new Error(`Unknown truck model: ${id}`);
+  }
+  return model;
+}
+
+/**
+ * Rated payload of a truck model (tonnes)
+ */
+export function ratedPayload(model: TruckModel): number {
+  return model.grossVehicleWeight - model.emptyWeight;
+}
+
+/**
+ * Highest speed on a curve at which the available force still covers the
+ * required force, or null if even the first point falls short. Returns
+ * Infinity when the curve covers the requirement past its last point.
+ */
+function maxSpeedForForce(curve: CurvePoint[], required: number): number | null {
+  const last = curve[curve.length - 1];
+  if (last.force >= required) return Infinity;
+
+  for (let i = curve.length - 2; i >= 0; i--) {
+    const a = curve[i];
+    const b = curve[i + 1];
+    if (a.force >= required) {
+      // Linear interpolation between a (enough force) and b (not enough)
+      return a.speed + ((a.force - required) / (a.force - b.force)) * (b.speed - a.speed);
+    }
+  }
+  return null;
+}
+
+/**
+ * Achievable speed for a truck model on a given total resistance
+ *
+ * Formula:
+ *   weight   = loaded ? grossVehicleWeight : emptyWeight     (tonnes)
+ *   required = weight × 9.81 × |totalResistance| / 100       (kN)
+ *
+ *   totalResistance ≥ 0 → highest speed where rimpull ≥ required
+ *   totalResistance < 0 → highest speed where retarder ≥ required
+ *
+ * The result is capped at the model's maxSpeed. Downhill, if the retarder
+ * cannot hold the grade at any listed speed, the lowest retarder speed is
+ * used (service brakes). Uphill, a grade the rimpull cannot climb throws.
+ *
+ * @param model - Truck performance model
+ * @param totalResistance - Grade + rolling resistance (percent)
+ * @param loaded - Whether the truck carries its rated payload
+ * @returns Speed in km/h
+ */
+export function achievableSpeed(
+  model: TruckModel,
+  totalResistance: number,
+  loaded: boolean
+): number {
+  const m = TruckModelSchema.parse(model);
+
+  const weight = loaded ? m.grossVehicleWeight : m.emptyWeight;
+  const required = (weight * G * Math.abs(totalResistance)) / 100;
+
+  if (totalResistance >= 0) {
+    const speed = maxSpeedForForce(m.rimpull, required);
+    if (speed === null || speed <= 0) {
+      throw new Error(
+        `Truck model ${m.id} cannot climb a total resistance of ${totalResistance}%`
+      );
+    }
+    return Math.min(speed, m.maxSpeed);
+  }
+
+  const speed = maxSpeedForForce(m.retarder, required) ?? m.retarder[0].speed;
+  return Math.min(speed, m.maxSpeed);
+}
@@ -0,0 +1,170 @@
+import {
+  LABOUR_ROSTER_DEFAULTS,
+  validateLabourRoster,
+  type LabourRoster,
+} from "@/lib/cost/labour";
+import { evaluateModel, type ModelEvaluation, type ModelInputs } from "./model";
+
+/**
+ * Manual vs. autonomous fleet TCO.
+ *
+ * The same haul, plan and prices run twice through the full model
+ * (calculateHaulProductivity → calculateFleetSize → calcCostBreakdown), once
+ * per case. A case only overrides what differs between a conventional and an
+ * autonomous operation: time usage, FMS, autonomy licenses and the roster.
+ *
+ *   savings_y           = manualCost_y − autonomousCost_y      (EUR)
+ *   cumulativeSavings_y = Σ savings up to y
+ *   paybackYear         = first year from which cumulativeSavings stays ≥ 0;
+ *                         null if the autonomous case ends the plan behind
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface FleetCase {
+  availabilityPercent: number;
+  efficiencyPercent: number;
+  utilizationPercent: number;
+  includeFMS: boolean;
+  truckLicenseEURPerYear: number; // autonomy license; 0 for a manual fleet
+  labour: LabourRoster;
+}
+
+export interface AutonomyYear {
+  year: number;
+  manualTrucks: number;
+  autonomousTrucks: number;
+  manualCostEUR: number;
+  autonomousCostEUR: number;
+  savingsEUR: number;
+  cumulativeSavingsEUR: number;
+}
+
+export interface AutonomyComparison {
+  manual: ModelEvaluation;
+  autonomous: ModelEvaluation;
+  years: AutonomyYear[];
+  paybackYear: number | null;
+  totalSavingsEUR: number; // difference in cumulative cost over the plan
+  npvSavingsEUR: number;
+}
+
+// Conventional fleet: operators on every truck, more idle and shift-change time
+export const MANUAL_CASE_DEFAULTS: FleetCase = {
+  availabilityPercent: 85,
+  efficiencyPercent: 83,
+  utilizationPercent: 75,
+  includeFMS: false,
+  truckLicenseEURPerYear: 0,
+  labour: LABOUR_ROSTER_DEFAULTS,
+};
+
+// Autonomous fleet: control room instead of cab operators
+export const AUTONOMOUS_CASE_DEFAULTS: FleetCase = {
+  availabilityPercent: 90,
+  efficiencyPercent: 90,
+  utilizationPercent: 92,
+  includeFMS: true,
+  truckLicenseEURPerYear: 50_000,
+  labour: {
+    ...LABOUR_ROSTER_DEFAULTS,
+    roles: [
+      {
+        name: "Control Room Operator",
+        basis: "perNTrucks",
+        ratio: 10,
+        salary: 700_000,
+        overheadPercent: 45,
+        currency: "SEK",
+      },
+      ...LABOUR_ROSTER_DEFAULTS.roles.filter((r) => r.basis !== "perTruck"),
+    ],
+  },
+};
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+// Checked here so a bad case is named, not reported as a failing model input
+export function validateFleetCase(label: string, fleetCase: FleetCase): void {
+  const percents = [
+    ["availability", fleetCase.availabilityPercent],
+    ["efficiency", fleetCase.efficiencyPercent],
+    ["utilisation", fleetCase.utilizationPercent],
+  ] as const;
+  for (const [name, value] of percents) {
+    if (!(value > 0 && value <= 100)) {
+      throw new Error(`${label} case: ${name} must be above 0 and at most 100 percent`);
+    }
+  }
+  if (!(fleetCase.truckLicenseEURPerYear >= 0)) {
+    throw new Error(`${label} case: license must not be negative`);
+  }
+  try {
+    validateLabourRoster(fleetCase.labour);
+  } catch (e) {
+    throw new Error(`${label} case: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function applyFleetCase(base: ModelInputs, fleetCase: FleetCase): ModelInputs {
+  return {
+    ...base,
+    availabilityPercent: fleetCase.availabilityPercent,
+    efficiencyPercent: fleetCase.efficiencyPercent,
+    utilizationPercent: fleetCase.utilizationPercent,
+    costModel: {
+      ...base.costModel,
+      includeFMS: fleetCase.includeFMS,
+      truckLicenseEURPerYear: fleetCase.truckLicenseEURPerYear,
+      labour: fleetCase.labour,
+    },
+  };
+}
+
+// ── Comparison ─────────────────────────────────────────────────────────────
+
+export function compareAutonomy(
+  base: ModelInputs,
+  manualCase: FleetCase = MANUAL_CASE_DEFAULTS,
+  autonomousCase: FleetCase = AUTONOMOUS_CASE_DEFAULTS,
+): AutonomyComparison {
+  validateFleetCase("Manual", manualCase);
+  validateFleetCase("Autonomous", autonomousCase);
+  const manual = evaluateModel(applyFleetCase(base, manualCase));
+  const autonomous = evaluateModel(applyFleetCase(base, autonomousCase));
+
+  let cumulative = 0;
+  let paybackYear: number | null = null;
+
+  const years = manual.costs.rows.map((m, i) => {
+    const a = autonomous.costs.rows[i];
+    const savingsEUR = m.totalCostEUR - a.totalCostEUR;
+    cumulative += savingsEUR;
+    if (cumulative < 0) {
+      paybackYear = null;
+    } else if (paybackYear === null) {
+      paybackYear = m.year;
+    }
+    return {
+      year: m.year,
+      manualTrucks: m.fleetSize,
+      autonomousTrucks: a.fleetSize,
+      manualCostEUR: m.totalCostEUR,
+      autonomousCostEUR: a.totalCostEUR,
+      savingsEUR,
+      cumulativeSavingsEUR: cumulative,
+    };
+  });
+
+  return {
+    manual,
+    autonomous,
+    years,
+    paybackYear,
+    totalSavingsEUR:
+      manual.costs.periodTotals.totalCostEUR - autonomous.costs.periodTotals.totalCostEUR,
+    npvSavingsEUR: manual.costs.periodTotals.npvEUR - autonomous.costs.periodTotals.npvEUR,
+  };
+}
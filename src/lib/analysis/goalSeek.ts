@@ -0,0 +1,147 @@
+import {
+  evaluateModel,
+  MODEL_VARIABLES,
+  setModelVariable,
+  type ModelInputs,
+  type ModelVariable,
+  type ModelVariableId,
+} from "./model";
+
+/**
+ * Goal seek: find the value of one input that meets a target output.
+ *
+ * Targets are one-sided, matching how presales asks the question:
+ *   trucksRequired (year)  at most target     ("do year 3 with 12 trucks")
+ *   totalCostEUR           at most target     ("get under 20 MEUR")
+ *   tonnesPerHour          at least target
+ *
+ * Solved by bisection on "target met" between the bounds, which also works
+ * for the stepped truck count. Exactly one bound must meet the target; the
+ * answer is the value closest to the boundary on the side that meets it.
+ * Inputs where the model throws (infeasible) count as not meeting it.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type GoalOutput =
+  | { type: "trucksRequired"; year: number }
+  | { type: "tonnesPerHour" }
+  | { type: "totalCostEUR" };
+
+export interface GoalSeekInput {
+  variable: ModelVariableId;
+  output: GoalOutput;
+  target: number;
+  lower: number;
+  upper: number;
+  tolerance?: number; // on the input value; default 1e-6 × bound range
+  maxIterations?: number;
+}
+
+export interface GoalSeekResult {
+  variable: ModelVariableId;
+  value: number; // solved input value
+  appliedValue: number; // rounded to the form step, still meeting the target
+  achieved: number; // output at appliedValue
+  iterations: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 100;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function evaluateGoalOutput(inputs: ModelInputs, output: GoalOutput): number {
+  const { fleet, costs } = evaluateModel(inputs);
+  switch (output.type) {
+    case "trucksRequired": {
+      const row = fleet.yearlyFleet.find((yf) => yf.year === output.year);
+      if (!row) throw new Error(`Year ${output.year} is not in the production plan`);
+      return row.trucksRequired;
+    }
+    case "tonnesPerHour":
+      return fleet.tonnesPerHour;
+    case "totalCostEUR":
+      return costs.periodTotals.totalCostEUR;
+  }
+}
+
+function meetsTarget(output: GoalOutput, value: number, target: number): boolean {
+  return output.type === "tonnesPerHour" ? value >= target : value <= target;
+}
+
+// ── Solver ─────────────────────────────────────────────────────────────────
+
+export function goalSeek(inputs: ModelInputs, goal: GoalSeekInput): GoalSeekResult {
+  const variable: ModelVariable = MODEL_VARIABLES[goal.variable];
+  if (!variable) throw new Error(`Unknown variable: ${goal.variable}`);
+  if (!(goal.lower < goal.upper)) throw new Error("Lower bound must be below upper bound");
+  if (goal.lower < variable.min || goal.upper > (variable.max ?? Infinity)) {
+    throw new Error(
+      `${variable.label} bounds must lie within ${variable.min}–${variable.max ?? "∞"} ${variable.unit}`
+    );
+  }
+  const { output } = goal;
+  if (
+    output.type === "trucksRequired" &&
+    !inputs.productionPlan.some((p) => p.year === output.year)
+  ) {
+    throw new Error(`Year ${output.year} is not in the production plan`);
+  }
+
+  // Output at x, or null where the model cannot be evaluated
+  const outputAt = (x: number): number | null => {
+    try {
+      return evaluateGoalOutput(setModelVariable(inputs, goal.variable, x), output);
+    } catch {
+      return null;
+    }
+  };
+  const met = (x: number) => {
+    const out = outputAt(x);
+    return out !== null && meetsTarget(output, out, goal.target);
+  };
+
+  const metLower = met(goal.lower);
+  const metUpper = met(goal.upper);
+  if (metLower === metUpper) {
+    throw new Error(
+      metLower
+        ? "Target is already met across the whole range – narrow the bounds"
+        : "Target cannot be met within the bounds"
+    );
+  }
+
+  // Bracket: `good` meets the target, `bad` does not
+  let good = metLower ? goal.lower : goal.upper;
+  let bad = metLower ? goal.upper : goal.lower;
+  const tolerance = goal.tolerance ?? (goal.upper - goal.lower) * 1e-6;
+  const maxIterations = goal.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  let iterations = 0;
+  while (Math.abs(good - bad) > tolerance && iterations < maxIterations) {
+    const mid = (good + bad) / 2;
+    if (met(mid)) good = mid;
+    else bad = mid;
+    iterations++;
+  }
+
+  // Round to the form step towards the side that meets the target
+  let appliedValue = good;
+  if (variable.step) {
+    const rounded =
+      good < bad
+        ? Math.floor(good / variable.step) * variable.step
+        : Math.ceil(good / variable.step) * variable.step;
+    // Guard against floating-point noise in the multiplication
+    const clean = Number(rounded.toFixed(10));
+    if (met(clean)) appliedValue = clean;
+  }
+
+  return {
+    variable: goal.variable,
+    value: good,
+    appliedValue,
+    achieved: outputAt(appliedValue) as number,
+    iterations,
+  };
+}
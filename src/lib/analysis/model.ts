@@ -0,0 +1,438 @@
+import {
+  calculateCycleEnergy,
+  calculateHaulCycleTime,
+  calculateHaulProductivity,
+  calculateFleetSize,
+  calculateLoadingTime,
+  calculateQueueAdjustedFleetSize,
+  type CycleEnergyResult,
+  type RouteSegment,
+  type RouteSegmentResult,
+} from "@/core";
+import {
+  calcCostBreakdown,
+  type CostBreakdownResult,
+  type CostModelInput,
+  type YearlyDriver,
+} from "@/lib/cost/calcCost";
+import type {
+  EnergySettings,
+  LoaderSettings,
+  ProductionPlanRow,
+} from "@/lib/scenarios/schema";
+
+/**
+ * The calculator model as one pure pipeline:
+ *
+ *   haul cycle → productivity → fleet per year → cost drivers → cost breakdown
+ *
+ * Inputs use the same units as the calculator form (km, km/h, percent), so
+ * analysis results can be applied back to the form directly. The calculator,
+ * Monte Carlo, sensitivity and goal seek all evaluate through here.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface HaulCycleInputs {
+  distanceLoadedKm: number;
+  distanceUnloadedKm: number;
+  speedLoaded: number;
+  speedUnloaded: number;
+  loadingTime: number;
+  unloadingTime: number;
+}
+
+export interface ModelInputs {
+  haulCycle: HaulCycleInputs;
+  route?: RouteSegment[]; // replaces the two distances when set
+  truckModelId?: string; // speeds from rimpull/retarder curves when set
+  loader?: LoaderSettings; // used when enabled
+  energy?: EnergySettings; // used when enabled
+  payloadTonnes: number;
+  availabilityPercent: number;
+  efficiencyPercent: number;
+  utilizationPercent: number;
+  productionPlan: ProductionPlanRow[];
+  costModel: CostModelInput;
+}
+
+export interface FleetEvaluation {
+  cycleTimeSeconds: number;
+  // Cycle components (seconds)
+  loadedTravelTime: number;
+  unloadedTravelTime: number;
+  serviceTimeSeconds: number;
+  dumpTimeSeconds: number;
+  routeSegments?: RouteSegmentResult[];
+  // Flat-distance speeds actually used (from the truck model when selected)
+  speedLoaded?: number;
+  speedUnloaded?: number;
+  cycleTimeMinutes: number;
+  cyclesPerHour: number;
+  tonnesPerHour: number;
+  tonnesPerTruckYear: number;
+  effectiveFactor: number;
+  loading?: {
+    passes: number;
+    loadingTimeSeconds: number;
+    spotTimeSeconds: number;
+  };
+  // Energy per cycle and the availability left after battery charging
+  energy?: CycleEnergyResult & { chargingAvailabilityFactor: number };
+  yearlyFleet: Array<{
+    year: number;
+    tonnesPerYear: number;
+    rawTrucks: number;
+    trucksRequired: number;
+    // Queue-adjusted values (only with the loader model)
+    cycleTimeSeconds?: number;
+    matchFactor?: number;
+    queueTimeSeconds?: number;
+  }>;
+}
+
+export interface ModelEvaluation {
+  fleet: FleetEvaluation;
+  costs: CostBreakdownResult;
+}
+
+// ── Pipeline ───────────────────────────────────────────────────────────────
+
+/**
+ * Haul cycle, productivity and fleet per plan year.
+ * Throws on invalid inputs (zod) or when the loaders cannot reach the target.
+ *
+ * With the energy model, battery charging takes trucks out of the haul:
+ *   chargingAvailabilityFactor = cycleTime / (cycleTime + chargingSecondsPerCycle)
+ *   availability              = availabilityPercent / 100 × chargingAvailabilityFactor
+ */
+export function evaluateFleet(inputs: ModelInputs): FleetEvaluation {
+  const { haulCycle, loader } = inputs;
+  const efficiency = inputs.efficiencyPercent / 100;
+  const utilization = inputs.utilizationPercent / 100;
+
+  // Loader model: loader time per truck (spot + load) replaces loadingTime
+  const loading = loader?.enabled
+    ? calculateLoadingTime({ ...loader, payloadTonnes: inputs.payloadTonnes })
+    : null;
+  const serviceTimeSeconds = loading ? loading.serviceTimeSeconds : haulCycle.loadingTime;
+
+  // Convert km back to meters for core functions
+  const cycleTimeResult = calculateHaulCycleTime({
+    ...(inputs.route
+      ? { route: inputs.route }
+      : {
+          distanceLoaded: Math.round(haulCycle.distanceLoadedKm * 1000),
+          distanceUnloaded: Math.round(haulCycle.distanceUnloadedKm * 1000),
+        }),
+    ...(inputs.truckModelId
+      ? { truckModelId: inputs.truckModelId }
+      : {
+          speedLoaded: haulCycle.speedLoaded,
+          speedUnloaded: haulCycle.speedUnloaded,
+        }),
+    loadingTime: serviceTimeSeconds,
+    unloadingTime: haulCycle.unloadingTime,
+  });
+
+  const energy = inputs.energy?.enabled
+    ? calculateCycleEnergy({
+        drivetrain: inputs.energy.drivetrain,
+        ...(inputs.route
+          ? { route: inputs.route }
+          : {
+              distanceLoaded: haulCycle.distanceLoadedKm * 1000,
+              distanceUnloaded: haulCycle.distanceUnloadedKm * 1000,
+            }),
+        emptyWeight: inputs.energy.emptyWeightTonnes,
+        payload: inputs.payloadTonnes,
+        trolleyMinGrade: inputs.energy.trolleyMinGrade,
+        battery:
+          inputs.energy.drivetrain === "battery"
+            ? {
+                capacityKWh: inputs.energy.batteryKWh,
+                usablePercent: inputs.energy.batteryUsablePercent,
+                chargePowerKW: inputs.energy.chargePowerKW,
+              }
+            : undefined,
+      })
+    : null;
+  const chargingAvailabilityFactor = energy
+    ? cycleTimeResult.cycleTimeSeconds /
+      (cycleTimeResult.cycleTimeSeconds + energy.chargingSecondsPerCycle)
+    : 1;
+  const availability = (inputs.availabilityPercent / 100) * chargingAvailabilityFactor;
+
+  const productivityResult = calculateHaulProductivity({
+    cycleTimeSeconds: cycleTimeResult.cycleTimeSeconds,
+    payloadTonnes: inputs.payloadTonnes,
+    availability,
+    efficiency,
+    utilization,
+  });
+
+  const yearlyFleet = inputs.productionPlan.map((plan) => {
+    if (loading && loader) {
+      const sized = calculateQueueAdjustedFleetSize({
+        totalMineTonnesPerYear: plan.tonnesPerYear,
+        serviceTimeSeconds: loading.serviceTimeSeconds,
+        travelTimeSeconds: cycleTimeResult.cycleTimeSeconds - loading.serviceTimeSeconds,
+        loaders: loader.loaders,
+        payloadTonnes: inputs.payloadTonnes,
+        availability,
+        efficiency,
+        utilization,
+      });
+
+      return {
+        year: plan.year,
+        tonnesPerYear: plan.tonnesPerYear,
+        rawTrucks: sized.rawTrucks,
+        trucksRequired: sized.trucksRequired,
+        cycleTimeSeconds: sized.match.cycleTimeSeconds,
+        matchFactor: sized.match.matchFactor,
+        queueTimeSeconds: sized.match.queueTimeSeconds,
+      };
+    }
+
+    const fleetResult = calculateFleetSize({
+      totalMineTonnesPerYear: plan.tonnesPerYear,
+      tonnesPerTruckYear: productivityResult.tonnesPerTruckYear,
+    });
+
+    return {
+      year: plan.year,
+      tonnesPerYear: plan.tonnesPerYear,
+      rawTrucks: fleetResult.rawTrucks,
+      trucksRequired: fleetResult.trucksRequired,
+    };
+  });
+
+  return {
+    cycleTimeSeconds: cycleTimeResult.cycleTimeSeconds,
+    loadedTravelTime: cycleTimeResult.loadedTravelTime,
+    unloadedTravelTime: cycleTimeResult.unloadedTravelTime,
+    serviceTimeSeconds,
+    dumpTimeSeconds: haulCycle.unloadingTime,
+    routeSegments: cycleTimeResult.segments,
+    speedLoaded: cycleTimeResult.speedLoaded,
+    speedUnloaded: cycleTimeResult.speedUnloaded,
+    cycleTimeMinutes: cycleTimeResult.cycleTimeSeconds / 60,
+    cyclesPerHour: productivityResult.theoreticalCyclesPerHour,
+    tonnesPerHour: productivityResult.tonnesPerHour,
+    tonnesPerTruckYear: productivityResult.tonnesPerTruckYear,
+    effectiveFactor: productivityResult.effectiveFactor,
+    loading: loading ?? undefined,
+    energy: energy ? { ...energy, chargingAvailabilityFactor } : undefined,
+    yearlyFleet,
+  };
+}
+
+/**
+ * One-way haul distances in km (route length in route mode)
+ */
+export function haulDistancesKm(inputs: Pick<ModelInputs, "haulCycle" | "route">): {
+  loadedKm: number;
+  unloadedKm: number;
+} {
+  if (inputs.route) {
+    const routeKm =
+      inputs.route.reduce((sum, s) => sum + (Number(s.length) || 0), 0) / 1000;
+    return { loadedKm: routeKm, unloadedKm: routeKm };
+  }
+  return {
+    loadedKm: inputs.haulCycle.distanceLoadedKm,
+    unloadedKm: inputs.haulCycle.distanceUnloadedKm,
+  };
+}
+
+/**
+ * Yearly fleet size, km driven and operating hours, the inputs to
+ * calcCostBreakdown
+ *
+ *   kmPerTruckYear = (loadedKm + unloadedKm) × cyclesPerYear × effectiveFactor
+ *   kmPerYear      = trucks × kmPerTruckYear × (cycleTime / queuedCycleTime)
+ *   hoursPerYear   = trucks × 8760 × effectiveFactor
+ *   litres, kWh    = kmPerYear × litresPerKm, kWhPerKm   (energy model only)
+ *   tonnesPerYear  = planned tonnes moved, for emission intensity
+ *   tonneKmPerYear = tonnesPerYear × loadedKm
+ */
+export function costDrivers(
+  fleet: FleetEvaluation,
+  distances: { loadedKm: number; unloadedKm: number }
+): YearlyDriver[] {
+  const effectiveCyclesPerYear =
+    ((365 * 24 * 3600) / fleet.cycleTimeSeconds) * fleet.effectiveFactor;
+  const kmPerTruckYear = (distances.loadedKm + distances.unloadedKm) * effectiveCyclesPerYear;
+
+  return fleet.yearlyFleet.map((yf) => {
+    // Queueing lengthens the cycle, so each truck drives fewer km
+    const kmPerYear =
+      yf.trucksRequired *
+      kmPerTruckYear *
+      (yf.cycleTimeSeconds ? fleet.cycleTimeSeconds / yf.cycleTimeSeconds : 1);
+
+    return {
+      year: yf.year,
+      fleetSize: yf.trucksRequired,
+      kmPerYear,
+      hoursPerYear: yf.trucksRequired * 365 * 24 * fleet.effectiveFactor,
+      tonnesPerYear: yf.tonnesPerYear,
+      tonneKmPerYear: yf.tonnesPerYear * distances.loadedKm,
+      dieselLitresPerYear: fleet.energy ? kmPerYear * fleet.energy.litresPerKm : undefined,
+      electricityKWhPerYear: fleet.energy ? kmPerYear * fleet.energy.kWhPerKm : undefined,
+    };
+  });
+}
+
+/**
+ * Full model: fleet and cost breakdown
+ */
+export function evaluateModel(inputs: ModelInputs): ModelEvaluation {
+  const fleet = evaluateFleet(inputs);
+  const costs = calcCostBreakdown(inputs.costModel, costDrivers(fleet, haulDistancesKm(inputs)));
+  return { fleet, costs };
+}
+
+// ── Variables ──────────────────────────────────────────────────────────────
+
+export interface ModelVariable {
+  label: string;
+  unit: string;
+  min: number; // lowest meaningful value (samples are clamped)
+  max?: number;
+  step?: number; // form input resolution
+  // False when the current inputs ignore this variable (e.g. speeds with a truck model)
+  applies?(inputs: ModelInputs): boolean;
+  get(inputs: ModelInputs): number;
+  set(inputs: ModelInputs, value: number): ModelInputs;
+}
+
+function haulVariable(
+  key: keyof HaulCycleInputs,
+  label: string,
+  unit: string,
+  min: number,
+  step: number,
+  applies?: (inputs: ModelInputs) => boolean
+): ModelVariable {
+  return {
+    label,
+    unit,
+    min,
+    step,
+    applies,
+    get: (inputs) => inputs.haulCycle[key],
+    set: (inputs, value) => ({ ...inputs, haulCycle: { ...inputs.haulCycle, [key]: value } }),
+  };
+}
+
+// Required numeric fields of the cost model
+type CostNumberField = {
+  [K in keyof CostModelInput]-?: CostModelInput[K] extends number ? K : never;
+}[keyof CostModelInput];
+
+function costVariable(
+  key: CostNumberField,
+  label: string,
+  unit: string,
+  step: number,
+  applies?: (inputs: ModelInputs) => boolean
+): ModelVariable {
+  return {
+    label,
+    unit,
+    min: key === "fxSEKPerEUR" ? 0.01 : 0,
+    step,
+    applies,
+    get: (inputs) => inputs.costModel[key],
+    set: (inputs, value) => ({ ...inputs, costModel: { ...inputs.costModel, [key]: value } }),
+  };
+}
+
+function percentVariable(
+  key: "availabilityPercent" | "efficiencyPercent" | "utilizationPercent",
+  label: string
+): ModelVariable {
+  return {
+    label,
+    unit: "%",
+    min: 1,
+    max: 100,
+    step: 1,
+    get: (inputs) => inputs[key],
+    set: (inputs, value) => ({ ...inputs, [key]: value }),
+  };
+}
+
+const usesDistances = (inputs: ModelInputs) => !inputs.route;
+const usesManualSpeeds = (inputs: ModelInputs) => !inputs.truckModelId;
+const usesLoadingTime = (inputs: ModelInputs) => !inputs.loader?.enabled;
+const usesFms = (inputs: ModelInputs) => inputs.costModel.includeFMS;
+const usesFlatFuel = (inputs: ModelInputs) =>
+  !(inputs.energy?.enabled && inputs.costModel.energyPrices);
+
+/**
+ * Scalar inputs that analysis tools can vary. The production plan is varied
+ * as a whole: setting the total scales every year by the same factor.
+ */
+export const MODEL_VARIABLES = {
+  distanceLoadedKm: haulVariable("distanceLoadedKm", "Distance Loaded", "km", 0.01, 0.05, usesDistances),
+  distanceUnloadedKm: haulVariable("distanceUnloadedKm", "Distance Unloaded", "km", 0.01, 0.05, usesDistances),
+  speedLoaded: haulVariable("speedLoaded", "Speed Loaded", "km/h", 1, 1, usesManualSpeeds),
+  speedUnloaded: haulVariable("speedUnloaded", "Speed Unloaded", "km/h", 1, 1, usesManualSpeeds),
+  loadingTime: haulVariable("loadingTime", "Loading Time", "s", 1, 10, usesLoadingTime),
+  unloadingTime: haulVariable("unloadingTime", "Unloading Time", "s", 1, 10),
+  payloadTonnes: {
+    label: "Payload",
+    unit: "t",
+    min: 1,
+    step: 5,
+    get: (inputs) => inputs.payloadTonnes,
+    set: (inputs, value) => ({ ...inputs, payloadTonnes: value }),
+  },
+  availabilityPercent: percentVariable("availabilityPercent", "Availability"),
+  efficiencyPercent: percentVariable("efficiencyPercent", "Efficiency"),
+  utilizationPercent: percentVariable("utilizationPercent", "Utilization"),
+  productionTonnes: {
+    label: "Production (all years)",
+    unit: "t",
+    min: 0,
+    get: (inputs) => inputs.productionPlan.reduce((sum, p) => sum + p.tonnesPerYear, 0),
+    set: (inputs, value) => {
+      const total = inputs.productionPlan.reduce((sum, p) => sum + p.tonnesPerYear, 0);
+      const factor = total > 0 ? value / total : 0;
+      return {
+        ...inputs,
+        productionPlan: inputs.productionPlan.map((p) => ({
+          ...p,
+          tonnesPerYear: p.tonnesPerYear * factor,
+        })),
+      };
+    },
+  },
+  truckPriceEUR: costVariable("truckPriceEUR", "Truck Price", "EUR", 25_000),
+  truckLicenseEURPerYear: costVariable("truckLicenseEURPerYear", "Truck License", "EUR/yr", 5_000),
+  deploymentOneTimeEUR: costVariable("deploymentOneTimeEUR", "Deployment", "EUR", 25_000),
+  fmsAnnualLicenseEUR: costVariable("fmsAnnualLicenseEUR", "FMS License", "EUR/yr", 10_000, usesFms),
+  fmsDeploymentOneTimeEUR: costVariable("fmsDeploymentOneTimeEUR", "FMS Deployment", "EUR", 25_000, usesFms),
+  fmsHwOneTimeEUR: costVariable("fmsHwOneTimeEUR", "FMS Hardware", "EUR", 25_000, usesFms),
+  serviceSEKPerKm: costVariable("serviceSEKPerKm", "Service", "SEK/km", 0.5),
+  fuelSEKPerKm: costVariable("fuelSEKPerKm", "Fuel", "SEK/km", 0.5, usesFlatFuel),
+  fxSEKPerEUR: costVariable("fxSEKPerEUR", "FX Rate", "SEK/EUR", 0.1),
+} satisfies Record<string, ModelVariable>;
+
+export type ModelVariableId = keyof typeof MODEL_VARIABLES;
+
+/**
+ * Set a variable, clamped to its meaningful range
+ */
+export function setModelVariable(
+  inputs: ModelInputs,
+  id: ModelVariableId,
+  value: number
+): ModelInputs {
+  const v: ModelVariable = MODEL_VARIABLES[id];
+  const clamped = Math.min(v.max ?? Infinity, Math.max(v.min, value));
+  return v.set(inputs, clamped);
+}
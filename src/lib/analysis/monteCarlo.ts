@@ -0,0 +1,185 @@
+import {
+  createRandom,
+  sampleNormal,
+  sampleTriangular,
+  sampleUniform,
+  type Random,
+} from "@/core";
+import {
+  evaluateModel,
+  MODEL_VARIABLES,
+  setModelVariable,
+  type ModelInputs,
+  type ModelVariableId,
+} from "./model";
+
+/**
+ * Monte Carlo uncertainty analysis.
+ *
+ * Each iteration samples every uncertain input from its distribution, runs
+ * the full model (evaluateModel: core modules + calcCostBreakdown) and keeps
+ * the truck count per year and the period total cost. Percentiles of those
+ * samples give the P10/P50/P90 ranges.
+ *
+ * Iterations where the sampled inputs are infeasible (e.g. the truck cannot
+ * climb the route, the loaders cannot reach the target) are counted as
+ * failures and left out of the percentiles.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type Distribution =
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "normal"; mean: number; sd: number }
+  | { type: "uniform"; min: number; max: number };
+
+export type DistributionType = Distribution["type"];
+
+export type UncertainInputs = Partial<Record<ModelVariableId, Distribution>>;
+
+export interface MonteCarloOptions {
+  iterations: number;
+  seed: number;
+}
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  failures: number;
+  seed: number;
+  distributions: UncertainInputs;
+  trucksByYear: Array<{ year: number } & Percentiles>;
+  peakTrucks: Percentiles;
+  totalCostEUR: Percentiles;
+}
+
+export const MONTE_CARLO_DEFAULTS: MonteCarloOptions = {
+  iterations: 500,
+  seed: 1,
+};
+
+// ── Sampling ───────────────────────────────────────────────────────────────
+
+export function sampleDistribution(rng: Random, d: Distribution): number {
+  switch (d.type) {
+    case "triangular":
+      return sampleTriangular(rng, d.min, d.mode, d.max);
+    case "normal":
+      return sampleNormal(rng, d.mean, d.sd);
+    case "uniform":
+      return sampleUniform(rng, d.min, d.max);
+  }
+}
+
+/**
+ * Default distribution around the current value: ±10% triangular
+ */
+export function defaultDistribution(value: number): Distribution {
+  return { type: "triangular", min: value * 0.9, mode: value, max: value * 1.1 };
+}
+
+function validateDistribution(id: string, d: Distribution): void {
+  if (d.type === "normal") {
+    if (d.sd < 0) throw new Error(`${id}: standard deviation must not be negative`);
+    return;
+  }
+  if (d.min > d.max) throw new Error(`${id}: min must not exceed max`);
+  if (d.type === "triangular" && (d.mode < d.min || d.mode > d.max)) {
+    throw new Error(`${id}: mode must lie between min and max`);
+  }
+}
+
+/**
+ * Percentile by linear interpolation between closest ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function percentiles(samples: number[]): Percentiles {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+  };
+}
+
+// ── Runner ─────────────────────────────────────────────────────────────────
+
+export function runMonteCarlo(
+  inputs: ModelInputs,
+  distributions: UncertainInputs,
+  options: MonteCarloOptions = MONTE_CARLO_DEFAULTS,
+): MonteCarloResult {
+  if (!Number.isInteger(options.iterations) || options.iterations < 1) {
+    throw new Error("iterations must be a positive integer");
+  }
+  const entries = Object.entries(distributions) as [ModelVariableId, Distribution][];
+  for (const [id, d] of entries) {
+    if (!(id in MODEL_VARIABLES)) throw new Error(`Unknown variable: ${id}`);
+    validateDistribution(id, d);
+  }
+
+  const rng = createRandom(options.seed);
+  const years = inputs.productionPlan.map((p) => p.year);
+  const trucks: number[][] = years.map(() => []);
+  const peaks: number[] = [];
+  const costs: number[] = [];
+  let failures = 0;
+
+  for (let i = 0; i < options.iterations; i++) {
+    // Draw every variable each iteration so the random stream stays aligned
+    let sampled = inputs;
+    for (const [id, d] of entries) {
+      sampled = setModelVariable(sampled, id, sampleDistribution(rng, d));
+    }
+
+    try {
+      const { fleet, costs: breakdown } = evaluateModel(sampled);
+      fleet.yearlyFleet.forEach((yf, y) => trucks[y].push(yf.trucksRequired));
+      peaks.push(Math.max(0, ...fleet.yearlyFleet.map((yf) => yf.trucksRequired)));
+      costs.push(breakdown.periodTotals.totalCostEUR);
+    } catch {
+      failures++;
+    }
+  }
+
+  if (costs.length === 0) {
+    throw new Error("Every Monte Carlo iteration failed – check the input ranges");
+  }
+
+  return {
+    iterations: options.iterations,
+    failures,
+    seed: options.seed,
+    distributions,
+    trucksByYear: years.map((year, y) => ({ year, ...percentiles(trucks[y]) })),
+    peakTrucks: percentiles(peaks),
+    totalCostEUR: percentiles(costs),
+  };
+}
+
+/**
+ * Short human-readable description, e.g. "Triangular 36 / 40 / 44"
+ */
+export function describeDistribution(d: Distribution): string {
+  const f = (n: number) => Number(n.toPrecision(4)).toLocaleString();
+  switch (d.type) {
+    case "triangular":
+      return `Triangular ${f(d.min)} / ${f(d.mode)} / ${f(d.max)}`;
+    case "normal":
+      return `Normal μ ${f(d.mean)}, σ ${f(d.sd)}`;
+    case "uniform":
+      return `Uniform ${f(d.min)} – ${f(d.max)}`;
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  evaluateModel,
+  MODEL_VARIABLES,
+  setModelVariable,
+  type ModelInputs,
+  type ModelVariable,
+  type ModelVariableId,
+} from "./model";
+
+/**
+ * One-at-a-time (tornado) sensitivity analysis.
+ *
+ * Each applicable input is moved to base × (1 − X%) and base × (1 + X%)
+ * with everything else at its base value, and the full model is evaluated.
+ * Swing = |output(high) − output(low)|; bars are ranked by swing, largest
+ * first. Outputs are the peak truck count over the plan and the period total
+ * cost in EUR.
+ *
+ * A side whose inputs are infeasible (the model throws) has a null output and
+ * contributes nothing to the swing.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface SensitivityOutputs {
+  peakTrucks: number;
+  totalCostEUR: number;
+}
+
+export type SensitivityMetric = keyof SensitivityOutputs;
+
+export interface TornadoBar {
+  id: ModelVariableId;
+  label: string;
+  unit: string;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  low: number | null; // output at lowValue
+  high: number | null; // output at highValue
+  swing: number;
+}
+
+export interface SensitivityResult {
+  variationPercent: number;
+  base: SensitivityOutputs;
+  // Ranked by swing, largest first
+  peakTrucks: TornadoBar[];
+  totalCostEUR: TornadoBar[];
+}
+
+export const SENSITIVITY_DEFAULT_VARIATION_PERCENT = 10;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function outputs(inputs: ModelInputs): SensitivityOutputs | null {
+  try {
+    const { fleet, costs } = evaluateModel(inputs);
+    return {
+      peakTrucks: Math.max(0, ...fleet.yearlyFleet.map((yf) => yf.trucksRequired)),
+      totalCostEUR: costs.periodTotals.totalCostEUR,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function rank(bars: TornadoBar[]): TornadoBar[] {
+  return [...bars].sort((a, b) => b.swing - a.swing || a.label.localeCompare(b.label));
+}
+
+// ── Engine ─────────────────────────────────────────────────────────────────
+
+export function runSensitivity(
+  inputs: ModelInputs,
+  variationPercent: number = SENSITIVITY_DEFAULT_VARIATION_PERCENT,
+  variables: ModelVariableId[] = Object.keys(MODEL_VARIABLES) as ModelVariableId[],
+): SensitivityResult {
+  if (!(variationPercent > 0 && variationPercent < 100)) {
+    throw new Error("Variation must be between 0 and 100 percent");
+  }
+
+  const base = outputs(inputs);
+  if (!base) {
+    throw new Error("Base case cannot be evaluated – fix the inputs first");
+  }
+
+  const byTrucks: TornadoBar[] = [];
+  const byCost: TornadoBar[] = [];
+
+  for (const id of variables) {
+    const variable: ModelVariable = MODEL_VARIABLES[id];
+    if (variable.applies && !variable.applies(inputs)) continue;
+
+    const baseValue = variable.get(inputs);
+    if (baseValue === 0) continue; // ±X% of zero is no variation
+
+    const lowInputs = setModelVariable(inputs, id, baseValue * (1 - variationPercent / 100));
+    const highInputs = setModelVariable(inputs, id, baseValue * (1 + variationPercent / 100));
+    const low = outputs(lowInputs);
+    const high = outputs(highInputs);
+
+    for (const [metric, list] of [
+      ["peakTrucks", byTrucks],
+      ["totalCostEUR", byCost],
+    ] as const) {
+      const lowOut = low ? low[metric] : null;
+      const highOut = high ? high[metric] : null;
+      list.push({
+        id,
+        label: variable.label,
+        unit: variable.unit,
+        baseValue,
+        // Report the clamped values actually evaluated
+        lowValue: variable.get(lowInputs),
+        highValue: variable.get(highInputs),
+        low: lowOut,
+        high: highOut,
+        swing: Math.abs((highOut ?? base[metric]) - (lowOut ?? base[metric])),
+      });
+    }
+  }
+
+  return {
+    variationPercent,
+    base,
+    peakTrucks: rank(byTrucks),
+    totalCostEUR: rank(byCost),
+  };
+}
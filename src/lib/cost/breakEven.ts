@@ -0,0 +1,167 @@
+/**
+ * Break-even against the customer's current haulage cost.
+ *
+ * The customer states what haulage costs them today, either per tonne or as
+ * a yearly fixed cost plus a cost per tonne, optionally escalating:
+ *   current_y = tonnes_y × perTonne                       × (1 + esc%)^(y − y0)
+ *             = (fixed + tonnes_y × variablePerTonne)     × (1 + esc%)^(y − y0)
+ *
+ * Against our totalCostEUR_y from calcCostBreakdown (all in EUR):
+ *   savings_y           = current_y − totalCostEUR_y
+ *   cumulativeSavings_y = Σ savings up to y
+ *   paybackYear         = first year from which cumulativeSavings stays ≥ 0;
+ *                         null if the plan ends behind
+ *   crossoverYear       = where the cumulative cost lines cross, interpolated
+ *                         between year-end points (the plan's first year when
+ *                         we are cheaper from the start)
+ *   IRR                 = r with Σ savings_y / (1 + r)^(y − y0) = 0;
+ *                         null without both an outlay and a return
+ */
+import type { CostBreakdownResult, YearlyDriver } from "./calcCost";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type CurrentCostBasis = "perTonne" | "fixedPlusVariable";
+
+export interface CurrentHaulageCost {
+  basis: CurrentCostBasis;
+  costPerTonneEUR: number; // perTonne
+  fixedEURPerYear: number; // fixedPlusVariable
+  variableEURPerTonne: number; // fixedPlusVariable
+  escalationPercent: number; // per year from the first plan year
+}
+
+export const CURRENT_HAULAGE_DEFAULTS: CurrentHaulageCost = {
+  basis: "perTonne",
+  costPerTonneEUR: 2.5,
+  fixedEURPerYear: 4_000_000,
+  variableEURPerTonne: 1.2,
+  escalationPercent: 2,
+};
+
+export interface BreakEvenYear {
+  year: number;
+  tonnes: number;
+  currentCostEUR: number;
+  ourCostEUR: number;
+  savingsEUR: number;
+  cumulativeCurrentEUR: number;
+  cumulativeOurEUR: number;
+  cumulativeSavingsEUR: number;
+}
+
+export interface BreakEvenResult {
+  years: BreakEvenYear[];
+  paybackYear: number | null;
+  crossoverYear: number | null; // fractional, for the chart
+  irrPercent: number | null;
+  totalSavingsEUR: number;
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+export function validateCurrentHaulage(current: CurrentHaulageCost): void {
+  const amounts =
+    current.basis === "perTonne"
+      ? { costPerTonneEUR: current.costPerTonneEUR }
+      : {
+          fixedEURPerYear: current.fixedEURPerYear,
+          variableEURPerTonne: current.variableEURPerTonne,
+        };
+  for (const [key, value] of Object.entries(amounts)) {
+    if (!(value >= 0)) {
+      throw new Error(`${key} must not be negative`);
+    }
+  }
+  if (!(current.escalationPercent > -100)) {
+    throw new Error("escalationPercent must be greater than -100%");
+  }
+}
+
+// ── Calculation ────────────────────────────────────────────────────────────
+
+/** Net present value of yearly cash flows, the first undiscounted */
+function presentValue(flows: number[], rate: number): number {
+  return flows.reduce((sum, f, t) => sum + f / Math.pow(1 + rate, t), 0);
+}
+
+/**
+ * Internal rate of return by bisection; null when the flows lack a sign
+ * change or no root lies between −99% and 1000%.
+ */
+export function irr(flows: number[]): number | null {
+  if (!flows.some((f) => f < 0) || !flows.some((f) => f > 0)) return null;
+  let lo = -0.99;
+  let hi = 10;
+  let fLo = presentValue(flows, lo);
+  if (fLo * presentValue(flows, hi) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = presentValue(flows, mid);
+    if (Math.abs(fMid) < 1e-9 || hi - lo < 1e-12) return mid;
+    if (fLo * fMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+export function calcBreakEven(
+  costs: CostBreakdownResult,
+  drivers: YearlyDriver[],
+  current: CurrentHaulageCost,
+): BreakEvenResult {
+  validateCurrentHaulage(current);
+
+  const firstYear = costs.rows[0]?.year ?? 0;
+  let cumulativeCurrent = 0;
+  let cumulativeOur = 0;
+  let paybackYear: number | null = null;
+  let crossoverYear: number | null = null;
+
+  const years = costs.rows.map((r, i) => {
+    const tonnes = drivers.find((d) => d.year === r.year)?.tonnesPerYear ?? 0;
+    const escalation = Math.pow(1 + current.escalationPercent / 100, r.year - firstYear);
+    const currentCostEUR =
+      (current.basis === "perTonne"
+        ? tonnes * current.costPerTonneEUR
+        : current.fixedEURPerYear + tonnes * current.variableEURPerTonne) * escalation;
+
+    const previous = cumulativeCurrent - cumulativeOur;
+    cumulativeCurrent += currentCostEUR;
+    cumulativeOur += r.totalCostEUR;
+    const cumulative = cumulativeCurrent - cumulativeOur;
+
+    if (cumulative < 0) {
+      paybackYear = null;
+      crossoverYear = null;
+    } else if (paybackYear === null) {
+      paybackYear = r.year;
+      crossoverYear =
+        i === 0 ? r.year : costs.rows[i - 1].year + -previous / (cumulative - previous);
+    }
+
+    return {
+      year: r.year,
+      tonnes,
+      currentCostEUR,
+      ourCostEUR: r.totalCostEUR,
+      savingsEUR: currentCostEUR - r.totalCostEUR,
+      cumulativeCurrentEUR: cumulativeCurrent,
+      cumulativeOurEUR: cumulativeOur,
+      cumulativeSavingsEUR: cumulative,
+    };
+  });
+
+  const rate = irr(years.map((y) => y.savingsEUR));
+  return {
+    years,
+    paybackYear,
+    crossoverYear,
+    irrPercent: rate === null ? null : rate * 100,
+    totalSavingsEUR: cumulativeCurrent - cumulativeOur,
+  };
+}
@@ -4,8 +4,15 @@
  * Math overview (per year y):
  *   newTrucks_y  = max(0, fleet_y − fleet_{y-1})   (fleet_{-1} = 0)
  *
+ *   Currencies: every amount is priced in its line's currency (see fx.ts) and
+ *   converted at the year's rate into the EUR or SEK ledger below. By default
+ *   the EUR lines are in EUR and the SEK lines in SEK, so nothing is converted.
+ *   Labour roles in EUR stay in the EUR ledger; any other currency goes to SEK.
+ *   fx_y = rate(SEK, y), i.e. fxByYear / fxRates when they quote SEK, else fxSEKPerEUR
+ *
  *   CAPEX (all EUR):
  *     capexTrucks_y      = newTrucks_y × truckPriceEUR
+ *     capexReplacement_y = replacementTrucks_y × truckPriceEUR  (fleet-age ledger only)
  *     capexDeployment_y  = deploymentOneTimeEUR          (first year only)
  *     capexFms_y         = fmsDeployment + fmsHw         (first year only, if FMS enabled)
  *     capexTotalEUR_y    = sum of above
@@ -13,18 +20,89 @@
  *   OPEX – EUR:
  *     opexTruckLicense_y = fleet_y × truckLicenseEURPerYear
  *     opexFmsLicense_y   = fmsAnnualLicenseEUR           (every year, if FMS enabled)
+ *     opexLabourEUR_y    = EUR roles of calcLabourCost(labour, fleet_y)   (if a roster is set)
+ *     opexCarbon_y       = co2e_y × carbonPrice_y        (if emissions are set)
  *     opexTotalEUR_y     = sum of above
  *
  *   OPEX – SEK:
  *     opexService_y  = km_y × serviceSEKPerKm
- *     opexFuel_y     = km_y × fuelSEKPerKm
+ *     opexFuel_y     = km_y × fuelSEKPerKm                      (flat rate)
+ *                    = litres_y × diesel_y + kWh_y × electricity_y
+ *                      (energy model: energyPrices set and the drivers carry
+ *                       litres and kWh from calculateCycleEnergy)
+ *     opexLabourSEK_y = non-EUR roles of calcLabourCost(labour, fleet_y)
  *     opexTotalSEK_y = sum of above
  *
+ *   Escalation (optional, per category c; prices are in priceBaseYear money):
+ *     esc_c(y) = (1 + r_c)^(year − priceBaseYear)               yearly % mode
+ *              = index_c(year) / index_c(priceBaseYear)         index-table mode
+ *     (an index year missing from the table takes the nearest earlier entry)
+ *     truckPrice → capexTrucks   licenses → opexTruckLicense   fms → all FMS lines
+ *     service    → opexService   fuel     → opexFuel           labour → opexLabour
+ *     Every amount above is multiplied by its factor, so rows are nominal.
+ *
+ *   Energy prices (energy model):
+ *     diesel_y = dieselByYear(y)  if the table has y or an earlier year
+ *              = dieselSEKPerLitre × esc_fuel(y)     otherwise
+ *     (electricity_y likewise; table prices are nominal and not escalated)
+ *
+ *   Emissions (optional, emissions set):
+ *     litres_y    = energy-model litres, else km_y × fuelLitresPerKm
+ *     kWh_y       = energy-model kWh, else 0
+ *     co2e_y (t)  = (litres_y × dieselKgCO2ePerLitre + kWh_y × electricityKgCO2ePerKWh) / 1000
+ *     intensity_y = co2e_y × 1000 / tonnesMoved_y      (kg CO2e per tonne moved)
+ *     carbonPrice_y (EUR/t CO2e) = carbonPriceByYear(y), else carbonPriceEURPerTonne
+ *
+ *   Fleet-age ledger (optional, on when truckLifeHours or truckLifeKm is set):
+ *     Trucks are tracked in purchase cohorts; each active truck adds
+ *     hours_y / fleet_y and km_y / fleet_y per year.
+ *     used     = min(1, max(hours / truckLifeHours, km / truckLifeKm))
+ *     value    = price × (floor + (1 − floor) × (1 − used))   floor = truckResidualPercent / 100
+ *     Start of year: cohorts with used = 1 retire at the floor value and are
+ *     replaced if the fleet still needs them (capexReplacement_y, at the
+ *     escalated truck price). When the fleet shrinks, the most-used trucks are
+ *     sold at their value. After the last year the remaining fleet is credited
+ *     at its value. Credits are booked in residualCreditEUR_y.
+ *
+ *   Financing (financingMode, default "purchase"):
+ *     truckPurchase_y = capexTrucks_y + capexReplacement_y  (at purchase terms)
+ *     purchase: paid up front as CAPEX, truckFinancing_y = 0
+ *     lease:    no truck CAPEX, no ledger (the lessor owns and replaces trucks)
+ *               truckFinancing_y = fleet_y × leaseEURPerTruckMonth × 12
+ *               (the lease is priced in the truckPrice line's currency)
+ *     loan:     no truck CAPEX; each year's purchase pays down% up front and
+ *               the rest as an annuity over loanTermYears, first payment in
+ *               the purchase year:
+ *                 A = L × r / (1 − (1 + r)^−n)   (L / n when r = 0)
+ *               balance still open after the last plan year is paid then.
+ *               truckFinancing_y = down payments + Σ annuity payments due in y
+ *
  *   Combined totals (native + converted):
- *     totalCostEUR_y = capexTotalEUR_y + opexTotalEUR_y + opexTotalSEK_y / fxSEKPerEUR
- *     totalCostSEK_y = (capexTotalEUR_y + opexTotalEUR_y) × fxSEKPerEUR + opexTotalSEK_y
+ *     netEUR_y       = capexTotalEUR_y + opexTotalEUR_y + truckFinancing_y − residualCreditEUR_y
+ *     totalCostEUR_y = netEUR_y + opexTotalSEK_y / fx_y
+ *     totalCostSEK_y = netEUR_y × fx_y + opexTotalSEK_y
+ *
+ *   Discounting (optional, rate r = discountRatePercent / 100):
+ *     t_y              = year − baseYear                (baseYear defaults to the first year)
+ *     discountFactor_y = 1 / (1 + r)^(t_y + 1)         end-of-year convention
+ *                      = 1 / (1 + r)^(t_y + 0.5)       mid-year convention
+ *     discounted_y     = total_y × discountFactor_y
+ *     NPV              = Σ discounted_y                 (costs, so a positive NPV is a spend)
+ *
+ *   Real terms (general inflation i = inflationPercent / 100):
+ *     real_y = total_y / (1 + i)^(year − priceBaseYear)
  */
 
+import {
+  convertCurrency,
+  fxRate,
+  lineCurrency,
+  validateFx,
+  type CostLine,
+  type CurrencyCode,
+} from "./fx";
+import { calcLabourCost, validateLabourRoster, type LabourRoster } from "./labour";
+
 // ── Types ──────────────────────────────────────────────────────────────────
 
 export interface CostModelInput {
@@ -38,8 +116,121 @@ export interface CostModelInput {
   fuelSEKPerKm: number;
   deploymentOneTimeEUR: number;
   fxSEKPerEUR: number;
+
+  // Currencies per cost line and FX rates in units per EUR (absent = EUR and
+  // SEK lines as named, converted at fxSEKPerEUR)
+  costCurrencies?: Partial<Record<CostLine, CurrencyCode>>;
+  fxRates?: Record<CurrencyCode, number>;
+  fxByYear?: Record<number, Record<CurrencyCode, number>>; // year → rates, carried forward
+
+  // Discounting (absent or 0% = undiscounted)
+  discountRatePercent?: number;
+  discountBaseYear?: number;
+  discountConvention?: DiscountConvention;
+
+  // Escalation (absent = flat prices) and general inflation for real totals
+  escalation?: Partial<Record<EscalationCategory, Escalation>>;
+  priceBaseYear?: number;
+  inflationPercent?: number;
+
+  // Fleet-age ledger (absent = no replacement or residual value)
+  truckLifeHours?: number;
+  truckLifeKm?: number;
+  truckResidualPercent?: number; // value at end of life, % of purchase price
+
+  // Truck financing (absent = outright purchase)
+  financingMode?: FinancingMode;
+  leaseEURPerTruckMonth?: number;
+  loanInterestPercent?: number;
+  loanTermYears?: number;
+  loanDownPaymentPercent?: number;
+
+  // Operators, maintenance and supervision (absent = no labour cost)
+  labour?: LabourRoster;
+
+  // Diesel and electricity prices for the energy model (absent = fuelSEKPerKm)
+  energyPrices?: EnergyPrices;
+
+  // Emission factors and carbon price (absent = no emissions or carbon cost)
+  emissions?: EmissionSettings;
+}
+
+export interface EmissionSettings {
+  dieselKgCO2ePerLitre: number;
+  electricityKgCO2ePerKWh: number;
+  fuelLitresPerKm: number; // consumption when the energy model is off
+  carbonPriceEURPerTonne: number; // per tonne CO2e
+  carbonPriceByYear?: Record<number, number>; // year → EUR per tonne CO2e
 }
 
+export const EMISSION_DEFAULTS: EmissionSettings = {
+  dieselKgCO2ePerLitre: 2.7,
+  electricityKgCO2ePerKWh: 0.05,
+  fuelLitresPerKm: 0.4,
+  carbonPriceEURPerTonne: 85,
+};
+
+export interface EnergyPrices {
+  dieselSEKPerLitre: number;
+  electricitySEKPerKWh: number;
+  dieselByYear?: Record<number, number>; // year → SEK per litre
+  electricityByYear?: Record<number, number>; // year → SEK per kWh
+}
+
+export const ENERGY_PRICE_DEFAULTS: EnergyPrices = {
+  dieselSEKPerLitre: 15,
+  electricitySEKPerKWh: 1.2,
+};
+
+export type FinancingMode = "purchase" | "lease" | "loan";
+
+export const FINANCING_MODES: FinancingMode[] = ["purchase", "lease", "loan"];
+
+export const FINANCING_MODE_LABELS: Record<FinancingMode, string> = {
+  purchase: "Outright Purchase",
+  lease: "Operating Lease",
+  loan: "Financed Purchase",
+};
+
+export const FINANCING_DEFAULTS = {
+  leaseEURPerTruckMonth: 7_500,
+  loanInterestPercent: 6,
+  loanTermYears: 5,
+  loanDownPaymentPercent: 20,
+};
+
+export type DiscountConvention = "end-of-year" | "mid-year";
+
+export type EscalationCategory =
+  | "truckPrice"
+  | "licenses"
+  | "fms"
+  | "service"
+  | "fuel"
+  | "labour";
+
+export const ESCALATION_CATEGORIES: EscalationCategory[] = [
+  "truckPrice",
+  "licenses",
+  "fms",
+  "service",
+  "fuel",
+  "labour",
+];
+
+export const ESCALATION_CATEGORY_LABELS: Record<EscalationCategory, string> = {
+  truckPrice: "Truck Price",
+  licenses: "Truck Licenses",
+  fms: "FMS",
+  service: "Service",
+  fuel: "Fuel",
+  labour: "Labour",
+};
+
+export type Escalation =
+  | { type: "rate"; ratePercent: number } // compound % per year
+  | { type: "index"; index: Record<number, number> }; // year → index value
+
 export const COST_MODEL_DEFAULTS: CostModelInput = {
   truckPriceEUR: 300_000,
   truckLicenseEURPerYear: 50_000,
@@ -57,6 +248,11 @@ export interface YearlyDriver {
   year: number;
   fleetSize: number;
   kmPerYear: number;
+  hoursPerYear?: number; // fleet operating hours, for the fleet-age ledger
+  dieselLitresPerYear?: number; // energy model
+  electricityKWhPerYear?: number; // energy model
+  tonnesPerYear?: number; // tonnes moved, for emission intensity and KPIs
+  tonneKmPerYear?: number; // tonnes × loaded haul km, for KPIs
 }
 
 export interface YearlyCostRow {
@@ -64,9 +260,16 @@ export interface YearlyCostRow {
   fleetSize: number;
   newTrucks: number;
   kmPerYear: number;
+  labourHeadcount: number;
+  replacementTrucks: number; // end-of-life trucks replaced this year
+  retiredTrucks: number; // reached end of life this year
+  soldTrucks: number; // sold because the fleet shrank
+  dieselLitres: number; // energy model only, else 0
+  electricityKWh: number; // energy model only, else 0
 
   // CAPEX (EUR)
   capexTrucks: number;
+  capexReplacement: number;
   capexDeployment: number;
   capexFms: number;
   capexTotalEUR: number;
@@ -74,28 +277,84 @@ export interface YearlyCostRow {
   // OPEX – EUR portion
   opexTruckLicenseEUR: number;
   opexFmsLicenseEUR: number;
+  opexLabourEUR: number;
+  opexCarbonEUR: number;
   opexTotalEUR: number;
 
   // OPEX – SEK portion
   opexServiceSEK: number;
   opexFuelSEK: number;
+  opexLabourSEK: number;
   opexTotalSEK: number;
 
-  // Combined totals
+  // Emissions (0 unless emissions are set)
+  co2eTonnes: number;
+  co2eKgPerTonneMoved: number;
+  carbonPriceEURPerTonne: number;
+
+  // Lease or loan payments for trucks (EUR)
+  truckFinancingEUR: number;
+
+  // Resale and residual value of trucks leaving the fleet (EUR, a credit)
+  residualCreditEUR: number;
+
+  // Combined totals, at this year's SEK per EUR
+  fxSEKPerEUR: number;
   totalCostEUR: number;
   totalCostSEK: number;
+
+  // Escalation factor per category, and totals deflated to priceBaseYear money
+  escalationFactors: Record<EscalationCategory, number>;
+  realCostEUR: number;
+  realCostSEK: number;
+
+  // Discounted and cumulative
+  discountFactor: number;
+  discountedCostEUR: number;
+  discountedCostSEK: number;
+  cumulativeCostEUR: number;
+  cumulativeCostSEK: number;
+  cumulativeDiscountedEUR: number;
+  cumulativeDiscountedSEK: number;
+}
+
+export interface FinancingPaymentRow {
+  year: number;
+  truckPurchaseEUR: number; // value of trucks acquired this year
+  downPaymentEUR: number;
+  principalEUR: number;
+  interestEUR: number;
+  leaseEUR: number;
+  paymentEUR: number; // cash paid for trucks this year under the mode
 }
 
 export interface CostBreakdownResult {
   rows: YearlyCostRow[];
+  financing: {
+    mode: FinancingMode;
+    schedule: FinancingPaymentRow[];
+  };
   periodTotals: {
     capexTrucksEUR: number;
+    capexReplacementEUR: number;
     capexOneTimeEUR: number;
     capexTotalEUR: number;
     opexTotalEUR: number;
     opexTotalSEK: number;
+    opexLabourEUR: number;
+    opexLabourSEK: number;
+    opexCarbonEUR: number;
+    co2eTonnes: number;
+    dieselLitres: number;
+    electricityKWh: number;
+    truckFinancingEUR: number;
+    residualCreditEUR: number;
     totalCostEUR: number;
     totalCostSEK: number;
+    realTotalCostEUR: number;
+    realTotalCostSEK: number;
+    npvEUR: number;
+    npvSEK: number;
   };
 }
 
@@ -113,7 +372,7 @@ const NUMERIC_COST_FIELDS = [
   "fxSEKPerEUR",
 ] as const;
 
-function validateCostModel(model: CostModelInput): void {
+export function validateCostModel(model: CostModelInput): void {
   if (model.fxSEKPerEUR <= 0) {
     throw new Error("FX rate (SEK per EUR) must be greater than 0");
   }
@@ -122,6 +381,76 @@ function validateCostModel(model: CostModelInput): void {
       throw new Error(`${field} must not be negative`);
     }
   }
+  if ((model.discountRatePercent ?? 0) < 0) {
+    throw new Error("discountRatePercent must not be negative");
+  }
+  if ((model.inflationPercent ?? 0) <= -100) {
+    throw new Error("inflationPercent must be greater than -100");
+  }
+  for (const [category, escalation] of Object.entries(model.escalation ?? {})) {
+    if (!escalation) continue;
+    if (escalation.type === "rate" && escalation.ratePercent <= -100) {
+      throw new Error(`${category} escalation must be greater than -100%`);
+    }
+    if (
+      escalation.type === "index" &&
+      Object.values(escalation.index).some((v) => !(v > 0))
+    ) {
+      throw new Error(`${category} escalation index values must be greater than 0`);
+    }
+  }
+  for (const field of ["truckLifeHours", "truckLifeKm"] as const) {
+    const life = model[field];
+    if (life !== undefined && !(life > 0)) {
+      throw new Error(`${field} must be greater than 0`);
+    }
+  }
+  const residual = model.truckResidualPercent ?? 0;
+  if (residual < 0 || residual > 100) {
+    throw new Error("truckResidualPercent must be between 0 and 100");
+  }
+  if ((model.leaseEURPerTruckMonth ?? 0) < 0) {
+    throw new Error("leaseEURPerTruckMonth must not be negative");
+  }
+  if ((model.loanInterestPercent ?? 0) < 0) {
+    throw new Error("loanInterestPercent must not be negative");
+  }
+  const term = model.loanTermYears ?? FINANCING_DEFAULTS.loanTermYears;
+  if (!Number.isInteger(term) || term < 1) {
+    throw new Error("loanTermYears must be a whole number of at least 1");
+  }
+  const downPayment = model.loanDownPaymentPercent ?? 0;
+  if (downPayment < 0 || downPayment > 100) {
+    throw new Error("loanDownPaymentPercent must be between 0 and 100");
+  }
+  validateFx(model);
+  if (model.labour) validateLabourRoster(model.labour);
+  if (model.energyPrices) {
+    const { dieselSEKPerLitre, electricitySEKPerKWh, dieselByYear, electricityByYear } =
+      model.energyPrices;
+    const prices = [
+      dieselSEKPerLitre,
+      electricitySEKPerKWh,
+      ...Object.values(dieselByYear ?? {}),
+      ...Object.values(electricityByYear ?? {}),
+    ];
+    if (prices.some((p) => !(p >= 0))) {
+      throw new Error("Energy prices must not be negative");
+    }
+  }
+  if (model.emissions) {
+    const e = model.emissions;
+    const values = [
+      e.dieselKgCO2ePerLitre,
+      e.electricityKgCO2ePerKWh,
+      e.fuelLitresPerKm,
+      e.carbonPriceEURPerTonne,
+      ...Object.values(e.carbonPriceByYear ?? {}),
+    ];
+    if (values.some((v) => !(v >= 0))) {
+      throw new Error("Emission factors and carbon prices must not be negative");
+    }
+  }
 }
 
 function validateDrivers(drivers: YearlyDriver[]): void {
@@ -132,7 +461,270 @@ function validateDrivers(drivers: YearlyDriver[]): void {
     if (d.kmPerYear < 0) {
       throw new Error("kmPerYear must not be negative");
     }
+    if ((d.hoursPerYear ?? 0) < 0) {
+      throw new Error("hoursPerYear must not be negative");
+    }
+    if ((d.dieselLitresPerYear ?? 0) < 0 || (d.electricityKWhPerYear ?? 0) < 0) {
+      throw new Error("Energy use must not be negative");
+    }
+  }
+}
+
+// ── Discounting ────────────────────────────────────────────────────────────
+
+export function discountFactor(
+  year: number,
+  baseYear: number,
+  ratePercent: number,
+  convention: DiscountConvention = "end-of-year",
+): number {
+  if (ratePercent === 0) return 1;
+  const t = year - baseYear + (convention === "mid-year" ? 0.5 : 1);
+  return 1 / Math.pow(1 + ratePercent / 100, t);
+}
+
+// ── Escalation ─────────────────────────────────────────────────────────────
+
+function indexAt(index: Record<number, number>, year: number): number | undefined {
+  const years = Object.keys(index)
+    .map(Number)
+    .sort((a, b) => a - b);
+  if (years.length === 0) return undefined;
+  const atOrBefore = years.filter((y) => y <= year);
+  return index[atOrBefore.length > 0 ? atOrBefore[atOrBefore.length - 1] : years[0]];
+}
+
+export function escalationFactor(
+  escalation: Escalation | undefined,
+  year: number,
+  priceBaseYear: number,
+): number {
+  if (!escalation) return 1;
+  if (escalation.type === "rate") {
+    return Math.pow(1 + escalation.ratePercent / 100, year - priceBaseYear);
+  }
+  const value = indexAt(escalation.index, year);
+  const base = indexAt(escalation.index, priceBaseYear);
+  return value === undefined || base === undefined ? 1 : value / base;
+}
+
+/**
+ * Energy or carbon price in a year: the latest per-year price at or before
+ * it, else the base price times its escalation factor
+ */
+export function priceAt(
+  base: number,
+  byYear: Record<number, number> | undefined,
+  year: number,
+  escalation = 1,
+): number {
+  const earlier = Object.keys(byYear ?? {})
+    .map(Number)
+    .filter((y) => y <= year)
+    .sort((a, b) => a - b);
+  return earlier.length > 0 ? byYear![earlier[earlier.length - 1]] : base * escalation;
+}
+
+export function describeEscalation(escalation: Escalation): string {
+  if (escalation.type === "rate") return `${escalation.ratePercent}%/yr`;
+  const entries = Object.entries(escalation.index)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([year, value]) => `${year}: ${value}`);
+  return `index ${entries.join(", ")}`;
+}
+
+// ── Emissions ──────────────────────────────────────────────────────────────
+
+function yearEmissions(
+  emissions: EmissionSettings,
+  d: YearlyDriver,
+): { co2eTonnes: number; co2eKgPerTonneMoved: number; carbonPriceEURPerTonne: number } {
+  const energyModel =
+    d.dieselLitresPerYear !== undefined || d.electricityKWhPerYear !== undefined;
+  const litres = energyModel
+    ? (d.dieselLitresPerYear ?? 0)
+    : d.kmPerYear * emissions.fuelLitresPerKm;
+  const kWh = d.electricityKWhPerYear ?? 0;
+  const co2eTonnes =
+    (litres * emissions.dieselKgCO2ePerLitre + kWh * emissions.electricityKgCO2ePerKWh) / 1000;
+
+  return {
+    co2eTonnes,
+    co2eKgPerTonneMoved: d.tonnesPerYear ? (co2eTonnes * 1000) / d.tonnesPerYear : 0,
+    carbonPriceEURPerTonne: priceAt(
+      emissions.carbonPriceEURPerTonne,
+      emissions.carbonPriceByYear,
+      d.year,
+    ),
+  };
+}
+
+// ── Fleet-age ledger ───────────────────────────────────────────────────────
+
+interface Cohort {
+  count: number;
+  priceEUR: number; // per truck, as paid
+  hours: number; // per truck
+  km: number; // per truck
+}
+
+interface LedgerYear {
+  replacementTrucks: number;
+  retiredTrucks: number;
+  soldTrucks: number;
+  capexReplacement: number;
+  residualCreditEUR: number;
+}
+
+function ledgerEnabled(model: CostModelInput): boolean {
+  return model.truckLifeHours !== undefined || model.truckLifeKm !== undefined;
+}
+
+function usedFraction(model: CostModelInput, c: Cohort): number {
+  const byHours = model.truckLifeHours ? c.hours / model.truckLifeHours : 0;
+  const byKm = model.truckLifeKm ? c.km / model.truckLifeKm : 0;
+  return Math.min(1, Math.max(byHours, byKm));
+}
+
+function truckValue(model: CostModelInput, c: Cohort): number {
+  const floor = (model.truckResidualPercent ?? 0) / 100;
+  return c.priceEUR * (floor + (1 - floor) * (1 - usedFraction(model, c)));
+}
+
+function runFleetLedger(
+  model: CostModelInput,
+  drivers: YearlyDriver[],
+  truckPrices: number[], // escalated price per year
+): LedgerYear[] {
+  let cohorts: Cohort[] = [];
+  let prevFleet = 0;
+
+  return drivers.map((d, i) => {
+    const year: LedgerYear = {
+      replacementTrucks: 0,
+      retiredTrucks: 0,
+      soldTrucks: 0,
+      capexReplacement: 0,
+      residualCreditEUR: 0,
+    };
+
+    // Retire end-of-life trucks at the floor value
+    for (const c of cohorts) {
+      if (usedFraction(model, c) >= 1) {
+        year.retiredTrucks += c.count;
+        year.residualCreditEUR += c.count * truckValue(model, c);
+      }
+    }
+    cohorts = cohorts.filter((c) => usedFraction(model, c) < 1);
+    const active = cohorts.reduce((n, c) => n + c.count, 0);
+
+    if (d.fleetSize > active) {
+      // Growth is newTrucks; anything beyond replaces retired trucks
+      const purchases = d.fleetSize - active;
+      const growth = Math.max(0, d.fleetSize - prevFleet);
+      year.replacementTrucks = purchases - growth;
+      year.capexReplacement = year.replacementTrucks * truckPrices[i];
+      cohorts.push({ count: purchases, priceEUR: truckPrices[i], hours: 0, km: 0 });
+    } else if (d.fleetSize < active) {
+      // Sell the most-used trucks first
+      let toSell = active - d.fleetSize;
+      cohorts.sort((a, b) => usedFraction(model, b) - usedFraction(model, a));
+      for (const c of cohorts) {
+        const sold = Math.min(c.count, toSell);
+        year.soldTrucks += sold;
+        year.residualCreditEUR += sold * truckValue(model, c);
+        c.count -= sold;
+        toSell -= sold;
+      }
+      cohorts = cohorts.filter((c) => c.count > 0);
+    }
+    prevFleet = d.fleetSize;
+
+    // Work shared evenly across the active fleet
+    if (d.fleetSize > 0) {
+      for (const c of cohorts) {
+        c.hours += (d.hoursPerYear ?? 0) / d.fleetSize;
+        c.km += d.kmPerYear / d.fleetSize;
+      }
+    }
+
+    // Plan ends: credit the remaining fleet
+    if (i === drivers.length - 1) {
+      year.residualCreditEUR += cohorts.reduce(
+        (sum, c) => sum + c.count * truckValue(model, c),
+        0,
+      );
+    }
+
+    return year;
+  });
+}
+
+// ── Financing ──────────────────────────────────────────────────────────────
+
+function buildFinancingSchedule(
+  model: CostModelInput,
+  drivers: YearlyDriver[],
+  truckPurchases: number[], // EUR per year, at purchase terms
+): FinancingPaymentRow[] {
+  const mode = model.financingMode ?? "purchase";
+  const schedule: FinancingPaymentRow[] = drivers.map((d, i) => ({
+    year: d.year,
+    truckPurchaseEUR: truckPurchases[i],
+    downPaymentEUR: 0,
+    principalEUR: 0,
+    interestEUR: 0,
+    leaseEUR: 0,
+    paymentEUR: 0,
+  }));
+
+  if (mode === "purchase") {
+    for (const row of schedule) row.paymentEUR = row.truckPurchaseEUR;
+    return schedule;
+  }
+
+  if (mode === "lease") {
+    const lease = model.leaseEURPerTruckMonth ?? FINANCING_DEFAULTS.leaseEURPerTruckMonth;
+    drivers.forEach((d, i) => {
+      schedule[i].leaseEUR = convertCurrency(
+        model,
+        d.fleetSize * lease * 12,
+        lineCurrency(model, "truckPrice"),
+        "EUR",
+        d.year,
+      );
+      schedule[i].paymentEUR = schedule[i].leaseEUR;
+    });
+    return schedule;
+  }
+
+  const r = (model.loanInterestPercent ?? FINANCING_DEFAULTS.loanInterestPercent) / 100;
+  const n = model.loanTermYears ?? FINANCING_DEFAULTS.loanTermYears;
+  const down =
+    (model.loanDownPaymentPercent ?? FINANCING_DEFAULTS.loanDownPaymentPercent) / 100;
+  const last = schedule.length - 1;
+
+  schedule.forEach((row, i) => {
+    if (row.truckPurchaseEUR === 0) return;
+    row.downPaymentEUR += row.truckPurchaseEUR * down;
+
+    let balance = row.truckPurchaseEUR * (1 - down);
+    const annuity = r === 0 ? balance / n : (balance * r) / (1 - Math.pow(1 + r, -n));
+    for (let k = 0; k < n && i + k <= last && balance > 0; k++) {
+      const due = schedule[i + k];
+      const interest = balance * r;
+      // Remaining balance is settled in the last plan year
+      const principal = i + k === last ? balance : Math.min(annuity - interest, balance);
+      due.interestEUR += interest;
+      due.principalEUR += principal;
+      balance -= principal;
+    }
+  });
+
+  for (const row of schedule) {
+    row.paymentEUR = row.downPaymentEUR + row.principalEUR + row.interestEUR;
   }
+  return schedule;
 }
 
 // ── Core calculation ───────────────────────────────────────────────────────
@@ -144,79 +736,269 @@ export function calcCostBreakdown(
   validateCostModel(model);
   validateDrivers(drivers);
 
+  const ratePercent = model.discountRatePercent ?? 0;
+  const baseYear = model.discountBaseYear ?? drivers[0]?.year ?? 0;
+  const priceBaseYear = model.priceBaseYear ?? drivers[0]?.year ?? 0;
+  const inflationPercent = model.inflationPercent ?? 0;
+
+  // Amount of a cost line in its ledger's currency
+  const toLedger = (line: CostLine, amount: number, ledger: "EUR" | "SEK", year: number) =>
+    convertCurrency(model, amount, lineCurrency(model, line), ledger, year);
+
+  const truckPrices = drivers.map((d) =>
+    toLedger(
+      "truckPrice",
+      model.truckPriceEUR *
+        escalationFactor(model.escalation?.truckPrice, d.year, priceBaseYear),
+      "EUR",
+      d.year,
+    ),
+  );
+  const mode = model.financingMode ?? "purchase";
+  const ledger =
+    ledgerEnabled(model) && mode !== "lease"
+      ? runFleetLedger(model, drivers, truckPrices)
+      : null;
+
+  const truckPurchases = drivers.map((d, i) => {
+    const newTrucks = Math.max(0, d.fleetSize - (drivers[i - 1]?.fleetSize ?? 0));
+    return newTrucks * truckPrices[i] + (ledger?.[i].capexReplacement ?? 0);
+  });
+  const schedule = buildFinancingSchedule(model, drivers, truckPurchases);
+
   let prevFleet = 0;
+  let cumulativeCostEUR = 0;
+  let cumulativeCostSEK = 0;
+  let cumulativeDiscountedEUR = 0;
+  let cumulativeDiscountedSEK = 0;
   const rows: YearlyCostRow[] = drivers.map((d, i) => {
     const newTrucks = Math.max(0, d.fleetSize - prevFleet);
     prevFleet = d.fleetSize;
 
     const isFirstYear = i === 0;
 
-    // CAPEX
-    const capexTrucks = newTrucks * model.truckPriceEUR;
-    const capexDeployment = isFirstYear ? model.deploymentOneTimeEUR : 0;
+    // Escalation
+    const esc = Object.fromEntries(
+      ESCALATION_CATEGORIES.map((c) => [
+        c,
+        escalationFactor(model.escalation?.[c], d.year, priceBaseYear),
+      ]),
+    ) as Record<EscalationCategory, number>;
+
+    // CAPEX (trucks only when bought outright)
+    const paidUpFront = mode === "purchase";
+    const capexTrucks = paidUpFront ? newTrucks * truckPrices[i] : 0;
+    const capexReplacement = paidUpFront ? (ledger?.[i].capexReplacement ?? 0) : 0;
+    const capexDeployment = isFirstYear
+      ? toLedger("deployment", model.deploymentOneTimeEUR, "EUR", d.year)
+      : 0;
     const capexFms =
       isFirstYear && model.includeFMS
-        ? model.fmsDeploymentOneTimeEUR + model.fmsHwOneTimeEUR
+        ? toLedger(
+            "fms",
+            (model.fmsDeploymentOneTimeEUR + model.fmsHwOneTimeEUR) * esc.fms,
+            "EUR",
+            d.year,
+          )
         : 0;
-    const capexTotalEUR = capexTrucks + capexDeployment + capexFms;
+    const capexTotalEUR = capexTrucks + capexReplacement + capexDeployment + capexFms;
 
     // OPEX – EUR
-    const opexTruckLicenseEUR = d.fleetSize * model.truckLicenseEURPerYear;
-    const opexFmsLicenseEUR = model.includeFMS ? model.fmsAnnualLicenseEUR : 0;
-    const opexTotalEUR = opexTruckLicenseEUR + opexFmsLicenseEUR;
+    const opexTruckLicenseEUR = toLedger(
+      "truckLicense",
+      d.fleetSize * model.truckLicenseEURPerYear * esc.licenses,
+      "EUR",
+      d.year,
+    );
+    const opexFmsLicenseEUR = model.includeFMS
+      ? toLedger("fms", model.fmsAnnualLicenseEUR * esc.fms, "EUR", d.year)
+      : 0;
+    const labour = model.labour ? calcLabourCost(model.labour, d.fleetSize) : null;
+    const opexLabourEUR = (labour?.costEUR ?? 0) * esc.labour;
+    const emissions = model.emissions ? yearEmissions(model.emissions, d) : null;
+    const opexCarbonEUR = emissions ? emissions.co2eTonnes * emissions.carbonPriceEURPerTonne : 0;
+    const opexTotalEUR =
+      opexTruckLicenseEUR + opexFmsLicenseEUR + opexLabourEUR + opexCarbonEUR;
 
     // OPEX – SEK
-    const opexServiceSEK = d.kmPerYear * model.serviceSEKPerKm;
-    const opexFuelSEK = d.kmPerYear * model.fuelSEKPerKm;
-    const opexTotalSEK = opexServiceSEK + opexFuelSEK;
+    const opexServiceSEK = toLedger(
+      "service",
+      d.kmPerYear * model.serviceSEKPerKm * esc.service,
+      "SEK",
+      d.year,
+    );
+    const prices = model.energyPrices;
+    const energyModel =
+      prices !== undefined &&
+      (d.dieselLitresPerYear !== undefined || d.electricityKWhPerYear !== undefined);
+    const dieselLitres = energyModel ? (d.dieselLitresPerYear ?? 0) : 0;
+    const electricityKWh = energyModel ? (d.electricityKWhPerYear ?? 0) : 0;
+    const opexFuelSEK = toLedger(
+      "fuel",
+      energyModel
+        ? dieselLitres *
+            priceAt(prices.dieselSEKPerLitre, prices.dieselByYear, d.year, esc.fuel) +
+          electricityKWh *
+            priceAt(prices.electricitySEKPerKWh, prices.electricityByYear, d.year, esc.fuel)
+        : d.kmPerYear * model.fuelSEKPerKm * esc.fuel,
+      "SEK",
+      d.year,
+    );
+    const labourNonEUR = Object.entries(labour?.costByCurrency ?? {})
+      .filter(([currency]) => currency !== "EUR")
+      .reduce(
+        (sum, [currency, cost]) => sum + convertCurrency(model, cost, currency, "SEK", d.year),
+        0,
+      );
+    const opexLabourSEK = labourNonEUR * esc.labour;
+    const opexTotalSEK = opexServiceSEK + opexFuelSEK + opexLabourSEK;
 
     // Combined
-    const totalCostEUR =
-      capexTotalEUR + opexTotalEUR + opexTotalSEK / model.fxSEKPerEUR;
-    const totalCostSEK =
-      (capexTotalEUR + opexTotalEUR) * model.fxSEKPerEUR + opexTotalSEK;
+    const truckFinancingEUR = paidUpFront ? 0 : schedule[i].paymentEUR;
+    const residualCreditEUR = ledger?.[i].residualCreditEUR ?? 0;
+    const netEUR = capexTotalEUR + opexTotalEUR + truckFinancingEUR - residualCreditEUR;
+    const fxSEKPerEUR = fxRate(model, "SEK", d.year);
+    const totalCostEUR = netEUR + opexTotalSEK / fxSEKPerEUR;
+    const totalCostSEK = netEUR * fxSEKPerEUR + opexTotalSEK;
+
+    // Real terms
+    const deflator = Math.pow(1 + inflationPercent / 100, d.year - priceBaseYear);
+    const realCostEUR = totalCostEUR / deflator;
+    const realCostSEK = totalCostSEK / deflator;
+
+    // Discounted and cumulative
+    const factor = discountFactor(d.year, baseYear, ratePercent, model.discountConvention);
+    const discountedCostEUR = totalCostEUR * factor;
+    const discountedCostSEK = totalCostSEK * factor;
+    cumulativeCostEUR += totalCostEUR;
+    cumulativeCostSEK += totalCostSEK;
+    cumulativeDiscountedEUR += discountedCostEUR;
+    cumulativeDiscountedSEK += discountedCostSEK;
 
     return {
       year: d.year,
       fleetSize: d.fleetSize,
       newTrucks,
       kmPerYear: d.kmPerYear,
+      labourHeadcount: labour?.headcount ?? 0,
+      replacementTrucks: ledger?.[i].replacementTrucks ?? 0,
+      retiredTrucks: ledger?.[i].retiredTrucks ?? 0,
+      soldTrucks: ledger?.[i].soldTrucks ?? 0,
+      dieselLitres,
+      electricityKWh,
       capexTrucks,
+      capexReplacement,
       capexDeployment,
       capexFms,
       capexTotalEUR,
       opexTruckLicenseEUR,
       opexFmsLicenseEUR,
+      opexLabourEUR,
+      opexCarbonEUR,
       opexTotalEUR,
       opexServiceSEK,
       opexFuelSEK,
+      opexLabourSEK,
       opexTotalSEK,
+      co2eTonnes: emissions?.co2eTonnes ?? 0,
+      co2eKgPerTonneMoved: emissions?.co2eKgPerTonneMoved ?? 0,
+      carbonPriceEURPerTonne: emissions?.carbonPriceEURPerTonne ?? 0,
+      truckFinancingEUR,
+      residualCreditEUR,
+      fxSEKPerEUR,
       totalCostEUR,
       totalCostSEK,
+      escalationFactors: esc,
+      realCostEUR,
+      realCostSEK,
+      discountFactor: factor,
+      discountedCostEUR,
+      discountedCostSEK,
+      cumulativeCostEUR,
+      cumulativeCostSEK,
+      cumulativeDiscountedEUR,
+      cumulativeDiscountedSEK,
     };
   });
 
   const periodTotals = rows.reduce(
     (acc, row) => ({
       capexTrucksEUR: acc.capexTrucksEUR + row.capexTrucks,
+      capexReplacementEUR: acc.capexReplacementEUR + row.capexReplacement,
       capexOneTimeEUR:
         acc.capexOneTimeEUR + row.capexDeployment + row.capexFms,
       capexTotalEUR: acc.capexTotalEUR + row.capexTotalEUR,
       opexTotalEUR: acc.opexTotalEUR + row.opexTotalEUR,
       opexTotalSEK: acc.opexTotalSEK + row.opexTotalSEK,
+      opexLabourEUR: acc.opexLabourEUR + row.opexLabourEUR,
+      opexLabourSEK: acc.opexLabourSEK + row.opexLabourSEK,
+      opexCarbonEUR: acc.opexCarbonEUR + row.opexCarbonEUR,
+      co2eTonnes: acc.co2eTonnes + row.co2eTonnes,
+      dieselLitres: acc.dieselLitres + row.dieselLitres,
+      electricityKWh: acc.electricityKWh + row.electricityKWh,
+      truckFinancingEUR: acc.truckFinancingEUR + row.truckFinancingEUR,
+      residualCreditEUR: acc.residualCreditEUR + row.residualCreditEUR,
       totalCostEUR: acc.totalCostEUR + row.totalCostEUR,
       totalCostSEK: acc.totalCostSEK + row.totalCostSEK,
+      realTotalCostEUR: acc.realTotalCostEUR + row.realCostEUR,
+      realTotalCostSEK: acc.realTotalCostSEK + row.realCostSEK,
+      npvEUR: acc.npvEUR + row.discountedCostEUR,
+      npvSEK: acc.npvSEK + row.discountedCostSEK,
     }),
     {
       capexTrucksEUR: 0,
+      capexReplacementEUR: 0,
       capexOneTimeEUR: 0,
       capexTotalEUR: 0,
       opexTotalEUR: 0,
       opexTotalSEK: 0,
+      opexLabourEUR: 0,
+      opexLabourSEK: 0,
+      opexCarbonEUR: 0,
+      co2eTonnes: 0,
+      dieselLitres: 0,
+      electricityKWh: 0,
+      truckFinancingEUR: 0,
+      residualCreditEUR: 0,
       totalCostEUR: 0,
       totalCostSEK: 0,
+      realTotalCostEUR: 0,
+      realTotalCostSEK: 0,
+      npvEUR: 0,
+      npvSEK: 0,
     },
   );
 
-  return { rows, periodTotals };
+  return { rows, financing: { mode, schedule }, periodTotals };
+}
+
+// ── Financing comparison ───────────────────────────────────────────────────
+
+export interface FinancingOption {
+  mode: FinancingMode;
+  truckPaymentsEUR: number;
+  totalCostEUR: number;
+  npvEUR: number;
+}
+
+/**
+ * Total cost and NPV of the same plan under each financing mode, using the
+ * lease and loan terms in the model (or FINANCING_DEFAULTS).
+ */
+export function compareFinancing(
+  model: CostModelInput,
+  drivers: YearlyDriver[],
+): FinancingOption[] {
+  return FINANCING_MODES.map((mode) => {
+    const { financing, periodTotals } = calcCostBreakdown(
+      { ...model, financingMode: mode },
+      drivers,
+    );
+    return {
+      mode,
+      truckPaymentsEUR: financing.schedule.reduce((sum, r) => sum + r.paymentEUR, 0),
+      totalCostEUR: periodTotals.totalCostEUR,
+      npvEUR: periodTotals.npvEUR,
+    };
+  });
 }
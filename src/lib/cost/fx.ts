@@ -0,0 +1,314 @@
+/**
+ * Currencies and FX rates.
+ *
+ * Rates are units of a currency per EUR, per year:
+ *   rate(EUR, y) = 1
+ *   rate(c, y)   = fxByYear[y'][c]    y' = latest table year ≤ y that quotes c
+ *                = fxRates[c]         otherwise
+ *                = fxSEKPerEUR        (SEK, when neither quotes it)
+ *   convert(amount, from → to, y) = amount × rate(to, y) / rate(from, y)
+ *
+ * Each cost line is priced in its own currency (costCurrencies, defaults in
+ * DEFAULT_LINE_CURRENCIES) and converted per year into the ledger it belongs
+ * to: CAPEX, licenses and FMS into EUR, service and fuel into SEK.
+ *
+ * Reporting in any currency c restates the EUR totals at each year's rate:
+ *   amount_c,y = amountEUR_y × rate(c, y)
+ *   NPV_c      = Σ discountedEUR_y × rate(c, y)
+ * (EUR and SEK read the breakdown's own EUR and SEK figures.)
+ */
+import type { CostBreakdownResult, CostModelInput } from "./calcCost";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type CurrencyCode = string; // ISO 4217, e.g. "AUD"
+
+export type CostLine = "truckPrice" | "truckLicense" | "fms" | "deployment" | "service" | "fuel";
+
+export const COST_LINES: CostLine[] = [
+  "truckPrice",
+  "truckLicense",
+  "fms",
+  "deployment",
+  "service",
+  "fuel",
+];
+
+export const COST_LINE_LABELS: Record<CostLine, string> = {
+  truckPrice: "Truck Price & Lease",
+  truckLicense: "Truck Licenses",
+  fms: "FMS",
+  deployment: "Deployment",
+  service: "Service",
+  fuel: "Fuel & Energy",
+};
+
+export const DEFAULT_LINE_CURRENCIES: Record<CostLine, CurrencyCode> = {
+  truckPrice: "EUR",
+  truckLicense: "EUR",
+  fms: "EUR",
+  deployment: "EUR",
+  service: "SEK",
+  fuel: "SEK",
+};
+
+// Offered in the currency pickers; any other ISO code works once it has a rate
+export const COMMON_CURRENCIES: CurrencyCode[] = [
+  "EUR",
+  "SEK",
+  "USD",
+  "AUD",
+  "CAD",
+  "CLP",
+  "GBP",
+  "NOK",
+  "ZAR",
+];
+
+// Amount fields priced in each line's currency
+const LINE_FIELDS: Record<CostLine, (keyof CostModelInput)[]> = {
+  truckPrice: ["truckPriceEUR", "leaseEURPerTruckMonth"],
+  truckLicense: ["truckLicenseEURPerYear"],
+  fms: ["fmsAnnualLicenseEUR", "fmsDeploymentOneTimeEUR", "fmsHwOneTimeEUR"],
+  deployment: ["deploymentOneTimeEUR"],
+  service: ["serviceSEKPerKm"],
+  fuel: ["fuelSEKPerKm"],
+};
+
+export type FxInput = Pick<
+  CostModelInput,
+  "fxSEKPerEUR" | "fxRates" | "fxByYear" | "costCurrencies"
+>;
+
+export interface ReportingRow {
+  year: number;
+  fxRate: number; // units of the reporting currency per EUR
+  labour: number;
+  opexTotal: number; // both OPEX ledgers
+  totalCost: number;
+  realCost: number;
+  discountedCost: number;
+  cumulativeDiscounted: number;
+}
+
+export interface ReportingView {
+  currency: CurrencyCode;
+  rows: ReportingRow[];
+  totals: {
+    labour: number;
+    opexTotal: number;
+    totalCost: number;
+    realTotalCost: number;
+    npv: number;
+  };
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+export function validateFx(model: FxInput): void {
+  for (const [line, currency] of Object.entries(model.costCurrencies ?? {})) {
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      throw new Error(`${line} currency must be a three-letter ISO code`);
+    }
+  }
+  const tables = [model.fxRates ?? {}, ...Object.values(model.fxByYear ?? {})];
+  for (const table of tables) {
+    for (const [currency, rate] of Object.entries(table)) {
+      if (!isCurrencyCode(currency)) {
+        throw new Error(`FX rate currency ${currency} must be a three-letter ISO code`);
+      }
+      if (!(rate > 0)) {
+        throw new Error(`FX rate for ${currency} must be greater than 0`);
+      }
+    }
+  }
+}
+
+// ── Rates and conversion ───────────────────────────────────────────────────
+
+/** Units of `currency` per EUR in `year` */
+export function fxRate(model: FxInput, currency: CurrencyCode, year: number): number {
+  if (currency === "EUR") return 1;
+  const quoted = Object.keys(model.fxByYear ?? {})
+    .map(Number)
+    .filter((y) => y <= year && model.fxByYear![y][currency] !== undefined)
+    .sort((a, b) => a - b);
+  if (quoted.length > 0) return model.fxByYear![quoted[quoted.length - 1]][currency];
+  const base = model.fxRates?.[currency];
+  if (base !== undefined) return base;
+  if (currency === "SEK") return model.fxSEKPerEUR;
+  throw new Error(`No FX rate for ${currency} in ${year}`);
+}
+
+export function convertCurrency(
+  model: FxInput,
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  year: number,
+): number {
+  if (from === to) return amount;
+  return (amount * fxRate(model, to, year)) / fxRate(model, from, year);
+}
+
+export function lineCurrency(model: FxInput, line: CostLine): CurrencyCode {
+  return model.costCurrencies?.[line] ?? DEFAULT_LINE_CURRENCIES[line];
+}
+
+/** Currencies with a rate: EUR, SEK and everything in the FX tables */
+export function quotedCurrencies(model: FxInput): CurrencyCode[] {
+  const codes = new Set<CurrencyCode>(["EUR", "SEK"]);
+  for (const c of Object.keys(model.fxRates ?? {})) codes.add(c);
+  for (const table of Object.values(model.fxByYear ?? {})) {
+    for (const c of Object.keys(table)) codes.add(c);
+  }
+  return [...codes];
+}
+
+/**
+ * Reprice a cost line in another currency: its amounts (and, for fuel, the
+ * energy prices) are converted at the rates of `year`.
+ */
+export function setLineCurrency<T extends CostModelInput>(
+  model: T,
+  line: CostLine,
+  currency: CurrencyCode,
+  year: number,
+): T {
+  const from = lineCurrency(model, line);
+  const convert = (amount: number) => convertCurrency(model, amount, from, currency, year);
+  const next: T = {
+    ...model,
+    costCurrencies: { ...model.costCurrencies, [line]: currency },
+  };
+  for (const field of LINE_FIELDS[line]) {
+    const amount = model[field];
+    if (typeof amount === "number") (next as Record<string, unknown>)[field] = convert(amount);
+  }
+  if (line === "fuel" && model.energyPrices) {
+    const p = model.energyPrices;
+    const convertTable = (table?: Record<number, number>) =>
+      table
+        ? Object.fromEntries(Object.entries(table).map(([y, v]) => [y, convert(v)]))
+        : undefined;
+    next.energyPrices = {
+      dieselSEKPerLitre: convert(p.dieselSEKPerLitre),
+      electricitySEKPerKWh: convert(p.electricitySEKPerKWh),
+      dieselByYear: convertTable(p.dieselByYear),
+      electricityByYear: convertTable(p.electricityByYear),
+    };
+  }
+  return next;
+}
+
+/**
+ * Back to the default EUR and SEK lines: amounts priced in other currencies
+ * are converted at the rates of `year`, labour roles in them move to SEK,
+ * and the FX tables are dropped.
+ */
+export function resetCurrencies<T extends CostModelInput>(model: T, year: number): T {
+  let next = model;
+  for (const line of COST_LINES) {
+    if (lineCurrency(model, line) !== DEFAULT_LINE_CURRENCIES[line]) {
+      next = setLineCurrency(next, line, DEFAULT_LINE_CURRENCIES[line], year);
+    }
+  }
+  if (next.labour) {
+    next = {
+      ...next,
+      labour: {
+        ...next.labour,
+        roles: next.labour.roles.map((role) =>
+          role.currency === "EUR" || role.currency === "SEK"
+            ? role
+            : {
+                ...role,
+                salary: convertCurrency(model, role.salary, role.currency, "SEK", year),
+                currency: "SEK",
+              },
+        ),
+      },
+    };
+  }
+  next = { ...next };
+  delete next.costCurrencies;
+  delete next.fxRates;
+  delete next.fxByYear;
+  return next;
+}
+
+/** e.g. "Truck Price & Lease AUD, Fuel & Energy CAD; per EUR: SEK 11.00, AUD 1.60 (2027: AUD 1.50)" */
+export function describeCurrencies(model: FxInput): string {
+  const lines = COST_LINES.map((line) => `${COST_LINE_LABELS[line]} ${lineCurrency(model, line)}`);
+  const rate = (c: string, v: number) => `${c} ${v.toFixed(2)}`;
+  const base = [
+    ...(model.fxRates?.SEK === undefined ? [rate("SEK", model.fxSEKPerEUR)] : []),
+    ...Object.entries(model.fxRates ?? {}).map(([c, v]) => rate(c, v)),
+  ];
+  const byYear = Object.entries(model.fxByYear ?? {})
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([year, table]) =>
+      `${year}: ${Object.entries(table).map(([c, v]) => rate(c, v)).join(", ")}`,
+    );
+  return (
+    `${lines.join(", ")}; per EUR: ${base.join(", ")}` +
+    (byYear.length > 0 ? ` (${byYear.join("; ")})` : "")
+  );
+}
+
+// ── Reporting ──────────────────────────────────────────────────────────────
+
+export function reportIn(
+  costs: CostBreakdownResult,
+  model: FxInput,
+  currency: CurrencyCode,
+): ReportingView {
+  let cumulativeDiscounted = 0;
+  const rows = costs.rows.map((r) => {
+    const sek = currency === "SEK";
+    const fxRateY = sek ? r.fxSEKPerEUR : fxRate(model, currency, r.year);
+    const fromEUR = (eur: number, sekAmount: number) => (sek ? sekAmount : eur * fxRateY);
+    const discountedCost = fromEUR(r.discountedCostEUR, r.discountedCostSEK);
+    cumulativeDiscounted += discountedCost;
+    return {
+      year: r.year,
+      fxRate: fxRateY,
+      labour: fromEUR(
+        r.opexLabourEUR + r.opexLabourSEK / r.fxSEKPerEUR,
+        r.opexLabourEUR * r.fxSEKPerEUR + r.opexLabourSEK,
+      ),
+      opexTotal: fromEUR(
+        r.opexTotalEUR + r.opexTotalSEK / r.fxSEKPerEUR,
+        r.opexTotalEUR * r.fxSEKPerEUR + r.opexTotalSEK,
+      ),
+      totalCost: fromEUR(r.totalCostEUR, r.totalCostSEK),
+      realCost: fromEUR(r.realCostEUR, r.realCostSEK),
+      discountedCost,
+      cumulativeDiscounted:
+        currency === "EUR"
+          ? r.cumulativeDiscountedEUR
+          : sek
+            ? r.cumulativeDiscountedSEK
+            : cumulativeDiscounted,
+    };
+  });
+
+  const sum = (key: keyof ReportingRow) => rows.reduce((acc, r) => acc + r[key], 0);
+  const t = costs.periodTotals;
+  const native = currency === "EUR" ? "EUR" : currency === "SEK" ? "SEK" : null;
+  return {
+    currency,
+    rows,
+    totals: {
+      labour: sum("labour"),
+      opexTotal: sum("opexTotal"),
+      totalCost: native ? t[`totalCost${native}`] : sum("totalCost"),
+      realTotalCost: native ? t[`realTotalCost${native}`] : sum("realCost"),
+      npv: native ? t[`npv${native}`] : sum("discountedCost"),
+    },
+  };
+}
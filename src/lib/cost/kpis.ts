@@ -0,0 +1,167 @@
+/**
+ * Cost KPIs derived from a cost breakdown and the drivers it was built from.
+ *
+ * Per year y (amounts in EUR and SEK, like the breakdown totals):
+ *   costPerTonne_y   = totalCost_y / tonnes_y
+ *   costPerTonneKm_y = totalCost_y / tonneKm_y      tonneKm = tonnes × loaded haul km
+ *   capexPerTruck_y  = capexTotalEUR_y / fleet_y
+ *   opexPerHour_y    = (opexTotalEUR_y + opexTotalSEK_y / fx_y) / hours_y
+ *
+ * Period: the same ratios over the period sums, except
+ *   capexPerTruck    = Σ capexTotalEUR / peak fleet
+ *
+ * In another reporting currency (calcReportingKpis) the amounts come from the
+ * reporting view, i.e. each year at its own rate (see reportIn).
+ *
+ * A KPI whose denominator is 0 or unknown is null.
+ */
+import type { CostBreakdownResult, YearlyDriver } from "./calcCost";
+import type { ReportingView } from "./fx";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface CostKpis {
+  costPerTonneEUR: number | null;
+  costPerTonneSEK: number | null;
+  costPerTonneKmEUR: number | null;
+  costPerTonneKmSEK: number | null;
+  capexPerTruckEUR: number | null;
+  opexPerHourEUR: number | null;
+  opexPerHourSEK: number | null;
+}
+
+export interface YearlyCostKpis extends CostKpis {
+  year: number;
+}
+
+export interface CostKpiResult {
+  rows: YearlyCostKpis[];
+  period: CostKpis;
+}
+
+// Cost KPIs in a reporting currency (CAPEX per truck stays in EUR)
+export interface ReportingKpis {
+  costPerTonne: number | null;
+  costPerTonneKm: number | null;
+  opexPerHour: number | null;
+}
+
+export interface ReportingKpiResult {
+  currency: string;
+  rows: (ReportingKpis & { year: number })[];
+  period: ReportingKpis;
+}
+
+// ── Calculation ────────────────────────────────────────────────────────────
+
+function ratio(amount: number, denominator: number | undefined): number | null {
+  return denominator ? amount / denominator : null;
+}
+
+function kpis(
+  amounts: {
+    totalCostEUR: number;
+    totalCostSEK: number;
+    capexTotalEUR: number;
+    opexEUR: number;
+    opexSEK: number;
+  },
+  basis: { tonnes?: number; tonneKm?: number; trucks: number; hours?: number },
+): CostKpis {
+  return {
+    costPerTonneEUR: ratio(amounts.totalCostEUR, basis.tonnes),
+    costPerTonneSEK: ratio(amounts.totalCostSEK, basis.tonnes),
+    costPerTonneKmEUR: ratio(amounts.totalCostEUR, basis.tonneKm),
+    costPerTonneKmSEK: ratio(amounts.totalCostSEK, basis.tonneKm),
+    capexPerTruckEUR: ratio(amounts.capexTotalEUR, basis.trucks),
+    opexPerHourEUR: ratio(amounts.opexEUR, basis.hours),
+    opexPerHourSEK: ratio(amounts.opexSEK, basis.hours),
+  };
+}
+
+function sumOf(drivers: YearlyDriver[], key: keyof YearlyDriver): number | undefined {
+  if (drivers.some((d) => d[key] === undefined)) return undefined;
+  return drivers.reduce((sum, d) => sum + (d[key] ?? 0), 0);
+}
+
+export function calcCostKpis(
+  costs: CostBreakdownResult,
+  drivers: YearlyDriver[],
+): CostKpiResult {
+  const opexEUR = costs.rows.map((r) => r.opexTotalEUR + r.opexTotalSEK / r.fxSEKPerEUR);
+  const opexSEK = costs.rows.map((r) => r.opexTotalEUR * r.fxSEKPerEUR + r.opexTotalSEK);
+  const total = (values: number[]) => values.reduce((sum, v) => sum + v, 0);
+
+  const rows = costs.rows.map((r, i) => {
+    const d = drivers[i];
+    return {
+      year: r.year,
+      ...kpis(
+        {
+          totalCostEUR: r.totalCostEUR,
+          totalCostSEK: r.totalCostSEK,
+          capexTotalEUR: r.capexTotalEUR,
+          opexEUR: opexEUR[i],
+          opexSEK: opexSEK[i],
+        },
+        {
+          tonnes: d?.tonnesPerYear,
+          tonneKm: d?.tonneKmPerYear,
+          trucks: r.fleetSize,
+          hours: d?.hoursPerYear,
+        },
+      ),
+    };
+  });
+
+  const t = costs.periodTotals;
+  const period = kpis(
+    {
+      totalCostEUR: t.totalCostEUR,
+      totalCostSEK: t.totalCostSEK,
+      capexTotalEUR: t.capexTotalEUR,
+      opexEUR: total(opexEUR),
+      opexSEK: total(opexSEK),
+    },
+    {
+      tonnes: sumOf(drivers, "tonnesPerYear"),
+      tonneKm: sumOf(drivers, "tonneKmPerYear"),
+      trucks: Math.max(0, ...costs.rows.map((r) => r.fleetSize)),
+      hours: sumOf(drivers, "hoursPerYear"),
+    },
+  );
+
+  return { rows, period };
+}
+
+export function calcReportingKpis(
+  view: ReportingView,
+  drivers: YearlyDriver[],
+): ReportingKpiResult {
+  const reportingKpis = (
+    totalCost: number,
+    opexTotal: number,
+    basis: { tonnes?: number; tonneKm?: number; hours?: number },
+  ): ReportingKpis => ({
+    costPerTonne: ratio(totalCost, basis.tonnes),
+    costPerTonneKm: ratio(totalCost, basis.tonneKm),
+    opexPerHour: ratio(opexTotal, basis.hours),
+  });
+
+  return {
+    currency: view.currency,
+    rows: view.rows.map((r, i) => ({
+      year: r.year,
+      ...reportingKpis(r.totalCost, r.opexTotal, {
+        tonnes: drivers[i]?.tonnesPerYear,
+        tonneKm: drivers[i]?.tonneKmPerYear,
+        hours: drivers[i]?.hoursPerYear,
+      }),
+    })),
+    period: reportingKpis(view.totals.totalCost, view.totals.opexTotal, {
+      tonnes: sumOf(drivers, "tonnesPerYear"),
+      tonneKm: sumOf(drivers, "tonneKmPerYear"),
+      hours: sumOf(drivers, "hoursPerYear"),
+    }),
+  };
+}
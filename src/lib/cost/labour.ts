@@ -0,0 +1,159 @@
+/**
+ * Labour cost from a shift roster.
+ *
+ * Headcount per crew (one crew works each shift):
+ *   perTruck    roles: ceil(fleet × ratio)        ratio = people per truck
+ *   perNTrucks  roles: ceil(fleet / ratio)        ratio = trucks per person
+ *   fixed       roles: ratio                      ratio = people per crew
+ *   (no one is rostered in a year with fleet = 0)
+ *
+ * Each day needs one crew per shift, and relief crews rotate in to cover rest
+ * days, leave and sickness:
+ *   crews           = shiftsPerDay + reliefCrews
+ *   headcount_role  = perCrew_role × crews
+ *   annualCost_role = headcount_role × salary × (1 + overheadPercent / 100)
+ *
+ * Costs stay in each role's own currency (any ISO code); calcCostBreakdown
+ * converts them at the year's FX rate.
+ */
+import { isCurrencyCode, type CurrencyCode } from "./fx";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type LabourCurrency = CurrencyCode;
+
+export type StaffingBasis = "perTruck" | "perNTrucks" | "fixed";
+
+export interface LabourRole {
+  name: string;
+  basis: StaffingBasis;
+  ratio: number;
+  salary: number; // per person per year, in `currency`
+  overheadPercent: number; // social charges, benefits, training
+  currency: LabourCurrency;
+}
+
+export interface LabourRoster {
+  shiftsPerDay: number;
+  reliefCrews: number; // crews off shift on any given day
+  roles: LabourRole[];
+}
+
+export interface LabourRoleCost {
+  name: string;
+  perCrew: number;
+  headcount: number;
+  currency: LabourCurrency;
+  cost: number; // in `currency`
+  costEUR: number;
+  costSEK: number;
+}
+
+export interface LabourCost {
+  headcount: number;
+  costEUR: number;
+  costSEK: number;
+  costByCurrency: Record<LabourCurrency, number>;
+  roles: LabourRoleCost[];
+}
+
+export const LABOUR_ROSTER_DEFAULTS: LabourRoster = {
+  shiftsPerDay: 2,
+  reliefCrews: 2,
+  roles: [
+    {
+      name: "Operator",
+      basis: "perTruck",
+      ratio: 1,
+      salary: 650_000,
+      overheadPercent: 45,
+      currency: "SEK",
+    },
+    {
+      name: "Maintenance Technician",
+      basis: "perNTrucks",
+      ratio: 4,
+      salary: 700_000,
+      overheadPercent: 45,
+      currency: "SEK",
+    },
+    {
+      name: "Shift Supervisor",
+      basis: "fixed",
+      ratio: 1,
+      salary: 850_000,
+      overheadPercent: 45,
+      currency: "SEK",
+    },
+  ],
+};
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+export function validateLabourRoster(roster: LabourRoster): void {
+  if (!Number.isInteger(roster.shiftsPerDay) || roster.shiftsPerDay < 1) {
+    throw new Error("shiftsPerDay must be a whole number of at least 1");
+  }
+  if (!Number.isInteger(roster.reliefCrews) || roster.reliefCrews < 0) {
+    throw new Error("reliefCrews must be a whole number of at least 0");
+  }
+  for (const role of roster.roles) {
+    if (role.basis === "perNTrucks" && !(role.ratio > 0)) {
+      throw new Error(`${role.name}: trucks per person must be greater than 0`);
+    }
+    if (role.ratio < 0) {
+      throw new Error(`${role.name}: ratio must not be negative`);
+    }
+    if (role.salary < 0 || role.overheadPercent < 0) {
+      throw new Error(`${role.name}: salary and overhead must not be negative`);
+    }
+    if (!isCurrencyCode(role.currency)) {
+      throw new Error(`${role.name}: currency must be a three-letter ISO code`);
+    }
+  }
+}
+
+// ── Calculation ────────────────────────────────────────────────────────────
+
+function perCrew(role: LabourRole, fleetSize: number): number {
+  if (fleetSize <= 0) return 0;
+  switch (role.basis) {
+    case "perTruck":
+      return Math.ceil(fleetSize * role.ratio);
+    case "perNTrucks":
+      return Math.ceil(fleetSize / role.ratio);
+    case "fixed":
+      return role.ratio;
+  }
+}
+
+export function calcLabourCost(roster: LabourRoster, fleetSize: number): LabourCost {
+  const crews = roster.shiftsPerDay + roster.reliefCrews;
+  const roles = roster.roles.map((role) => {
+    const crewCount = perCrew(role, fleetSize);
+    const headcount = crewCount * crews;
+    const cost = headcount * role.salary * (1 + role.overheadPercent / 100);
+    return {
+      name: role.name,
+      perCrew: crewCount,
+      headcount,
+      currency: role.currency,
+      cost,
+      costEUR: role.currency === "EUR" ? cost : 0,
+      costSEK: role.currency === "SEK" ? cost : 0,
+    };
+  });
+
+  const costByCurrency: Record<LabourCurrency, number> = {};
+  for (const r of roles) {
+    costByCurrency[r.currency] = (costByCurrency[r.currency] ?? 0) + r.cost;
+  }
+
+  return {
+    headcount: roles.reduce((n, r) => n + r.headcount, 0),
+    costEUR: roles.reduce((sum, r) => sum + r.costEUR, 0),
+    costSEK: roles.reduce((sum, r) => sum + r.costSEK, 0),
+    costByCurrency,
+    roles,
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Pricing layer: a customer quote on top of the internal cost breakdown.
+ *
+ * Per year y and price category c (EUR; SEK lines at that year's fx):
+ *   cost_c,y    = breakdown lines of c:
+ *                   trucks     capexTrucks + capexReplacement + truckFinancing
+ *                   deployment capexDeployment + capexFms
+ *                   licenses   opexTruckLicense + opexFmsLicense
+ *                   operations opexService + opexFuel + opexCarbon
+ *                   labour     opexLabourEUR + opexLabourSEK
+ *   price_c,y   = cost_c,y × (1 + contingency%) × (1 + margin_c%)
+ *   listPrice_y = Σ_c price_c,y
+ *   discount_y  = listPrice_y × tier%     tier = highest minTrucks ≤ peak fleet
+ *   price_y     = listPrice_y − discount_y
+ *   (the quote currency restates price_y at rate(currency, y), see fx.ts)
+ *
+ * Invoicing: the one-time price (trucks and deployment in the first plan
+ * year, after discount) is split over the payment milestones,
+ *   due year = firstYear + floor(monthsFromDeployment / 12), clamped to the plan;
+ * everything else is invoiced in the year it falls in.
+ *
+ * Internal (never in customer exports):
+ *   cost_y   = totalCostEUR_y (net of residual credits, which we keep)
+ *   margin_y = price_y − cost_y
+ *
+ * calcQuote returns the two apart: `customer` holds prices only and is the
+ * sole input to customer-facing exports; `internal` holds cost and margin.
+ */
+import type { CostBreakdownResult, YearlyCostRow } from "./calcCost";
+import { fxRate, isCurrencyCode, type CurrencyCode, type FxInput } from "./fx";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type PriceCategory = "trucks" | "deployment" | "licenses" | "operations" | "labour";
+
+export const PRICE_CATEGORIES: PriceCategory[] = [
+  "trucks",
+  "deployment",
+  "licenses",
+  "operations",
+  "labour",
+];
+
+export const PRICE_CATEGORY_LABELS: Record<PriceCategory, string> = {
+  trucks: "Trucks",
+  deployment: "Deployment",
+  licenses: "Licenses",
+  operations: "Operations",
+  labour: "Labour",
+};
+
+export interface VolumeDiscountTier {
+  minTrucks: number; // peak fleet at or above which the tier applies
+  discountPercent: number;
+}
+
+export interface PaymentMilestone {
+  name: string;
+  percent: number; // of the one-time price
+  monthsFromDeployment: number; // negative = before the first plan year
+}
+
+export interface PricingSettings {
+  currency: CurrencyCode;
+  marginPercent: Record<PriceCategory, number>;
+  contingencyPercent: number;
+  volumeDiscounts: VolumeDiscountTier[];
+  milestones: PaymentMilestone[];
+}
+
+export const PRICING_DEFAULTS: PricingSettings = {
+  currency: "EUR",
+  marginPercent: {
+    trucks: 12,
+    deployment: 25,
+    licenses: 30,
+    operations: 15,
+    labour: 20,
+  },
+  contingencyPercent: 5,
+  volumeDiscounts: [
+    { minTrucks: 10, discountPercent: 3 },
+    { minTrucks: 25, discountPercent: 6 },
+  ],
+  milestones: [
+    { name: "Order", percent: 30, monthsFromDeployment: -6 },
+    { name: "Commissioning", percent: 50, monthsFromDeployment: 0 },
+    { name: "Acceptance", percent: 20, monthsFromDeployment: 6 },
+  ],
+};
+
+// Customer-facing: prices only
+export interface CustomerPriceRow {
+  year: number;
+  fleetSize: number;
+  lines: Record<PriceCategory, number>;
+  listPrice: number;
+  discount: number;
+  price: number;
+  invoiced: number; // billed this year, milestones included
+}
+
+export interface CustomerMilestone {
+  name: string;
+  percent: number;
+  year: number;
+  amount: number;
+}
+
+export interface CustomerQuote {
+  currency: CurrencyCode;
+  volumeDiscountPercent: number;
+  rows: CustomerPriceRow[];
+  milestones: CustomerMilestone[];
+  totals: {
+    lines: Record<PriceCategory, number>;
+    listPrice: number;
+    discount: number;
+    price: number;
+  };
+}
+
+// Internal: cost, contingency and margin, in the quote currency
+export interface QuoteInternalRow {
+  year: number;
+  cost: number;
+  contingency: number;
+  price: number;
+  margin: number;
+}
+
+export interface QuoteInternals {
+  rows: QuoteInternalRow[];
+  totals: {
+    cost: number;
+    contingency: number;
+    price: number;
+    margin: number;
+    marginPercent: number | null; // of price
+  };
+}
+
+export interface QuoteResult {
+  customer: CustomerQuote;
+  internal: QuoteInternals;
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+export function validatePricing(pricing: PricingSettings): void {
+  if (!isCurrencyCode(pricing.currency)) {
+    throw new Error("Quote currency must be a three-letter ISO code");
+  }
+  for (const category of PRICE_CATEGORIES) {
+    if (!(pricing.marginPercent[category] > -100)) {
+      throw new Error(`${category} margin must be greater than -100%`);
+    }
+  }
+  if (!(pricing.contingencyPercent >= 0)) {
+    throw new Error("contingencyPercent must not be negative");
+  }
+  for (const tier of pricing.volumeDiscounts) {
+    if (!(tier.minTrucks >= 0)) {
+      throw new Error("Volume discount tiers need a truck count of at least 0");
+    }
+    if (!(tier.discountPercent >= 0 && tier.discountPercent < 100)) {
+      throw new Error("Volume discounts must be between 0 and 100%");
+    }
+  }
+  if (pricing.milestones.length > 0) {
+    if (pricing.milestones.some((m) => !(m.percent >= 0))) {
+      throw new Error("Milestone percentages must not be negative");
+    }
+    const total = pricing.milestones.reduce((sum, m) => sum + m.percent, 0);
+    if (Math.abs(total - 100) > 1e-6) {
+      throw new Error("Milestone percentages must add up to 100");
+    }
+  }
+}
+
+// ── Calculation ────────────────────────────────────────────────────────────
+
+function categoryCosts(r: YearlyCostRow): Record<PriceCategory, number> {
+  const fromSEK = (sek: number) => sek / r.fxSEKPerEUR;
+  return {
+    trucks: r.capexTrucks + r.capexReplacement + r.truckFinancingEUR,
+    deployment: r.capexDeployment + r.capexFms,
+    licenses: r.opexTruckLicenseEUR + r.opexFmsLicenseEUR,
+    operations: fromSEK(r.opexServiceSEK + r.opexFuelSEK) + r.opexCarbonEUR,
+    labour: r.opexLabourEUR + fromSEK(r.opexLabourSEK),
+  };
+}
+
+export function volumeDiscountPercent(tiers: VolumeDiscountTier[], trucks: number): number {
+  const applicable = tiers
+    .filter((t) => t.minTrucks <= trucks)
+    .sort((a, b) => a.minTrucks - b.minTrucks);
+  return applicable.length > 0 ? applicable[applicable.length - 1].discountPercent : 0;
+}
+
+function emptyLines(): Record<PriceCategory, number> {
+  return { trucks: 0, deployment: 0, licenses: 0, operations: 0, labour: 0 };
+}
+
+export function calcQuote(
+  costs: CostBreakdownResult,
+  pricing: PricingSettings,
+  fx: FxInput,
+): QuoteResult {
+  validatePricing(pricing);
+
+  const peakFleet = Math.max(0, ...costs.rows.map((r) => r.fleetSize));
+  const discountPercent = volumeDiscountPercent(pricing.volumeDiscounts, peakFleet);
+  const uplift = 1 + pricing.contingencyPercent / 100;
+
+  const priced = costs.rows.map((r) => {
+    const rate = pricing.currency === "SEK" ? r.fxSEKPerEUR : fxRate(fx, pricing.currency, r.year);
+    const cost = categoryCosts(r);
+    const lines = emptyLines();
+    for (const c of PRICE_CATEGORIES) {
+      lines[c] = cost[c] * uplift * (1 + pricing.marginPercent[c] / 100) * rate;
+    }
+    const listPrice = PRICE_CATEGORIES.reduce((sum, c) => sum + lines[c], 0);
+    const discount = listPrice * (discountPercent / 100);
+    const costTotal = r.totalCostEUR * rate;
+    const contingency =
+      PRICE_CATEGORIES.reduce((sum, c) => sum + cost[c], 0) * (uplift - 1) * rate;
+    return { r, lines, listPrice, discount, price: listPrice - discount, costTotal, contingency };
+  });
+
+  // One-time price split over the milestones
+  const first = priced[0];
+  const firstYear = first?.r.year ?? 0;
+  const lastYear = priced[priced.length - 1]?.r.year ?? firstYear;
+  const oneTime = first
+    ? (first.lines.trucks + first.lines.deployment) * (1 - discountPercent / 100)
+    : 0;
+  const milestones: CustomerMilestone[] =
+    pricing.milestones.length > 0 && oneTime > 0
+      ? pricing.milestones.map((m) => ({
+          name: m.name,
+          percent: m.percent,
+          year: Math.min(
+            lastYear,
+            Math.max(firstYear, firstYear + Math.floor(m.monthsFromDeployment / 12)),
+          ),
+          amount: oneTime * (m.percent / 100),
+        }))
+      : [];
+  const split = milestones.length > 0;
+
+  const rows: CustomerPriceRow[] = priced.map((p, i) => ({
+    year: p.r.year,
+    fleetSize: p.r.fleetSize,
+    lines: p.lines,
+    listPrice: p.listPrice,
+    discount: p.discount,
+    price: p.price,
+    invoiced:
+      p.price -
+      (split && i === 0 ? oneTime : 0) +
+      milestones.filter((m) => m.year === p.r.year).reduce((sum, m) => sum + m.amount, 0),
+  }));
+
+  const totalLines = emptyLines();
+  for (const row of rows) {
+    for (const c of PRICE_CATEGORIES) totalLines[c] += row.lines[c];
+  }
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+  const internalRows = priced.map((p) => ({
+    year: p.r.year,
+    cost: p.costTotal,
+    contingency: p.contingency,
+    price: p.price,
+    margin: p.price - p.costTotal,
+  }));
+  const totalPrice = sum(rows.map((r) => r.price));
+  const totalMargin = sum(internalRows.map((r) => r.margin));
+
+  return {
+    customer: {
+      currency: pricing.currency,
+      volumeDiscountPercent: discountPercent,
+      rows,
+      milestones,
+      totals: {
+        lines: totalLines,
+        listPrice: sum(rows.map((r) => r.listPrice)),
+        discount: sum(rows.map((r) => r.discount)),
+        price: totalPrice,
+      },
+    },
+    internal: {
+      rows: internalRows,
+      totals: {
+        cost: sum(internalRows.map((r) => r.cost)),
+        contingency: sum(internalRows.map((r) => r.contingency)),
+        price: totalPrice,
+        margin: totalMargin,
+        marginPercent: totalPrice !== 0 ? (totalMargin / totalPrice) * 100 : null,
+      },
+    },
+  };
+}
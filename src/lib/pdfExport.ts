@@ -1,5 +1,27 @@
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
+import {
+  describeEscalation,
+  ESCALATION_CATEGORIES,
+  ESCALATION_CATEGORY_LABELS,
+  type CostBreakdownResult,
+  type DiscountConvention,
+  type EmissionSettings,
+  FINANCING_MODE_LABELS,
+  type Escalation,
+  type EscalationCategory,
+  type FinancingMode,
+  type FinancingOption,
+} from "@/lib/cost/calcCost";
+import type { CostKpis } from "@/lib/cost/kpis";
+import type { BreakEvenResult, CurrentHaulageCost } from "@/lib/cost/breakEven";
+import {
+  PRICE_CATEGORIES,
+  PRICE_CATEGORY_LABELS,
+  type CustomerQuote,
+  type QuoteInternals,
+} from "@/lib/cost/pricing";
+import type { ComparedValue, ScenarioComparison } from "@/lib/scenarios/comparison";
 
 export interface PDFExportPayload {
   distanceLoadedKm: number;
@@ -8,6 +30,18 @@ export interface PDFExportPayload {
   speedUnloaded: number;
   loadingTime: number;
   unloadingTime: number;
+  truckModelName?: string; // speeds derived from this model's curves
+  catalogueModel?: { name: string; version: string };
+  loader?: { loaders: number; bucketSize: number; passes: number };
+  route?: Array<{
+    length: number; // meters
+    grade: number; // percent
+    rollingResistance: number; // percent
+    speedLimit?: number; // km/h
+    surface: string;
+    speedLoaded: number; // km/h
+    speedUnloaded: number; // km/h
+  }>;
   payloadTonnes: number;
   availabilityPercent: number;
   efficiencyPercent: number;
@@ -17,7 +51,110 @@ export interface PDFExportPayload {
   tonnesPerHour: number;
   tonnesPerTruckYear: number;
   effectiveFactor: number; // 0-1
-  yearlyFleet: Array<{ year: number; tonnesPerYear: number; trucksRequired: number }>;
+  yearlyFleet: Array<{
+    year: number;
+    tonnesPerYear: number;
+    trucksRequired: number;
+    matchFactor?: number;
+    queueTimeSeconds?: number;
+  }>;
+
+  // Yearly costs with discounting
+  costBreakdown?: CostBreakdownResult;
+  costKpis?: CostKpis; // whole period
+  discounting?: {
+    ratePercent: number;
+    baseYear: number;
+    convention: DiscountConvention;
+  };
+  escalation?: {
+    priceBaseYear: number;
+    inflationPercent: number;
+    categories: Partial<Record<EscalationCategory, Escalation>>;
+  };
+  fleetLedger?: {
+    lifeHours?: number;
+    lifeKm?: number;
+    residualPercent: number;
+  };
+  labour?: { shiftsPerDay: number; reliefCrews: number };
+  currencies?: {
+    description: string; // see describeCurrencies
+    reporting?: { currency: string; totalCost: number; npv: number }; // other than EUR/SEK
+  };
+  energy?: {
+    drivetrain: string; // display label
+    litresPerKm: number;
+    kWhPerKm: number;
+    chargingSecondsPerCycle: number;
+    chargingAvailabilityLossPercent: number;
+  };
+  financing?: {
+    selected: FinancingMode;
+    options: FinancingOption[];
+  };
+
+  // Quote margin (internal report only; the customer gets generateQuotePdf)
+  pricing?: {
+    currency: string;
+    internal: QuoteInternals;
+  };
+
+  // Tornado sensitivity, bars ranked by total cost swing
+  sensitivity?: {
+    variationPercent: number;
+    basePeakTrucks: number;
+    baseTotalCostEUR: number;
+    bars: Array<{
+      label: string;
+      unit: string;
+      lowValue: number;
+      highValue: number;
+      trucksLow: number | null;
+      trucksHigh: number | null;
+      costLow: number | null;
+      costHigh: number | null;
+    }>;
+  };
+
+  // Monte Carlo percentiles (own page)
+  uncertainty?: {
+    iterations: number;
+    failures: number;
+    seed: number;
+    inputs: Array<{ label: string; distribution: string }>;
+    trucksByYear: Array<{ year: number; p10: number; p50: number; p90: number }>;
+    totalCostEUR: { p10: number; p50: number; p90: number };
+  };
+
+  // Manual vs. autonomous TCO
+  autonomy?: {
+    cases: Array<{ label: string; description: string }>;
+    years: Array<{
+      year: number;
+      manualTrucks: number;
+      autonomousTrucks: number;
+      manualCostEUR: number;
+      autonomousCostEUR: number;
+      savingsEUR: number;
+      cumulativeSavingsEUR: number;
+    }>;
+    paybackYear: number | null;
+    totalSavingsEUR: number;
+    npvSavingsEUR: number;
+  };
+
+  // Payback against the customer's current haulage cost
+  breakEven?: {
+    current: CurrentHaulageCost;
+    result: BreakEvenResult;
+  };
+
+  // Emission factors and carbon price (per-year figures come from costBreakdown)
+  emissions?: EmissionSettings & {
+    energyModel: boolean; // litres and kWh from the energy model
+    tonnesMoved: number;
+  };
 
   scenarioName?: string;
   notes?: string;
@@ -113,16 +250,56 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
     y += 6;
   }
 
+  // A row of four label/value boxes
+  function metricBoxes(metrics: Array<{ label: string; value: string }>) {
+    const boxH = 38;
+    const boxGap = 3;
+    const boxW = (UW - boxGap * 3) / 4;
+
+    metrics.forEach((m, i) => {
+      const bx = M + i * (boxW + boxGap);
+      doc.setDrawColor(C.border);
+      doc.setFillColor("#FFFFFF");
+      doc.setLineWidth(1);
+      doc.roundedRect(bx, y, boxW, boxH, 3, 3, "FD");
+
+      doc.setFontSize(7);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(C.sectionTitle);
+      doc.text(m.label, bx + boxW / 2, y + 12, { align: "center" });
+
+      doc.setFontSize(10);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(C.bodyText);
+      doc.text(m.value, bx + boxW / 2, y + 27, { align: "center" });
+    });
+
+    y += boxH + 10;
+  }
+
   // ─── SECTION 1: KEY INPUTS ────────────────────────────────────
   sectionHeading("KEY INPUTS");
 
   const paramCol = landscape ? 180 : 140;
+  const speedPrefix = payload.route ? "Base Speed" : "Speed";
   const inputRows: string[][] = [
-    ["Distance Loaded", `${payload.distanceLoadedKm.toFixed(2)} km`],
-    ["Distance Unloaded", `${payload.distanceUnloadedKm.toFixed(2)} km`],
-    ["Speed Loaded", `${payload.speedLoaded.toFixed(0)} km/h`],
-    ["Speed Unloaded", `${payload.speedUnloaded.toFixed(0)} km/h`],
-    ["Loading Time", `${payload.loadingTime.toFixed(0)} sec`],
+    ...(payload.catalogueModel
+      ? [["Truck Model", `${payload.catalogueModel.name} (catalogue ${payload.catalogueModel.version})`]]
+      : []),
+    ...(payload.truckModelName
+      ? [["Speeds", `From ${payload.truckModelName} rimpull/retarder curves`]]
+      : []),
+    [payload.route ? "Route Length" : "Distance Loaded", `${payload.distanceLoadedKm.toFixed(2)} km`],
+    [payload.route ? "Return Length" : "Distance Unloaded", `${payload.distanceUnloadedKm.toFixed(2)} km`],
+    [`${speedPrefix} Loaded`, `${payload.speedLoaded.toFixed(0)} km/h`],
+    [`${speedPrefix} Unloaded`, `${payload.speedUnloaded.toFixed(0)} km/h`],
+    ...(payload.loader
+      ? [[
+          "Loader",
+          `${payload.loader.loaders} × ${payload.loader.bucketSize.toFixed(1)} m³ bucket, ${payload.loader.passes} passes`,
+        ]]
+      : []),
+    [payload.loader ? "Loading + Spot Time" : "Loading Time", `${payload.loadingTime.toFixed(0)} sec`],
     ["Unloading Time", `${payload.unloadingTime.toFixed(0)} sec`],
     ["Payload Capacity", `${payload.payloadTonnes.toFixed(0)} tonnes`],
     ["Availability", `${payload.availabilityPercent.toFixed(0)}%`],
@@ -165,6 +342,55 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
   });
   y = finalY + 16;
 
+  // ─── SECTION 1b: HAUL ROUTE (conditional) ─────────────────────
+  if (payload.route && payload.route.length > 0) {
+    if (y > H - 160) {
+      doc.addPage();
+      y = M;
+    }
+
+    sectionHeading("HAUL ROUTE");
+
+    finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [["#", "Length", "Grade", "Rolling Res.", "Limit", "Surface", "Loaded", "Empty"]],
+      body: payload.route.map((s, i) => [
+        String(i + 1),
+        `${s.length.toFixed(0)} m`,
+        `${s.grade.toFixed(1)}%`,
+        `${s.rollingResistance.toFixed(1)}%`,
+        s.speedLimit !== undefined ? `${s.speedLimit.toFixed(0)} km/h` : "—",
+        s.surface,
+        `${s.speedLoaded.toFixed(1)} km/h`,
+        `${s.speedUnloaded.toFixed(1)} km/h`,
+      ]),
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 8,
+        cellPadding: 4,
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+      },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
   // ─── SECTION 2: FLEET REQUIREMENTS ────────────────────────────
   if (y > H - 200) {
     doc.addPage();
@@ -174,9 +400,6 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
   sectionHeading("FLEET REQUIREMENTS");
 
   // 4 supporting metric boxes
-  const boxH = 38;
-  const boxGap = 3;
-  const boxW = (UW - boxGap * 3) / 4;
   const metrics = [
     { label: "Cycle Time", value: `${payload.cycleTimeSeconds.toFixed(0)}s` },
     { label: "Tonnes / Hour", value: payload.tonnesPerHour.toFixed(1) },
@@ -190,25 +413,7 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
     },
   ];
 
-  metrics.forEach((m, i) => {
-    const bx = M + i * (boxW + boxGap);
-    doc.setDrawColor(C.border);
-    doc.setFillColor("#FFFFFF");
-    doc.setLineWidth(1);
-    doc.roundedRect(bx, y, boxW, boxH, 3, 3, "FD");
-
-    doc.setFontSize(7);
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor(C.sectionTitle);
-    doc.text(m.label, bx + boxW / 2, y + 12, { align: "center" });
-
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor(C.bodyText);
-    doc.text(m.value, bx + boxW / 2, y + 27, { align: "center" });
-  });
-
-  y += boxH + 10;
+  metricBoxes(metrics);
 
   // Transposed fleet table — years as columns
   const labelCol = landscape ? 120 : 100;
@@ -237,6 +442,18 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
         "Trucks Required",
         ...payload.yearlyFleet.map((f) => String(f.trucksRequired)),
       ],
+      ...(payload.loader
+        ? [
+            [
+              "Match Factor",
+              ...payload.yearlyFleet.map((f) => (f.matchFactor ?? 0).toFixed(2)),
+            ],
+            [
+              "Queue (s)",
+              ...payload.yearlyFleet.map((f) => (f.queueTimeSeconds ?? 0).toFixed(0)),
+            ],
+          ]
+        : []),
     ],
     margin: { left: M, right: M },
     tableWidth: UW,
@@ -278,6 +495,737 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
   });
   y = finalY + 16;
 
+  // ─── SECTION 2a: COSTS & NPV (conditional) ────────────────────
+  if (payload.costBreakdown && payload.costBreakdown.rows.length > 0) {
+    const cost = payload.costBreakdown;
+    if (y > H - 200) {
+      doc.addPage();
+      y = M;
+    }
+
+    sectionHeading("COSTS & NET PRESENT VALUE");
+
+    if (payload.costKpis) {
+      const kpi = payload.costKpis;
+      const eur = (n: number | null, digits: number) =>
+        n === null
+          ? "–"
+          : `${n.toLocaleString("en-US", {
+              minimumFractionDigits: digits,
+              maximumFractionDigits: digits,
+            })} EUR`;
+      metricBoxes([
+        { label: "Cost / Tonne", value: eur(kpi.costPerTonneEUR, 2) },
+        { label: "Cost / Tonne-km", value: eur(kpi.costPerTonneKmEUR, 3) },
+        { label: "CAPEX / Truck", value: eur(kpi.capexPerTruckEUR, 0) },
+        { label: "OPEX / Op. Hour", value: eur(kpi.opexPerHourEUR, 0) },
+      ]);
+    }
+
+    if (payload.discounting) {
+      const d = payload.discounting;
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      doc.text(
+        `Discount rate ${d.ratePercent.toFixed(1)}%, base year ${d.baseYear}, ` +
+          `${d.convention === "mid-year" ? "mid-year" : "end-of-year"} convention`,
+        M,
+        y + 4
+      );
+      y += 14;
+    }
+
+    if (payload.escalation) {
+      const e = payload.escalation;
+      const escalated = ESCALATION_CATEGORIES.flatMap((c) => {
+        const esc = e.categories[c];
+        return esc ? [`${ESCALATION_CATEGORY_LABELS[c]} ${describeEscalation(esc)}`] : [];
+      });
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      const lines = doc.splitTextToSize(
+        `Prices in ${e.priceBaseYear} money, escalated: ` +
+          `${escalated.length > 0 ? escalated.join("; ") : "none"}. ` +
+          `Real totals deflated at ${e.inflationPercent.toFixed(1)}%/yr.`,
+        UW
+      );
+      doc.text(lines, M, y + 4);
+      y += 10 * lines.length + 4;
+    }
+
+    const k = (n: number) => `${Math.round(n / 1000).toLocaleString("en-US")}k`;
+
+    if (payload.currencies) {
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      const lines = doc.splitTextToSize(`Currencies: ${payload.currencies.description}`, UW);
+      doc.text(lines, M, y + 4);
+      y += 10 * lines.length + 4;
+    }
+
+    if (payload.labour) {
+      const peak = Math.max(0, ...cost.rows.map((r) => r.labourHeadcount));
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      doc.text(
+        `Labour: ${payload.labour.shiftsPerDay} shifts/day, ` +
+          `${payload.labour.reliefCrews} relief crews, ` +
+          `peak ${peak} people; ${k(cost.periodTotals.opexLabourEUR)} EUR + ` +
+          `${k(cost.periodTotals.opexLabourSEK)} SEK included in OPEX`,
+        M,
+        y + 4
+      );
+      y += 14;
+    }
+
+    if (payload.energy) {
+      const e = payload.energy;
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      doc.text(
+        `Energy (${e.drivetrain}): ${e.litresPerKm.toFixed(2)} L/km diesel, ` +
+          `${e.kWhPerKm.toFixed(2)} kWh/km electricity; ` +
+          `${Math.round(cost.periodTotals.dieselLitres / 1000).toLocaleString("en-US")} m³ diesel, ` +
+          `${Math.round(cost.periodTotals.electricityKWh / 1000).toLocaleString("en-US")} MWh over the plan` +
+          (e.chargingSecondsPerCycle > 0
+            ? `; charging ${e.chargingSecondsPerCycle.toFixed(0)} s/cycle ` +
+              `(${e.chargingAvailabilityLossPercent.toFixed(1)}% of availability)`
+            : ""),
+        M,
+        y + 4
+      );
+      y += 14;
+    }
+
+    if (payload.financing && payload.financing.selected !== "purchase") {
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      doc.text(
+        `Trucks by ${FINANCING_MODE_LABELS[payload.financing.selected].toLowerCase()}: ` +
+          `payments ${k(cost.periodTotals.truckFinancingEUR)} EUR are in the totals, not in CAPEX`,
+        M,
+        y + 4
+      );
+      y += 14;
+    }
+
+    if (payload.fleetLedger) {
+      const f = payload.fleetLedger;
+      const life = [
+        f.lifeHours !== undefined ? `${f.lifeHours.toLocaleString("en-US")} h` : null,
+        f.lifeKm !== undefined ? `${f.lifeKm.toLocaleString("en-US")} km` : null,
+      ].filter(Boolean);
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(C.notesText);
+      doc.text(
+        `Truck life ${life.join(" / ")}, residual ${f.residualPercent}% at end of life: ` +
+          `replacement CAPEX ${k(cost.periodTotals.capexReplacementEUR)} EUR, ` +
+          `residual credit ${k(cost.periodTotals.residualCreditEUR)} EUR (included in totals)`,
+        M,
+        y + 4
+      );
+      y += 14;
+    }
+    finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [[
+        "Year", "Fleet", "CAPEX (EUR)", "OPEX (EUR)", "OPEX (SEK)",
+        "Total (EUR)", "Real (EUR)", "Discounted (EUR)", "Cumulative PV (EUR)",
+      ]],
+      body: cost.rows.map((r) => [
+        String(r.year),
+        String(r.fleetSize),
+        k(r.capexTotalEUR),
+        k(r.opexTotalEUR),
+        k(r.opexTotalSEK),
+        k(r.totalCostEUR),
+        k(r.realCostEUR),
+        k(r.discountedCostEUR),
+        k(r.cumulativeDiscountedEUR),
+      ]),
+      foot: [
+        [
+          "Total", "",
+          k(cost.periodTotals.capexTotalEUR),
+          k(cost.periodTotals.opexTotalEUR),
+          k(cost.periodTotals.opexTotalSEK),
+          k(cost.periodTotals.totalCostEUR),
+          k(cost.periodTotals.realTotalCostEUR),
+          k(cost.periodTotals.npvEUR),
+          "",
+        ],
+        [
+          {
+            content:
+              `NPV ${k(cost.periodTotals.npvEUR)} EUR  ·  ${k(cost.periodTotals.npvSEK)} SEK` +
+              (payload.currencies?.reporting
+                ? `  ·  ${k(payload.currencies.reporting.npv)} ${payload.currencies.reporting.currency}` +
+                  ` (total ${k(payload.currencies.reporting.totalCost)})`
+                : ""),
+            colSpan: 9,
+            styles: { halign: "right" },
+          },
+        ],
+      ],
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 7,
+        cellPadding: 4,
+        halign: "right",
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      footStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.accentBlue),
+        fontStyle: "bold",
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+
+    if (payload.financing) {
+      const fin = payload.financing;
+      if (y > H - 110) {
+        doc.addPage();
+        y = M;
+      }
+      const mEUR = (n: number) => `${(n / 1_000_000).toFixed(2)} MEUR`;
+      finalY = y;
+      autoTable(doc, {
+        startY: y,
+        head: [["Financing option", "Truck payments", "Total cost", "NPV"]],
+        body: fin.options.map((o) => [
+          `${FINANCING_MODE_LABELS[o.mode]}${o.mode === fin.selected ? " (selected)" : ""}`,
+          mEUR(o.truckPaymentsEUR),
+          mEUR(o.totalCostEUR),
+          mEUR(o.npvEUR),
+        ]),
+        margin: { left: M, right: M },
+        tableWidth: UW,
+        headStyles: {
+          fillColor: hexToRgb(C.tableHeadBg),
+          textColor: hexToRgb(C.tableHeadText),
+          fontStyle: "bold",
+          fontSize: 7,
+          cellPadding: 4,
+          halign: "right",
+        },
+        bodyStyles: {
+          textColor: hexToRgb(C.bodyText),
+          fontSize: 8,
+          cellPadding: 4,
+          halign: "right",
+        },
+        columnStyles: { 0: { halign: "left" } },
+        alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+        styles: {
+          lineColor: hexToRgb(C.border),
+          lineWidth: 0.5,
+        },
+        didDrawPage: (data) => {
+          finalY = data.table.finalY ?? finalY;
+        },
+      });
+      y = finalY + 16;
+    }
+
+    if (payload.pricing) {
+      const { currency, internal } = payload.pricing;
+      if (y > H - 110) {
+        doc.addPage();
+        y = M;
+      }
+      sectionHeading(`QUOTE MARGIN (INTERNAL, ${currency})`);
+      const n = (v: number) => Math.round(v).toLocaleString("en-US");
+      const t = internal.totals;
+      finalY = y;
+      autoTable(doc, {
+        startY: y,
+        head: [["Year", "Cost", "Contingency", "Price", "Margin"]],
+        body: [
+          ...internal.rows.map((r) => [
+            String(r.year),
+            n(r.cost),
+            n(r.contingency),
+            n(r.price),
+            n(r.margin),
+          ]),
+          [
+            "Total",
+            n(t.cost),
+            n(t.contingency),
+            n(t.price),
+            `${n(t.margin)}${t.marginPercent === null ? "" : ` (${t.marginPercent.toFixed(1)}%)`}`,
+          ],
+        ],
+        margin: { left: M, right: M },
+        tableWidth: UW,
+        headStyles: {
+          fillColor: hexToRgb(C.tableHeadBg),
+          textColor: hexToRgb(C.tableHeadText),
+          fontStyle: "bold",
+          fontSize: 7,
+          cellPadding: 4,
+          halign: "right",
+        },
+        bodyStyles: {
+          textColor: hexToRgb(C.bodyText),
+          fontSize: 8,
+          cellPadding: 4,
+          halign: "right",
+        },
+        columnStyles: { 0: { halign: "left" } },
+        alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+        styles: {
+          lineColor: hexToRgb(C.border),
+          lineWidth: 0.5,
+        },
+        didDrawPage: (data) => {
+          finalY = data.table.finalY ?? finalY;
+        },
+      });
+      y = finalY + 16;
+    }
+  }
+
+  // ─── SECTION 2b: SENSITIVITY (conditional) ────────────────────
+  if (payload.sensitivity && payload.sensitivity.bars.length > 0) {
+    const sens = payload.sensitivity;
+    const chartBars = sens.bars.slice(0, 8);
+    const rowH = 16;
+
+    if (y > H - (120 + chartBars.length * rowH)) {
+      doc.addPage();
+      y = M;
+    }
+
+    sectionHeading(`SENSITIVITY — EACH INPUT ±${sens.variationPercent}%`);
+
+    // Tornado on total cost: orange = input low, blue = input high
+    const labelW = 130;
+    const centre = M + labelW + (UW - labelW) / 2;
+    const maxDelta = Math.max(
+      1e-9,
+      ...chartBars.flatMap((b) =>
+        [b.costLow, b.costHigh].map((v) => (v === null ? 0 : Math.abs(v - sens.baseTotalCostEUR)))
+      )
+    );
+    const scale = ((UW - labelW) / 2 - 4) / maxDelta;
+
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    doc.text(
+      `Total cost, base ${(sens.baseTotalCostEUR / 1_000_000).toFixed(2)} MEUR`,
+      centre,
+      y + 6,
+      { align: "center" }
+    );
+    y += 12;
+
+    doc.setDrawColor(C.border);
+    doc.line(centre, y, centre, y + chartBars.length * rowH);
+    chartBars.forEach((b, i) => {
+      const rowY = y + i * rowH;
+      doc.setFontSize(8);
+      doc.setTextColor(C.bodyText);
+      doc.text(b.label, M + labelW - 6, rowY + rowH / 2 + 3, { align: "right" });
+
+      [
+        { value: b.costLow, colour: "#F0883E" },
+        { value: b.costHigh, colour: C.accentBlue },
+      ].forEach(({ value, colour }, side) => {
+        if (value === null) return;
+        const delta = (value - sens.baseTotalCostEUR) * scale;
+        doc.setFillColor(colour);
+        doc.rect(
+          delta < 0 ? centre + delta : centre,
+          rowY + 2 + side * ((rowH - 4) / 2),
+          Math.max(0.5, Math.abs(delta)),
+          (rowH - 4) / 2,
+          "F"
+        );
+      });
+    });
+    y += chartBars.length * rowH + 10;
+
+    const fmtValue = (n: number) => Number(n.toPrecision(4)).toLocaleString("en-US");
+    const fmtTrucks = (n: number | null) => (n === null ? "n/a" : n.toFixed(0));
+    const fmtCost = (n: number | null) =>
+      n === null ? "n/a" : `${(n / 1_000_000).toFixed(2)}`;
+
+    finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [["Input", "Low → High", "Peak Trucks", "Total Cost (MEUR)"]],
+      body: sens.bars.map((b) => [
+        `${b.label} (${b.unit})`,
+        `${fmtValue(b.lowValue)} → ${fmtValue(b.highValue)}`,
+        `${fmtTrucks(b.trucksLow)} → ${fmtTrucks(b.trucksHigh)}`,
+        `${fmtCost(b.costLow)} → ${fmtCost(b.costHigh)}`,
+      ]),
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 8,
+        cellPadding: 4,
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+      },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
+  // ─── SECTION 2c: UNCERTAINTY (conditional, own page) ──────────
+  if (payload.uncertainty) {
+    const u = payload.uncertainty;
+    doc.addPage();
+    y = M;
+
+    sectionHeading("UNCERTAINTY — MONTE CARLO");
+
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    doc.text(
+      `${u.iterations} iterations, seed ${u.seed}` +
+        (u.failures > 0 ? `, ${u.failures} infeasible samples skipped` : ""),
+      M,
+      y + 4
+    );
+    y += 16;
+
+    const tableStyles = {
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold" as const,
+        fontSize: 8,
+        cellPadding: 5,
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 9,
+        cellPadding: 5,
+      },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+    };
+
+    finalY = y;
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head: [["Uncertain Input", "Distribution"]],
+      body: u.inputs.map((i) => [i.label, i.distribution]),
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+
+    const fmtMEUR = (n: number) => `${(n / 1_000_000).toFixed(2)} MEUR`;
+    finalY = y;
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head: [["Output", "P10", "P50", "P90"]],
+      body: [
+        ...u.trucksByYear.map((r) => [
+          `Trucks ${r.year}`,
+          r.p10.toFixed(1),
+          r.p50.toFixed(1),
+          r.p90.toFixed(1),
+        ]),
+        [
+          "Total Cost",
+          fmtMEUR(u.totalCostEUR.p10),
+          fmtMEUR(u.totalCostEUR.p50),
+          fmtMEUR(u.totalCostEUR.p90),
+        ],
+      ],
+      columnStyles: {
+        1: { halign: "right" },
+        2: { halign: "right", fontStyle: "bold" },
+        3: { halign: "right" },
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
+  // ─── SECTION 2d: MANUAL VS. AUTONOMOUS (conditional) ──────────
+  if (payload.autonomy && payload.autonomy.years.length > 0) {
+    const a = payload.autonomy;
+    if (y > H - (140 + a.years.length * 16)) {
+      doc.addPage();
+      y = M;
+    }
+
+    sectionHeading("MANUAL VS. AUTONOMOUS");
+
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    for (const c of a.cases) {
+      doc.text(`${c.label}: ${c.description}`, M, y + 4);
+      y += 11;
+    }
+    const mEUR = (n: number) => `${(n / 1_000_000).toFixed(2)} MEUR`;
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(C.bodyText);
+    doc.text(
+      `Savings ${mEUR(a.totalSavingsEUR)} (NPV ${mEUR(a.npvSavingsEUR)}), payback ` +
+        (a.paybackYear === null ? "not reached" : String(a.paybackYear)),
+      M,
+      y + 6
+    );
+    y += 16;
+
+    finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [["Year", "Trucks M / A", "Manual", "Autonomous", "Savings", "Cumulative"]],
+      body: a.years.map((r) => [
+        String(r.year),
+        `${r.manualTrucks} / ${r.autonomousTrucks}`,
+        mEUR(r.manualCostEUR),
+        mEUR(r.autonomousCostEUR),
+        mEUR(r.savingsEUR),
+        mEUR(r.cumulativeSavingsEUR),
+      ]),
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 7,
+        cellPadding: 4,
+        halign: "right",
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      columnStyles: { 0: { halign: "left" } },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
+  // ─── SECTION 2e: EMISSIONS (conditional) ──────────────────────
+  if (payload.emissions && payload.costBreakdown && payload.costBreakdown.rows.length > 0) {
+    const e = payload.emissions;
+    const cost = payload.costBreakdown;
+    if (y > H - (140 + cost.rows.length * 16)) {
+      doc.addPage();
+      y = M;
+    }
+
+    sectionHeading("EMISSIONS");
+
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    doc.text(
+      `Factors: diesel ${e.dieselKgCO2ePerLitre} kg CO2e/L, ` +
+        `electricity ${e.electricityKgCO2ePerKWh} kg CO2e/kWh; consumption ` +
+        (e.energyModel ? "from the energy model" : `${e.fuelLitresPerKm} L/km`) +
+        `. Carbon cost is included in OPEX and totals.`,
+      M,
+      y + 4
+    );
+    y += 11;
+    const intensity =
+      e.tonnesMoved > 0 ? (cost.periodTotals.co2eTonnes * 1000) / e.tonnesMoved : 0;
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(C.bodyText);
+    doc.text(
+      `${Math.round(cost.periodTotals.co2eTonnes).toLocaleString("en-US")} t CO2e over the plan, ` +
+        `${intensity.toFixed(3)} kg CO2e per tonne moved, carbon cost ` +
+        `${Math.round(cost.periodTotals.opexCarbonEUR).toLocaleString("en-US")} EUR`,
+      M,
+      y + 6
+    );
+    y += 16;
+
+    finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [["Year", "CO2e (t)", "kg CO2e / t moved", "Carbon Price (EUR/t)", "Carbon Cost (EUR)"]],
+      body: cost.rows.map((r) => [
+        String(r.year),
+        r.co2eTonnes.toLocaleString("en-US", { maximumFractionDigits: 1 }),
+        r.co2eKgPerTonneMoved.toFixed(3),
+        r.carbonPriceEURPerTonne.toFixed(1),
+        Math.round(r.opexCarbonEUR).toLocaleString("en-US"),
+      ]),
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 7,
+        cellPadding: 4,
+        halign: "right",
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      columnStyles: { 0: { halign: "left" } },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
+  // ─── SECTION 2f: BREAK-EVEN (conditional) ─────────────────────
+  if (payload.breakEven && payload.breakEven.result.years.length > 0) {
+    const { current, result } = payload.breakEven;
+    if (y > H - (140 + result.years.length * 16)) {
+      doc.addPage();
+      y = M;
+    }
+
+    sectionHeading("BREAK-EVEN VS. CURRENT HAULAGE");
+
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    doc.text(
+      "Current haulage: " +
+        (current.basis === "perTonne"
+          ? `${current.costPerTonneEUR.toFixed(2)} EUR/t`
+          : `${Math.round(current.fixedEURPerYear).toLocaleString("en-US")} EUR/yr fixed + ` +
+            `${current.variableEURPerTonne.toFixed(2)} EUR/t`) +
+        (current.escalationPercent !== 0
+          ? `, escalating ${current.escalationPercent}% per year`
+          : ""),
+      M,
+      y + 4
+    );
+    y += 11;
+    const mEUR = (n: number) => `${(n / 1_000_000).toFixed(2)} MEUR`;
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(C.bodyText);
+    doc.text(
+      `Savings ${mEUR(result.totalSavingsEUR)}, IRR ` +
+        (result.irrPercent === null ? "n/a" : `${result.irrPercent.toFixed(1)}%`) +
+        ", payback " +
+        (result.paybackYear === null ? "not reached" : String(result.paybackYear)),
+      M,
+      y + 6
+    );
+    y += 16;
+
+    finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [["Year", "Current", "Ours", "Savings", "Cumulative"]],
+      body: result.years.map((r) => [
+        String(r.year),
+        mEUR(r.currentCostEUR),
+        mEUR(r.ourCostEUR),
+        mEUR(r.savingsEUR),
+        mEUR(r.cumulativeSavingsEUR),
+      ]),
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 7,
+        cellPadding: 4,
+        halign: "right",
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      columnStyles: { 0: { halign: "left" } },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
   // ─── SECTION 3: NOTES (conditional) ───────────────────────────
   if (payload.notes) {
     if (y > H - 100) {
@@ -316,3 +1264,453 @@ export function generateFleetPdf(payload: PDFExportPayload): Blob {
 
   return doc.output("blob");
 }
+
+export interface QuotePdfPayload {
+  quote: CustomerQuote; // prices only – cost and margin never reach this report
+  scenarioName?: string;
+  notes?: string;
+  generatedDate: string; // ISO string
+}
+
+/** Customer-facing quote: yearly price schedule and payment milestones. */
+export function generateQuotePdf(payload: QuotePdfPayload): Blob {
+  const { quote } = payload;
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "a4" });
+
+  const W = doc.internal.pageSize.getWidth();
+  const H = doc.internal.pageSize.getHeight();
+  const M = 50;
+  const UW = W - M * 2;
+  const n = (v: number) => Math.round(v).toLocaleString("en-US");
+
+  let y = 90;
+
+  // ─── HEADER BAND ──────────────────────────────────────────────
+  doc.setFillColor(C.headerBg);
+  doc.rect(0, 0, W, 72, "F");
+
+  doc.setTextColor("#FFFFFF");
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text("Customer Quote", M, 28);
+
+  let subtitleY = 44;
+  if (payload.scenarioName) {
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "italic");
+    doc.setTextColor(C.headerMeta);
+    doc.text(payload.scenarioName, M, subtitleY);
+    subtitleY += 16;
+  }
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(C.headerMeta);
+  doc.text(
+    `Date: ${formatDate(payload.generatedDate)} · Prices in ${quote.currency}`,
+    W - M,
+    subtitleY,
+    { align: "right" }
+  );
+
+  function sectionHeading(title: string) {
+    doc.setTextColor(C.sectionTitle);
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, M, y);
+    y += 6;
+    doc.setDrawColor(C.border);
+    doc.setLineWidth(0.5);
+    doc.line(M, y, W - M, y);
+    y += 6;
+  }
+
+  function table(head: string[], body: string[][]) {
+    let finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [head],
+      body,
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 7,
+        cellPadding: 4,
+        halign: "right",
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      columnStyles: { 0: { halign: "left" } },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
+  // ─── PRICE SCHEDULE ───────────────────────────────────────────
+  sectionHeading(`PRICE SCHEDULE (${quote.currency})`);
+  const t = quote.totals;
+  table(
+    [
+      "Year",
+      "Trucks in Fleet",
+      ...PRICE_CATEGORIES.map((c) => PRICE_CATEGORY_LABELS[c]),
+      "Volume Discount",
+      "Price",
+      "Invoiced",
+    ],
+    [
+      ...quote.rows.map((r) => [
+        String(r.year),
+        String(r.fleetSize),
+        ...PRICE_CATEGORIES.map((c) => n(r.lines[c])),
+        r.discount > 0 ? `-${n(r.discount)}` : "0",
+        n(r.price),
+        n(r.invoiced),
+      ]),
+      [
+        "Total",
+        "",
+        ...PRICE_CATEGORIES.map((c) => n(t.lines[c])),
+        t.discount > 0 ? `-${n(t.discount)}` : "0",
+        n(t.price),
+        n(t.price),
+      ],
+    ]
+  );
+
+  if (quote.volumeDiscountPercent > 0) {
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    doc.text(`Includes a ${quote.volumeDiscountPercent}% volume discount.`, M, y - 6);
+    y += 8;
+  }
+
+  // ─── PAYMENT MILESTONES ───────────────────────────────────────
+  if (quote.milestones.length > 0) {
+    if (y > H - 110) {
+      doc.addPage();
+      y = M;
+    }
+    sectionHeading("PAYMENT MILESTONES (TRUCKS AND DEPLOYMENT)");
+    table(
+      ["Milestone", "Share", "Year", `Amount (${quote.currency})`],
+      quote.milestones.map((m) => [m.name, `${m.percent}%`, String(m.year), n(m.amount)])
+    );
+  }
+
+  // ─── NOTES ────────────────────────────────────────────────────
+  if (payload.notes) {
+    if (y > H - 100) {
+      doc.addPage();
+      y = M;
+    }
+    sectionHeading("NOTES");
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.notesText);
+    for (const line of doc.splitTextToSize(payload.notes, UW)) {
+      if (y > H - 40) {
+        doc.addPage();
+        y = M;
+      }
+      doc.text(line, M, y);
+      y += 12;
+    }
+  }
+
+  const totalPages = doc.getNumberOfPages();
+  for (let p = 1; p <= totalPages; p++) {
+    doc.setPage(p);
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.footerText);
+    doc.text("Customer Quote", M, H - 20);
+    doc.text(`Page ${p} of ${totalPages}`, W - M, H - 20, {
+      align: "right",
+    });
+  }
+
+  return doc.output("blob");
+}
+
+export interface ComparisonPdfPayload {
+  comparison: ScenarioComparison;
+  generatedDate: string; // ISO string
+}
+
+// Scenario colours on white paper, baseline first
+const COMPARISON_PDF_COLOURS = [C.accentBlue, "#F0883E", "#2DA44E", "#8957E5"];
+
+/** Two to four scenarios side by side, deltas against the first. */
+export function generateComparisonPdf(payload: ComparisonPdfPayload): Blob {
+  const { comparison } = payload;
+  const names = comparison.scenarios.map((c) => c.scenario.name);
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "a4" });
+
+  const W = doc.internal.pageSize.getWidth();
+  const H = doc.internal.pageSize.getHeight();
+  const M = 50;
+  const UW = W - M * 2;
+  const mEUR = (v: number) => (v / 1_000_000).toFixed(2);
+  const sign = (v: number) => (v >= 0 ? "+" : "-");
+
+  // "value" on the first line, "+Δ (+Δ%)" below it
+  const cell = (v: ComparedValue | null, format: (n: number) => string) => {
+    if (!v) return "-";
+    if (v.delta === null) return format(v.value);
+    const pct =
+      v.deltaPercent === null
+        ? ""
+        : ` (${sign(v.deltaPercent)}${Math.abs(v.deltaPercent).toFixed(1)}%)`;
+    return `${format(v.value)}\n${sign(v.delta)}${format(Math.abs(v.delta))}${pct}`;
+  };
+
+  let y = 90;
+
+  // ─── HEADER BAND ──────────────────────────────────────────────
+  doc.setFillColor(C.headerBg);
+  doc.rect(0, 0, W, 72, "F");
+
+  doc.setTextColor("#FFFFFF");
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text("Scenario Comparison", M, 28);
+
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "italic");
+  doc.setTextColor(C.headerMeta);
+  doc.text(names.join("  vs  "), M, 44);
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `Date: ${formatDate(payload.generatedDate)} · Baseline: ${names[0]}`,
+    W - M,
+    60,
+    { align: "right" }
+  );
+
+  function sectionHeading(title: string) {
+    doc.setTextColor(C.sectionTitle);
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.text(title, M, y);
+    y += 6;
+    doc.setDrawColor(C.border);
+    doc.setLineWidth(0.5);
+    doc.line(M, y, W - M, y);
+    y += 6;
+  }
+
+  function table(head: string[], body: string[][]) {
+    let finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [head],
+      body,
+      margin: { left: M, right: M },
+      tableWidth: UW,
+      headStyles: {
+        fillColor: hexToRgb(C.tableHeadBg),
+        textColor: hexToRgb(C.tableHeadText),
+        fontStyle: "bold",
+        fontSize: 7,
+        cellPadding: 4,
+        halign: "right",
+      },
+      bodyStyles: {
+        textColor: hexToRgb(C.bodyText),
+        fontSize: 8,
+        cellPadding: 4,
+        halign: "right",
+      },
+      columnStyles: { 0: { halign: "left", fontStyle: "bold" } },
+      alternateRowStyles: { fillColor: hexToRgb(C.rowAltBg) },
+      styles: {
+        lineColor: hexToRgb(C.border),
+        lineWidth: 0.5,
+      },
+      didDrawPage: (data) => {
+        finalY = data.table.finalY ?? finalY;
+      },
+    });
+    y = finalY + 16;
+  }
+
+  function ensureSpace(height: number) {
+    if (y > H - height) {
+      doc.addPage();
+      y = M;
+    }
+  }
+
+  // Yearly values overlaid as lines, one colour per scenario
+  function lineChart(
+    x0: number,
+    width: number,
+    title: string,
+    values: (i: number) => Array<number | null>,
+    format: (n: number) => string
+  ) {
+    const height = 140;
+    const left = 40;
+    const years = comparison.years.map((r) => r.year);
+    const series = names.map((_, i) => values(i));
+    const maxValue = Math.max(
+      1e-9,
+      ...series.flatMap((s) => s.filter((v): v is number => v !== null))
+    );
+    const span = Math.max(1, years[years.length - 1] - years[0]);
+    const px = (year: number) => x0 + left + ((year - years[0]) / span) * (width - left - 8);
+    const py = (v: number) => y + 14 + (1 - v / maxValue) * (height - 30);
+
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(C.bodyText);
+    doc.text(title, x0, y + 6);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    doc.setTextColor(C.footerText);
+    doc.setDrawColor(C.border);
+    doc.setLineWidth(0.5);
+    for (const f of [0, 0.5, 1]) {
+      doc.line(x0 + left, py(maxValue * f), x0 + width - 8, py(maxValue * f));
+      doc.text(format(maxValue * f), x0 + left - 4, py(maxValue * f) + 2, { align: "right" });
+    }
+    for (const year of years) {
+      doc.text(String(year), px(year), y + height, { align: "center" });
+    }
+
+    doc.setLineWidth(1.5);
+    series.forEach((s, i) => {
+      doc.setDrawColor(COMPARISON_PDF_COLOURS[i]);
+      doc.setFillColor(COMPARISON_PDF_COLOURS[i]);
+      s.forEach((v, j) => {
+        if (v === null) return;
+        const prev = j > 0 ? s[j - 1] : null;
+        if (prev !== null) doc.line(px(years[j - 1]), py(prev), px(years[j]), py(v));
+        doc.circle(px(years[j]), py(v), 1.5, "F");
+      });
+    });
+    doc.setLineWidth(0.5);
+    return height;
+  }
+
+  // ─── FAILED EVALUATIONS ───────────────────────────────────────
+  const failed = comparison.scenarios.filter((c) => c.error);
+  if (failed.length > 0) {
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor("#B42318");
+    for (const c of failed) {
+      doc.text(`${c.scenario.name} could not be evaluated: ${c.error}`, M, y);
+      y += 12;
+    }
+    y += 6;
+  }
+
+  // ─── SUMMARY ──────────────────────────────────────────────────
+  sectionHeading("SUMMARY (DELTAS AGAINST THE BASELINE)");
+  table(
+    ["Metric", ...names],
+    comparison.totals.map((t) => [
+      t.unit === "EUR" ? `${t.label} (MEUR)` : `${t.label} (${t.unit})`,
+      ...t.values.map((v) =>
+        cell(v, t.unit === "EUR" ? mEUR : (n) => n.toFixed(t.unit === "trucks" ? 0 : 2))
+      ),
+    ])
+  );
+
+  // ─── INPUTS ───────────────────────────────────────────────────
+  ensureSpace(120);
+  sectionHeading("INPUTS (* DIFFERS FROM THE BASELINE)");
+  table(
+    ["Input", ...names],
+    comparison.inputs.map((row) => [
+      row.label,
+      ...row.values.map((v, i) => (i > 0 && v !== row.values[0] ? `* ${v}` : v)),
+    ])
+  );
+
+  // ─── CHARTS ───────────────────────────────────────────────────
+  if (comparison.years.length > 0) {
+    ensureSpace(200);
+    sectionHeading("PER YEAR");
+    const half = (UW - 20) / 2;
+    lineChart(
+      M,
+      half,
+      "Trucks required",
+      (i) => comparison.years.map((r) => r.trucks[i]?.value ?? null),
+      (n) => n.toFixed(0)
+    );
+    const height = lineChart(
+      M + half + 20,
+      half,
+      "Total cost (MEUR)",
+      (i) => comparison.years.map((r) => r.totalCostEUR[i]?.value ?? null),
+      (n) => (n / 1_000_000).toFixed(1)
+    );
+    y += height + 8;
+
+    doc.setFontSize(7);
+    let legendX = M;
+    names.forEach((name, i) => {
+      doc.setFillColor(COMPARISON_PDF_COLOURS[i]);
+      doc.rect(legendX, y - 6, 8, 6, "F");
+      doc.setTextColor(C.bodyText);
+      doc.text(name, legendX + 12, y);
+      legendX += 24 + doc.getTextWidth(name);
+    });
+    y += 18;
+  }
+
+  // ─── YEARLY TABLES ────────────────────────────────────────────
+  const yearly: Array<{
+    title: string;
+    key: "trucks" | "capexEUR" | "totalCostEUR";
+    format: (n: number) => string;
+  }> = [
+    { title: "TRUCKS REQUIRED", key: "trucks", format: (n) => n.toFixed(0) },
+    { title: "CAPEX (MEUR)", key: "capexEUR", format: mEUR },
+    { title: "TOTAL COST (MEUR)", key: "totalCostEUR", format: mEUR },
+  ];
+  for (const { title, key, format } of yearly) {
+    ensureSpace(110);
+    sectionHeading(title);
+    table(
+      ["Year", ...names],
+      comparison.years.map((r) => [String(r.year), ...r[key].map((v) => cell(v, format))])
+    );
+  }
+
+  const totalPages = doc.getNumberOfPages();
+  for (let p = 1; p <= totalPages; p++) {
+    doc.setPage(p);
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(C.footerText);
+    doc.text("Scenario Comparison", M, H - 20);
+    doc.text(`Page ${p} of ${totalPages}`, W - M, H - 20, {
+      align: "right",
+    });
+  }
+
+  return doc.output("blob");
+}
@@ -1,60 +1,48 @@
 /**
  * Scenario Repository - localStorage persistence for calculator scenarios
+ *
+ * The calculator now saves to the server (see scenarios/apiRepository);
+ * this store only holds scenarios saved in a browser before that, until
+ * moveTo hands them over.
  */
-import type { CostModelInput } from "@/lib/cost/calcCost";
+import type { ScenarioRepository } from "@/lib/scenarios/repository";
+import {
+  parseScenarioList,
+  type Scenario,
+  type ScenarioListResult,
+} from "@/lib/scenarios/schema";
 
-export interface ProductionPlanRow {
-  year: number;
-  tonnesPerYear: number;
-}
-
-export interface CalculatorScenario {
-  id: string;
-  name: string;
-  createdAt: string;
-
-  // Haul cycle inputs
-  distanceLoaded: number;
-  distanceUnloaded: number;
-  speedLoaded: number;
-  speedUnloaded: number;
-  loadingTime: number;
-  unloadingTime: number;
-
-  // Truck input
-  payloadTonnes: number;
-
-  // Operational factors (stored as 0..1)
-  availability: number;
-  efficiency: number;
-  utilization: number;
-
-  // Production plan
-  productionPlan: ProductionPlanRow[];
-
-  // Cost model (optional – absent in scenarios saved before this feature)
-  costModel?: CostModelInput;
+const STORAGE_KEY = 'calculator-scenarios';
 
-  // Computed results (stored for display)
-  cycleTimeSeconds: number;
-  tonnesPerHour: number;
-  tonnesPerTruckYear: number;
-  effectiveFactor: number;
+// Stored entries through the schema: old versions upgraded, damage repaired
+function readStored(): ScenarioListResult {
+  const data = localStorage.getItem(STORAGE_KEY);
+  if (!data) return { scenarios: [], repaired: [], rejected: [] };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    raw = data; // rejected below as not a list
+  }
+  const result = parseScenarioList(raw);
+  for (const { id, repairs } of result.repaired) {
+    console.warn(`Scenario ${id}: ${repairs.join(', ')}`);
+  }
+  for (const { error } of result.rejected) {
+    console.warn(`Skipped unreadable scenario: ${error}`);
+  }
+  return result;
 }
 
-const STORAGE_KEY = 'calculator-scenarios';
-
 export const scenarioRepository = {
   /**
    * Get all scenarios from localStorage
    */
-  getAll(): CalculatorScenario[] {
+  getAll(): Scenario[] {
     if (typeof window === 'undefined') return [];
 
     try {
-      const data = localStorage.getItem(STORAGE_KEY);
-      if (!data) return [];
-      return JSON.parse(data) as CalculatorScenario[];
+      return readStored().scenarios;
     } catch (error) {
       console.error('Failed to load scenarios:', error);
       return [];
@@ -64,8 +52,8 @@ export const scenarioRepository = {
   /**
    * Save a new scenario
    */
-  save(scenario: Omit<CalculatorScenario, 'id' | 'createdAt'>): CalculatorScenario {
-    const newScenario: CalculatorScenario = {
+  save(scenario: Omit<Scenario, 'id' | 'createdAt'>): Scenario {
+    const newScenario: Scenario = {
       ...scenario,
       id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
@@ -100,7 +88,27 @@ export const scenarioRepository = {
   /**
    * Get a single scenario by ID
    */
-  getById(id: string): CalculatorScenario | undefined {
+  getById(id: string): Scenario | undefined {
     return this.getAll().find(s => s.id === id);
   },
+
+  /**
+   * Move every readable scenario into another repository. Unreadable entries
+   * stay in localStorage so nothing is lost.
+   */
+  async moveTo(target: ScenarioRepository): Promise<number> {
+    if (typeof window === 'undefined') return 0;
+
+    const { scenarios, rejected } = readStored();
+    if (scenarios.length === 0) return 0;
+    for (const scenario of scenarios) {
+      await target.save(scenario);
+    }
+    if (rejected.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(rejected.map(r => r.entry)));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    return scenarios.length;
+  },
 };
@@ -0,0 +1,69 @@
+import type { Scenario } from "@/lib/scenarios/schema";
+import type { ScenarioRepository } from "./repository";
+import type { ScenarioRevision } from "./revisions";
+
+const BASE = "/api/scenarios";
+
+async function request<T>(url: string, init?: RequestInit): Promise<T | null> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (res.status === 404) return null;
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(body?.message ?? `Request failed (${res.status})`);
+  }
+  return body as T;
+}
+
+/** Browser client for the /api/scenarios routes */
+export class ApiScenarioRepository implements ScenarioRepository {
+  // A 409 (someone else saved first) rejects with the server's message
+  async save(scenario: Scenario): Promise<Scenario> {
+    const body = await request<{ scenario: Scenario }>(
+      `${BASE}/${encodeURIComponent(scenario.id)}`,
+      { method: "PUT", body: JSON.stringify(scenario) }
+    );
+    return body!.scenario;
+  }
+
+  async list(): Promise<Scenario[]> {
+    const body = await request<{ scenarios: Scenario[] }>(BASE);
+    return body?.scenarios ?? [];
+  }
+
+  async get(id: string): Promise<Scenario | null> {
+    const body = await request<{ scenario: Scenario }>(
+      `${BASE}/${encodeURIComponent(id)}`
+    );
+    return body?.scenario ?? null;
+  }
+
+  async remove(id: string): Promise<void> {
+    await request(`${BASE}/${encodeURIComponent(id)}`, { method: "DELETE" });
+  }
+
+  async revisions(id: string): Promise<ScenarioRevision[]> {
+    const body = await request<{ revisions: ScenarioRevision[] }>(
+      `${BASE}/${encodeURIComponent(id)}/revisions`
+    );
+    return body?.revisions ?? [];
+  }
+
+  async restore(id: string, revision: number): Promise<Scenario | null> {
+    const body = await request<{ scenario: Scenario }>(
+      `${BASE}/${encodeURIComponent(id)}/restore`,
+      { method: "POST", body: JSON.stringify({ revision }) }
+    );
+    return body?.scenario ?? null;
+  }
+
+  async branch(id: string, revision: number, name?: string): Promise<Scenario | null> {
+    const body = await request<{ scenario: Scenario }>(
+      `${BASE}/${encodeURIComponent(id)}/branch`,
+      { method: "POST", body: JSON.stringify({ revision, name }) }
+    );
+    return body?.scenario ?? null;
+  }
+}
@@ -0,0 +1,212 @@
+import { DRIVETRAIN_LABELS, TRUCK_MODELS } from "@/core";
+import { FINANCING_MODE_LABELS } from "@/lib/cost/calcCost";
+import { evaluateModel, type ModelEvaluation, type ModelInputs } from "@/lib/analysis/model";
+import type { Scenario } from "./schema";
+
+/**
+ * Side-by-side comparison of two to four saved scenarios.
+ *
+ * Each scenario is evaluated again from its saved inputs through the
+ * calculator's model (evaluateModel). The first scenario is the baseline and
+ * every delta is against it:
+ *   Δ  = value − baseline
+ *   Δ% = Δ / |baseline| × 100    (null when the baseline is 0)
+ * A scenario that no longer evaluates is listed with its error and no values.
+ */
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ComparedValue {
+  value: number;
+  delta: number | null; // null for the baseline, or when it has no value
+  deltaPercent: number | null;
+}
+
+export interface ComparedScenario {
+  scenario: Scenario;
+  evaluation: ModelEvaluation | null;
+  error: string | null;
+}
+
+export interface InputDiffRow {
+  label: string;
+  values: string[];
+  differs: boolean;
+}
+
+export interface ComparedYear {
+  year: number;
+  trucks: Array<ComparedValue | null>; // null when the scenario has no such year
+  capexEUR: Array<ComparedValue | null>;
+  totalCostEUR: Array<ComparedValue | null>;
+}
+
+export interface ComparedTotal {
+  label: string;
+  unit: string;
+  values: Array<ComparedValue | null>;
+}
+
+export interface ScenarioComparison {
+  scenarios: ComparedScenario[];
+  inputs: InputDiffRow[];
+  years: ComparedYear[];
+  totals: ComparedTotal[];
+}
+
+// ── Inputs ─────────────────────────────────────────────────────────────────
+
+/** A saved scenario as model inputs (form units: km, percent) */
+export function scenarioModelInputs(scenario: Scenario): ModelInputs {
+  return {
+    haulCycle: {
+      distanceLoadedKm: scenario.distanceLoaded / 1000,
+      distanceUnloadedKm: scenario.distanceUnloaded / 1000,
+      speedLoaded: scenario.speedLoaded,
+      speedUnloaded: scenario.speedUnloaded,
+      loadingTime: scenario.loadingTime,
+      unloadingTime: scenario.unloadingTime,
+    },
+    route: scenario.route,
+    truckModelId: scenario.truckModelId,
+    loader: scenario.loader,
+    energy: scenario.energy,
+    payloadTonnes: scenario.payloadTonnes,
+    availabilityPercent: scenario.availability * 100,
+    efficiencyPercent: scenario.efficiency * 100,
+    utilizationPercent: scenario.utilization * 100,
+    productionPlan: scenario.productionPlan,
+    costModel: scenario.costModel,
+  };
+}
+
+const num = (n: number, digits = 0) =>
+  n.toLocaleString("en-US", { maximumFractionDigits: digits });
+const pct = (fraction: number) => `${num(fraction * 100, 1)}%`;
+
+// Inputs as the calculator form shows them
+const INPUT_ROWS: Array<{ label: string; format: (s: Scenario) => string }> = [
+  {
+    label: "Haul",
+    format: (s) =>
+      s.route
+        ? `Route, ${s.route.length} segments, ${num(s.route.reduce((m, r) => m + r.length, 0))} m`
+        : `${num(s.distanceLoaded)} m loaded / ${num(s.distanceUnloaded)} m empty`,
+  },
+  {
+    label: "Speeds",
+    format: (s) =>
+      s.truckModelId
+        ? (TRUCK_MODELS.find((m) => m.id === s.truckModelId)?.name ?? s.truckModelId)
+        : `${num(s.speedLoaded)} / ${num(s.speedUnloaded)} km/h`,
+  },
+  {
+    label: "Loading",
+    format: (s) =>
+      s.loader?.enabled
+        ? `${s.loader.loaders} loader(s), ${num(s.loader.bucketSize, 1)} m³ bucket`
+        : `${num(s.loadingTime)} s`,
+  },
+  { label: "Unloading", format: (s) => `${num(s.unloadingTime)} s` },
+  { label: "Payload", format: (s) => `${num(s.payloadTonnes, 1)} t` },
+  { label: "Availability", format: (s) => pct(s.availability) },
+  { label: "Efficiency", format: (s) => pct(s.efficiency) },
+  { label: "Utilization", format: (s) => pct(s.utilization) },
+  {
+    label: "Drivetrain",
+    format: (s) => (s.energy?.enabled ? DRIVETRAIN_LABELS[s.energy.drivetrain] : "Flat fuel rate"),
+  },
+  {
+    label: "Production plan",
+    format: (s) => {
+      const years = s.productionPlan.map((p) => p.year);
+      const total = s.productionPlan.reduce((m, p) => m + p.tonnesPerYear, 0);
+      return `${Math.min(...years)}–${Math.max(...years)}, ${num(total / 1_000_000, 2)} Mt`;
+    },
+  },
+  { label: "Truck price", format: (s) => `${num(s.costModel.truckPriceEUR)} EUR` },
+  {
+    label: "Truck licence",
+    format: (s) => `${num(s.costModel.truckLicenseEURPerYear)} EUR/yr`,
+  },
+  { label: "FMS", format: (s) => (s.costModel.includeFMS ? "Included" : "Not included") },
+  { label: "Service", format: (s) => `${num(s.costModel.serviceSEKPerKm, 2)} SEK/km` },
+  { label: "Fuel", format: (s) => `${num(s.costModel.fuelSEKPerKm, 2)} SEK/km` },
+  { label: "SEK per EUR", format: (s) => num(s.costModel.fxSEKPerEUR, 2) },
+  {
+    label: "Financing",
+    format: (s) => FINANCING_MODE_LABELS[s.costModel.financingMode ?? "purchase"],
+  },
+];
+
+// ── Comparison ─────────────────────────────────────────────────────────────
+
+function compared(values: Array<number | null>): Array<ComparedValue | null> {
+  const base = values[0];
+  return values.map((value, i) => {
+    if (value === null) return null;
+    if (i === 0 || base === null) return { value, delta: null, deltaPercent: null };
+    const delta = value - base;
+    return { value, delta, deltaPercent: base === 0 ? null : (delta / Math.abs(base)) * 100 };
+  });
+}
+
+export function compareScenarios(scenarios: Scenario[]): ScenarioComparison {
+  if (scenarios.length < MIN_COMPARED || scenarios.length > MAX_COMPARED) {
+    throw new Error(`Compare ${MIN_COMPARED} to ${MAX_COMPARED} scenarios`);
+  }
+
+  const evaluated: ComparedScenario[] = scenarios.map((scenario) => {
+    try {
+      return { scenario, evaluation: evaluateModel(scenarioModelInputs(scenario)), error: null };
+    } catch (e) {
+      return { scenario, evaluation: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+
+  const inputs = INPUT_ROWS.map(({ label, format }) => {
+    const values = scenarios.map(format);
+    return { label, values, differs: values.some((v) => v !== values[0]) };
+  });
+
+  const allYears = [
+    ...new Set(evaluated.flatMap((c) => c.evaluation?.costs.rows.map((r) => r.year) ?? [])),
+  ].sort((a, b) => a - b);
+  const years = allYears.map((year) => {
+    const rows = evaluated.map((c) => c.evaluation?.costs.rows.find((r) => r.year === year));
+    return {
+      year,
+      trucks: compared(rows.map((r) => r?.fleetSize ?? null)),
+      capexEUR: compared(rows.map((r) => r?.capexTotalEUR ?? null)),
+      totalCostEUR: compared(rows.map((r) => r?.totalCostEUR ?? null)),
+    };
+  });
+
+  const total = (get: (e: ModelEvaluation) => number) =>
+    compared(evaluated.map((c) => (c.evaluation ? get(c.evaluation) : null)));
+  const tonnes = (e: ModelEvaluation) =>
+    e.fleet.yearlyFleet.reduce((sum, y) => sum + y.tonnesPerYear, 0);
+  const totals: ComparedTotal[] = [
+    {
+      label: "Peak fleet",
+      unit: "trucks",
+      values: total((e) => Math.max(0, ...e.costs.rows.map((r) => r.fleetSize))),
+    },
+    { label: "Cycle time", unit: "min", values: total((e) => e.fleet.cycleTimeMinutes) },
+    { label: "CAPEX", unit: "EUR", values: total((e) => e.costs.periodTotals.capexTotalEUR) },
+    { label: "Total cost", unit: "EUR", values: total((e) => e.costs.periodTotals.totalCostEUR) },
+    {
+      label: "Cost per tonne",
+      unit: "EUR/t",
+      values: total((e) =>
+        tonnes(e) > 0 ? e.costs.periodTotals.totalCostEUR / tonnes(e) : 0
+      ),
+    },
+    { label: "NPV of cost", unit: "EUR", values: total((e) => e.costs.periodTotals.npvEUR) },
+  ];
+
+  return { scenarios: evaluated, inputs, years, totals };
+}
@@ -0,0 +1,198 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ScenarioRepository } from "./repository";
+import {
+  branchRevision,
+  commitRevision,
+  restoreRevision,
+  type ScenarioRevision,
+} from "./revisions";
+import { parseScenario, parseScenarioList, type Scenario } from "./schema";
+
+// Server-side store: one JSON file, no external service needed
+export const DEFAULT_STORE_PATH = path.join(process.cwd(), ".data", "scenarios.json");
+
+/** Revisions sit next to the store: scenarios.json → scenarios.revisions.json */
+export function revisionsPath(filePath: string): string {
+  return `${filePath.replace(/\.json$/, "")}.revisions.json`;
+}
+
+interface StoreContents {
+  scenarios: Scenario[];
+  rejected: unknown[];
+  revisions: unknown[]; // append-only, written back as read
+}
+
+export class FileScenarioRepository implements ScenarioRepository {
+  // Writes run one at a time so concurrent requests don't drop each other's changes
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly revisionsFile: string;
+
+  constructor(private readonly filePath: string = DEFAULT_STORE_PATH) {
+    this.revisionsFile = revisionsPath(filePath);
+  }
+
+  private async readJson(file: string): Promise<unknown[]> {
+    let raw: string;
+    try {
+      raw = await readFile(file, "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
+    const data: unknown = JSON.parse(raw);
+    if (!Array.isArray(data)) {
+      throw new Error(`Scenario store ${file} is not a list`);
+    }
+    return data;
+  }
+
+  // Entries are upgraded and repaired through the schema; unreadable ones
+  // are kept aside and written back untouched, so a bad entry is never lost
+  private async readAll(): Promise<StoreContents> {
+    const data = await this.readJson(this.filePath);
+    const { scenarios, repaired, rejected } = parseScenarioList(data);
+    for (const { id, repairs } of repaired) {
+      console.warn(`Scenario ${id}: ${repairs.join(", ")}`);
+    }
+    for (const { error } of rejected) {
+      console.warn(`Skipped unreadable scenario in ${this.filePath}: ${error}`);
+    }
+    return {
+      scenarios,
+      rejected: rejected.map((r) => r.entry),
+      revisions: await this.readJson(this.revisionsFile),
+    };
+  }
+
+  // Write to a temp file and rename, so a crash never leaves half a file
+  private async writeJson(file: string, list: unknown[]): Promise<void> {
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(list, null, 2), "utf8");
+    await rename(tmp, file);
+  }
+
+  private update<R>(change: (store: StoreContents) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      const store = await this.readAll();
+      const revisionCount = store.revisions.length;
+      const result = change(store);
+      // Revisions first: a crash in between leaves a revision ahead of its
+      // scenario, never a scenario without its revision
+      if (store.revisions.length !== revisionCount) {
+        await this.writeJson(this.revisionsFile, store.revisions);
+      }
+      await this.writeJson(this.filePath, [...store.scenarios, ...store.rejected]);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Snapshots are upgraded through the schema like the scenarios themselves
+  private static revisionsOf(raw: unknown[], id: string): ScenarioRevision[] {
+    return raw.flatMap((entry) => {
+      const revision = entry as ScenarioRevision;
+      if (revision?.scenarioId !== id) return [];
+      const parsed = parseScenario(revision.snapshot);
+      return parsed.ok ? [{ ...revision, snapshot: parsed.scenario }] : [];
+    });
+  }
+
+  /** Create or update in place; `by` is the display name recorded on the revision */
+  async save(incoming: Scenario, by: string | null = null): Promise<Scenario> {
+    return this.update(({ scenarios, revisions }) => {
+      const idx = scenarios.findIndex((s) => s.id === incoming.id);
+      const { scenario, revision } = commitRevision(
+        idx >= 0 ? scenarios[idx] : null,
+        incoming,
+        { by, at: new Date().toISOString() }
+      );
+      if (!revision) return scenario;
+      if (idx >= 0) {
+        scenarios[idx] = scenario;
+      } else {
+        scenarios.push(scenario);
+      }
+      revisions.push(revision);
+      return scenario;
+    });
+  }
+
+  async list(): Promise<Scenario[]> {
+    await this.queue;
+    return (await this.readAll()).scenarios;
+  }
+
+  async get(id: string): Promise<Scenario | null> {
+    const list = await this.list();
+    return list.find((s) => s.id === id) ?? null;
+  }
+
+  // The scenario's revisions go with it
+  async remove(id: string): Promise<void> {
+    await this.update((store) => {
+      const idx = store.scenarios.findIndex((s) => s.id === id);
+      if (idx >= 0) store.scenarios.splice(idx, 1);
+      const kept = store.revisions.filter(
+        (r) => (r as ScenarioRevision)?.scenarioId !== id
+      );
+      store.revisions = kept;
+    });
+  }
+
+  async revisions(id: string): Promise<ScenarioRevision[]> {
+    await this.queue;
+    return FileScenarioRepository.revisionsOf(await this.readJson(this.revisionsFile), id);
+  }
+
+  async restore(id: string, revision: number, by: string | null = null): Promise<Scenario | null> {
+    return this.update(({ scenarios, revisions }) => {
+      const idx = scenarios.findIndex((s) => s.id === id);
+      const from = FileScenarioRepository.revisionsOf(revisions, id).find(
+        (r) => r.revision === revision
+      );
+      if (idx < 0 || !from) return null;
+      const restored = restoreRevision(scenarios[idx], from, {
+        by,
+        at: new Date().toISOString(),
+      });
+      if (restored.revision) {
+        scenarios[idx] = restored.scenario;
+        revisions.push(restored.revision);
+      }
+      return restored.scenario;
+    });
+  }
+
+  async branch(
+    id: string,
+    revision: number,
+    name?: string,
+    by: string | null = null
+  ): Promise<Scenario | null> {
+    return this.update(({ scenarios, revisions }) => {
+      const from = FileScenarioRepository.revisionsOf(revisions, id).find(
+        (r) => r.revision === revision
+      );
+      if (!from) return null;
+      const branched = branchRevision(
+        from,
+        { id: crypto.randomUUID(), name },
+        { by, at: new Date().toISOString() }
+      );
+      scenarios.push(branched.scenario);
+      revisions.push(branched.revision);
+      return branched.scenario;
+    });
+  }
+}
+
+let store: FileScenarioRepository | null = null;
+
+/** The store behind /api/scenarios; SCENARIO_STORE_PATH overrides its location */
+export function getScenarioStore(): FileScenarioRepository {
+  store ??= new FileScenarioRepository(process.env.SCENARIO_STORE_PATH || DEFAULT_STORE_PATH);
+  return store;
+}
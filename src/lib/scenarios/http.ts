@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/session";
+import type { AuthUser } from "@/lib/auth/types";
+
+/**
+ * The middleware only checks that a session cookie is present; the routes
+ * also need it to parse. Returns the user, or the response to send instead.
+ */
+export async function requireUser(): Promise<AuthUser | NextResponse> {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ ok: false, message: "Not signed in." }, { status: 401 });
+  }
+  return user;
+}
+
+export function notFound(message = "Scenario not found."): NextResponse {
+  return NextResponse.json({ ok: false, message }, { status: 404 });
+}
+
+export function invalidScenario(error: string): NextResponse {
+  return NextResponse.json(
+    { ok: false, message: `Invalid scenario: ${error}` },
+    { status: 400 }
+  );
+}
+
+/** Someone else saved first; the client should reload before updating */
+export function conflict(message: string): NextResponse {
+  return NextResponse.json({ ok: false, message }, { status: 409 });
+}
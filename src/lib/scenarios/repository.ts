@@ -1,8 +1,20 @@
-import type { Scenario } from "@/core";
+import type { ScenarioRevision } from "./revisions";
+import type { Scenario } from "./schema";
 
 export interface ScenarioRepository {
-  save(scenario: Scenario): Promise<void>;
+  /**
+   * Create, or update in place at the scenario's revision (see revisions.ts).
+   * Resolves to the scenario as stored.
+   */
+  save(scenario: Scenario): Promise<Scenario>;
   list(): Promise<Scenario[]>;
   get(id: string): Promise<Scenario | null>;
   remove(id: string): Promise<void>;
-}
\ No newline at end of file
+
+  /** Every revision of a scenario, oldest first */
+  revisions(id: string): Promise<ScenarioRevision[]>;
+  /** Copy an earlier revision forward as the newest; null if either is missing */
+  restore(id: string, revision: number): Promise<Scenario | null>;
+  /** A new scenario starting from any revision; null if it is missing */
+  branch(id: string, revision: number, name?: string): Promise<Scenario | null>;
+}
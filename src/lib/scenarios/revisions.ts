@@ -0,0 +1,163 @@
+import type { Scenario } from "./schema";
+
+/**
+ * Scenario revisions: every save of a scenario is kept as an immutable
+ * snapshot, numbered from 1.
+ *
+ * A scenario carries the number of its latest revision. An update sends back
+ * the revision it was loaded at; if someone else saved in between, the update
+ * is refused (RevisionConflictError) instead of overwriting their change.
+ * An update that changes nothing adds no revision.
+ *
+ * Restoring copies an old snapshot forward as a new revision, so history is
+ * never rewritten. Branching starts a new scenario at revision 1 from any
+ * snapshot and records where it came from.
+ */
+
+export interface ScenarioRevision {
+  scenarioId: string;
+  revision: number;
+  savedAt: string; // ISO string
+  savedBy: string | null; // display name; null for saves without a user
+  changedFields: string[]; // against the previous revision; empty for the first
+  restoredFrom?: number; // revision this one copies
+  snapshot: Scenario;
+}
+
+export interface RevisionAuthor {
+  by: string | null;
+  at: string; // ISO string
+}
+
+export class RevisionConflictError extends Error {
+  constructor(readonly current: Scenario) {
+    super(
+      `${current.name} was changed${current.updatedBy ? ` by ${current.updatedBy}` : ""} ` +
+        `since it was loaded (now revision ${current.revision}).`
+    );
+    this.name = "RevisionConflictError";
+  }
+}
+
+// ── Changes ────────────────────────────────────────────────────────────────
+
+// Bookkeeping and computed results, which follow from the inputs
+const UNTRACKED = new Set<string>([
+  "schemaVersion",
+  "id",
+  "createdAt",
+  "revision",
+  "updatedAt",
+  "updatedBy",
+  "branchedFrom",
+  "cycleTimeSeconds",
+  "tonnesPerHour",
+  "tonnesPerTruckYear",
+  "effectiveFactor",
+  "costKpis",
+]);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ka = Object.keys(a).filter((k) => (a as Record<string, unknown>)[k] !== undefined);
+  const kb = Object.keys(b).filter((k) => (b as Record<string, unknown>)[k] !== undefined);
+  return (
+    ka.length === kb.length &&
+    ka.every((k) =>
+      sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k])
+    )
+  );
+}
+
+/** Top-level input fields that differ, in the order the scenario lists them */
+export function changedFields(before: Scenario, after: Scenario): string[] {
+  const keys = [...new Set([...Object.keys(after), ...Object.keys(before)])];
+  return keys.filter(
+    (key) =>
+      !UNTRACKED.has(key) &&
+      !sameValue(
+        (before as Record<string, unknown>)[key],
+        (after as Record<string, unknown>)[key]
+      )
+  );
+}
+
+// ── Revisions ──────────────────────────────────────────────────────────────
+
+/**
+ * Apply a save to the stored scenario (null when new). Returns the scenario
+ * to store and the revision to append, or no revision when nothing changed.
+ */
+export function commitRevision(
+  current: Scenario | null,
+  incoming: Scenario,
+  { by, at }: RevisionAuthor,
+  restoredFrom?: number
+): { scenario: Scenario; revision: ScenarioRevision | null } {
+  if (current && incoming.revision !== current.revision) {
+    throw new RevisionConflictError(current);
+  }
+  const fields = current ? changedFields(current, incoming) : [];
+  if (current && fields.length === 0) {
+    return { scenario: current, revision: null };
+  }
+
+  const scenario: Scenario = {
+    ...incoming,
+    createdAt: current?.createdAt ?? incoming.createdAt,
+    revision: current ? current.revision + 1 : 1,
+    updatedAt: at,
+    updatedBy: by ?? undefined,
+    branchedFrom: current ? current.branchedFrom : incoming.branchedFrom,
+  };
+  return {
+    scenario,
+    revision: {
+      scenarioId: scenario.id,
+      revision: scenario.revision,
+      savedAt: at,
+      savedBy: by,
+      changedFields: fields,
+      ...(restoredFrom !== undefined && { restoredFrom }),
+      snapshot: scenario,
+    },
+  };
+}
+
+/** Make an earlier revision current again, as a new revision */
+export function restoreRevision(
+  current: Scenario,
+  from: ScenarioRevision,
+  author: RevisionAuthor
+): { scenario: Scenario; revision: ScenarioRevision | null } {
+  return commitRevision(
+    current,
+    { ...from.snapshot, id: current.id, revision: current.revision },
+    author,
+    from.revision
+  );
+}
+
+/** Start a new scenario from any revision */
+export function branchRevision(
+  from: ScenarioRevision,
+  { id, name }: { id: string; name?: string },
+  author: RevisionAuthor
+): { scenario: Scenario; revision: ScenarioRevision } {
+  const { scenario, revision } = commitRevision(
+    null,
+    {
+      ...from.snapshot,
+      id,
+      name: name?.trim() || `${from.snapshot.name} (branch of r${from.revision})`,
+      createdAt: author.at,
+      branchedFrom: { scenarioId: from.scenarioId, revision: from.revision },
+    },
+    author
+  );
+  return { scenario, revision: revision! };
+}
@@ -0,0 +1,176 @@
+import { parseScenario, type Scenario } from "./schema";
+
+/**
+ * Scenario files: one or many scenarios as JSON, to send to a colleague or
+ * keep with the tender documents.
+ *
+ *   { "format": "fleet-scenarios", "version": 1, "exportedAt": "…",
+ *     "scenarios": [ …whole saved scenarios… ] }
+ *
+ * `version` is the file layout; each scenario keeps its own schemaVersion and
+ * is upgraded through the schema on import (strict: nothing is repaired), so
+ * files from older releases still import. Scenarios are written whole, cost
+ * model and production plan included, so export then import loses nothing.
+ *
+ * On import, a scenario whose id already exists is a conflict, resolved per
+ * scenario:
+ *   rename     import as a new scenario ("Name (imported)")
+ *   overwrite  replace the existing one as its next revision, so its history
+ *              is kept
+ *   skip       leave the existing one alone
+ */
+
+export const SCENARIO_FILE_FORMAT = "fleet-scenarios";
+export const SCENARIO_FILE_VERSION = 1;
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FILE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string
+  scenarios: Scenario[];
+}
+
+export type ScenarioFileReadResult =
+  | {
+      ok: true;
+      scenarios: Scenario[];
+      rejected: Array<{ index: number; name: string | null; error: string }>;
+    }
+  | { ok: false; error: string };
+
+export type ConflictResolution = "rename" | "overwrite" | "skip";
+
+export interface ImportConflict {
+  incoming: Scenario;
+  existing: Scenario;
+}
+
+export interface ImportPlan {
+  toSave: Scenario[];
+  skipped: Scenario[];
+}
+
+// ── Export ─────────────────────────────────────────────────────────────────
+
+export function exportScenarios(scenarios: Scenario[], exportedAt: string): ScenarioFile {
+  return {
+    format: SCENARIO_FILE_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    exportedAt,
+    scenarios,
+  };
+}
+
+/** A file name for the download: the scenario's name, or a dated bundle */
+export function scenarioFileName(scenarios: Scenario[], exportedAt: string): string {
+  if (scenarios.length === 1) {
+    const slug = scenarios[0].name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    return `${slug || "scenario"}.json`;
+  }
+  return `scenarios-${exportedAt.slice(0, 10)}.json`;
+}
+
+// ── Import ─────────────────────────────────────────────────────────────────
+
+/**
+ * Read a scenario file. A file that is not one is an error; scenarios in it
+ * that fail validation are rejected one by one.
+ */
+export function readScenarioFile(text: string): ScenarioFileReadResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+
+  const file = data as Partial<ScenarioFile> | null;
+  if (typeof file !== "object" || file === null || file.format !== SCENARIO_FILE_FORMAT) {
+    return { ok: false, error: "The file is not a scenario export." };
+  }
+  if (typeof file.version !== "number" || file.version > SCENARIO_FILE_VERSION) {
+    return {
+      ok: false,
+      error: `Scenario file version ${String(file.version)} is newer than this app supports.`,
+    };
+  }
+  if (!Array.isArray(file.scenarios)) {
+    return { ok: false, error: "The file has no scenario list." };
+  }
+
+  const scenarios: Scenario[] = [];
+  const rejected: Array<{ index: number; name: string | null; error: string }> = [];
+  file.scenarios.forEach((entry: unknown, index) => {
+    const name =
+      typeof (entry as Scenario | null)?.name === "string" ? (entry as Scenario).name : null;
+    const parsed = parseScenario(entry, { repair: false });
+    if (!parsed.ok) {
+      rejected.push({ index, name, error: parsed.error });
+    } else if (scenarios.some((s) => s.id === parsed.scenario.id)) {
+      rejected.push({ index, name, error: "id appears twice in the file" });
+    } else {
+      scenarios.push(parsed.scenario);
+    }
+  });
+  return { ok: true, scenarios, rejected };
+}
+
+/** Incoming scenarios whose id is already taken */
+export function findConflicts(incoming: Scenario[], existing: Scenario[]): ImportConflict[] {
+  return incoming.flatMap((s) => {
+    const match = existing.find((e) => e.id === s.id);
+    return match ? [{ incoming: s, existing: match }] : [];
+  });
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = `${name} (imported)`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (imported ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * What to save for an import. Conflicts without a resolution are skipped;
+ * `newId` supplies ids for renamed scenarios.
+ */
+export function planImport(
+  incoming: Scenario[],
+  existing: Scenario[],
+  resolutions: Record<string, ConflictResolution>,
+  newId: () => string = () => crypto.randomUUID()
+): ImportPlan {
+  const plan: ImportPlan = { toSave: [], skipped: [] };
+  const names = new Set(existing.map((s) => s.name));
+
+  for (const scenario of incoming) {
+    const current = existing.find((s) => s.id === scenario.id);
+    if (!current) {
+      plan.toSave.push(scenario);
+      names.add(scenario.name);
+      continue;
+    }
+
+    switch (resolutions[scenario.id] ?? "skip") {
+      case "overwrite":
+        plan.toSave.push({ ...scenario, revision: current.revision });
+        break;
+      case "rename": {
+        const name = uniqueName(scenario.name, names);
+        names.add(name);
+        plan.toSave.push({ ...scenario, id: newId(), name });
+        break;
+      }
+      case "skip":
+        plan.skipped.push(scenario);
+        break;
+    }
+  }
+  return plan;
+}
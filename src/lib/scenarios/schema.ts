@@ -0,0 +1,359 @@
+import { z } from "zod";
+import { DrivetrainSchema, RouteSegmentSchema } from "@/core";
+import {
+  COST_MODEL_DEFAULTS,
+  validateCostModel,
+  type CostModelInput,
+} from "@/lib/cost/calcCost";
+import type { CostKpis } from "@/lib/cost/kpis";
+import { PRICE_CATEGORIES, validatePricing } from "@/lib/cost/pricing";
+import { validateCurrentHaulage } from "@/lib/cost/breakEven";
+
+/**
+ * The saved scenario: one schema for every store (browser, server, files).
+ *
+ * Schema versions:
+ *   1  unversioned payloads from before the schema: costModel and
+ *      productionPlan may be missing
+ *   2  schemaVersion 2; costModel and productionPlan always present
+ *   3  revision and updatedAt (see revisions.ts); earlier payloads become
+ *      revision 1, last updated when created
+ *   4  labour rosters count relief crews on top of shiftsPerDay instead of
+ *      all rotating crews (see labour.ts); same headcount as before
+ *
+ * parseScenario upgrades a payload one version at a time (MIGRATIONS) and
+ * validates the result. Optional blocks that fail validation (loader, route,
+ * pricing, …) are dropped and a broken cost model falls back to the defaults,
+ * each reported as a repair; anything else invalid rejects the entry.
+ */
+
+export const SCENARIO_SCHEMA_VERSION = 4;
+
+// ── Blocks ─────────────────────────────────────────────────────────────────
+
+/** Turns a module's own validator (throws Error) into zod issues */
+function validatedBy<T>(validate: (value: T) => void) {
+  return (value: T, ctx: z.RefinementCtx) => {
+    try {
+      validate(value);
+    } catch (e) {
+      ctx.addIssue({ code: "custom", message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+}
+
+export const ProductionPlanRowSchema = z.object({
+  year: z.number().int(),
+  tonnesPerYear: z.number().min(0),
+});
+
+export type ProductionPlanRow = z.infer<typeof ProductionPlanRowSchema>;
+
+export const LoaderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  bucketSize: z.number().gt(0),       // m³
+  fillFactor: z.number().gt(0).max(1.5),
+  materialDensity: z.number().gt(0),  // t/m³
+  swingTime: z.number().min(0),       // seconds per pass
+  spotTime: z.number().min(0),        // seconds
+  loaders: z.number().int().min(1),
+});
+
+export type LoaderSettings = z.infer<typeof LoaderSettingsSchema>;
+
+export const EnergySettingsSchema = z.object({
+  enabled: z.boolean(),
+  drivetrain: DrivetrainSchema,
+  emptyWeightTonnes: z.number().gt(0),
+  batteryKWh: z.number().gt(0),                      // nameplate capacity (battery trucks)
+  batteryUsablePercent: z.number().gt(0).max(100),   // state-of-charge window
+  chargePowerKW: z.number().gt(0),
+  trolleyMinGrade: z.number().min(0),                // percent; loaded uphill at or above runs on the line
+});
+
+export type EnergySettings = z.infer<typeof EnergySettingsSchema>;
+
+// The required base lines; the rest is checked by validateCostModel
+const CostModelSchema = z
+  .looseObject({
+    truckPriceEUR: z.number(),
+    truckLicenseEURPerYear: z.number(),
+    includeFMS: z.boolean(),
+    fmsAnnualLicenseEUR: z.number(),
+    fmsDeploymentOneTimeEUR: z.number(),
+    fmsHwOneTimeEUR: z.number(),
+    serviceSEKPerKm: z.number(),
+    fuelSEKPerKm: z.number(),
+    deploymentOneTimeEUR: z.number(),
+    fxSEKPerEUR: z.number(),
+  })
+  .superRefine(validatedBy((model) => validateCostModel(model as CostModelInput)))
+  .transform((model) => model as CostModelInput);
+
+const PricingSchema = z
+  .object({
+    currency: z.string(),
+    marginPercent: z.record(z.enum(PRICE_CATEGORIES), z.number()),
+    contingencyPercent: z.number(),
+    volumeDiscounts: z.array(z.object({ minTrucks: z.number(), discountPercent: z.number() })),
+    milestones: z.array(
+      z.object({ name: z.string(), percent: z.number(), monthsFromDeployment: z.number() })
+    ),
+  })
+  .superRefine(validatedBy(validatePricing));
+
+const CurrentHaulageSchema = z
+  .object({
+    basis: z.enum(["perTonne", "fixedPlusVariable"]),
+    costPerTonneEUR: z.number(),
+    fixedEURPerYear: z.number(),
+    variableEURPerTonne: z.number(),
+    escalationPercent: z.number(),
+  })
+  .superRefine(validatedBy(validateCurrentHaulage));
+
+// Segments as the form holds them: no surface means gravel (see haulRoute)
+const RouteSchema = z
+  .array(RouteSegmentSchema.extend({ surface: RouteSegmentSchema.shape.surface.unwrap() }))
+  .min(1);
+
+// Stored for display only
+const CostKpisSchema = z.custom<CostKpis>((v) => typeof v === "object" && v !== null);
+
+// ── Scenario ───────────────────────────────────────────────────────────────
+
+export const ScenarioSchema = z.object({
+  schemaVersion: z.literal(SCENARIO_SCHEMA_VERSION),
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  createdAt: z.string().min(1), // ISO string
+
+  // Revision bookkeeping (see revisions.ts)
+  revision: z.number().int().min(1),
+  updatedAt: z.string().min(1), // ISO string
+  updatedBy: z.string().optional(), // display name
+  branchedFrom: z
+    .object({ scenarioId: z.string(), revision: z.number().int().min(1) })
+    .optional(),
+
+  // Haul cycle inputs
+  distanceLoaded: z.number().min(0),   // meters
+  distanceUnloaded: z.number().min(0), // meters
+  speedLoaded: z.number().min(0),      // km/h
+  speedUnloaded: z.number().min(0),    // km/h
+  loadingTime: z.number().min(0),      // seconds
+  unloadingTime: z.number().min(0),    // seconds
+
+  // Haul route (optional – when present it replaces the two distances)
+  route: RouteSchema.optional(),
+
+  // Truck performance model (optional – absent means manual speeds)
+  truckModelId: z.string().optional(),
+
+  // Catalogue truck model and the catalogue version it was priced from
+  catalogueModelId: z.string().optional(),
+  catalogueVersion: z.string().optional(),
+
+  // Loader (optional – when enabled it replaces loadingTime and adds queueing)
+  loader: LoaderSettingsSchema.optional(),
+
+  // Energy model (optional – when enabled it replaces fuelSEKPerKm, and battery
+  // charging reduces availability)
+  energy: EnergySettingsSchema.optional(),
+
+  // Truck input
+  payloadTonnes: z.number().gt(0),
+
+  // Operational factors (stored as 0..1)
+  availability: z.number().min(0).max(1),
+  efficiency: z.number().min(0).max(1),
+  utilization: z.number().min(0).max(1),
+
+  productionPlan: z.array(ProductionPlanRowSchema).min(1),
+  costModel: CostModelSchema,
+
+  // Customer pricing (optional – absent means no quote)
+  pricing: PricingSchema.optional(),
+
+  // Customer's current haulage cost (optional – absent means no break-even)
+  currentHaulage: CurrentHaulageSchema.optional(),
+
+  // Computed results (stored for display)
+  cycleTimeSeconds: z.number(),
+  tonnesPerHour: z.number(),
+  tonnesPerTruckYear: z.number(),
+  effectiveFactor: z.number(),
+  costKpis: CostKpisSchema.optional(), // whole-period cost KPIs
+});
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+// ── Migrations ─────────────────────────────────────────────────────────────
+
+type Payload = Record<string, unknown>;
+
+export const DEFAULT_PRODUCTION_PLAN: ProductionPlanRow[] = [
+  { year: 2026, tonnesPerYear: 5_000_000 },
+];
+
+// MIGRATIONS[v] upgrades a version-v payload to v + 1
+const MIGRATIONS: Record<number, (payload: Payload) => Payload> = {
+  1: (payload) => ({
+    ...payload,
+    schemaVersion: 2,
+    costModel: payload.costModel ?? COST_MODEL_DEFAULTS,
+    productionPlan:
+      Array.isArray(payload.productionPlan) && payload.productionPlan.length > 0
+        ? payload.productionPlan
+        : DEFAULT_PRODUCTION_PLAN,
+  }),
+  2: (payload) => ({
+    ...payload,
+    schemaVersion: 3,
+    revision: 1,
+    updatedAt: payload.createdAt,
+  }),
+  3: (payload) => {
+    const costModel = payload.costModel as Payload | undefined;
+    const labour = costModel?.labour as Payload | undefined;
+    if (!labour || typeof labour.crews !== "number" || typeof labour.shiftsPerDay !== "number") {
+      return { ...payload, schemaVersion: 4 };
+    }
+    const { crews, ...roster } = labour;
+    return {
+      ...payload,
+      schemaVersion: 4,
+      costModel: { ...costModel, labour: { ...roster, reliefCrews: crews - labour.shiftsPerDay } },
+    };
+  },
+};
+
+// Dropped when invalid instead of rejecting the whole scenario
+const OPTIONAL_BLOCKS = [
+  "updatedBy",
+  "branchedFrom",
+  "route",
+  "truckModelId",
+  "catalogueModelId",
+  "catalogueVersion",
+  "loader",
+  "energy",
+  "pricing",
+  "currentHaulage",
+  "costKpis",
+] as const;
+
+export type ScenarioParseResult =
+  | { ok: true; scenario: Scenario; repairs: string[] }
+  | { ok: false; error: string };
+
+// FNV-1a over the payload: a repaired id must come out the same on every read,
+// or the scenario could not be fetched by the id it was just listed with
+function contentId(payload: Payload): string {
+  const text = JSON.stringify({ ...payload, id: undefined });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `repaired-${hash.toString(16).padStart(8, "0")}`;
+}
+
+function firstIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Upgrade a stored payload to the current schema and validate it. With
+ * `repair` off (incoming writes), any invalid field rejects the payload.
+ */
+export function parseScenario(
+  raw: unknown,
+  { repair = true }: { repair?: boolean } = {}
+): ScenarioParseResult {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: "Scenario is not an object" };
+  }
+
+  let payload = raw as Payload;
+  const from = payload.schemaVersion ?? 1;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 1) {
+    return { ok: false, error: `Unknown schema version ${String(from)}` };
+  }
+  if (from > SCENARIO_SCHEMA_VERSION) {
+    return { ok: false, error: `Schema version ${from} is newer than this app supports` };
+  }
+  for (let v = from; v < SCENARIO_SCHEMA_VERSION; v++) {
+    payload = MIGRATIONS[v](payload);
+  }
+
+  let parsed = ScenarioSchema.safeParse(payload);
+  if (parsed.success || !repair) {
+    return parsed.success
+      ? { ok: true, scenario: parsed.data, repairs: [] }
+      : { ok: false, error: firstIssue(parsed.error) };
+  }
+
+  const repairs: string[] = [];
+  const fixed: Payload = { ...payload };
+  const broken = new Set(parsed.error.issues.map((issue) => String(issue.path[0] ?? "")));
+  for (const key of OPTIONAL_BLOCKS) {
+    if (broken.has(key)) {
+      delete fixed[key];
+      repairs.push(`dropped invalid ${key}`);
+    }
+  }
+  if (broken.has("costModel")) {
+    fixed.costModel = COST_MODEL_DEFAULTS;
+    repairs.push("reset invalid costModel to defaults");
+  }
+  if (broken.has("id")) {
+    fixed.id = contentId(payload);
+    repairs.push("assigned an id from its contents");
+  }
+  if (broken.has("createdAt")) {
+    fixed.createdAt = new Date(0).toISOString();
+    repairs.push("replaced missing createdAt");
+  }
+  if (broken.has("revision")) {
+    fixed.revision = 1;
+    repairs.push("reset invalid revision to 1");
+  }
+  if (broken.has("updatedAt")) {
+    fixed.updatedAt = fixed.createdAt;
+    repairs.push("replaced missing updatedAt");
+  }
+
+  parsed = ScenarioSchema.safeParse(fixed);
+  return parsed.success
+    ? { ok: true, scenario: parsed.data, repairs }
+    : { ok: false, error: firstIssue(parsed.error) };
+}
+
+export interface ScenarioListResult {
+  scenarios: Scenario[];
+  repaired: Array<{ id: string; repairs: string[] }>;
+  rejected: Array<{ entry: unknown; error: string }>;
+}
+
+/** Parse a stored list entry by entry; one bad entry never hides the rest */
+export function parseScenarioList(raw: unknown): ScenarioListResult {
+  const result: ScenarioListResult = { scenarios: [], repaired: [], rejected: [] };
+  if (!Array.isArray(raw)) {
+    result.rejected.push({ entry: raw, error: "Scenario list is not an array" });
+    return result;
+  }
+  for (const entry of raw) {
+    const parsed = parseScenario(entry);
+    if (!parsed.ok) {
+      result.rejected.push({ entry, error: parsed.error });
+      continue;
+    }
+    result.scenarios.push(parsed.scenario);
+    if (parsed.repairs.length > 0) {
+      result.repaired.push({ id: parsed.scenario.id, repairs: parsed.repairs });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,35 @@
+import {
+  runFleetSimulation,
+  type FleetSimulationInput,
+  type FleetSimulationResult,
+} from "@/core";
+
+type WorkerReply = { result: FleetSimulationResult } | { error: string };
+
+/**
+ * Run the fleet simulation in a Web Worker so long runs do not block the UI.
+ * Falls back to running in-process where workers are unavailable (SSR, tests).
+ */
+export function runSimulation(input: FleetSimulationInput): Promise<FleetSimulationResult> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve().then(() => runFleetSimulation(input));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./simulation.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      worker.terminate();
+      if ("error" in event.data) reject(new Error(event.data.error));
+      else resolve(event.data.result);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Simulation worker failed"));
+    };
+
+    worker.postMessage(input);
+  });
+}
@@ -0,0 +1,14 @@
+/// <reference lib="webworker" />
+import { runFleetSimulation, type FleetSimulationInput } from "@/core";
+
+/**
+ * Web Worker entry: runs the fleet simulation off the UI thread.
+ * Receives a FleetSimulationInput, posts back { result } or { error }.
+ */
+self.onmessage = (event: MessageEvent<FleetSimulationInput>) => {
+  try {
+    self.postMessage({ result: runFleetSimulation(event.data) });
+  } catch (e) {
+    self.postMessage({ error: e instanceof Error ? e.message : "Simulation failed" });
+  }
+};
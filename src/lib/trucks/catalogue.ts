@@ -0,0 +1,142 @@
+/**
+ * Truck model catalogue – commercial and operating defaults per truck class.
+ *
+ * Each entry id matches a truck performance model in `@/core`
+ * (`getTruckModel(id)`), so picking a catalogue model can also switch the
+ * haul calculation to that model's rimpull/retarder curves.
+ *
+ * The catalogue carries a version so a saved scenario records which price
+ * list it was built from. Bump `version` whenever prices or specs change.
+ *
+ * Filling the cost model (per selected entry):
+ *   truckPriceEUR          = entry.truckPriceEUR
+ *   truckLicenseEURPerYear = entry.truckLicenseEURPerYear
+ *   serviceSEKPerKm        = entry.serviceSEKPerKm
+ *   fuelSEKPerKm           = entry.fuelBurnLitresPerKm × catalogue.dieselSEKPerLitre
+ */
+import type { CostModelInput } from "@/lib/cost/calcCost";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface TruckCatalogueEntry {
+  id: string;
+  name: string;
+
+  // Specs
+  payloadTonnes: number;
+  emptyWeightTonnes: number;
+  maxSpeedLoadedKmh: number;
+  maxSpeedEmptyKmh: number;
+
+  // Commercial
+  truckPriceEUR: number;
+  truckLicenseEURPerYear: number;
+
+  // Operating
+  fuelBurnLitresPerKm: number;
+  serviceSEKPerKm: number;
+
+  // Design life (whichever is reached first)
+  designLifeHours: number;
+  designLifeKm: number;
+}
+
+export interface TruckCatalogue {
+  version: string;
+  effectiveFrom: string; // ISO date
+  dieselSEKPerLitre: number;
+  models: TruckCatalogueEntry[];
+}
+
+// ── Catalogue ──────────────────────────────────────────────────────────────
+
+export const TRUCK_CATALOGUE: TruckCatalogue = {
+  version: "2026.1",
+  effectiveFrom: "2026-01-01",
+  dieselSEKPerLitre: 15,
+  models: [
+    {
+      id: "haul-40t",
+      name: "40 t class",
+      payloadTonnes: 40,
+      emptyWeightTonnes: 35,
+      maxSpeedLoadedKmh: 25,
+      maxSpeedEmptyKmh: 30,
+      truckPriceEUR: 300_000,
+      truckLicenseEURPerYear: 50_000,
+      fuelBurnLitresPerKm: 0.4,
+      serviceSEKPerKm: 2,
+      designLifeHours: 50_000,
+      designLifeKm: 1_000_000,
+    },
+    {
+      id: "haul-65t",
+      name: "65 t class",
+      payloadTonnes: 65,
+      emptyWeightTonnes: 52,
+      maxSpeedLoadedKmh: 28,
+      maxSpeedEmptyKmh: 35,
+      truckPriceEUR: 550_000,
+      truckLicenseEURPerYear: 60_000,
+      fuelBurnLitresPerKm: 0.65,
+      serviceSEKPerKm: 3,
+      designLifeHours: 60_000,
+      designLifeKm: 1_200_000,
+    },
+    {
+      id: "haul-100t",
+      name: "100 t class",
+      payloadTonnes: 100,
+      emptyWeightTonnes: 75,
+      maxSpeedLoadedKmh: 30,
+      maxSpeedEmptyKmh: 40,
+      truckPriceEUR: 900_000,
+      truckLicenseEURPerYear: 75_000,
+      fuelBurnLitresPerKm: 1.0,
+      serviceSEKPerKm: 4.5,
+      designLifeHours: 80_000,
+      designLifeKm: 1_500_000,
+    },
+  ],
+};
+
+// ── Lookup & apply ─────────────────────────────────────────────────────────
+
+export function getCatalogueEntry(
+  id: string,
+  catalogue: TruckCatalogue = TRUCK_CATALOGUE,
+): TruckCatalogueEntry {
+  const entry = catalogue.models.find((m) => m.id === id);
+  if (!entry) {
+    throw new Error(`Unknown truck model in catalogue ${catalogue.version}: ${id}`);
+  }
+  return entry;
+}
+
+/**
+ * Fuel cost per km for a catalogue entry at the catalogue diesel price
+ */
+export function catalogueFuelSEKPerKm(
+  entry: TruckCatalogueEntry,
+  catalogue: TruckCatalogue = TRUCK_CATALOGUE,
+): number {
+  return entry.fuelBurnLitresPerKm * catalogue.dieselSEKPerLitre;
+}
+
+/**
+ * Return a copy of the cost model with the entry's truck-specific prices.
+ * Fleet-level inputs (FMS, deployment, FX) are left untouched.
+ */
+export function applyCatalogueEntry(
+  model: CostModelInput,
+  entry: TruckCatalogueEntry,
+  catalogue: TruckCatalogue = TRUCK_CATALOGUE,
+): CostModelInput {
+  return {
+    ...model,
+    truckPriceEUR: entry.truckPriceEUR,
+    truckLicenseEURPerYear: entry.truckLicenseEURPerYear,
+    serviceSEKPerKm: entry.serviceSEKPerKm,
+    fuelSEKPerKm: catalogueFuelSEKPerKm(entry, catalogue),
+  };
+}
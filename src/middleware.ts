@@ -11,6 +11,9 @@ export function middleware(req: NextRequest) {
 
   const session = req.cookies.get("session")?.value;
   if (!session) {
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json({ ok: false, message: "Not signed in." }, { status: 401 });
+    }
     const url = req.nextUrl.clone();
     url.pathname = "/login";
     return NextResponse.redirect(url);
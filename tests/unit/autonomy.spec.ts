@@ -0,0 +1,78 @@
+import { describe, test, expect } from "vitest";
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import type { ModelInputs } from "@/lib/analysis/model";
+import {
+  applyFleetCase,
+  AUTONOMOUS_CASE_DEFAULTS,
+  compareAutonomy,
+  MANUAL_CASE_DEFAULTS,
+} from "@/lib/analysis/autonomy";
+import { MODEL_INPUTS } from "./fixtures/modelInputs";
+
+const INPUTS: ModelInputs = {
+  ...MODEL_INPUTS,
+  productionPlan: [
+    ...MODEL_INPUTS.productionPlan,
+    { year: 2028, tonnesPerYear: 6_000_000 },
+    { year: 2029, tonnesPerYear: 6_000_000 },
+  ],
+};
+
+describe("compareAutonomy", () => {
+  test("applyFleetCase overrides time usage, FMS, licenses and roster only", () => {
+    const inputs = applyFleetCase(INPUTS, AUTONOMOUS_CASE_DEFAULTS);
+
+    expect(inputs.utilizationPercent).toBe(92);
+    expect(inputs.costModel.includeFMS).toBe(true);
+    expect(inputs.costModel.labour).toBe(AUTONOMOUS_CASE_DEFAULTS.labour);
+    expect(inputs.costModel.truckPriceEUR).toBe(COST_MODEL_DEFAULTS.truckPriceEUR);
+    expect(inputs.haulCycle).toBe(INPUTS.haulCycle);
+    expect(INPUTS.costModel.labour).toBeUndefined();
+  });
+
+  test("higher time usage needs fewer trucks; savings add up to the total", () => {
+    const result = compareAutonomy(INPUTS);
+
+    for (const y of result.years) {
+      expect(y.autonomousTrucks).toBeLessThan(y.manualTrucks);
+      expect(y.savingsEUR).toBeCloseTo(y.manualCostEUR - y.autonomousCostEUR, 6);
+    }
+    expect(result.years[result.years.length - 1].cumulativeSavingsEUR).toBeCloseTo(
+      result.totalSavingsEUR,
+      4
+    );
+  });
+
+  test("payback is the year cumulative savings turn and stay non-negative", () => {
+    // Expensive FMS deployment (autonomous only): behind at first, then catching up
+    const base = {
+      ...INPUTS,
+      costModel: { ...COST_MODEL_DEFAULTS, fmsDeploymentOneTimeEUR: 3_000_000 },
+    };
+    const result = compareAutonomy(base);
+    const cumulative = result.years.map((y) => y.cumulativeSavingsEUR);
+
+    expect(cumulative[0]).toBeLessThan(0);
+    expect(result.paybackYear).not.toBeNull();
+    const i = result.years.findIndex((y) => y.year === result.paybackYear);
+    expect(cumulative[i - 1]).toBeLessThan(0);
+    expect(cumulative.slice(i).every((c) => c >= 0)).toBe(true);
+  });
+
+  test("no payback when the autonomous case ends the plan behind", () => {
+    const autonomous = { ...AUTONOMOUS_CASE_DEFAULTS, truckLicenseEURPerYear: 5_000_000 };
+    expect(compareAutonomy(INPUTS, MANUAL_CASE_DEFAULTS, autonomous).paybackYear).toBeNull();
+  });
+
+  test("invalid cases throw naming the case", () => {
+    expect(() =>
+      compareAutonomy(INPUTS, { ...MANUAL_CASE_DEFAULTS, availabilityPercent: 0 })
+    ).toThrow("Manual case: availability must be above 0 and at most 100 percent");
+    expect(() =>
+      compareAutonomy(INPUTS, MANUAL_CASE_DEFAULTS, {
+        ...AUTONOMOUS_CASE_DEFAULTS,
+        labour: { ...AUTONOMOUS_CASE_DEFAULTS.labour, reliefCrews: -1 },
+      })
+    ).toThrow("Autonomous case: reliefCrews must be a whole number of at least 0");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "vitest";
+import { calcCostBreakdown, COST_MODEL_DEFAULTS, type YearlyDriver } from "@/lib/cost/calcCost";
+import { calcBreakEven, irr, type CurrentHaulageCost } from "@/lib/cost/breakEven";
+
+describe("irr", () => {
+  test("solves simple cash flows", () => {
+    expect(irr([-100, 110])).toBeCloseTo(0.1, 8);
+    // −100 + 60/(1+r) + 60/(1+r)² = 0  →  r ≈ 13.07%
+    expect(irr([-100, 60, 60])).toBeCloseTo(0.130662, 5);
+  });
+
+  test("is null without both an outlay and a return", () => {
+    expect(irr([10, 20])).toBeNull();
+    expect(irr([-10, -20])).toBeNull();
+  });
+});
+
+describe("calcBreakEven", () => {
+  const drivers: YearlyDriver[] = [2026, 2027, 2028, 2029].map((year) => ({
+    year,
+    fleetSize: 10,
+    kmPerYear: 100_000,
+    tonnesPerYear: 5_000_000,
+  }));
+  const costs = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+  const perTonne: CurrentHaulageCost = {
+    basis: "perTonne",
+    costPerTonneEUR: 0.4,
+    fixedEURPerYear: 0,
+    variableEURPerTonne: 0,
+    escalationPercent: 0,
+  };
+
+  test("compares the current cost year by year", () => {
+    const result = calcBreakEven(costs, drivers, perTonne);
+
+    result.years.forEach((y, i) => {
+      expect(y.currentCostEUR).toBeCloseTo(2_000_000, 6);
+      expect(y.savingsEUR).toBeCloseTo(2_000_000 - costs.rows[i].totalCostEUR, 6);
+    });
+    expect(result.totalSavingsEUR).toBeCloseTo(
+      8_000_000 - costs.periodTotals.totalCostEUR,
+      6
+    );
+  });
+
+  test("payback, crossover and IRR once the upfront outlay is recovered", () => {
+    // Year one carries the truck purchase, later years only run the fleet
+    const result = calcBreakEven(costs, drivers, perTonne);
+    const [first, ...rest] = result.years;
+    expect(first.savingsEUR).toBeLessThan(0);
+    expect(rest.every((y) => y.savingsEUR > 0)).toBe(true);
+
+    // −1.77M, then +1.43M a year: behind after 2027, ahead from 2028
+    expect(result.years[1].cumulativeSavingsEUR).toBeLessThan(0);
+    expect(result.paybackYear).toBe(2028);
+    const [, y2027, y2028] = result.years;
+    expect(result.crossoverYear).toBeCloseTo(
+      2027 + -y2027.cumulativeSavingsEUR / y2028.savingsEUR,
+      8
+    );
+    expect(result.irrPercent).toBeCloseTo(
+      irr(result.years.map((y) => y.savingsEUR))! * 100,
+      8
+    );
+  });
+
+  test("fixed plus variable with escalation", () => {
+    const result = calcBreakEven(costs, drivers, {
+      ...perTonne,
+      basis: "fixedPlusVariable",
+      fixedEURPerYear: 1_000_000,
+      variableEURPerTonne: 0.2,
+      escalationPercent: 10,
+    });
+
+    expect(result.years[0].currentCostEUR).toBeCloseTo(2_000_000, 6);
+    expect(result.years[2].currentCostEUR).toBeCloseTo(2_000_000 * 1.21, 6);
+  });
+
+  test("no payback when the plan ends behind", () => {
+    const result = calcBreakEven(costs, drivers, { ...perTonne, costPerTonneEUR: 0.01 });
+
+    expect(result.paybackYear).toBeNull();
+    expect(result.crossoverYear).toBeNull();
+    expect(result.irrPercent).toBeNull();
+  });
+
+  test("invalid inputs throw", () => {
+    expect(() => calcBreakEven(costs, drivers, { ...perTonne, costPerTonneEUR: -1 })).toThrow(
+      "costPerTonneEUR must not be negative"
+    );
+  });
+});
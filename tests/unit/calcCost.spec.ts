@@ -1,10 +1,14 @@
 import { describe, test, expect } from "vitest";
 import {
   calcCostBreakdown,
+  compareFinancing,
   COST_MODEL_DEFAULTS,
+  EMISSION_DEFAULTS,
+  ENERGY_PRICE_DEFAULTS,
   type CostModelInput,
   type YearlyDriver,
 } from "@/lib/cost/calcCost";
+import { LABOUR_ROSTER_DEFAULTS } from "@/lib/cost/labour";
 
 describe("calcCostBreakdown", () => {
   // ── 1. Base case ─────────────────────────────────────────────────────────
@@ -317,4 +321,482 @@ describe("calcCostBreakdown", () => {
     // totalCostSEK = (100 000 + 10 000) × 10 + 100 000 = 1 200 000
     expect(r.totalCostSEK).toBe(1_200_000);
   });
+
+  // ── 11. Discounting ──────────────────────────────────────────────────────
+  // 10% end-of-year: factors 1/1.1, 1/1.21 from the first plan year
+  test("end-of-year discounting – factors, discounted rows and NPV", () => {
+    const model: CostModelInput = { ...COST_MODEL_DEFAULTS, discountRatePercent: 10 };
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 10, kmPerYear: 100_000 },
+      { year: 2027, fleetSize: 10, kmPerYear: 100_000 },
+    ];
+    const { rows, periodTotals } = calcCostBreakdown(model, drivers);
+
+    expect(rows[0].discountFactor).toBeCloseTo(1 / 1.1, 10);
+    expect(rows[1].discountFactor).toBeCloseTo(1 / 1.21, 10);
+    expect(rows[1].discountedCostEUR).toBeCloseTo(rows[1].totalCostEUR / 1.21, 6);
+
+    const npv = rows[0].totalCostEUR / 1.1 + rows[1].totalCostEUR / 1.21;
+    expect(periodTotals.npvEUR).toBeCloseTo(npv, 6);
+    expect(periodTotals.npvSEK).toBeCloseTo(npv * COST_MODEL_DEFAULTS.fxSEKPerEUR, 4);
+    expect(rows[1].cumulativeDiscountedEUR).toBeCloseTo(npv, 6);
+  });
+
+  test("mid-year convention and custom base year", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      discountRatePercent: 8,
+      discountBaseYear: 2025,
+      discountConvention: "mid-year",
+    };
+    const { rows } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 5, kmPerYear: 50_000 },
+    ]);
+    // t = 2026 − 2025 + 0.5 = 1.5
+    expect(rows[0].discountFactor).toBeCloseTo(1 / Math.pow(1.08, 1.5), 10);
+  });
+
+  test("no discount rate – NPV equals nominal total, cumulative is a running sum", () => {
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 8, kmPerYear: 80_000 },
+      { year: 2027, fleetSize: 12, kmPerYear: 100_000 },
+    ];
+    const { rows, periodTotals } = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+
+    expect(rows.every((r) => r.discountFactor === 1)).toBe(true);
+    expect(periodTotals.npvEUR).toBeCloseTo(periodTotals.totalCostEUR, 6);
+    expect(rows[1].cumulativeCostEUR).toBeCloseTo(
+      rows[0].totalCostEUR + rows[1].totalCostEUR,
+      6
+    );
+  });
+
+  test("negative discount rate throws", () => {
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, discountRatePercent: -1 }, [])
+    ).toThrow("discountRatePercent must not be negative");
+  });
+
+  // ── 12. Escalation and real terms ────────────────────────────────────────
+  test("yearly % escalation compounds per category from the price base year", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      escalation: {
+        truckPrice: { type: "rate", ratePercent: 5 },
+        fuel: { type: "rate", ratePercent: 10 },
+      },
+    };
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 2, kmPerYear: 100_000 },
+      { year: 2028, fleetSize: 4, kmPerYear: 100_000 },
+    ];
+    const { rows } = calcCostBreakdown(model, drivers);
+
+    // First year is the price base year – flat
+    expect(rows[0].capexTrucks).toBe(600_000);
+    expect(rows[0].opexFuelSEK).toBe(600_000);
+    // Two years on: 2 trucks × 300k × 1.05², fuel 600k SEK × 1.1²
+    expect(rows[1].capexTrucks).toBeCloseTo(2 * 300_000 * 1.1025, 6);
+    expect(rows[1].opexFuelSEK).toBeCloseTo(600_000 * 1.21, 6);
+    // Categories without escalation stay flat
+    expect(rows[1].opexServiceSEK).toBe(200_000);
+    expect(rows[1].opexTruckLicenseEUR).toBe(200_000);
+    expect(rows[1].escalationFactors.licenses).toBe(1);
+  });
+
+  test("index table escalation – relative to the price base year, gaps carry forward", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      includeFMS: true,
+      priceBaseYear: 2025,
+      escalation: { fms: { type: "index", index: { 2025: 100, 2027: 120 } } },
+    };
+    const { rows } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 1, kmPerYear: 0 },
+      { year: 2027, fleetSize: 1, kmPerYear: 0 },
+      { year: 2028, fleetSize: 1, kmPerYear: 0 },
+    ]);
+
+    // 2026 is missing from the table → uses 2025 (100)
+    expect(rows[0].escalationFactors.fms).toBe(1);
+    expect(rows[0].capexFms).toBe(400_000);
+    expect(rows[1].opexFmsLicenseEUR).toBeCloseTo(120_000, 6);
+    // 2028 is past the table → stays at 2027 (120)
+    expect(rows[2].escalationFactors.fms).toBeCloseTo(1.2, 10);
+  });
+
+  test("real totals deflate nominal by general inflation; equal when inflation is 0", () => {
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 5, kmPerYear: 50_000 },
+      { year: 2027, fleetSize: 5, kmPerYear: 50_000 },
+    ];
+    const flat = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+    expect(flat.periodTotals.realTotalCostEUR).toBeCloseTo(flat.periodTotals.totalCostEUR, 6);
+
+    // Everything escalates at CPI → real cost equals the unescalated cost
+    const cpi = { type: "rate", ratePercent: 3 } as const;
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      inflationPercent: 3,
+      escalation: { truckPrice: cpi, licenses: cpi, fms: cpi, service: cpi, fuel: cpi },
+    };
+    const { rows, periodTotals } = calcCostBreakdown(model, drivers);
+    expect(rows[1].totalCostEUR).toBeCloseTo(flat.rows[1].totalCostEUR * 1.03, 6);
+    expect(rows[1].realCostEUR).toBeCloseTo(flat.rows[1].totalCostEUR, 6);
+    expect(periodTotals.realTotalCostSEK).toBeCloseTo(flat.periodTotals.totalCostSEK, 4);
+  });
+
+  test("invalid escalation inputs throw", () => {
+    expect(() =>
+      calcCostBreakdown(
+        { ...COST_MODEL_DEFAULTS, escalation: { fuel: { type: "rate", ratePercent: -100 } } },
+        []
+      )
+    ).toThrow("fuel escalation must be greater than -100%");
+    expect(() =>
+      calcCostBreakdown(
+        {
+          ...COST_MODEL_DEFAULTS,
+          escalation: { service: { type: "index", index: { 2026: 0 } } },
+        },
+        []
+      )
+    ).toThrow("service escalation index values must be greater than 0");
+  });
+
+  // ── 13. Fleet-age ledger ─────────────────────────────────────────────────
+  test("trucks reaching life km are replaced and credited at the residual floor", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      truckLifeKm: 30_000,
+      truckResidualPercent: 10,
+    };
+    // 10 000 km per truck-year → life reached after 3 years
+    const drivers: YearlyDriver[] = [2026, 2027, 2028, 2029].map((year) => ({
+      year,
+      fleetSize: 2,
+      kmPerYear: 20_000,
+    }));
+    const { rows, periodTotals } = calcCostBreakdown(model, drivers);
+
+    expect(rows.slice(0, 3).every((r) => r.replacementTrucks === 0)).toBe(true);
+    expect(rows[3].newTrucks).toBe(0);
+    expect(rows[3].retiredTrucks).toBe(2);
+    expect(rows[3].replacementTrucks).toBe(2);
+    expect(rows[3].capexReplacement).toBe(600_000);
+    // Retired: 2 × 10% × 300k; plan end: 2 × 300k × (0.1 + 0.9 × 2/3)
+    expect(rows[3].residualCreditEUR).toBeCloseTo(60_000 + 420_000, 6);
+    expect(periodTotals.capexReplacementEUR).toBe(600_000);
+    expect(rows[3].totalCostEUR).toBeCloseTo(
+      rows[3].capexTotalEUR + rows[3].opexTotalEUR - rows[3].residualCreditEUR +
+        rows[3].opexTotalSEK / model.fxSEKPerEUR,
+      6
+    );
+  });
+
+  test("shrinking fleet sells the most-used trucks at their depreciated value", () => {
+    const model: CostModelInput = { ...COST_MODEL_DEFAULTS, truckLifeHours: 10_000 };
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 2, kmPerYear: 0, hoursPerYear: 2_000 },
+      { year: 2027, fleetSize: 3, kmPerYear: 0, hoursPerYear: 3_000 },
+      { year: 2028, fleetSize: 1, kmPerYear: 0, hoursPerYear: 1_000 },
+    ];
+    const { rows } = calcCostBreakdown(model, drivers);
+
+    // 2028: the two 2026 trucks (2 000 h) are sold at 80%; the 2027 truck
+    // ends the plan at 2 000 h, also 80%
+    expect(rows[2].soldTrucks).toBe(2);
+    expect(rows[2].newTrucks).toBe(0);
+    expect(rows[2].residualCreditEUR).toBeCloseTo(2 * 240_000 + 240_000, 6);
+    expect(rows[0].residualCreditEUR).toBe(0);
+  });
+
+  test("ledger is off unless a truck life is set", () => {
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 4, kmPerYear: 1_000_000, hoursPerYear: 100_000 },
+      { year: 2027, fleetSize: 2, kmPerYear: 1_000_000, hoursPerYear: 100_000 },
+    ];
+    const { periodTotals } = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+
+    expect(periodTotals.capexReplacementEUR).toBe(0);
+    expect(periodTotals.residualCreditEUR).toBe(0);
+  });
+
+  test("invalid truck life or residual value throws", () => {
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, truckLifeHours: 0 }, [])
+    ).toThrow("truckLifeHours must be greater than 0");
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, truckResidualPercent: 120 }, [])
+    ).toThrow("truckResidualPercent must be between 0 and 100");
+  });
+
+  // ── 14. Financing ────────────────────────────────────────────────────────
+  test("operating lease replaces truck CAPEX with monthly payments per truck", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      financingMode: "lease",
+      leaseEURPerTruckMonth: 10_000,
+      truckLifeKm: 1, // ignored under lease
+    };
+    const { rows, financing, periodTotals } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 2, kmPerYear: 20_000 },
+      { year: 2027, fleetSize: 3, kmPerYear: 30_000 },
+    ]);
+
+    expect(financing.mode).toBe("lease");
+    expect(rows.map((r) => r.truckFinancingEUR)).toEqual([240_000, 360_000]);
+    expect(rows.every((r) => r.capexTrucks === 0 && r.capexReplacement === 0)).toBe(true);
+    expect(periodTotals.residualCreditEUR).toBe(0);
+    // Year 1: 240k lease + 200k deployment + 100k licenses + 160k SEK / 11
+    expect(rows[0].totalCostEUR).toBeCloseTo(540_000 + 160_000 / 11, 6);
+  });
+
+  test("financed purchase – down payment then straight annuity at 0% interest", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      financingMode: "loan",
+      loanInterestPercent: 0,
+      loanTermYears: 4,
+      loanDownPaymentPercent: 25,
+    };
+    const drivers: YearlyDriver[] = [2026, 2027, 2028, 2029, 2030].map((year) => ({
+      year,
+      fleetSize: 2,
+      kmPerYear: 0,
+    }));
+    const { rows, financing } = calcCostBreakdown(model, drivers);
+
+    expect(financing.schedule[0].truckPurchaseEUR).toBe(600_000);
+    expect(financing.schedule[0].downPaymentEUR).toBe(150_000);
+    expect(rows.map((r) => r.truckFinancingEUR)).toEqual([
+      262_500, 112_500, 112_500, 112_500, 0,
+    ]);
+    expect(rows[0].capexTrucks).toBe(0);
+  });
+
+  test("loan interest follows the annuity; open balance is settled in the last plan year", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      financingMode: "loan",
+      loanInterestPercent: 10,
+      loanTermYears: 3,
+      loanDownPaymentPercent: 0,
+    };
+    const { financing } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 2, kmPerYear: 0 },
+      { year: 2027, fleetSize: 2, kmPerYear: 0 },
+    ]);
+    const [y1, y2] = financing.schedule;
+    const annuity = (600_000 * 0.1) / (1 - Math.pow(1.1, -3));
+
+    expect(y1.interestEUR).toBeCloseTo(60_000, 6);
+    expect(y1.paymentEUR).toBeCloseTo(annuity, 6);
+    // Year 2 is the last plan year: interest plus the whole remaining balance
+    const balance = 600_000 - (annuity - 60_000);
+    expect(y2.interestEUR).toBeCloseTo(balance * 0.1, 6);
+    expect(y2.principalEUR).toBeCloseTo(balance, 6);
+  });
+
+  test("compareFinancing – purchase matches the default breakdown, one entry per mode", () => {
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 4, kmPerYear: 40_000 },
+      { year: 2027, fleetSize: 5, kmPerYear: 50_000 },
+    ];
+    const model: CostModelInput = { ...COST_MODEL_DEFAULTS, discountRatePercent: 8 };
+    const options = compareFinancing(model, drivers);
+    const base = calcCostBreakdown(model, drivers);
+
+    expect(options.map((o) => o.mode)).toEqual(["purchase", "lease", "loan"]);
+    expect(options[0].totalCostEUR).toBeCloseTo(base.periodTotals.totalCostEUR, 6);
+    expect(options[0].npvEUR).toBeCloseTo(base.periodTotals.npvEUR, 6);
+    expect(options[0].truckPaymentsEUR).toBe(1_500_000);
+  });
+
+  test("invalid loan terms throw", () => {
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, loanTermYears: 2.5 }, [])
+    ).toThrow("loanTermYears must be a whole number of at least 1");
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, loanDownPaymentPercent: -5 }, [])
+    ).toThrow("loanDownPaymentPercent must be between 0 and 100");
+  });
+
+  // ── 15. Labour ───────────────────────────────────────────────────────────
+  test("labour roster adds OPEX per year from the fleet size", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      labour: LABOUR_ROSTER_DEFAULTS,
+      escalation: { labour: { type: "rate", ratePercent: 3 } },
+    };
+    const { rows, periodTotals } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 4, kmPerYear: 0 },
+      { year: 2027, fleetSize: 8, kmPerYear: 0 },
+    ]);
+
+    // 2026: (4 × 650k + 1 × 700k + 1 × 850k) × 4 crews × 1.45
+    const labour2026 = (2_600_000 + 700_000 + 850_000) * 4 * 1.45;
+    expect(rows[0].labourHeadcount).toBe(24);
+    expect(rows[0].opexLabourSEK).toBeCloseTo(labour2026, 4);
+    expect(rows[0].opexTotalSEK).toBeCloseTo(labour2026, 4);
+    // 2027: 8 operators, 2 techs, 1 supervisor per crew, escalated 3%
+    const labour2027 = (5_200_000 + 1_400_000 + 850_000) * 4 * 1.45 * 1.03;
+    expect(rows[1].opexLabourSEK).toBeCloseTo(labour2027, 4);
+    expect(periodTotals.opexLabourSEK).toBeCloseTo(labour2026 + labour2027, 4);
+    expect(periodTotals.opexLabourEUR).toBe(0);
+  });
+
+  // ── 16. Energy prices ────────────────────────────────────────────────────
+  test("energy model prices litres and kWh per year instead of fuelSEKPerKm", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      serviceSEKPerKm: 0,
+      energyPrices: {
+        ...ENERGY_PRICE_DEFAULTS,
+        dieselByYear: { 2027: 18 },
+      },
+      escalation: { fuel: { type: "rate", ratePercent: 10 } },
+    };
+    const { rows, periodTotals } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 1, kmPerYear: 1000, dieselLitresPerYear: 100, electricityKWhPerYear: 50 },
+      { year: 2027, fleetSize: 1, kmPerYear: 1000, dieselLitresPerYear: 100, electricityKWhPerYear: 50 },
+      { year: 2028, fleetSize: 1, kmPerYear: 1000, dieselLitresPerYear: 100, electricityKWhPerYear: 50 },
+    ]);
+
+    // 2026: base prices (escalation factor 1)
+    expect(rows[0].opexFuelSEK).toBeCloseTo(100 * 15 + 50 * 1.2, 6);
+    // 2027: diesel from the table (not escalated), electricity escalated 10%
+    expect(rows[1].opexFuelSEK).toBeCloseTo(100 * 18 + 50 * 1.2 * 1.1, 6);
+    // 2028: the 2027 diesel price carries forward
+    expect(rows[2].opexFuelSEK).toBeCloseTo(100 * 18 + 50 * 1.2 * 1.21, 6);
+    expect(rows[0].dieselLitres).toBe(100);
+    expect(periodTotals.electricityKWh).toBe(150);
+  });
+
+  test("energy prices without consumption fall back to the flat rate", () => {
+    const model: CostModelInput = { ...COST_MODEL_DEFAULTS, energyPrices: ENERGY_PRICE_DEFAULTS };
+    const { rows } = calcCostBreakdown(model, [{ year: 2026, fleetSize: 1, kmPerYear: 1000 }]);
+
+    expect(rows[0].opexFuelSEK).toBe(6000); // 1000 km × 6 SEK/km
+    expect(rows[0].dieselLitres).toBe(0);
+    expect(() =>
+      calcCostBreakdown(
+        { ...model, energyPrices: { ...ENERGY_PRICE_DEFAULTS, electricityByYear: { 2026: -1 } } },
+        []
+      )
+    ).toThrow("Energy prices must not be negative");
+  });
+
+  // ── 17. Emissions and carbon price ───────────────────────────────────────
+  test("CO2e per year and per tonne moved, with carbon cost in OPEX", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      emissions: { ...EMISSION_DEFAULTS, carbonPriceByYear: { 2027: 100 } },
+    };
+    const drivers: YearlyDriver[] = [
+      // Flat consumption: 100 000 km × 0.4 L/km = 40 000 L
+      { year: 2026, fleetSize: 5, kmPerYear: 100_000, tonnesPerYear: 1_000_000 },
+      // Energy model: litres and kWh from the drivers
+      {
+        year: 2027,
+        fleetSize: 5,
+        kmPerYear: 100_000,
+        tonnesPerYear: 500_000,
+        dieselLitresPerYear: 10_000,
+        electricityKWhPerYear: 200_000,
+      },
+    ];
+    const { rows, periodTotals } = calcCostBreakdown(model, drivers);
+    const without = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+
+    // 2026: 40 000 × 2.7 / 1000 = 108 t at 85 EUR/t
+    expect(rows[0].co2eTonnes).toBeCloseTo(108, 6);
+    expect(rows[0].co2eKgPerTonneMoved).toBeCloseTo(0.108, 9);
+    expect(rows[0].opexCarbonEUR).toBeCloseTo(9180, 6);
+    expect(rows[0].totalCostEUR - without.rows[0].totalCostEUR).toBeCloseTo(9180, 6);
+    // 2027: (10 000 × 2.7 + 200 000 × 0.05) / 1000 = 37 t at 100 EUR/t
+    expect(rows[1].co2eTonnes).toBeCloseTo(37, 6);
+    expect(rows[1].co2eKgPerTonneMoved).toBeCloseTo(0.074, 9);
+    expect(rows[1].carbonPriceEURPerTonne).toBe(100);
+    expect(rows[1].opexCarbonEUR).toBeCloseTo(3700, 6);
+    expect(periodTotals.co2eTonnes).toBeCloseTo(145, 6);
+    expect(periodTotals.opexCarbonEUR).toBeCloseTo(12_880, 6);
+  });
+
+  test("no emissions without settings; negative factors throw", () => {
+    const { rows } = calcCostBreakdown(COST_MODEL_DEFAULTS, [
+      { year: 2026, fleetSize: 1, kmPerYear: 1000 },
+    ]);
+    expect(rows[0].co2eTonnes).toBe(0);
+    expect(rows[0].opexCarbonEUR).toBe(0);
+    expect(() =>
+      calcCostBreakdown(
+        { ...COST_MODEL_DEFAULTS, emissions: { ...EMISSION_DEFAULTS, dieselKgCO2ePerLitre: -1 } },
+        []
+      )
+    ).toThrow("Emission factors and carbon prices must not be negative");
+  });
+
+  // ── 18. Currencies and FX tables ─────────────────────────────────────────
+  test("cost lines in their own currencies, converted at each year's rate", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      truckPriceEUR: 480_000, // AUD
+      truckLicenseEURPerYear: 0,
+      deploymentOneTimeEUR: 0,
+      serviceSEKPerKm: 0,
+      fuelSEKPerKm: 2, // CAD per km
+      costCurrencies: { truckPrice: "AUD", fuel: "CAD" },
+      fxRates: { AUD: 1.6, CAD: 1.5 },
+      fxByYear: { 2027: { AUD: 1.5, SEK: 12 } },
+    };
+    const { rows } = calcCostBreakdown(model, [
+      { year: 2026, fleetSize: 1, kmPerYear: 1000 },
+      { year: 2027, fleetSize: 2, kmPerYear: 1000 },
+    ]);
+
+    // 2026: 480 000 AUD / 1.6; 2000 CAD → EUR → SEK at 11
+    expect(rows[0].capexTrucks).toBeCloseTo(300_000, 6);
+    expect(rows[0].opexFuelSEK).toBeCloseTo((2000 / 1.5) * 11, 6);
+    expect(rows[0].fxSEKPerEUR).toBe(11);
+    // 2027: the table overrides AUD and SEK, CAD keeps its base rate
+    expect(rows[1].capexTrucks).toBeCloseTo(320_000, 6);
+    expect(rows[1].opexFuelSEK).toBeCloseTo((2000 / 1.5) * 12, 6);
+    expect(rows[1].fxSEKPerEUR).toBe(12);
+    expect(rows[1].totalCostSEK).toBeCloseTo(rows[1].totalCostEUR * 12, 4);
+  });
+
+  test("labour roles in any currency; unknown rates and bad codes throw", () => {
+    const model: CostModelInput = {
+      ...COST_MODEL_DEFAULTS,
+      fxRates: { CLP: 1000 },
+      labour: {
+        shiftsPerDay: 1,
+        reliefCrews: 0,
+        roles: [
+          { name: "Operator", basis: "fixed", ratio: 1, salary: 11_000_000, overheadPercent: 0, currency: "CLP" },
+          { name: "Supervisor", basis: "fixed", ratio: 1, salary: 90_000, overheadPercent: 0, currency: "EUR" },
+        ],
+      },
+    };
+    const { rows } = calcCostBreakdown(model, [{ year: 2026, fleetSize: 1, kmPerYear: 0 }]);
+
+    // 11 000 000 CLP = 11 000 EUR = 121 000 SEK
+    expect(rows[0].opexLabourSEK).toBeCloseTo(121_000, 6);
+    expect(rows[0].opexLabourEUR).toBe(90_000);
+
+    const drivers: YearlyDriver[] = [{ year: 2026, fleetSize: 1, kmPerYear: 0 }];
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, costCurrencies: { fms: "USD" } }, drivers)
+    ).not.toThrow(); // FMS is off, so USD is never needed
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, costCurrencies: { service: "USD" } }, drivers)
+    ).toThrow("No FX rate for USD in 2026");
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, fxRates: { usd: 1.1 } }, [])
+    ).toThrow("FX rate currency usd must be a three-letter ISO code");
+    expect(() =>
+      calcCostBreakdown({ ...COST_MODEL_DEFAULTS, fxByYear: { 2026: { USD: 0 } } }, [])
+    ).toThrow("FX rate for USD must be greater than 0");
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, test, expect } from "vitest";
+import { evaluateModel } from "@/lib/analysis/model";
+import { compareScenarios, scenarioModelInputs } from "@/lib/scenarios/comparison";
+import { scenario } from "./fixtures/scenario";
+
+describe("compareScenarios", () => {
+  const base = scenario("a");
+  const bigger = scenario("b", { payloadTonnes: 60 });
+
+  test("evaluates each scenario through the model", () => {
+    const { scenarios, years } = compareScenarios([base, bigger]);
+    const expected = evaluateModel(scenarioModelInputs(bigger));
+
+    expect(scenarios[1].evaluation?.costs.rows).toEqual(expected.costs.rows);
+    expect(years.map((y) => y.year)).toEqual([2026, 2027]);
+    expect(years[0].trucks[1]?.value).toBe(expected.costs.rows[0].fleetSize);
+  });
+
+  test("deltas are against the first scenario", () => {
+    const { years, totals } = compareScenarios([base, bigger]);
+    const [b, o] = years[1].totalCostEUR;
+
+    expect(b?.delta).toBeNull();
+    expect(o?.delta).toBeCloseTo(o!.value - b!.value, 6);
+    expect(o?.deltaPercent).toBeCloseTo(((o!.value - b!.value) / b!.value) * 100, 6);
+    // A larger payload needs fewer trucks
+    expect(totals.find((t) => t.label === "Peak fleet")!.values[1]!.delta).toBeLessThan(0);
+  });
+
+  test("lists inputs and flags those that differ", () => {
+    const { inputs } = compareScenarios([base, bigger, scenario("c")]);
+    const payload = inputs.find((r) => r.label === "Payload")!;
+
+    expect(payload).toEqual({ label: "Payload", values: ["40 t", "60 t", "40 t"], differs: true });
+    expect(inputs.find((r) => r.label === "Unloading")!.differs).toBe(false);
+  });
+
+  test("years missing from a scenario have no value", () => {
+    const short = scenario("s", { productionPlan: [{ year: 2027, tonnesPerYear: 6_000_000 }] });
+    const { years } = compareScenarios([short, base]);
+
+    expect(years[0].trucks[0]).toBeNull();
+    // No baseline value that year, so no delta
+    expect(years[0].trucks[1]?.delta).toBeNull();
+  });
+
+  test("a scenario that no longer evaluates is reported, not thrown", () => {
+    const broken = scenario("x", { speedLoaded: 0 });
+    const { scenarios, totals } = compareScenarios([base, broken]);
+
+    expect(scenarios[1].evaluation).toBeNull();
+    expect(scenarios[1].error).toBeTruthy();
+    expect(totals[0].values[1]).toBeNull();
+  });
+
+  test("two to four scenarios", () => {
+    expect(() => compareScenarios([base])).toThrow("Compare 2 to 4 scenarios");
+    expect(() => compareScenarios([base, base, base, base, base])).toThrow();
+  });
+});
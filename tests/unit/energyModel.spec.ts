@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { calculateCycleEnergy, DIESEL_KWH_PER_LITRE } from "@/core";
+import { costDrivers, evaluateFleet, type ModelInputs } from "@/lib/analysis/model";
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+
+describe("EnergyModel", () => {
+  it("diesel burn on a level haul follows rolling resistance and mass", () => {
+    /*
+      1,000 m each way, 2% rolling resistance, 50 t empty + 50 t payload
+      Loaded: 100 × 9.81 × 0.02 × 1000 / 3600 = 5.45 kWh at the wheels
+      Empty:   50 × 9.81 × 0.02 × 1000 / 3600 = 2.725 kWh
+      Diesel: 8.175 / 0.4 / 10 = 2.044 L → 1.022 L/km over 2 km
+    */
+    const result = calculateCycleEnergy({
+      distanceLoaded: 1000,
+      distanceUnloaded: 1000,
+      emptyWeight: 50,
+      payload: 50,
+    });
+
+    expect(DIESEL_KWH_PER_LITRE).toBe(10);
+    expect(result.tractionKWh).toBeCloseTo(8.175, 6);
+    expect(result.litres).toBeCloseTo(2.04375, 6);
+    expect(result.litresPerKm).toBeCloseTo(1.021875, 6);
+    expect(result.kWh).toBe(0);
+    expect(result.chargingSecondsPerCycle).toBe(0);
+  });
+
+  it("battery truck recovers braking energy downhill and pays for charging time", () => {
+    /*
+      1,000 m at +8%, 2% rolling resistance
+      Loaded uphill:  100 × 9.81 × 0.10 × 1000 / 3600 = 27.25 kWh traction
+      Empty downhill:  50 × 9.81 × 0.06 × 1000 / 3600 = 8.175 kWh braking
+      Battery: 27.25 / 0.85 − 8.175 × 0.5 = 27.971 kWh
+      Charging: 400 kWh × 80% = 320 usable → 11.44 cycles per charge
+                27.971 / 600 × 3600 + 300 / 11.44 = 167.8 + 26.2 = 194.05 s
+    */
+    const result = calculateCycleEnergy({
+      drivetrain: "battery",
+      route: [{ length: 1000, grade: 8, rollingResistance: 2 }],
+      emptyWeight: 50,
+      payload: 50,
+      battery: { capacityKWh: 400, chargePowerKW: 600 },
+    });
+
+    expect(result.brakingKWh).toBeCloseTo(8.175, 6);
+    expect(result.regenKWh).toBeCloseTo(4.0875, 6);
+    expect(result.kWh).toBeCloseTo(27.9713, 3);
+    expect(result.litres).toBe(0);
+    expect(result.cyclesPerCharge).toBeCloseTo(11.44, 2);
+    expect(result.chargingSecondsPerCycle).toBeCloseTo(194.05, 1);
+  });
+
+  it("trolley truck runs on the line on steep loaded uphill only", () => {
+    const result = calculateCycleEnergy({
+      drivetrain: "trolley",
+      route: [
+        { length: 1000, grade: 8, rollingResistance: 2 },
+        { length: 1000, grade: 0, rollingResistance: 2 },
+      ],
+      emptyWeight: 50,
+      payload: 50,
+    });
+
+    // Wired: 27.25 / 0.85 kWh; diesel: flat legs 5.45 + 2.725 kWh at 40%
+    expect(result.kWh).toBeCloseTo(27.25 / 0.85, 6);
+    expect(result.litres).toBeCloseTo(8.175 / 0.4 / 10, 6);
+    expect(result.wiredSharePercent).toBeCloseTo(25, 6);
+  });
+
+  it("throws when one cycle needs more than the usable battery", () => {
+    expect(() =>
+      calculateCycleEnergy({
+        drivetrain: "battery",
+        route: [{ length: 1000, grade: 8, rollingResistance: 2 }],
+        emptyWeight: 50,
+        payload: 50,
+        battery: { capacityKWh: 20, chargePowerKW: 600 },
+      })
+    ).toThrow("Usable battery capacity is less than the energy of one haul cycle");
+    expect(() =>
+      calculateCycleEnergy({
+        drivetrain: "battery",
+        distanceLoaded: 1000,
+        distanceUnloaded: 1000,
+        emptyWeight: 50,
+        payload: 50,
+      })
+    ).toThrow();
+  });
+
+  it("charging lowers availability in the fleet model and feeds cost drivers", () => {
+    const inputs: ModelInputs = {
+      haulCycle: {
+        distanceLoadedKm: 1.45,
+        distanceUnloadedKm: 1.45,
+        speedLoaded: 25,
+        speedUnloaded: 30,
+        loadingTime: 120,
+        unloadingTime: 90,
+      },
+      payloadTonnes: 40,
+      availabilityPercent: 90,
+      efficiencyPercent: 60,
+      utilizationPercent: 90,
+      productionPlan: [{ year: 2026, tonnesPerYear: 5_000_000 }],
+      costModel: COST_MODEL_DEFAULTS,
+    };
+    const energy = {
+      enabled: true,
+      drivetrain: "battery" as const,
+      emptyWeightTonnes: 35,
+      batteryKWh: 400,
+      batteryUsablePercent: 80,
+      chargePowerKW: 600,
+      trolleyMinGrade: 4,
+    };
+
+    const base = evaluateFleet(inputs);
+    const battery = evaluateFleet({ ...inputs, energy });
+    const e = battery.energy!;
+
+    expect(base.energy).toBeUndefined();
+    expect(battery.cycleTimeSeconds).toBe(base.cycleTimeSeconds);
+    expect(e.chargingAvailabilityFactor).toBeCloseTo(
+      base.cycleTimeSeconds / (base.cycleTimeSeconds + e.chargingSecondsPerCycle),
+      9
+    );
+    expect(battery.effectiveFactor).toBeCloseTo(
+      base.effectiveFactor * e.chargingAvailabilityFactor,
+      9
+    );
+
+    const [driver] = costDrivers(battery, { loadedKm: 1.45, unloadedKm: 1.45 });
+    expect(driver.electricityKWhPerYear).toBeCloseTo(driver.kmPerYear * e.kWhPerKm, 6);
+    expect(driver.dieselLitresPerYear).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, test, expect } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FileScenarioRepository, revisionsPath } from "@/lib/scenarios/fileRepository";
+import { RevisionConflictError } from "@/lib/scenarios/revisions";
+import type { Scenario } from "@/lib/scenarios/schema";
+import { scenario } from "./fixtures/scenario";
+
+describe("FileScenarioRepository", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "scenarios-"));
+    file = path.join(dir, "nested", "scenarios.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("starts empty and creates its file on first save", async () => {
+    const repo = new FileScenarioRepository(file);
+    expect(await repo.list()).toEqual([]);
+
+    await repo.save(scenario("a"));
+    const stored = JSON.parse(await readFile(file, "utf8"));
+    expect(stored.map((s: Scenario) => s.id)).toEqual(["a"]);
+  });
+
+  test("saves, updates in place, gets and removes", async () => {
+    const repo = new FileScenarioRepository(file);
+    await repo.save(scenario("a"));
+    await repo.save(scenario("b"));
+    await repo.save(scenario("a", { name: "Renamed" })); // loaded at revision 1
+
+    expect((await repo.list()).map((s) => s.name)).toEqual(["Renamed", "Scenario b"]);
+    expect((await repo.get("b"))?.name).toBe("Scenario b");
+    expect(await repo.get("missing")).toBeNull();
+
+    await repo.remove("a");
+    expect((await repo.list()).map((s) => s.id)).toEqual(["b"]);
+  });
+
+  test("concurrent saves all land", async () => {
+    const repo = new FileScenarioRepository(file);
+    await Promise.all(["a", "b", "c", "d"].map((id) => repo.save(scenario(id))));
+
+    expect((await new FileScenarioRepository(file).list()).map((s) => s.id).sort()).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+
+  test("unreadable entries are skipped but kept in the file", async () => {
+    const bad = { id: "x", name: "" };
+    const flat = path.join(dir, "scenarios.json");
+    await writeFile(flat, JSON.stringify([scenario("a"), bad]), "utf8");
+    const repo = new FileScenarioRepository(flat);
+
+    expect((await repo.list()).map((s) => s.id)).toEqual(["a"]);
+    await repo.save(scenario("b"));
+    const stored = JSON.parse(await readFile(flat, "utf8"));
+    expect(stored).toContainEqual(bad);
+    expect(stored).toHaveLength(3);
+  });
+
+  test("a scenario repaired without an id keeps the same id across reads", async () => {
+    const flat = path.join(dir, "scenarios.json");
+    await writeFile(flat, JSON.stringify([{ ...scenario("a"), id: "" }]), "utf8");
+    const repo = new FileScenarioRepository(flat);
+
+    const [first] = await repo.list();
+    const [second] = await repo.list();
+    expect(first.id).not.toBe("");
+    expect(second.id).toBe(first.id);
+    expect((await repo.get(first.id))?.name).toBe("Scenario a");
+  });
+
+  test("updates record revisions, restore and branch", async () => {
+    const repo = new FileScenarioRepository(file);
+    const first = await repo.save(scenario("a"), "Ann");
+    const second = await repo.save({ ...first, payloadTonnes: 50 }, "Bo");
+
+    expect(second).toMatchObject({ revision: 2, updatedBy: "Bo", createdAt: first.createdAt });
+    // A second update from revision 1 would overwrite Bo's change
+    await expect(repo.save({ ...first, payloadTonnes: 60 }, "Ann")).rejects.toThrow(
+      RevisionConflictError
+    );
+
+    const restored = await repo.restore("a", 1, "Ann");
+    expect(restored).toMatchObject({ revision: 3, payloadTonnes: 40 });
+    expect((await repo.revisions("a")).map((r) => [r.revision, r.changedFields])).toEqual([
+      [1, []],
+      [2, ["payloadTonnes"]],
+      [3, ["payloadTonnes"]],
+    ]);
+
+    const branch = await repo.branch("a", 2, undefined, "Cy");
+    expect(branch).toMatchObject({
+      revision: 1,
+      payloadTonnes: 50,
+      name: "Scenario a (branch of r2)",
+      branchedFrom: { scenarioId: "a", revision: 2 },
+    });
+    expect(await repo.restore("a", 9)).toBeNull();
+
+    await repo.remove("a");
+    expect(await repo.revisions("a")).toEqual([]);
+    expect(await repo.revisions(branch!.id)).toHaveLength(1);
+    const log = JSON.parse(await readFile(revisionsPath(file), "utf8"));
+    expect(log).toHaveLength(1);
+  });
+
+  test("a store that is not a list is an error", async () => {
+    await writeFile(path.join(dir, "bad.json"), JSON.stringify({ id: "a" }), "utf8");
+    const repo = new FileScenarioRepository(path.join(dir, "bad.json"));
+
+    await expect(repo.list()).rejects.toThrow("is not a list");
+  });
+});
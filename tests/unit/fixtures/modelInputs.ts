@@ -0,0 +1,23 @@
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import type { ModelInputs } from "@/lib/analysis/model";
+
+// A fixed-distance haul with a two-year plan, shared by the analysis specs
+export const MODEL_INPUTS: ModelInputs = {
+  haulCycle: {
+    distanceLoadedKm: 1.45,
+    distanceUnloadedKm: 1.45,
+    speedLoaded: 25,
+    speedUnloaded: 30,
+    loadingTime: 120,
+    unloadingTime: 90,
+  },
+  payloadTonnes: 40,
+  availabilityPercent: 90,
+  efficiencyPercent: 60,
+  utilizationPercent: 90,
+  productionPlan: [
+    { year: 2026, tonnesPerYear: 5_000_000 },
+    { year: 2027, tonnesPerYear: 6_000_000 },
+  ],
+  costModel: COST_MODEL_DEFAULTS,
+};
@@ -0,0 +1,34 @@
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import { SCENARIO_SCHEMA_VERSION, type Scenario } from "@/lib/scenarios/schema";
+
+// A valid saved scenario at the current schema version, shared by the scenario specs
+export function scenario(id: string, overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    schemaVersion: SCENARIO_SCHEMA_VERSION,
+    id,
+    name: `Scenario ${id}`,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    revision: 1,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    distanceLoaded: 2000,
+    distanceUnloaded: 2000,
+    speedLoaded: 20,
+    speedUnloaded: 30,
+    loadingTime: 120,
+    unloadingTime: 60,
+    payloadTonnes: 40,
+    availability: 0.9,
+    efficiency: 0.8,
+    utilization: 0.9,
+    productionPlan: [
+      { year: 2026, tonnesPerYear: 5_000_000 },
+      { year: 2027, tonnesPerYear: 6_000_000 },
+    ],
+    costModel: COST_MODEL_DEFAULTS,
+    cycleTimeSeconds: 900,
+    tonnesPerHour: 100,
+    tonnesPerTruckYear: 500_000,
+    effectiveFactor: 0.65,
+    ...overrides,
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRandom,
+  sampleLognormal,
+  runFleetSimulation,
+  calculateLoaderMatch,
+} from "@/core";
+
+const BASE = {
+  trucks: 4,
+  haulTimeSeconds: 600,
+  returnTimeSeconds: 480,
+  serviceTimeSeconds: 150,
+  dumpTimeSeconds: 60,
+  payloadTonnes: 40,
+};
+
+describe("FleetSimulation", () => {
+  describe("random", () => {
+    it("same seed gives the same sequence", () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      for (let i = 0; i < 10; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    it("lognormal samples have the requested mean", () => {
+      const rng = createRandom(7);
+      let sum = 0;
+      const n = 20000;
+      for (let i = 0; i < n; i++) sum += sampleLognormal(rng, 100, 0.3);
+      expect(sum / n).toBeGreaterThan(98);
+      expect(sum / n).toBeLessThan(102);
+    });
+  });
+
+  describe("runFleetSimulation", () => {
+    it("is reproducible for a fixed seed", () => {
+      const a = runFleetSimulation({ ...BASE, seed: 123, mtbfHours: 40 });
+      const b = runFleetSimulation({ ...BASE, seed: 123, mtbfHours: 40 });
+      expect(a).toEqual(b);
+    });
+
+    it("different seeds give different results", () => {
+      const a = runFleetSimulation({ ...BASE, seed: 1 });
+      const b = runFleetSimulation({ ...BASE, seed: 2 });
+      expect(a.tonnesDelivered).not.toBe(b.tonnesDelivered);
+    });
+
+    it("single truck without variance matches the analytic result", () => {
+      /*
+        Cycle = 600 + 480 + 150 + 60 = 1290 s
+        12 h shift = 43200 s → 33 full cycles (33 × 1290 = 42570 s)
+        Analytic = 40 × 3600 / 1290 = 111.6 t/h
+      */
+      const result = runFleetSimulation({
+        ...BASE,
+        trucks: 1,
+        travelTimeCv: 0,
+        serviceTimeCv: 0,
+      });
+
+      expect(result.cyclesCompleted).toBe(33);
+      expect(result.meanCycleTimeSeconds).toBeCloseTo(1290, 6);
+      expect(result.meanLoaderQueueSeconds).toBe(0);
+      expect(result.analytic.tonnesPerHour).toBeCloseTo((40 * 3600) / 1290, 6);
+      expect(Math.abs(result.deltaPercent)).toBeLessThan(3);
+    });
+
+    it("saturated loader caps production at loader capacity", () => {
+      /*
+        12 trucks × 150 s service vs. 1290 s cycle → match factor ≈ 1.4
+        Loader can fill at most 3600 / 150 = 24 trucks/h = 960 t/h
+      */
+      const result = runFleetSimulation({
+        ...BASE,
+        trucks: 12,
+        travelTimeCv: 0,
+        serviceTimeCv: 0,
+      });
+
+      expect(result.tonnesPerHour).toBeLessThanOrEqual(960);
+      expect(result.tonnesPerHour).toBeGreaterThan(900);
+      expect(result.loaderUtilisation).toBeGreaterThan(0.95);
+      expect(result.meanLoaderQueueSeconds).toBeGreaterThan(0);
+      expect(result.deltaPercent).toBeLessThan(-20);
+    });
+
+    it("queue times agree with the finite-source queue model", () => {
+      const trucks = 7;
+      const sim = runFleetSimulation({
+        ...BASE,
+        trucks,
+        dumps: trucks,
+        travelTimeCv: 0.3,
+        serviceTimeCv: 0.3,
+        replications: 10,
+      });
+      const analytic = calculateLoaderMatch({
+        serviceTimeSeconds: BASE.serviceTimeSeconds,
+        travelTimeSeconds:
+          BASE.haulTimeSeconds + BASE.returnTimeSeconds + BASE.dumpTimeSeconds,
+        trucks,
+      });
+
+      // Exponential-time queue model is conservative for lower-variance times:
+      // less queueing, busier loader, but never above the queue-free utilisation
+      const queueFreeUtilisation = (trucks * 150) / 1290;
+      expect(sim.meanLoaderQueueSeconds).toBeGreaterThan(0);
+      expect(sim.meanLoaderQueueSeconds).toBeLessThan(analytic.queueTimeSeconds);
+      expect(sim.loaderUtilisation).toBeGreaterThan(analytic.loaderUtilisation);
+      expect(sim.loaderUtilisation).toBeLessThan(queueFreeUtilisation);
+    });
+
+    it("finishes with many replications of a long, busy shift", () => {
+      // ~600k loader waits: too many to spread into Math.max
+      const result = runFleetSimulation({
+        ...BASE,
+        trucks: 40,
+        loaders: 4,
+        shiftHours: 24,
+        replications: 1000,
+      });
+
+      expect(Number.isFinite(result.maxLoaderQueueSeconds)).toBe(true);
+      expect(result.maxLoaderQueueSeconds).toBeGreaterThanOrEqual(result.meanLoaderQueueSeconds);
+    }, 60_000);
+
+    it("breakdowns reduce availability and production", () => {
+      const healthy = runFleetSimulation({ ...BASE, replications: 20 });
+      const broken = runFleetSimulation({
+        ...BASE,
+        mtbfHours: 6,
+        mttrHours: 3,
+        replications: 20,
+      });
+
+      expect(healthy.truckAvailability).toBe(1);
+      expect(broken.truckAvailability).toBeLessThan(0.9);
+      expect(broken.tonnesPerHour).toBeLessThan(healthy.tonnesPerHour);
+      expect(broken.truckUtilisation).toBeLessThanOrEqual(broken.truckAvailability);
+    });
+  });
+});
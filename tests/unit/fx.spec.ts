@@ -0,0 +1,68 @@
+import { describe, test, expect } from "vitest";
+import { calcCostBreakdown, COST_MODEL_DEFAULTS, type YearlyDriver } from "@/lib/cost/calcCost";
+import { convertCurrency, fxRate, reportIn, setLineCurrency } from "@/lib/cost/fx";
+import { calcCostKpis, calcReportingKpis } from "@/lib/cost/kpis";
+
+describe("fx", () => {
+  const model = {
+    ...COST_MODEL_DEFAULTS,
+    fxRates: { USD: 1.1 },
+    fxByYear: { 2027: { USD: 1.2 }, 2029: { SEK: 11.5 } },
+  };
+
+  test("rates come from the latest table year, then the base rates", () => {
+    expect(fxRate(model, "EUR", 2026)).toBe(1);
+    expect(fxRate(model, "USD", 2026)).toBe(1.1);
+    expect(fxRate(model, "USD", 2028)).toBe(1.2);
+    expect(fxRate(model, "SEK", 2028)).toBe(11);
+    expect(fxRate(model, "SEK", 2030)).toBe(11.5);
+    expect(convertCurrency(model, 120, "USD", "SEK", 2027)).toBeCloseTo(1100, 9);
+    expect(() => fxRate(model, "AUD", 2026)).toThrow("No FX rate for AUD in 2026");
+  });
+
+  test("setLineCurrency converts the line's amounts", () => {
+    const next = setLineCurrency(model, "truckPrice", "USD", 2026);
+
+    expect(next.costCurrencies).toEqual({ truckPrice: "USD" });
+    expect(next.truckPriceEUR).toBeCloseTo(330_000, 6);
+    expect(next.truckLicenseEURPerYear).toBe(COST_MODEL_DEFAULTS.truckLicenseEURPerYear);
+  });
+
+  test("reporting view restates totals at each year's rate", () => {
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 2, kmPerYear: 10_000, tonnesPerYear: 100_000 },
+      { year: 2027, fleetSize: 2, kmPerYear: 10_000, tonnesPerYear: 100_000 },
+    ];
+    const costs = calcCostBreakdown(model, drivers);
+    const usd = reportIn(costs, model, "USD");
+
+    expect(usd.rows[0].totalCost).toBeCloseTo(costs.rows[0].totalCostEUR * 1.1, 6);
+    expect(usd.rows[1].totalCost).toBeCloseTo(costs.rows[1].totalCostEUR * 1.2, 6);
+    expect(usd.totals.npv).toBeCloseTo(usd.rows[0].totalCost + usd.rows[1].totalCost, 6);
+    expect(calcReportingKpis(usd, drivers).period.costPerTonne).toBeCloseTo(
+      usd.totals.totalCost / 200_000,
+      9
+    );
+
+    // EUR and SEK read the breakdown's own figures
+    const sek = reportIn(costs, model, "SEK");
+    expect(sek.totals.totalCost).toBe(costs.periodTotals.totalCostSEK);
+    expect(calcReportingKpis(sek, drivers).rows[0].costPerTonne).toBeCloseTo(
+      calcCostKpis(costs, drivers).rows[0].costPerTonneSEK!,
+      9
+    );
+  });
+
+  test("reporting in a currency first quoted in a later year fails for earlier years", () => {
+    // Listed as a reporting currency, but 2026 has no AUD rate
+    const later = { ...model, fxByYear: { ...model.fxByYear, 2027: { USD: 1.2, AUD: 1.6 } } };
+    const drivers: YearlyDriver[] = [
+      { year: 2026, fleetSize: 2, kmPerYear: 10_000, tonnesPerYear: 100_000 },
+      { year: 2027, fleetSize: 2, kmPerYear: 10_000, tonnesPerYear: 100_000 },
+    ];
+    const costs = calcCostBreakdown(later, drivers);
+
+    expect(fxRate(later, "AUD", 2027)).toBe(1.6);
+    expect(() => reportIn(costs, later, "AUD")).toThrow("No FX rate for AUD in 2026");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, test, expect } from "vitest";
+import { evaluateModel, setModelVariable, type ModelInputs } from "@/lib/analysis/model";
+import { evaluateGoalOutput, goalSeek } from "@/lib/analysis/goalSeek";
+import { MODEL_INPUTS } from "./fixtures/modelInputs";
+
+const INPUTS: ModelInputs = {
+  ...MODEL_INPUTS,
+  productionPlan: [...MODEL_INPUTS.productionPlan, { year: 2028, tonnesPerYear: 4_300_000 }],
+};
+
+describe("goalSeek", () => {
+  test("efficiency needed for a smaller fleet in a given year", () => {
+    const base = evaluateModel(INPUTS).fleet.yearlyFleet[1].trucksRequired;
+    const target = base - 1;
+
+    const result = goalSeek(INPUTS, {
+      variable: "efficiencyPercent",
+      output: { type: "trucksRequired", year: 2027 },
+      target,
+      lower: 50,
+      upper: 100,
+    });
+
+    expect(result.achieved).toBeLessThanOrEqual(target);
+    expect(result.value).toBeGreaterThan(60);
+    // Applied value is a whole percent that still meets the target…
+    expect(Number.isInteger(result.appliedValue)).toBe(true);
+    // …and one percent less does not
+    const below = evaluateGoalOutput(
+      setModelVariable(INPUTS, "efficiencyPercent", result.appliedValue - 1),
+      { type: "trucksRequired", year: 2027 }
+    );
+    expect(below).toBeGreaterThan(target);
+  });
+
+  test("truck price that brings total cost under a target", () => {
+    const { costs } = evaluateModel(INPUTS);
+    const target = costs.periodTotals.totalCostEUR - 500_000;
+
+    const result = goalSeek(INPUTS, {
+      variable: "truckPriceEUR",
+      output: { type: "totalCostEUR" },
+      target,
+      lower: 0,
+      upper: 1_000_000,
+    });
+
+    // Cost is linear in price: price drop × trucks bought = 500 000
+    const trucksBought = costs.periodTotals.capexTrucksEUR / 300_000;
+    expect(result.value).toBeCloseTo(300_000 - 500_000 / trucksBought, 0);
+    expect(result.appliedValue % 25_000).toBe(0);
+    expect(result.achieved).toBeLessThanOrEqual(target);
+  });
+
+  test("speed for a target tonnes per hour (at least)", () => {
+    const result = goalSeek(INPUTS, {
+      variable: "speedLoaded",
+      output: { type: "tonnesPerHour" },
+      target: 60,
+      lower: 5,
+      upper: 60,
+    });
+
+    expect(result.achieved).toBeGreaterThanOrEqual(60);
+    const tph = evaluateGoalOutput(setModelVariable(INPUTS, "speedLoaded", result.value), {
+      type: "tonnesPerHour",
+    });
+    expect(tph).toBeCloseTo(60, 2);
+  });
+
+  test("unreachable targets and bad bounds throw", () => {
+    expect(() =>
+      goalSeek(INPUTS, {
+        variable: "availabilityPercent",
+        output: { type: "trucksRequired", year: 2027 },
+        target: 1,
+        lower: 50,
+        upper: 100,
+      })
+    ).toThrow(/cannot be met/);
+
+    expect(() =>
+      goalSeek(INPUTS, {
+        variable: "availabilityPercent",
+        output: { type: "trucksRequired", year: 2027 },
+        target: 10,
+        lower: 50,
+        upper: 120,
+      })
+    ).toThrow(/bounds/);
+
+    expect(() =>
+      goalSeek(INPUTS, {
+        variable: "payloadTonnes",
+        output: { type: "trucksRequired", year: 2040 },
+        target: 10,
+        lower: 10,
+        upper: 100,
+      })
+    ).toThrow(/2040/);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateRouteTravel,
+  calculateHaulCycleTime,
+  gradeLimitedSpeed,
+  REFERENCE_ROLLING_RESISTANCE,
+} from "@/core";
+
+describe("HaulRoute", () => {
+  it("flat segment at reference resistance travels at base speed", () => {
+    /*
+      1,450 m flat gravel (2% rolling resistance)
+      Loaded 25 km/h → 208.8 s, empty 30 km/h → 174.0 s
+    */
+    const result = calculateRouteTravel(
+      [{ length: 1450, grade: 0 }],
+      { speedLoaded: 25, speedUnloaded: 30 }
+    );
+
+    expect(result.totalLength).toBe(1450);
+    expect(result.segments[0].rollingResistance).toBe(REFERENCE_ROLLING_RESISTANCE);
+    expect(result.loadedTravelTime).toBeCloseTo(208.8, 1);
+    expect(result.unloadedTravelTime).toBeCloseTo(174.0, 1);
+  });
+
+  it("uphill loaded is power limited, downhill empty holds base speed", () => {
+    /*
+      1,000 m at +8% grade, 2% rolling resistance
+      Loaded:  TR = 10% → 25 × 2 / 10 = 5 km/h → 720 s
+      Empty:   TR = −6% → base speed 30 km/h → 120 s
+    */
+    const result = calculateRouteTravel(
+      [{ length: 1000, grade: 8, rollingResistance: 2 }],
+      { speedLoaded: 25, speedUnloaded: 30 }
+    );
+
+    const s = result.segments[0];
+    expect(s.totalResistanceLoaded).toBe(10);
+    expect(s.totalResistanceUnloaded).toBe(-6);
+    expect(s.speedLoaded).toBeCloseTo(5, 5);
+    expect(s.speedUnloaded).toBe(30);
+    expect(s.travelTimeLoaded).toBeCloseTo(720, 5);
+    expect(s.travelTimeUnloaded).toBeCloseTo(120, 5);
+  });
+
+  it("speed limit caps both directions", () => {
+    const result = calculateRouteTravel(
+      [{ length: 500, grade: 0, speedLimit: 15 }],
+      { speedLoaded: 25, speedUnloaded: 30 }
+    );
+
+    expect(result.segments[0].speedLoaded).toBe(15);
+    expect(result.segments[0].speedUnloaded).toBe(15);
+  });
+
+  it("surface type sets the default rolling resistance", () => {
+    const result = calculateRouteTravel(
+      [{ length: 1000, grade: 0, surface: "soft" }],
+      { speedLoaded: 24, speedUnloaded: 24 }
+    );
+
+    // 8% rolling resistance → 24 × 2 / 8 = 6 km/h
+    expect(result.segments[0].rollingResistance).toBe(8);
+    expect(result.segments[0].speedLoaded).toBeCloseTo(6, 5);
+  });
+
+  it("sums segment times over a multi-segment route", () => {
+    const route = [
+      { length: 400, grade: 0 },
+      { length: 900, grade: 10 },
+      { length: 300, grade: -2, speedLimit: 20 },
+    ];
+    const result = calculateRouteTravel(route, { speedLoaded: 30, speedUnloaded: 35 });
+
+    const loaded = result.segments.reduce((s, x) => s + x.travelTimeLoaded, 0);
+    const unloaded = result.segments.reduce((s, x) => s + x.travelTimeUnloaded, 0);
+
+    expect(result.totalLength).toBe(1600);
+    expect(result.loadedTravelTime).toBeCloseTo(loaded, 6);
+    expect(result.unloadedTravelTime).toBeCloseTo(unloaded, 6);
+  });
+
+  it("gradeLimitedSpeed never exceeds the base speed", () => {
+    expect(gradeLimitedSpeed(30, -10)).toBe(30);
+    expect(gradeLimitedSpeed(30, 1)).toBe(30);
+    expect(gradeLimitedSpeed(30, 4)).toBeCloseTo(15, 5);
+  });
+
+  it("rejects an empty route and out-of-range grades", () => {
+    expect(() => calculateRouteTravel([], { speedLoaded: 25, speedUnloaded: 30 })).toThrow();
+    expect(() =>
+      calculateRouteTravel([{ length: 100, grade: 45 }], { speedLoaded: 25, speedUnloaded: 30 })
+    ).toThrow();
+  });
+});
+
+describe("HaulCycleTime with route", () => {
+  it("flat route matches the two-distance special case", () => {
+    const flat = calculateHaulCycleTime({
+      distanceLoaded: 1450,
+      distanceUnloaded: 1450,
+      speedLoaded: 25,
+      speedUnloaded: 30,
+      loadingTime: 120,
+      unloadingTime: 90,
+    });
+
+    const routed = calculateHaulCycleTime({
+      route: [{ length: 1450, grade: 0 }],
+      speedLoaded: 25,
+      speedUnloaded: 30,
+      loadingTime: 120,
+      unloadingTime: 90,
+    });
+
+    expect(routed.cycleTimeSeconds).toBeCloseTo(flat.cycleTimeSeconds, 6);
+    expect(routed.segments).toHaveLength(1);
+    expect(flat.segments).toBeUndefined();
+  });
+
+  it("rolls segment times into the cycle time", () => {
+    const result = calculateHaulCycleTime({
+      route: [{ length: 1000, grade: 8, rollingResistance: 2 }],
+      speedLoaded: 25,
+      speedUnloaded: 30,
+      loadingTime: 120,
+      unloadingTime: 90,
+    });
+
+    // 720 s loaded + 120 s empty + 120 s loading + 90 s dumping
+    expect(result.loadedTravelTime).toBeCloseTo(720, 5);
+    expect(result.unloadedTravelTime).toBeCloseTo(120, 5);
+    expect(result.cycleTimeSeconds).toBeCloseTo(1050, 5);
+  });
+
+  it("throws when neither route nor distances are given", () => {
+    expect(() =>
+      calculateHaulCycleTime({
+        speedLoaded: 25,
+        speedUnloaded: 30,
+        loadingTime: 120,
+        unloadingTime: 90,
+      })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from "vitest";
+import { calcCostBreakdown, COST_MODEL_DEFAULTS, type YearlyDriver } from "@/lib/cost/calcCost";
+import { calcCostKpis } from "@/lib/cost/kpis";
+
+describe("calcCostKpis", () => {
+  const drivers: YearlyDriver[] = [
+    {
+      year: 2026,
+      fleetSize: 10,
+      kmPerYear: 100_000,
+      hoursPerYear: 43_800,
+      tonnesPerYear: 1_000_000,
+      tonneKmPerYear: 1_450_000,
+    },
+    {
+      year: 2027,
+      fleetSize: 12,
+      kmPerYear: 120_000,
+      hoursPerYear: 52_560,
+      tonnesPerYear: 1_200_000,
+      tonneKmPerYear: 1_740_000,
+    },
+  ];
+
+  test("per-year KPIs from the cost rows and drivers", () => {
+    const costs = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+    const { rows } = calcCostKpis(costs, drivers);
+
+    // 2026: 3 200 000 CAPEX + 500 000 OPEX EUR + 800 000 SEK / 11
+    const total2026 = 3_700_000 + 800_000 / 11;
+    expect(rows[0].costPerTonneEUR).toBeCloseTo(total2026 / 1_000_000, 9);
+    expect(rows[0].costPerTonneSEK).toBeCloseTo((total2026 * 11) / 1_000_000, 9);
+    expect(rows[0].costPerTonneKmEUR).toBeCloseTo(total2026 / 1_450_000, 9);
+    expect(rows[0].capexPerTruckEUR).toBe(320_000);
+    expect(rows[0].opexPerHourEUR).toBeCloseTo((500_000 + 800_000 / 11) / 43_800, 9);
+  });
+
+  test("period KPIs use period sums and the peak fleet", () => {
+    const costs = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+    const { period } = calcCostKpis(costs, drivers);
+    const t = costs.periodTotals;
+
+    expect(period.costPerTonneEUR).toBeCloseTo(t.totalCostEUR / 2_200_000, 9);
+    expect(period.costPerTonneKmEUR).toBeCloseTo(t.totalCostEUR / 3_190_000, 9);
+    expect(period.capexPerTruckEUR).toBeCloseTo(t.capexTotalEUR / 12, 9);
+    expect(period.opexPerHourSEK).toBeCloseTo(
+      (t.opexTotalEUR * 11 + t.opexTotalSEK) / 96_360,
+      9
+    );
+  });
+
+  test("KPIs without a basis are null", () => {
+    const bare: YearlyDriver[] = [
+      { year: 2026, fleetSize: 0, kmPerYear: 0 },
+      { year: 2027, fleetSize: 5, kmPerYear: 50_000, tonnesPerYear: 500_000 },
+    ];
+    const costs = calcCostBreakdown(COST_MODEL_DEFAULTS, bare);
+    const { rows, period } = calcCostKpis(costs, bare);
+
+    expect(rows[0].costPerTonneEUR).toBeNull();
+    expect(rows[0].capexPerTruckEUR).toBeNull();
+    expect(rows[1].costPerTonneEUR).not.toBeNull();
+    expect(rows[1].opexPerHourEUR).toBeNull();
+    // One year without tonnes leaves the period basis unknown
+    expect(period.costPerTonneEUR).toBeNull();
+    expect(period.capexPerTruckEUR).toBeCloseTo(costs.periodTotals.capexTotalEUR / 5, 9);
+  });
+});
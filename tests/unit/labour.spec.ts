@@ -0,0 +1,75 @@
+import { describe, test, expect } from "vitest";
+import {
+  calcLabourCost,
+  LABOUR_ROSTER_DEFAULTS,
+  validateLabourRoster,
+  type LabourRoster,
+} from "@/lib/cost/labour";
+
+describe("calcLabourCost", () => {
+  test("headcount per role scales with fleet size and crews", () => {
+    // 10 trucks, 2 shifts + 2 relief crews: 10 operators, ceil(10/4) = 3 techs,
+    // 1 supervisor per crew
+    const { headcount, roles } = calcLabourCost(LABOUR_ROSTER_DEFAULTS, 10);
+
+    expect(roles.map((r) => r.perCrew)).toEqual([10, 3, 1]);
+    expect(roles.map((r) => r.headcount)).toEqual([40, 12, 4]);
+    expect(headcount).toBe(56);
+  });
+
+  test("salary plus overhead, kept in the role's currency", () => {
+    const roster: LabourRoster = {
+      shiftsPerDay: 1,
+      reliefCrews: 1,
+      roles: [
+        {
+          name: "Operator",
+          basis: "perTruck",
+          ratio: 1,
+          salary: 50_000,
+          overheadPercent: 40,
+          currency: "EUR",
+        },
+        {
+          name: "Supervisor",
+          basis: "fixed",
+          ratio: 1,
+          salary: 800_000,
+          overheadPercent: 0,
+          currency: "SEK",
+        },
+      ],
+    };
+    const cost = calcLabourCost(roster, 3);
+
+    // 3 × 2 operators × 50k × 1.4
+    expect(cost.costEUR).toBeCloseTo(420_000, 6);
+    // 1 × 2 supervisors × 800k
+    expect(cost.costSEK).toBe(1_600_000);
+  });
+
+  test("more shifts per day need more crews", () => {
+    const twoShifts = calcLabourCost(LABOUR_ROSTER_DEFAULTS, 10);
+    const threeShifts = calcLabourCost({ ...LABOUR_ROSTER_DEFAULTS, shiftsPerDay: 3 }, 10);
+
+    // 3 shifts + 2 relief crews = 5 crews of 14
+    expect(threeShifts.headcount).toBe(70);
+    expect(threeShifts.costSEK).toBeCloseTo((twoShifts.costSEK * 5) / 4, 4);
+  });
+
+  test("no one is rostered without trucks", () => {
+    expect(calcLabourCost(LABOUR_ROSTER_DEFAULTS, 0).headcount).toBe(0);
+  });
+
+  test("invalid rosters throw", () => {
+    expect(() =>
+      validateLabourRoster({ ...LABOUR_ROSTER_DEFAULTS, reliefCrews: -1 })
+    ).toThrow("reliefCrews must be a whole number of at least 0");
+    expect(() =>
+      validateLabourRoster({
+        ...LABOUR_ROSTER_DEFAULTS,
+        roles: [{ ...LABOUR_ROSTER_DEFAULTS.roles[1], ratio: 0 }],
+      })
+    ).toThrow("Maintenance Technician: trucks per person must be greater than 0");
+  });
+});
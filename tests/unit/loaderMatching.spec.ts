@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateLoadingTime,
+  calculateLoaderMatch,
+  calculateQueueAdjustedFleetSize,
+  calculateFleetSize,
+  calculateHaulProductivity,
+} from "@/core";
+
+describe("LoaderMatching", () => {
+  describe("calculateLoadingTime", () => {
+    it("derives passes and loading time from bucket parameters", () => {
+      /*
+        Bucket 10 m³ × fill 0.9 × density 1.8 = 16.2 t per pass
+        Payload 40 t → ceil(40 / 16.2) = 3 passes
+        Loading = 3 × 35 s = 105 s, service = 30 + 105 = 135 s
+      */
+      const result = calculateLoadingTime({
+        bucketSize: 10,
+        swingTime: 35,
+        payloadTonnes: 40,
+      });
+
+      expect(result.tonnesPerPass).toBeCloseTo(16.2, 6);
+      expect(result.passes).toBe(3);
+      expect(result.loadingTimeSeconds).toBe(105);
+      expect(result.spotTimeSeconds).toBe(30);
+      expect(result.serviceTimeSeconds).toBe(135);
+    });
+
+    it("exact fit does not add a pass", () => {
+      const result = calculateLoadingTime({
+        bucketSize: 10,
+        fillFactor: 1,
+        materialDensity: 2,
+        swingTime: 30,
+        spotTime: 0,
+        payloadTonnes: 40,
+      });
+
+      expect(result.passes).toBe(2);
+      expect(result.serviceTimeSeconds).toBe(60);
+    });
+
+    it("throws on non-positive bucket size", () => {
+      expect(() =>
+        calculateLoadingTime({ bucketSize: 0, swingTime: 30, payloadTonnes: 40 })
+      ).toThrow();
+    });
+  });
+
+  describe("calculateLoaderMatch", () => {
+    it("single truck never queues", () => {
+      const result = calculateLoaderMatch({
+        serviceTimeSeconds: 120,
+        travelTimeSeconds: 480,
+        trucks: 1,
+      });
+
+      expect(result.queueTimeSeconds).toBeCloseTo(0, 6);
+      expect(result.cycleTimeSeconds).toBeCloseTo(600, 6);
+      expect(result.matchFactor).toBeCloseTo(0.2, 6);
+      expect(result.loaderUtilisation).toBeCloseTo(0.2, 6);
+    });
+
+    it("two trucks match the closed-form finite-source result", () => {
+      /*
+        ρ = 120 / 480 = 0.25
+        P0 = 1 / (1 + 2ρ + 2ρ²) = 1 / 1.625 = 0.6154
+        throughput = (1 − P0) / 120
+        cycle = 2 / throughput = 240 / 0.3846 = 624 s
+        queue = 624 − 600 = 24 s
+      */
+      const result = calculateLoaderMatch({
+        serviceTimeSeconds: 120,
+        travelTimeSeconds: 480,
+        trucks: 2,
+      });
+
+      expect(result.loaderUtilisation).toBeCloseTo(1 - 1 / 1.625, 6);
+      expect(result.cycleTimeSeconds).toBeCloseTo(624, 6);
+      expect(result.queueTimeSeconds).toBeCloseTo(24, 6);
+      expect(result.matchFactor).toBeCloseTo(0.4, 6);
+    });
+
+    it("overtrucked loader saturates: cycle grows with truck count", () => {
+      const base = { serviceTimeSeconds: 150, travelTimeSeconds: 450 };
+      const four = calculateLoaderMatch({ ...base, trucks: 4 });
+      const eight = calculateLoaderMatch({ ...base, trucks: 8 });
+
+      expect(four.matchFactor).toBeCloseTo(1, 6);
+      expect(eight.matchFactor).toBeCloseTo(2, 6);
+      expect(eight.loaderUtilisation).toBeGreaterThan(0.99);
+      // Saturated: cycle approaches trucks × serviceTime
+      expect(eight.cycleTimeSeconds).toBeGreaterThan(8 * 150);
+      expect(eight.cycleTimeSeconds).toBeLessThan(8 * 150 * 1.02);
+      expect(eight.queueTimeSeconds).toBeGreaterThan(four.queueTimeSeconds);
+    });
+
+    it("spreads trucks over loaders", () => {
+      const one = calculateLoaderMatch({
+        serviceTimeSeconds: 120,
+        travelTimeSeconds: 480,
+        trucks: 2,
+        loaders: 1,
+      });
+      const two = calculateLoaderMatch({
+        serviceTimeSeconds: 120,
+        travelTimeSeconds: 480,
+        trucks: 2,
+        loaders: 2,
+      });
+
+      expect(two.queueTimeSeconds).toBeCloseTo(0, 6);
+      expect(two.queueTimeSeconds).toBeLessThan(one.queueTimeSeconds);
+    });
+  });
+
+  describe("calculateQueueAdjustedFleetSize", () => {
+    const base = {
+      serviceTimeSeconds: 135,
+      travelTimeSeconds: 465,
+      payloadTonnes: 40,
+    };
+
+    it("never sizes below the queue-free fleet", () => {
+      const queueFree = calculateFleetSize({
+        totalMineTonnesPerYear: 2_000_000,
+        tonnesPerTruckYear: calculateHaulProductivity({
+          cycleTimeSeconds: 600,
+          payloadTonnes: 40,
+        }).tonnesPerTruckYear,
+      });
+
+      const result = calculateQueueAdjustedFleetSize({
+        ...base,
+        totalMineTonnesPerYear: 2_000_000,
+      });
+
+      expect(result.trucksRequired).toBeGreaterThanOrEqual(queueFree.trucksRequired);
+      expect(result.match.cycleTimeSeconds).toBeGreaterThan(600);
+    });
+
+    it("adds trucks when the loader is the bottleneck", () => {
+      const queueFree = calculateFleetSize({
+        totalMineTonnesPerYear: 4_000_000,
+        tonnesPerTruckYear: calculateHaulProductivity({
+          cycleTimeSeconds: 600,
+          payloadTonnes: 40,
+        }).tonnesPerTruckYear,
+      });
+
+      const result = calculateQueueAdjustedFleetSize({
+        ...base,
+        totalMineTonnesPerYear: 4_000_000,
+      });
+
+      expect(result.trucksRequired).toBeGreaterThan(queueFree.trucksRequired);
+      // Fleet actually delivers the target (within the 0.20 rounding rule)
+      expect(result.trucksRequired).toBeGreaterThanOrEqual(Math.floor(result.rawTrucks));
+    });
+
+    it("zero production needs zero trucks", () => {
+      const result = calculateQueueAdjustedFleetSize({
+        ...base,
+        totalMineTonnesPerYear: 0,
+      });
+      expect(result.trucksRequired).toBe(0);
+    });
+
+    it("throws when the target exceeds loader capacity", () => {
+      // 1 loader: 40 t × (31,536,000 / 135) × 0.486 ≈ 4.54 Mt/year
+      expect(() =>
+        calculateQueueAdjustedFleetSize({
+          ...base,
+          totalMineTonnesPerYear: 10_000_000,
+        })
+      ).toThrow(/loader capacity/);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from "vitest";
+import { createRandom, sampleTriangular, sampleUniform } from "@/core";
+import { evaluateModel } from "@/lib/analysis/model";
+import { percentile, runMonteCarlo } from "@/lib/analysis/monteCarlo";
+import { MODEL_INPUTS } from "./fixtures/modelInputs";
+
+describe("Monte Carlo", () => {
+  test("samplers stay within their bounds", () => {
+    const rng = createRandom(3);
+    for (let i = 0; i < 1000; i++) {
+      const t = sampleTriangular(rng, 10, 12, 20);
+      expect(t).toBeGreaterThanOrEqual(10);
+      expect(t).toBeLessThanOrEqual(20);
+      const u = sampleUniform(rng, -1, 1);
+      expect(u).toBeGreaterThanOrEqual(-1);
+      expect(u).toBeLessThan(1);
+    }
+  });
+
+  test("percentile interpolates between ranks", () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+    expect(percentile(sorted, 10)).toBe(2);
+    expect(percentile(sorted, 50)).toBe(6);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+  });
+
+  test("no uncertainty gives the deterministic result at every percentile", () => {
+    const deterministic = evaluateModel(MODEL_INPUTS);
+    const result = runMonteCarlo(MODEL_INPUTS, {}, { iterations: 5, seed: 1 });
+
+    result.trucksByYear.forEach((row, i) => {
+      const trucks = deterministic.fleet.yearlyFleet[i].trucksRequired;
+      expect(row).toEqual({ year: row.year, p10: trucks, p50: trucks, p90: trucks });
+    });
+    expect(result.totalCostEUR.p50).toBeCloseTo(
+      deterministic.costs.periodTotals.totalCostEUR,
+      6
+    );
+  });
+
+  test("is reproducible for a fixed seed and ordered P10 ≤ P50 ≤ P90", () => {
+    const distributions = {
+      availabilityPercent: { type: "triangular", min: 80, mode: 90, max: 95 },
+      speedLoaded: { type: "normal", mean: 25, sd: 3 },
+      fuelSEKPerKm: { type: "uniform", min: 5, max: 9 },
+    } as const;
+
+    const a = runMonteCarlo(MODEL_INPUTS, distributions, { iterations: 300, seed: 42 });
+    const b = runMonteCarlo(MODEL_INPUTS, distributions, { iterations: 300, seed: 42 });
+    expect(a).toEqual(b);
+    expect(a.failures).toBe(0);
+
+    for (const row of a.trucksByYear) {
+      expect(row.p10).toBeLessThanOrEqual(row.p50);
+      expect(row.p50).toBeLessThanOrEqual(row.p90);
+    }
+    expect(a.totalCostEUR.p10).toBeLessThan(a.totalCostEUR.p90);
+  });
+
+  test("lower availability shifts the truck count up", () => {
+    const base = evaluateModel(MODEL_INPUTS).fleet.yearlyFleet[1].trucksRequired;
+    const result = runMonteCarlo(
+      MODEL_INPUTS,
+      { availabilityPercent: { type: "uniform", min: 60, max: 70 } },
+      { iterations: 100, seed: 7 }
+    );
+    expect(result.trucksByYear[1].p10).toBeGreaterThan(base);
+  });
+
+  test("invalid distributions throw", () => {
+    expect(() =>
+      runMonteCarlo(MODEL_INPUTS, {
+        payloadTonnes: { type: "triangular", min: 40, mode: 30, max: 50 },
+      })
+    ).toThrow(/mode/);
+    expect(() =>
+      runMonteCarlo(MODEL_INPUTS, {}, { iterations: 0, seed: 1 })
+    ).toThrow(/iterations/);
+  });
+});
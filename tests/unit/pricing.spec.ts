@@ -0,0 +1,70 @@
+import { describe, test, expect } from "vitest";
+import { calcCostBreakdown, COST_MODEL_DEFAULTS, type YearlyDriver } from "@/lib/cost/calcCost";
+import { calcQuote, PRICING_DEFAULTS, type PricingSettings } from "@/lib/cost/pricing";
+
+describe("calcQuote", () => {
+  const drivers: YearlyDriver[] = [
+    { year: 2026, fleetSize: 10, kmPerYear: 100_000 },
+    { year: 2027, fleetSize: 12, kmPerYear: 120_000 },
+  ];
+  const costs = calcCostBreakdown(COST_MODEL_DEFAULTS, drivers);
+  const pricing: PricingSettings = {
+    currency: "EUR",
+    marginPercent: { trucks: 10, deployment: 20, licenses: 0, operations: 0, labour: 0 },
+    contingencyPercent: 0,
+    volumeDiscounts: [
+      { minTrucks: 10, discountPercent: 5 },
+      { minTrucks: 20, discountPercent: 8 },
+    ],
+    milestones: [
+      { name: "Order", percent: 50, monthsFromDeployment: -6 },
+      { name: "Acceptance", percent: 50, monthsFromDeployment: 12 },
+    ],
+  };
+
+  test("prices per category with margin, then the volume discount", () => {
+    const { customer, internal } = calcQuote(costs, pricing, COST_MODEL_DEFAULTS);
+    const row = customer.rows[0];
+
+    // 2026: 3.0M trucks + 10%, 200k deployment + 20%, 500k licenses, 800k SEK / 11
+    expect(row.lines.trucks).toBeCloseTo(3_300_000, 6);
+    expect(row.lines.deployment).toBeCloseTo(240_000, 6);
+    expect(row.lines.operations).toBeCloseTo(800_000 / 11, 6);
+    // Peak fleet 12 → the 10-truck tier
+    expect(customer.volumeDiscountPercent).toBe(5);
+    expect(row.discount).toBeCloseTo(row.listPrice * 0.05, 6);
+    expect(internal.rows[0].margin).toBeCloseTo(row.price - costs.rows[0].totalCostEUR, 6);
+    expect(internal.totals.price).toBeCloseTo(customer.totals.price, 6);
+  });
+
+  test("milestones split the one-time price and keep the invoiced total", () => {
+    const { customer } = calcQuote(costs, pricing, COST_MODEL_DEFAULTS);
+    const oneTime = (3_300_000 + 240_000) * 0.95;
+
+    // The order milestone falls before the plan and is invoiced in its first year
+    expect(customer.milestones.map((m) => m.year)).toEqual([2026, 2027]);
+    expect(customer.milestones[0].amount).toBeCloseTo(oneTime / 2, 6);
+    expect(customer.rows[0].invoiced).toBeCloseTo(customer.rows[0].price - oneTime / 2, 6);
+    const invoiced = customer.rows.reduce((sum, r) => sum + r.invoiced, 0);
+    expect(invoiced).toBeCloseTo(customer.totals.price, 6);
+  });
+
+  test("the customer quote carries no cost or margin", () => {
+    const { customer } = calcQuote(costs, PRICING_DEFAULTS, COST_MODEL_DEFAULTS);
+
+    expect(JSON.stringify(customer)).not.toMatch(/margin|cost|contingency/i);
+  });
+
+  test("invalid settings throw", () => {
+    expect(() =>
+      calcQuote(
+        costs,
+        { ...pricing, milestones: [{ name: "Order", percent: 90, monthsFromDeployment: 0 }] },
+        COST_MODEL_DEFAULTS
+      )
+    ).toThrow("Milestone percentages must add up to 100");
+    expect(() =>
+      calcQuote(costs, { ...pricing, contingencyPercent: -1 }, COST_MODEL_DEFAULTS)
+    ).toThrow("contingencyPercent must not be negative");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from "vitest";
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import {
+  branchRevision,
+  changedFields,
+  commitRevision,
+  restoreRevision,
+  RevisionConflictError,
+} from "@/lib/scenarios/revisions";
+import type { Scenario } from "@/lib/scenarios/schema";
+import { scenario } from "./fixtures/scenario";
+
+const base = scenario("s1", { name: "Pit A" });
+
+const ann = { by: "Ann", at: "2026-02-01T00:00:00.000Z" };
+const bo = { by: "Bo", at: "2026-03-01T00:00:00.000Z" };
+
+describe("changedFields", () => {
+  test("lists changed inputs and ignores bookkeeping and results", () => {
+    const after: Scenario = {
+      ...base,
+      revision: 4,
+      updatedAt: bo.at,
+      tonnesPerHour: 120,
+      productionPlan: [{ year: 2026, tonnesPerYear: 6_000_000 }],
+      costModel: { ...COST_MODEL_DEFAULTS },
+      pricing: undefined,
+      payloadTonnes: 45,
+    };
+
+    expect(changedFields(base, after)).toEqual(["payloadTonnes", "productionPlan"]);
+  });
+
+  test("notices blocks added or removed", () => {
+    const withLoader: Scenario = {
+      ...base,
+      loader: {
+        enabled: true,
+        bucketSize: 10,
+        fillFactor: 0.9,
+        materialDensity: 1.8,
+        swingTime: 30,
+        spotTime: 20,
+        loaders: 1,
+      },
+    };
+    expect(changedFields(base, withLoader)).toEqual(["loader"]);
+    expect(changedFields(withLoader, base)).toEqual(["loader"]);
+  });
+});
+
+describe("commitRevision", () => {
+  test("a new scenario starts at revision 1", () => {
+    const { scenario, revision } = commitRevision(null, base, ann);
+
+    expect(scenario).toMatchObject({ revision: 1, updatedAt: ann.at, updatedBy: "Ann" });
+    expect(revision).toEqual({
+      scenarioId: "s1",
+      revision: 1,
+      savedAt: ann.at,
+      savedBy: "Ann",
+      changedFields: [],
+      snapshot: scenario,
+    });
+  });
+
+  test("an update bumps the revision and keeps createdAt", () => {
+    const { scenario: current } = commitRevision(null, base, ann);
+    const { scenario, revision } = commitRevision(
+      current,
+      { ...current, name: "Pit A v2", createdAt: "ignored" },
+      bo
+    );
+
+    expect(scenario).toMatchObject({ revision: 2, createdAt: base.createdAt, updatedBy: "Bo" });
+    expect(revision?.changedFields).toEqual(["name"]);
+  });
+
+  test("an update that changes nothing adds no revision", () => {
+    const { scenario: current } = commitRevision(null, base, ann);
+    const result = commitRevision(current, { ...current, updatedAt: bo.at }, bo);
+
+    expect(result.revision).toBeNull();
+    expect(result.scenario).toBe(current);
+  });
+
+  test("an update from a stale revision is refused", () => {
+    const current = { ...base, revision: 3, updatedBy: "Bo" };
+
+    expect(() => commitRevision(current, { ...base, payloadTonnes: 50 }, ann)).toThrow(
+      new RevisionConflictError(current)
+    );
+    expect(new RevisionConflictError(current).message).toBe(
+      "Pit A was changed by Bo since it was loaded (now revision 3)."
+    );
+  });
+});
+
+describe("restore and branch", () => {
+  const first = commitRevision(null, base, ann);
+  const second = commitRevision(first.scenario, { ...first.scenario, payloadTonnes: 50 }, bo);
+
+  test("restoring copies the old snapshot forward", () => {
+    const { scenario, revision } = restoreRevision(second.scenario, first.revision!, ann);
+
+    expect(scenario).toMatchObject({ revision: 3, payloadTonnes: 40, updatedBy: "Ann" });
+    expect(revision).toMatchObject({ restoredFrom: 1, changedFields: ["payloadTonnes"] });
+  });
+
+  test("branching starts a new scenario from any revision", () => {
+    const { scenario } = branchRevision(first.revision!, { id: "s2" }, bo);
+
+    expect(scenario).toMatchObject({
+      id: "s2",
+      name: "Pit A (branch of r1)",
+      revision: 1,
+      createdAt: bo.at,
+      payloadTonnes: 40,
+      branchedFrom: { scenarioId: "s1", revision: 1 },
+    });
+    expect(branchRevision(second.revision!, { id: "s3", name: "Pit B" }, bo).scenario.name).toBe(
+      "Pit B"
+    );
+  });
+});
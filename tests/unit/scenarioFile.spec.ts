@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, test, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import { FileScenarioRepository } from "@/lib/scenarios/fileRepository";
+import {
+  exportScenarios,
+  findConflicts,
+  planImport,
+  readScenarioFile,
+  scenarioFileName,
+  SCENARIO_FILE_VERSION,
+} from "@/lib/scenarios/scenarioFile";
+import type { Scenario } from "@/lib/scenarios/schema";
+import { scenario } from "./fixtures/scenario";
+
+const exportedAt = "2026-05-04T12:00:00.000Z";
+const toText = (scenarios: Scenario[]) => JSON.stringify(exportScenarios(scenarios, exportedAt));
+
+describe("scenario files", () => {
+  test("export then read gives the same scenarios", () => {
+    // A changed cost model must survive the trip whole
+    const costModel = {
+      ...COST_MODEL_DEFAULTS,
+      truckPriceEUR: 123_000,
+      financingMode: "loan" as const,
+    };
+    const scenarios = [scenario("a", { costModel }), { ...scenario("b"), pricing: undefined }];
+    const result = readScenarioFile(toText(scenarios));
+
+    expect(result).toEqual({
+      ok: true,
+      scenarios: JSON.parse(JSON.stringify(scenarios)),
+      rejected: [],
+    });
+  });
+
+  test("upgrades scenarios saved by older versions", () => {
+    const old = { ...scenario("a"), schemaVersion: 2, revision: undefined, updatedAt: undefined };
+    const result = readScenarioFile(
+      JSON.stringify({ ...exportScenarios([], exportedAt), scenarios: [old] })
+    );
+
+    expect(result.ok && result.scenarios[0]).toMatchObject({ schemaVersion: 4, revision: 1 });
+  });
+
+  test("rejects invalid scenarios one by one, without repairing them", () => {
+    const bad = { ...scenario("b"), loader: { enabled: true } };
+    const result = readScenarioFile(
+      JSON.stringify({
+        ...exportScenarios([], exportedAt),
+        scenarios: [scenario("a"), bad, scenario("a")],
+      })
+    );
+
+    expect(result.ok && result.scenarios.map((s) => s.id)).toEqual(["a"]);
+    expect(result.ok && result.rejected.map((r) => [r.index, r.name])).toEqual([
+      [1, "Scenario b"],
+      [2, "Scenario a"],
+    ]);
+  });
+
+  test("files that are not scenario exports are an error", () => {
+    expect(readScenarioFile("{")).toEqual({ ok: false, error: "The file is not valid JSON." });
+    expect(readScenarioFile(JSON.stringify([scenario("a")]))).toEqual({
+      ok: false,
+      error: "The file is not a scenario export.",
+    });
+    const newer = { ...exportScenarios([], exportedAt), version: SCENARIO_FILE_VERSION + 1 };
+    expect(readScenarioFile(JSON.stringify(newer)).ok).toBe(false);
+  });
+
+  test("file names", () => {
+    expect(scenarioFileName([scenario("a", { name: "Pit A – Base Case" })], exportedAt)).toBe(
+      "pit-a-base-case.json"
+    );
+    expect(scenarioFileName([scenario("a"), scenario("b")], exportedAt)).toBe(
+      "scenarios-2026-05-04.json"
+    );
+  });
+});
+
+describe("planImport", () => {
+  const existing = [{ ...scenario("a", { name: "Pit A" }), revision: 4 }, scenario("b", { name: "Pit A (imported)" })];
+  const incoming = [scenario("a", { name: "Pit A" }), scenario("b"), scenario("c")];
+  let ids = 0;
+  const newId = () => `new-${++ids}`;
+
+  test("finds conflicting ids", () => {
+    expect(findConflicts(incoming, existing).map((c) => c.incoming.id)).toEqual(["a", "b"]);
+  });
+
+  test("rename, overwrite and skip", () => {
+    const plan = planImport(incoming, existing, { a: "rename", b: "overwrite" }, newId);
+
+    expect(plan.toSave.map((s) => [s.id, s.name, s.revision])).toEqual([
+      ["new-1", "Pit A (imported 2)", 1],
+      ["b", "Scenario b", 1],
+      ["c", "Scenario c", 1],
+    ]);
+    expect(plan.skipped).toEqual([]);
+    // Overwriting saves on top of the current revision, keeping history
+    expect(planImport([scenario("a")], existing, { a: "overwrite" }).toSave[0].revision).toBe(4);
+  });
+
+  test("unresolved conflicts are skipped", () => {
+    const plan = planImport(incoming, existing, {}, newId);
+
+    expect(plan.toSave.map((s) => s.id)).toEqual(["c"]);
+    expect(plan.skipped.map((s) => s.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("round trip through a repository", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "scenario-file-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("export from one store and import into another loses nothing", async () => {
+    const source = new FileScenarioRepository(path.join(dir, "a.json"));
+    await source.save(scenario("a"));
+    const saved = await source.save({ ...scenario("a"), payloadTonnes: 55 });
+
+    const result = readScenarioFile(toText(await source.list()));
+    if (!result.ok) throw new Error(result.error);
+    const target = new FileScenarioRepository(path.join(dir, "b.json"));
+    for (const s of planImport(result.scenarios, await target.list(), {}).toSave) {
+      await target.save(s);
+    }
+
+    // Only the new store's revision bookkeeping differs
+    const [copy] = await target.list();
+    expect(copy.revision).toBe(1);
+    expect({ ...copy, revision: saved.revision, updatedAt: saved.updatedAt }).toEqual(saved);
+  });
+});
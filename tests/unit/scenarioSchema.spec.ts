@@ -0,0 +1,125 @@
+import { describe, test, expect } from "vitest";
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import { LABOUR_ROSTER_DEFAULTS } from "@/lib/cost/labour";
+import {
+  parseScenario,
+  parseScenarioList,
+  SCENARIO_SCHEMA_VERSION,
+} from "@/lib/scenarios/schema";
+
+// A scenario as saved to localStorage before the schema was versioned
+const v1 = {
+  id: "s1",
+  name: "Pit A",
+  createdAt: "2025-06-01T00:00:00.000Z",
+  distanceLoaded: 2500,
+  distanceUnloaded: 2500,
+  speedLoaded: 20,
+  speedUnloaded: 30,
+  loadingTime: 120,
+  unloadingTime: 60,
+  payloadTonnes: 40,
+  availability: 0.9,
+  efficiency: 0.8,
+  utilization: 0.9,
+  productionPlan: [{ year: 2026, tonnesPerYear: 5_000_000 }],
+  cycleTimeSeconds: 900,
+  tonnesPerHour: 160,
+  tonnesPerTruckYear: 900_000,
+  effectiveFactor: 0.648,
+};
+
+describe("parseScenario", () => {
+  test("upgrades an unversioned payload without a cost model", () => {
+    const result = parseScenario(v1);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.scenario.schemaVersion).toBe(SCENARIO_SCHEMA_VERSION);
+    expect(result.scenario.costModel).toEqual(COST_MODEL_DEFAULTS);
+    expect(result.scenario.revision).toBe(1);
+    expect(result.scenario.updatedAt).toBe(v1.createdAt);
+    expect(result.repairs).toEqual([]);
+  });
+
+  test("fills a missing production plan and keeps a saved cost model", () => {
+    const costModel = { ...COST_MODEL_DEFAULTS, truckPriceEUR: 123_000 };
+    const result = parseScenario({ ...v1, productionPlan: undefined, costModel });
+
+    expect(result.ok && result.scenario.productionPlan).toHaveLength(1);
+    expect(result.ok && result.scenario.costModel.truckPriceEUR).toBe(123_000);
+  });
+
+  test("version 3 labour rosters keep their headcount as relief crews", () => {
+    const labour = { ...LABOUR_ROSTER_DEFAULTS, reliefCrews: undefined, crews: 5 };
+    const result = parseScenario({
+      ...v1,
+      schemaVersion: 3,
+      revision: 1,
+      updatedAt: v1.createdAt,
+      costModel: { ...COST_MODEL_DEFAULTS, labour },
+    });
+
+    expect(result.ok && result.scenario.costModel.labour).toEqual({
+      ...LABOUR_ROSTER_DEFAULTS,
+      reliefCrews: 3,
+    });
+  });
+
+  test("repairs damaged optional blocks and a broken cost model", () => {
+    const result = parseScenario({
+      ...v1,
+      loader: { enabled: true, bucketSize: "big" },
+      costModel: { ...COST_MODEL_DEFAULTS, fxSEKPerEUR: 0 },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.scenario.loader).toBeUndefined();
+    expect(result.scenario.costModel).toEqual(COST_MODEL_DEFAULTS);
+    expect(result.repairs).toEqual([
+      "dropped invalid loader",
+      "reset invalid costModel to defaults",
+    ]);
+  });
+
+  test("does not repair when asked not to", () => {
+    const result = parseScenario(
+      { ...v1, loader: { enabled: true, bucketSize: "big" } },
+      { repair: false }
+    );
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatch(/^loader\./);
+  });
+
+  test("rejects entries it cannot read", () => {
+    expect(parseScenario("not a scenario")).toEqual({
+      ok: false,
+      error: "Scenario is not an object",
+    });
+    expect(parseScenario({ ...v1, name: "  " }).ok).toBe(false);
+    expect(parseScenario({ ...v1, payloadTonnes: undefined }).ok).toBe(false);
+    expect(parseScenario({ ...v1, schemaVersion: SCENARIO_SCHEMA_VERSION + 1 })).toEqual({
+      ok: false,
+      error: `Schema version ${SCENARIO_SCHEMA_VERSION + 1} is newer than this app supports`,
+    });
+  });
+});
+
+describe("parseScenarioList", () => {
+  test("keeps good entries when others are corrupt", () => {
+    const result = parseScenarioList([v1, null, { ...v1, id: "s2", energy: 42 }]);
+
+    expect(result.scenarios.map((s) => s.id)).toEqual(["s1", "s2"]);
+    expect(result.repaired).toEqual([{ id: "s2", repairs: ["dropped invalid energy"] }]);
+    expect(result.rejected).toEqual([{ entry: null, error: "Scenario is not an object" }]);
+  });
+
+  test("a payload that is not a list is rejected whole", () => {
+    const result = parseScenarioList({ v1 });
+
+    expect(result.scenarios).toEqual([]);
+    expect(result.rejected).toHaveLength(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, test, expect } from "vitest";
+import { evaluateModel } from "@/lib/analysis/model";
+import { runSensitivity } from "@/lib/analysis/sensitivity";
+import { MODEL_INPUTS } from "./fixtures/modelInputs";
+
+describe("runSensitivity", () => {
+  test("base outputs match the model", () => {
+    const { fleet, costs } = evaluateModel(MODEL_INPUTS);
+    const result = runSensitivity(MODEL_INPUTS, 10);
+
+    expect(result.base.peakTrucks).toBe(
+      Math.max(...fleet.yearlyFleet.map((y) => y.trucksRequired))
+    );
+    expect(result.base.totalCostEUR).toBeCloseTo(costs.periodTotals.totalCostEUR, 6);
+  });
+
+  test("bars are ranked by swing, largest first", () => {
+    const result = runSensitivity(MODEL_INPUTS, 20);
+    for (const bars of [result.peakTrucks, result.totalCostEUR]) {
+      for (let i = 1; i < bars.length; i++) {
+        expect(bars[i - 1].swing).toBeGreaterThanOrEqual(bars[i].swing);
+      }
+    }
+  });
+
+  test("cost-only inputs do not move the truck count", () => {
+    const result = runSensitivity(MODEL_INPUTS, 10);
+    const price = result.peakTrucks.find((b) => b.id === "truckPriceEUR")!;
+    expect(price.swing).toBe(0);
+
+    const priceCost = result.totalCostEUR.find((b) => b.id === "truckPriceEUR")!;
+    // Truck CAPEX is linear in price: swing = 2 × 10% × capexTrucks
+    const capexTrucks = evaluateModel(MODEL_INPUTS).costs.periodTotals.capexTrucksEUR;
+    expect(priceCost.swing).toBeCloseTo(0.2 * capexTrucks, 2);
+    expect(priceCost.lowValue).toBeCloseTo(270_000, 6);
+    expect(priceCost.highValue).toBeCloseTo(330_000, 6);
+  });
+
+  test("production and payload move the truck count in opposite directions", () => {
+    const result = runSensitivity(MODEL_INPUTS, 20);
+    const production = result.peakTrucks.find((b) => b.id === "productionTonnes")!;
+    const payload = result.peakTrucks.find((b) => b.id === "payloadTonnes")!;
+
+    expect(production.high!).toBeGreaterThan(production.low!);
+    expect(payload.high!).toBeLessThan(payload.low!);
+  });
+
+  test("percent inputs are clamped at 100%", () => {
+    const result = runSensitivity(MODEL_INPUTS, 20);
+    const availability = result.peakTrucks.find((b) => b.id === "availabilityPercent")!;
+    expect(availability.highValue).toBe(100);
+    expect(availability.lowValue).toBeCloseTo(72, 6);
+  });
+
+  test("inputs the model ignores are left out", () => {
+    const withTruckModel = runSensitivity({ ...MODEL_INPUTS, truckModelId: "haul-40t" }, 10);
+    const ids = withTruckModel.peakTrucks.map((b) => b.id);
+    expect(ids).not.toContain("speedLoaded");
+    expect(ids).not.toContain("fmsAnnualLicenseEUR"); // FMS off
+    expect(ids).toContain("distanceLoadedKm");
+  });
+
+  test("variation outside (0, 100) throws", () => {
+    expect(() => runSensitivity(MODEL_INPUTS, 0)).toThrow();
+    expect(() => runSensitivity(MODEL_INPUTS, 100)).toThrow();
+  });
+});
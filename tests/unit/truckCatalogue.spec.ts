@@ -0,0 +1,57 @@
+import { describe, test, expect } from "vitest";
+import { getTruckModel, ratedPayload } from "@/core";
+import { COST_MODEL_DEFAULTS } from "@/lib/cost/calcCost";
+import {
+  applyCatalogueEntry,
+  catalogueFuelSEKPerKm,
+  getCatalogueEntry,
+  TRUCK_CATALOGUE,
+} from "@/lib/trucks/catalogue";
+
+describe("truck catalogue", () => {
+  test("every entry matches a truck performance model", () => {
+    for (const entry of TRUCK_CATALOGUE.models) {
+      const perf = getTruckModel(entry.id);
+      expect(entry.emptyWeightTonnes).toBe(perf.emptyWeight);
+      expect(entry.payloadTonnes).toBe(ratedPayload(perf));
+      expect(entry.maxSpeedLoadedKmh).toBeLessThanOrEqual(perf.maxSpeed);
+      expect(entry.maxSpeedEmptyKmh).toBeLessThanOrEqual(perf.maxSpeed);
+    }
+  });
+
+  test("catalogue has a version and unique ids", () => {
+    expect(TRUCK_CATALOGUE.version).toMatch(/\d{4}\.\d+/);
+    const ids = TRUCK_CATALOGUE.models.map((m) => m.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test("unknown id throws", () => {
+    expect(() => getCatalogueEntry("nope")).toThrow();
+  });
+
+  test("fuel cost per km = burn × diesel price", () => {
+    const entry = getCatalogueEntry("haul-65t");
+    // 0.65 L/km × 15 SEK/L = 9.75 SEK/km
+    expect(catalogueFuelSEKPerKm(entry)).toBeCloseTo(9.75, 6);
+  });
+
+  test("applying an entry fills truck prices and keeps fleet-level inputs", () => {
+    const base = { ...COST_MODEL_DEFAULTS, includeFMS: true, fxSEKPerEUR: 11.5 };
+    const entry = getCatalogueEntry("haul-100t");
+    const model = applyCatalogueEntry(base, entry);
+
+    expect(model.truckPriceEUR).toBe(900_000);
+    expect(model.truckLicenseEURPerYear).toBe(75_000);
+    expect(model.serviceSEKPerKm).toBe(4.5);
+    expect(model.fuelSEKPerKm).toBe(15);
+
+    expect(model.includeFMS).toBe(true);
+    expect(model.fxSEKPerEUR).toBe(11.5);
+    expect(model.deploymentOneTimeEUR).toBe(base.deploymentOneTimeEUR);
+  });
+
+  test("40 t entry reproduces the cost model defaults", () => {
+    const model = applyCatalogueEntry(COST_MODEL_DEFAULTS, getCatalogueEntry("haul-40t"));
+    expect(model).toEqual(COST_MODEL_DEFAULTS);
+  });
+});
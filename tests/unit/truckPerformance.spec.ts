@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  achievableSpeed,
+  calculateHaulCycleTime,
+  calculateHaulProductivity,
+  getTruckModel,
+  ratedPayload,
+  TRUCK_MODELS,
+  type TruckModel,
+} from "@/core";
+
+// Simple model with round numbers: 50 t empty, 100 t GVW
+const model: TruckModel = {
+  id: "test",
+  name: "Test truck",
+  emptyWeight: 50,
+  grossVehicleWeight: 100,
+  maxSpeed: 40,
+  rimpull: [
+    { speed: 0, force: 400 },
+    { speed: 10, force: 200 },
+    { speed: 20, force: 100 },
+    { speed: 40, force: 50 },
+  ],
+  retarder: [
+    { speed: 5, force: 300 },
+    { speed: 20, force: 150 },
+    { speed: 40, force: 75 },
+  ],
+};
+
+describe("TruckPerformance", () => {
+  it("interpolates rimpull-limited speed loaded", () => {
+    /*
+      Loaded uphill, TR = 10%
+      required = 100 t × 9.81 × 0.10 = 98.1 kN
+      Between (20 km/h, 100 kN) and (40 km/h, 50 kN):
+        20 + (100 − 98.1) / 50 × 20 = 20.76 km/h
+    */
+    expect(achievableSpeed(model, 10, true)).toBeCloseTo(20.76, 2);
+  });
+
+  it("empty truck is faster on the same grade", () => {
+    // required = 50 × 9.81 × 0.10 = 49.05 kN → curve covers it to the end → maxSpeed
+    expect(achievableSpeed(model, 10, false)).toBe(40);
+  });
+
+  it("uses the retarder curve downhill", () => {
+    /*
+      Loaded downhill, TR = −15%
+      required = 100 × 9.81 × 0.15 = 147.15 kN
+      Between (20, 150) and (40, 75): 20 + (150 − 147.15) / 75 × 20 = 20.76 km/h
+    */
+    expect(achievableSpeed(model, -15, true)).toBeCloseTo(20.76, 2);
+  });
+
+  it("falls back to the lowest retarder speed on very steep descents", () => {
+    // required = 100 × 9.81 × 0.30 = 294.3 kN < 300 at 5 km/h → just above 5
+    expect(achievableSpeed(model, -30, true)).toBeGreaterThanOrEqual(5);
+    expect(achievableSpeed(model, -30, true)).toBeLessThan(6);
+  });
+
+  it("throws when the truck cannot climb the grade", () => {
+    // required = 100 × 9.81 × 0.45 = 441.5 kN > 400 kN stall rimpull
+    expect(() => achievableSpeed(model, 45, true)).toThrow();
+  });
+
+  it("looks up built-in models and derives rated payload", () => {
+    const m = getTruckModel("haul-40t");
+    expect(ratedPayload(m)).toBe(40);
+    expect(() => getTruckModel("does-not-exist")).toThrow();
+    for (const t of TRUCK_MODELS) {
+      expect(ratedPayload(t)).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("Truck model in cycle time and productivity", () => {
+  it("derives speeds from the model instead of manual speeds", () => {
+    const result = calculateHaulCycleTime({
+      route: [{ length: 1000, grade: 8, rollingResistance: 2 }],
+      truckModelId: "haul-40t",
+      loadingTime: 120,
+      unloadingTime: 90,
+    });
+
+    const m = getTruckModel("haul-40t");
+    const expectedLoaded = achievableSpeed(m, 10, true);
+    expect(result.segments?.[0].speedLoaded).toBeCloseTo(expectedLoaded, 6);
+    expect(result.loadedTravelTime).toBeCloseTo(1000 / ((expectedLoaded * 1000) / 3600), 6);
+  });
+
+  it("uses level road at reference resistance for flat distances", () => {
+    const result = calculateHaulCycleTime({
+      distanceLoaded: 1450,
+      distanceUnloaded: 1450,
+      truckModelId: "haul-40t",
+      loadingTime: 120,
+      unloadingTime: 90,
+    });
+
+    const m = getTruckModel("haul-40t");
+    expect(result.speedLoaded).toBeCloseTo(achievableSpeed(m, 2, true), 6);
+    expect(result.speedUnloaded).toBeCloseTo(achievableSpeed(m, 2, false), 6);
+  });
+
+  it("segment speed limit still caps model speeds", () => {
+    const result = calculateHaulCycleTime({
+      route: [{ length: 500, grade: 0, speedLimit: 20 }],
+      truckModelId: "haul-40t",
+      loadingTime: 120,
+      unloadingTime: 90,
+    });
+
+    expect(result.segments?.[0].speedUnloaded).toBe(20);
+  });
+
+  it("throws without speeds or a truck model", () => {
+    expect(() =>
+      calculateHaulCycleTime({
+        distanceLoaded: 1000,
+        distanceUnloaded: 1000,
+        loadingTime: 120,
+        unloadingTime: 90,
+      })
+    ).toThrow();
+  });
+
+  it("productivity takes payload from the truck model", () => {
+    const byModel = calculateHaulProductivity({
+      cycleTimeSeconds: 600,
+      truckModelId: "haul-40t",
+    });
+    const byPayload = calculateHaulProductivity({
+      cycleTimeSeconds: 600,
+      payloadTonnes: 40,
+    });
+
+    expect(byModel.tonnesPerTruckYear).toBeCloseTo(byPayload.tonnesPerTruckYear, 6);
+  });
+
+  it("explicit payload overrides the model's rated payload", () => {
+    const result = calculateHaulProductivity({
+      cycleTimeSeconds: 600,
+      truckModelId: "haul-40t",
+      payloadTonnes: 30,
+    });
+
+    // 30 × 6 × 0.486 = 87.48 tph
+    expect(result.tonnesPerHour).toBeCloseTo(87.48, 2);
+  });
+});